@@ -0,0 +1,83 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileCacheProvider, MemoryCacheProvider } from '../../src/cache';
+
+describe('MemoryCacheProvider', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should evict the least recently used entry', async () => {
+        const cache = new MemoryCacheProvider(2);
+
+        await cache.set('a', 1);
+        await cache.set('b', 2);
+        await cache.get('a');
+        await cache.set('c', 3);
+
+        expect(await cache.get('a')).toBe(1);
+        expect(await cache.exists('b')).toBe(false);
+        expect(await cache.get('c')).toBe(3);
+    });
+
+    it('should expire entries', async () => {
+        jest.useFakeTimers();
+        const cache = new MemoryCacheProvider(10, 60);
+
+        await cache.set('default', 'value');
+        await cache.set('short', 'value', 5);
+        jest.advanceTimersByTime(10 * 1000);
+
+        expect(await cache.get('short')).toBeNull();
+        expect(await cache.get('default')).toBe('value');
+
+        jest.advanceTimersByTime(60 * 1000);
+        expect(await cache.exists('default')).toBe(false);
+    });
+});
+
+describe('FileCacheProvider', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'result-cache-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should keep values across instances', async () => {
+        await new FileCacheProvider(directory).set('object-detection:abc:model="x"', { detections: [] });
+
+        const cache = new FileCacheProvider(directory);
+        expect(await cache.get('object-detection:abc:model="x"')).toEqual({ detections: [] });
+        expect(await cache.delete('object-detection:abc:model="x"')).toBe(true);
+        expect(await cache.get('object-detection:abc:model="x"')).toBeNull();
+    });
+
+    it('should allow concurrent writes of the same key', async () => {
+        const cache = new FileCacheProvider(directory);
+
+        await Promise.all([cache.set('a', 1), cache.set('a', 2), cache.set('a', 3)]);
+
+        expect([1, 2, 3]).toContain(await cache.get('a'));
+        expect(await fs.readdir(directory)).toHaveLength(1);
+    });
+
+    it('should remove the oldest files beyond the limit', async () => {
+        const cache = new FileCacheProvider(directory, 2);
+
+        await cache.set('a', 1);
+        // Make 'a' clearly the least recently used
+        const old = new Date(Date.now() - 60 * 1000);
+        await fs.utimes(path.join(directory, (await fs.readdir(directory))[0]), old, old);
+        await cache.set('b', 2);
+        await cache.set('c', 3);
+
+        expect(await fs.readdir(directory)).toHaveLength(2);
+        expect(await cache.exists('a')).toBe(false);
+        expect(await cache.get('c')).toBe(3);
+    });
+});
@@ -0,0 +1,146 @@
+import { pipeline } from '@huggingface/transformers';
+import { ImageDescriptionController } from '../../src/controllers/image-description.controller';
+import { LlamaVisionController } from '../../src/controllers/llama-vision.controller';
+import { SceneAnalysisController } from '../../src/controllers/scene-analysis.controller';
+import { VisionConversationController } from '../../src/controllers/vision-conversation.controller';
+import PrismaService from '../../src/database/prisma-service';
+
+const mockGenerate = jest.fn();
+const mockGenerateStream = jest.fn();
+const mockStoreImage = jest.fn();
+
+// Stub the pipelines, keeping the real image decoding
+jest.mock('@huggingface/transformers', () => ({
+    ...jest.requireActual('@huggingface/transformers'),
+    pipeline: jest.fn()
+}));
+
+// Answer with a fake vision-language provider
+jest.mock('../../src/providers', () => ({
+    createVisionLanguageProvider: () => ({
+        type: 'openai-chat',
+        generate: mockGenerate,
+        generateStream: mockGenerateStream,
+        listModels: jest.fn().mockResolvedValue([])
+    })
+}));
+
+jest.mock('../../src/services/image-storage.service', () => ({
+    ImageStorageService: {
+        getInstance: () => ({ storeImage: mockStoreImage, readImage: jest.fn() })
+    }
+}));
+
+// Mock PrismaService
+jest.mock('../../src/database/prisma-service', () => {
+    const prisma = {
+        visionConversation: { findUnique: jest.fn() },
+        model: { findMany: jest.fn().mockResolvedValue([]) }
+    };
+    return {
+        __esModule: true,
+        default: {
+            getInstance: jest.fn().mockReturnValue({ prisma })
+        }
+    };
+});
+
+/**
+ * An HEIC file: an ftyp box with the heic major brand, followed by nothing libvips could decode
+ */
+function heicImage(): Buffer {
+    const header = Buffer.alloc(24);
+    header.writeUInt32BE(24, 0);
+    header.write('ftypheic', 4, 'ascii');
+    header.write('mif1heic', 16, 'ascii');
+    return Buffer.concat([header, Buffer.alloc(64)]);
+}
+
+function mockResponse(): any {
+    const res: any = {
+        locals: { language: 'en' },
+        headersSent: false,
+        writableEnded: false,
+        on: jest.fn(),
+        setHeader: jest.fn(),
+        flushHeaders: jest.fn(),
+        write: jest.fn(),
+        end: jest.fn()
+    };
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockReturnValue(res);
+    return res;
+}
+
+describe('HEIC uploads', () => {
+    const prisma = PrismaService.getInstance().prisma as any;
+    let req: any;
+    let res: any;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (pipeline as unknown as jest.Mock).mockRejectedValue(new Error('No model should be loaded'));
+        req = {
+            user: { id: 'user-1' },
+            params: {},
+            query: {},
+            body: {},
+            file: { buffer: heicImage(), originalname: 'photo.heic', mimetype: 'image/heic' }
+        };
+        res = mockResponse();
+    });
+
+    function expectUnsupported(): void {
+        expect(res.status).toHaveBeenCalledWith(415);
+        expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: false, format: 'heic' }));
+        expect(mockGenerate).not.toHaveBeenCalled();
+        expect(mockGenerateStream).not.toHaveBeenCalled();
+    }
+
+    it('are rejected by /describe-image', async () => {
+        await new ImageDescriptionController().describeImage(req, res);
+        expectUnsupported();
+    });
+
+    it('are rejected by /describe-image/stream before the stream opens', async () => {
+        await new ImageDescriptionController().describeImageStream(req, res);
+        expectUnsupported();
+        expect(res.write).not.toHaveBeenCalled();
+    });
+
+    it('are rejected by /llama/describe-image', async () => {
+        await new LlamaVisionController().describeImage(req, res);
+        expectUnsupported();
+    });
+
+    it('are rejected by /analyze-scene', async () => {
+        await new SceneAnalysisController().analyzeScene(req, res);
+        expectUnsupported();
+    });
+
+    it('are rejected when creating a conversation, without storing the image', async () => {
+        req.body.question = 'What is this?';
+        await new VisionConversationController().createConversation(req, res);
+        expectUnsupported();
+        expect(mockStoreImage).not.toHaveBeenCalled();
+    });
+
+    it('are rejected when asking about a stored HEIC image', async () => {
+        const image = heicImage();
+        req.params.id = 'conversation-1';
+        req.body.question = 'What color is it?';
+        const conversation = {
+            id: 'conversation-1',
+            userId: 'user-1',
+            visionAnalysis: { imagePath: 'originals/ab/abc.heic' },
+            turns: []
+        };
+        prisma.visionConversation.findUnique.mockResolvedValue(conversation);
+        const controller = new VisionConversationController();
+        (controller as any).conversationService.imageStorage.readImage = jest.fn()
+            .mockResolvedValue({ data: image, contentType: 'image/heic' });
+
+        await controller.askQuestion(req, res);
+        expectUnsupported();
+    });
+});
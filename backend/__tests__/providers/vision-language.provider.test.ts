@@ -0,0 +1,201 @@
+import fetch from 'node-fetch';
+import { createVisionLanguageProvider, LlamaCompletionProvider, OllamaProvider, OpenAIChatProvider } from '../../src/providers';
+import { VisionLanguageConfig } from '../../src/config/Config';
+import { VisionChatMessage } from '../../src/interfaces/IVisionLanguageProvider';
+
+// node-fetch is ESM-only, so it is replaced entirely
+jest.mock('node-fetch', () => ({
+    __esModule: true,
+    default: jest.fn(),
+}));
+
+const mockFetch = fetch as unknown as jest.Mock;
+
+const baseConfig: VisionLanguageConfig = {
+    provider: 'openai-chat',
+    baseUrl: 'http://vlm:8080',
+    model: 'test-model',
+    timeout: 1000,
+    modelsCacheTTL: 1000,
+};
+
+// A minimal JPEG header is enough for MIME detection
+const image = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00]);
+
+const messages: VisionChatMessage[] = [
+    { role: 'user', content: 'What is this?', images: [image] },
+    { role: 'assistant', content: 'A mug.' },
+    { role: 'user', content: 'What color?' },
+];
+
+function jsonResponse(body: unknown) {
+    return { ok: true, status: 200, json: async () => body, text: async () => JSON.stringify(body), body: null };
+}
+
+function streamResponse(chunks: Array<string | Buffer>) {
+    async function* body() {
+        for (const chunk of chunks) {
+            yield Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        }
+    }
+    return { ok: true, status: 200, body: body() };
+}
+
+function sentPayload(): any {
+    return JSON.parse(mockFetch.mock.calls[0][1].body);
+}
+
+describe('createVisionLanguageProvider', () => {
+    it('should create the provider selected by configuration', () => {
+        expect(createVisionLanguageProvider(baseConfig)).toBeInstanceOf(OpenAIChatProvider);
+        expect(createVisionLanguageProvider({ ...baseConfig, provider: 'llama-completion' })).toBeInstanceOf(LlamaCompletionProvider);
+        expect(createVisionLanguageProvider({ ...baseConfig, provider: 'ollama' })).toBeInstanceOf(OllamaProvider);
+    });
+
+    it('should reject unknown providers', () => {
+        expect(() => createVisionLanguageProvider({ ...baseConfig, provider: 'nope' as any })).toThrow('Unknown vision-language provider');
+    });
+});
+
+describe('vision-language providers', () => {
+    beforeEach(() => {
+        mockFetch.mockReset();
+    });
+
+    it('openai-chat should send images as data URLs and read the first choice', async () => {
+        mockFetch.mockResolvedValue(jsonResponse({ choices: [{ message: { role: 'assistant', content: ' Blue. ' } }] }));
+        const provider = new OpenAIChatProvider(baseConfig);
+
+        const result = await provider.generate(messages, { maxNewTokens: 50 });
+
+        expect(mockFetch.mock.calls[0][0]).toBe('http://vlm:8080/v1/chat/completions');
+        const payload = sentPayload();
+        expect(payload.model).toBe('test-model');
+        expect(payload.max_tokens).toBe(50);
+        expect(payload.messages[0].content[1].image_url.url).toMatch(/^data:image\/jpeg;base64,/);
+        expect(payload.messages[2]).toEqual({ role: 'user', content: 'What color?' });
+        expect(result.text).toBe('Blue.');
+    });
+
+    it('openai-chat should relay streamed deltas', async () => {
+        mockFetch.mockResolvedValue(streamResponse([
+            'data: {"choices":[{"delta":{"content":"A "}}]}\n\n',
+            'data: {"choices":[{"delta":{"content":"mug."}}]}\n\ndata: [DONE]\n\n',
+        ]));
+        const provider = new OpenAIChatProvider(baseConfig);
+        const tokens: string[] = [];
+
+        const result = await provider.generateStream(messages, {}, token => tokens.push(token));
+
+        expect(sentPayload().stream).toBe(true);
+        expect(tokens).toEqual(['A ', 'mug.']);
+        expect(result.text).toBe('A mug.');
+    });
+
+    it('llama-completion should render ChatML and reference images by id', async () => {
+        mockFetch.mockResolvedValue(jsonResponse({ content: 'Blue.' }));
+        const provider = new LlamaCompletionProvider({ ...baseConfig, provider: 'llama-completion' });
+
+        const result = await provider.generate(messages);
+
+        expect(mockFetch.mock.calls[0][0]).toBe('http://vlm:8080/completion');
+        const payload = sentPayload();
+        expect(payload.prompt).toBe(
+            '<|im_start|>user\n[img-1]\nWhat is this?<|im_end|>\n' +
+            '<|im_start|>assistant\nA mug.<|im_end|>\n' +
+            '<|im_start|>user\nWhat color?<|im_end|>\n' +
+            '<|im_start|>assistant\n'
+        );
+        expect(payload.image_data).toEqual([{ data: image.toString('base64'), id: 1 }]);
+        expect(result.text).toBe('Blue.');
+    });
+
+    it('ollama should attach base64 images and read newline-delimited stream chunks', async () => {
+        mockFetch.mockResolvedValue(streamResponse([
+            '{"model":"test-model","message":{"role":"assistant","content":"Bl"},"done":false}\n{"model":"test-model",',
+            '"message":{"role":"assistant","content":"ue."},"done":false}\n{"model":"test-model","done":true}\n',
+        ]));
+        const provider = new OllamaProvider({ ...baseConfig, provider: 'ollama' });
+        const tokens: string[] = [];
+
+        const result = await provider.generateStream(messages, {}, token => tokens.push(token));
+
+        expect(mockFetch.mock.calls[0][0]).toBe('http://vlm:8080/api/chat');
+        expect(sentPayload().messages[0].images).toEqual([image.toString('base64')]);
+        expect(tokens).toEqual(['Bl', 'ue.']);
+        expect(result.text).toBe('Blue.');
+    });
+
+    it('ollama should decode characters split across chunks and skip malformed lines', async () => {
+        const bytes = Buffer.from(
+            '{"model":"test-model","message":{"role":"assistant","content":"Açúcar."},"done":false}\n' +
+            '{"model":"test-model","mess\n' +
+            '{"model":"test-model","done":true}\n'
+        );
+        // Cut inside the two-byte "ç"
+        const splitAt = bytes.indexOf(Buffer.from('ç')) + 1;
+        mockFetch.mockResolvedValue(streamResponse([bytes.subarray(0, splitAt), bytes.subarray(splitAt)]));
+        const provider = new OllamaProvider({ ...baseConfig, provider: 'ollama' });
+        const tokens: string[] = [];
+
+        const result = await provider.generateStream(messages, {}, token => tokens.push(token));
+
+        expect(tokens).toEqual(['Açúcar.']);
+        expect(result.text).toBe('Açúcar.');
+    });
+
+    it('should surface server errors', async () => {
+        mockFetch.mockResolvedValue({ ok: false, status: 503, text: async () => 'loading model' });
+        const provider = new OpenAIChatProvider(baseConfig);
+
+        await expect(provider.generate(messages)).rejects.toThrow('failed with status 503: loading model');
+    });
+
+    it('should discover llama.cpp models with their context size and vision support', async () => {
+        mockFetch.mockImplementation(async (url: string) => {
+            if (url.endsWith('/v1/models')) {
+                return jsonResponse({ data: [{ id: 'smolvlm', owned_by: 'llamacpp', meta: { n_ctx_train: 8192 } }] });
+            }
+            return jsonResponse({ default_generation_settings: { n_ctx: 4096 }, modalities: { vision: true } });
+        });
+        const provider = new OpenAIChatProvider(baseConfig);
+
+        const models = await provider.listModels();
+
+        expect(mockFetch.mock.calls[1][0]).toBe('http://vlm:8080/props?model=smolvlm');
+        expect(models).toEqual([{ id: 'smolvlm', ownedBy: 'llamacpp', contextSize: 4096, multimodal: true }]);
+        await expect(provider.unloadModel('smolvlm')).resolves.toBe(false);
+    });
+
+    it('should leave unknown capabilities null when the server has no /props', async () => {
+        mockFetch.mockImplementation(async (url: string) => {
+            if (url.endsWith('/v1/models')) {
+                return jsonResponse({ data: [{ id: 'qwen-vl' }] });
+            }
+            return { ok: false, status: 404, text: async () => 'Not Found' };
+        });
+        const provider = new OpenAIChatProvider(baseConfig);
+
+        await expect(provider.listModels()).resolves.toEqual([
+            { id: 'qwen-vl', ownedBy: null, contextSize: null, multimodal: null },
+        ]);
+    });
+
+    it('ollama should discover models from /api/tags and /api/show', async () => {
+        mockFetch.mockImplementation(async (url: string, init: any) => {
+            if (url.endsWith('/api/tags')) {
+                return jsonResponse({ models: [{ name: 'llava:7b' }, { name: 'llama3:8b' }] });
+            }
+            const { model } = JSON.parse(init.body);
+            return jsonResponse(model === 'llava:7b'
+                ? { capabilities: ['completion', 'vision'], model_info: { 'llama.context_length': 32768 } }
+                : { details: { families: ['llama'] }, model_info: { 'llama.context_length': 8192 } });
+        });
+        const provider = new OllamaProvider({ ...baseConfig, provider: 'ollama' });
+
+        await expect(provider.listModels()).resolves.toEqual([
+            { id: 'llava:7b', ownedBy: null, contextSize: 32768, multimodal: true },
+            { id: 'llama3:8b', ownedBy: null, contextSize: 8192, multimodal: false },
+        ]);
+    });
+});
@@ -0,0 +1,39 @@
+import { validationResult } from 'express-validator';
+import { languageValidation } from '../../src/schemas/language.schema';
+
+/**
+ * Run the language validation on a query string
+ */
+async function validateLanguage(query: Record<string, unknown>) {
+    const req: any = { query };
+    await languageValidation.run(req);
+    return { query: req.query, errors: validationResult(req).array().map((error: any) => error.msg) };
+}
+
+describe('languageValidation', () => {
+    it.each([
+        ['pt', 'pt-BR'],
+        ['pt-BR', 'pt-BR'],
+        ['es-MX', 'es'],
+        ['en-US', 'en'],
+        ['EN', 'en']
+    ])('accepts %s as %s', async (tag, language) => {
+        const result = await validateLanguage({ language: tag });
+
+        expect(result.errors).toEqual([]);
+        expect(result.query.language).toBe(language);
+    });
+
+    it.each(['fr', 'de-DE', ''])('rejects %p', async tag => {
+        const result = await validateLanguage({ language: tag });
+
+        expect(result.errors).toEqual(['language must be one of: en, pt-BR, es']);
+    });
+
+    it('leaves the language out when none is sent', async () => {
+        const result = await validateLanguage({});
+
+        expect(result.errors).toEqual([]);
+        expect(result.query.language).toBeUndefined();
+    });
+});
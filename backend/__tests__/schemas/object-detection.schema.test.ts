@@ -0,0 +1,77 @@
+import { validationResult } from 'express-validator';
+import {
+    findObjectsValidation,
+    MAX_DETECTION_QUERIES,
+    parseDetectionQueries
+} from '../../src/schemas/object-detection.schema';
+
+// Mock PrismaService with a registry of one closed-set and one zero-shot detector
+jest.mock('../../src/database/prisma-service', () => {
+    const model = (name: string, type: string) => ({
+        id: `${name}-id`, name, type, quantizations: [], capabilities: [], enabled: true
+    });
+    return {
+        __esModule: true,
+        default: {
+            getInstance: jest.fn().mockReturnValue({
+                prisma: {
+                    model: {
+                        findMany: jest.fn().mockResolvedValue([
+                            model('Xenova/yolos-tiny', 'object-detection'),
+                            model('Xenova/owlvit-base-patch32', 'zero-shot-object-detection')
+                        ]),
+                    },
+                },
+            }),
+        },
+    };
+});
+
+/**
+ * Run the /find validation on a query string and return the messages by field
+ */
+async function validateFind(query: Record<string, unknown>): Promise<Record<string, string>> {
+    const req: any = { query, body: {} };
+    for (const validation of findObjectsValidation) {
+        await validation.run(req);
+    }
+    return Object.fromEntries(validationResult(req).array().map((error: any) => [error.path, error.msg]));
+}
+
+describe('parseDetectionQueries', () => {
+    it('splits comma separated queries, trimming and lowercasing them', () => {
+        expect(parseDetectionQueries(' Keys, white cane ,,')).toEqual(['keys', 'white cane']);
+    });
+
+    it('accepts repeated parameters and drops duplicates', () => {
+        expect(parseDetectionQueries(['keys,Wallet', 'keys', 'phone'])).toEqual(['keys', 'wallet', 'phone']);
+    });
+
+    it('ignores values that are not strings', () => {
+        expect(parseDetectionQueries(undefined)).toEqual([]);
+        expect(parseDetectionQueries({ keys: 'wallet' })).toEqual([]);
+    });
+});
+
+describe('findObjectsValidation', () => {
+    it('accepts queries with a zero-shot model', async () => {
+        expect(await validateFind({ queries: 'keys', model: 'Xenova/owlvit-base-patch32' })).toEqual({});
+    });
+
+    it('requires at least one query', async () => {
+        expect((await validateFind({ queries: ' , ' })).queries).toMatch(/At least one query/);
+        expect((await validateFind({})).queries).toMatch(/At least one query/);
+    });
+
+    it('limits the number and length of queries', async () => {
+        const tooMany = Array.from({ length: MAX_DETECTION_QUERIES + 1 }, (_, index) => `thing ${index}`).join(',');
+
+        expect((await validateFind({ queries: tooMany })).queries).toMatch(/At most/);
+        expect((await validateFind({ queries: 'x'.repeat(101) })).queries).toMatch(/at most 100 characters/);
+    });
+
+    it('rejects closed-set detection models', async () => {
+        expect((await validateFind({ queries: 'keys', model: 'Xenova/yolos-tiny' })).model)
+            .toMatch(/is a object-detection model, expected zero-shot-object-detection/);
+    });
+});
@@ -0,0 +1,76 @@
+import { promises as fs } from 'fs';
+import sharp from 'sharp';
+import { prepareZXingModule, writeBarcode } from 'zxing-wasm/writer';
+import { BarcodeService } from '../../src/services/barcode.service';
+
+// A catalog with one product, without a database
+jest.mock('../../src/services/product-catalog.service', () => ({
+    ProductCatalogService: {
+        getInstance: () => ({
+            findByBarcodes: async (gtins: string[]) => new Map(gtins
+                .filter(gtin => gtin === '4006381333931')
+                .map(gtin => [gtin, {
+                    barcode: gtin,
+                    name: 'Sparkling water',
+                    brand: 'Fontaine',
+                    quantity: '1.5 l',
+                    category: null,
+                    description: null
+                }]))
+        })
+    }
+}));
+
+/**
+ * A PNG of a code, with a white margin
+ */
+async function createCode(text: string, format: 'EAN-13' | 'QRCode'): Promise<Buffer> {
+    const { image, error } = await writeBarcode(text, { format, scale: 4 });
+    if (!image) {
+        throw new Error(error);
+    }
+    return sharp(Buffer.from(await image.arrayBuffer()))
+        .extend({ top: 40, bottom: 40, left: 40, right: 40, background: '#ffffff' })
+        .png()
+        .toBuffer();
+}
+
+describe('BarcodeService', () => {
+    const barcodes = BarcodeService.getInstance();
+
+    beforeAll(async () => {
+        const wasm = await fs.readFile(require.resolve('zxing-wasm/writer/zxing_writer.wasm'));
+        await prepareZXingModule({ overrides: { wasmBinary: new Uint8Array(wasm).buffer }, fireImmediately: true });
+    });
+
+    it('names the catalog product of an EAN code', async () => {
+        const result = await barcodes.readBarcodes(await createCode('4006381333931', 'EAN-13'));
+
+        expect(result.barcodes).toHaveLength(1);
+        expect(result.barcodes[0]).toMatchObject({ format: 'EAN13', gtin: '4006381333931' });
+        expect(result.barcodes[0].box.xmax).toBeGreaterThan(result.barcodes[0].box.xmin);
+        expect(result.summary).toBe('Sparkling water by Fontaine, 1.5 l.');
+    });
+
+    it('says what kind of QR code it is', async () => {
+        const result = await barcodes.readBarcodes(await createCode('WIFI:T:WPA;S:Home;P:secret;;', 'QRCode'));
+
+        expect(result.barcodes[0].payload).toEqual({
+            type: 'wifi',
+            ssid: 'Home',
+            security: 'WPA',
+            password: 'secret',
+            hidden: false
+        });
+        expect(result.summary).toBe('QR code for the Wi-Fi network Home.');
+    });
+
+    it('reports images without codes', async () => {
+        const blank = await sharp({ create: { width: 200, height: 200, channels: 3, background: '#ffffff' } }).png().toBuffer();
+
+        const result = await barcodes.readBarcodes(blank);
+
+        expect(result.barcodes).toEqual([]);
+        expect(result.summary).toBe('No barcode found.');
+    });
+});
@@ -0,0 +1,49 @@
+import sharp from 'sharp';
+import { ColorAnalysisService } from '../../src/services/color-analysis.service';
+
+describe('ColorAnalysisService', () => {
+    const colorAnalysis = ColorAnalysisService.getInstance();
+    let image: Buffer;
+
+    beforeAll(async () => {
+        // Larger than the preprocessing limit: navy on the left, red and white stripes on the right
+        const width = 2400;
+        const height = 1200;
+        const data = Buffer.alloc(width * height * 3);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const color = x < width / 2 ? [20, 30, 75] : Math.floor(y / 100) % 2 ? [250, 250, 245] : [205, 25, 30];
+                data.set(color, (y * width + x) * 3);
+            }
+        }
+        image = await sharp(data, { raw: { width, height, channels: 3 } }).png().toBuffer();
+    });
+
+    it('analyzes a region given in the coordinates of the original image', async () => {
+        const result = await colorAnalysis.analyzeColors(image, { box: { xmin: 1300, ymin: 0, xmax: 2400, ymax: 1200 } });
+
+        expect(result.pattern).toBe('striped');
+        expect(result.stripeDirection).toBe('horizontal');
+        expect(result.region).toEqual({ xmin: 1300, ymin: 0, xmax: 2400, ymax: 1200 });
+    });
+
+    it('describes the clothing of detected people', async () => {
+        const preprocessed = { buffer: image, info: {
+            kind: 'object-detection',
+            model: 'Xenova/yolos-tiny',
+            originalFormat: 'png',
+            format: 'png',
+            originalSize: { width: 2400, height: 1200 },
+            size: { width: 2400, height: 1200 },
+            steps: []
+        } };
+
+        const [person, cup] = await colorAnalysis.analyzeDetections(preprocessed, [
+            { label: 'person', score: 0.9, box: { xmin: 100, ymin: 0, xmax: 1100, ymax: 1200 } },
+            { label: 'cup', score: 0.8, box: { xmin: 1300, ymin: 0, xmax: 2400, ymax: 1200 } }
+        ]);
+
+        expect(person.phrase).toBe('solid navy blue clothing');
+        expect(cup.pattern).toBe('striped');
+    });
+});
@@ -0,0 +1,48 @@
+import { DetectionProfileService, DetectionProfileError } from '../../src/services/detection-profile.service';
+import PrismaService from '../../src/database/prisma-service';
+
+// Mock PrismaService
+jest.mock('../../src/database/prisma-service', () => {
+    const prisma = {
+        appSettings: { findUnique: jest.fn(), upsert: jest.fn() }
+    };
+    return {
+        __esModule: true,
+        default: {
+            getInstance: jest.fn().mockReturnValue({ prisma })
+        }
+    };
+});
+
+describe('DetectionProfileService', () => {
+    const service = DetectionProfileService.getInstance();
+    const prisma = PrismaService.getInstance().prisma as any;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        prisma.appSettings.findUnique.mockResolvedValue({
+            detectionProfiles: { street: { labels: ['car', 'person'] } },
+            activeDetectionProfile: null
+        });
+    });
+
+    it('resolves saved profiles by name', async () => {
+        await expect(service.resolveProfile('user-1', 'street'))
+            .resolves.toEqual({ name: 'street', profile: { labels: ['car', 'person'] } });
+    });
+
+    it.each(['constructor', 'toString', '__proto__'])('treats the inherited property %s as an unknown profile', async name => {
+        await expect(service.resolveProfile('user-1', name)).rejects.toBeInstanceOf(DetectionProfileError);
+        await expect(service.setActiveProfile('user-1', name)).rejects.toBeInstanceOf(DetectionProfileError);
+        await expect(service.deleteProfile('user-1', name)).resolves.toBe(false);
+        expect(prisma.appSettings.upsert).not.toHaveBeenCalled();
+    });
+
+    it('counts a profile named like an inherited property as a new one', async () => {
+        const profiles = Object.fromEntries(Array.from({ length: 20 }, (_, index) => [`profile-${index}`, {}]));
+        prisma.appSettings.findUnique.mockResolvedValue({ detectionProfiles: profiles, activeDetectionProfile: null });
+
+        await expect(service.saveProfile('user-1', 'constructor', { threshold: 0.5 }))
+            .rejects.toThrow('At most 20 detection profiles can be saved');
+    });
+});
@@ -0,0 +1,108 @@
+import sharp from 'sharp';
+import { ImagePreprocessingService, UnsupportedImageFormatError } from '../../src/services/image-preprocessing.service';
+
+/**
+ * A plain image of the given size, optionally tagged with an EXIF orientation
+ */
+async function createImage(width: number, height: number, format: 'jpeg' | 'png' | 'tiff', orientation?: number): Promise<Buffer> {
+    let image = sharp({ create: { width, height, channels: 3, background: { r: 200, g: 80, b: 40 } } });
+    if (orientation) {
+        image = image.withMetadata({ orientation });
+    }
+    return image.toFormat(format).toBuffer();
+}
+
+describe('ImagePreprocessingService', () => {
+    const preprocessing = ImagePreprocessingService.getInstance();
+
+    it('passes small upright images through untouched', async () => {
+        const buffer = await createImage(640, 480, 'png');
+
+        const result = await preprocessing.normalize(buffer, 'object-detection', 'Xenova/yolos-tiny');
+
+        expect(result.buffer).toBe(buffer);
+        expect(result.info.steps).toEqual([]);
+        expect(result.info.size).toEqual({ width: 640, height: 480 });
+    });
+
+    it('turns rotated photos upright, strips their metadata and downscales them', async () => {
+        // Stored landscape, displayed portrait
+        const buffer = await createImage(4000, 3000, 'jpeg', 6);
+
+        const result = await preprocessing.normalize(buffer, 'object-detection', 'Xenova/yolos-tiny');
+        const metadata = await sharp(result.buffer).metadata();
+
+        expect(result.info.steps).toEqual([
+            'auto-orient (EXIF orientation 6)',
+            'strip-metadata',
+            'resize 3000x4000 -> 960x1280'
+        ]);
+        expect(result.info.originalSize).toEqual({ width: 3000, height: 4000 });
+        expect(result.info.size).toEqual({ width: 960, height: 1280 });
+        expect(metadata.width).toBe(960);
+        expect(metadata.height).toBe(1280);
+        expect(metadata.orientation).toBeUndefined();
+        expect(metadata.exif).toBeUndefined();
+    });
+
+    it('converts formats the models cannot read', async () => {
+        const buffer = await createImage(320, 240, 'tiff');
+
+        const result = await preprocessing.normalize(buffer, 'image-description', 'internvl3-1b');
+
+        expect(result.info.originalFormat).toBe('tiff');
+        expect(result.info.format).toBe('jpeg');
+        expect(result.info.steps).toContain('convert tiff -> jpeg');
+        expect((await sharp(result.buffer).metadata()).format).toBe('jpeg');
+    });
+
+    it('converts AVIF images to JPEG', async () => {
+        const buffer = await sharp({ create: { width: 320, height: 240, channels: 3, background: { r: 20, g: 90, b: 160 } } })
+            .avif()
+            .toBuffer();
+
+        const result = await preprocessing.normalize(buffer, 'object-detection', 'Xenova/yolos-tiny');
+
+        expect(result.info.steps).toContain('convert heif -> jpeg');
+        expect((await sharp(result.buffer).metadata()).format).toBe('jpeg');
+    });
+
+    it('rejects HEIC images as unsupported', async () => {
+        // ftyp box as written by iPhone cameras: major brand heic, compatible brands mif1 and heic
+        const header = Buffer.alloc(24);
+        header.writeUInt32BE(24, 0);
+        header.write('ftypheic', 4, 'ascii');
+        header.write('mif1heic', 16, 'ascii');
+        const buffer = Buffer.concat([header, Buffer.alloc(64)]);
+
+        const result = preprocessing.normalize(buffer, 'object-detection', 'Xenova/yolos-tiny');
+
+        await expect(result).rejects.toBeInstanceOf(UnsupportedImageFormatError);
+        await expect(result).rejects.toThrow('HEIC images are not supported');
+    });
+
+    it('uses the per-kind maximum size', () => {
+        expect(preprocessing.getMaxDimension('ocr', 'Xenova/trocr-small-printed')).toBe(2560);
+        expect(preprocessing.getMaxDimension('object-detection', 'Xenova/yolos-tiny')).toBe(1280);
+    });
+
+    it('rejects data that is not an image', async () => {
+        await expect(preprocessing.normalize(Buffer.from('not an image'), 'ocr', 'Xenova/trocr-small-printed'))
+            .rejects.toThrow('Unsupported or corrupt image');
+    });
+
+    it('maps boxes back to the coordinates of the original', () => {
+        const info = {
+            kind: 'object-detection',
+            model: 'Xenova/yolos-tiny',
+            originalFormat: 'jpeg',
+            format: 'jpeg',
+            originalSize: { width: 3000, height: 4000 },
+            size: { width: 960, height: 1280 },
+            steps: []
+        };
+
+        expect(preprocessing.toOriginalCoordinates({ xmin: 96, ymin: 128, xmax: 480, ymax: 640, width: 384, height: 512 }, info))
+            .toEqual({ xmin: 300, ymin: 400, xmax: 1500, ymax: 2000, width: 1200, height: 1600 });
+    });
+});
@@ -0,0 +1,68 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { ImageStorageService } from '../../src/services/image-storage.service';
+
+const mockStorageDirectory = path.join(os.tmpdir(), `image-storage-service-${process.pid}`);
+
+// Store images in a temporary directory
+jest.mock('../../src/storage', () => {
+    const actual = jest.requireActual('../../src/storage');
+    return {
+        ...actual,
+        createImageStorageProvider: () => new actual.LocalImageStorageProvider(mockStorageDirectory)
+    };
+});
+
+describe('ImageStorageService', () => {
+    const storage = ImageStorageService.getInstance();
+    let image: Buffer;
+
+    beforeAll(async () => {
+        image = await sharp({ create: { width: 1200, height: 800, channels: 3, background: { r: 20, g: 120, b: 200 } } })
+            .png()
+            .toBuffer();
+    });
+
+    afterAll(async () => {
+        await fs.rm(mockStorageDirectory, { recursive: true, force: true });
+    });
+
+    it('stores an image once per content hash', async () => {
+        const first = await storage.storeImage(image);
+        const second = await storage.storeImage(image);
+
+        expect(first.imagePath).toBe(`originals/${first.imageHash.slice(0, 2)}/${first.imageHash}.png`);
+        expect(second).toEqual(first);
+        expect(await fs.readdir(path.join(mockStorageDirectory, 'originals', first.imageHash.slice(0, 2)))).toHaveLength(1);
+
+        const stored = await storage.readImage(first.imagePath);
+        expect(stored?.contentType).toBe('image/png');
+        expect(stored?.data.equals(image)).toBe(true);
+    });
+
+    it('creates a JPEG thumbnail', async () => {
+        const { imageHash, imagePath } = await storage.storeImage(image);
+
+        const thumbnail = await storage.readThumbnail(imageHash, imagePath);
+        const metadata = await sharp(thumbnail!.data).metadata();
+
+        expect(thumbnail?.contentType).toBe('image/jpeg');
+        expect(metadata.format).toBe('jpeg');
+        expect(Math.max(metadata.width!, metadata.height!)).toBe(256);
+    });
+
+    it('only reads images inside the storage directory', async () => {
+        const outside = path.join(os.tmpdir(), `image-storage-outside-${process.pid}.jpg`);
+        await fs.writeFile(outside, Buffer.from('not a stored image'));
+
+        try {
+            await expect(storage.readImage(outside)).rejects.toThrow('Invalid image storage key');
+            await expect(storage.readImage('../outside.jpg')).rejects.toThrow('Invalid image storage key');
+            expect(await storage.readImage('originals/no/none.jpg')).toBeNull();
+        } finally {
+            await fs.rm(outside, { force: true });
+        }
+    });
+});
@@ -0,0 +1,119 @@
+import { InferenceQueueService, QueueFullError } from '../../src/services/inference-queue.service';
+
+jest.mock('../../src/config/Config', () => ({
+    Config: {
+        getInstance: () => ({
+            inferenceQueue: {
+                defaultConcurrency: 1,
+                concurrency: { 'image-description': 2 },
+                maxQueueLength: 2,
+                defaultRetryAfter: 5
+            }
+        })
+    }
+}));
+
+/**
+ * A job that finishes when release() is called
+ */
+function deferred(name: string, log: string[]) {
+    let release!: () => void;
+    const done = new Promise<void>(resolve => { release = resolve; });
+    return {
+        task: async () => {
+            log.push(`start ${name}`);
+            await done;
+            return name;
+        },
+        release
+    };
+}
+
+describe('InferenceQueueService', () => {
+    const queue = InferenceQueueService.getInstance();
+
+    it('should run interactive jobs before waiting batch jobs', async () => {
+        const log: string[] = [];
+        const first = deferred('first', log);
+        const batch = deferred('batch', log);
+        const camera = deferred('camera', log);
+
+        const results = [
+            queue.run('object-detection:model-a', first.task),
+            queue.run('object-detection:model-a', batch.task, 'batch'),
+            queue.run('object-detection:model-a', camera.task, 'interactive')
+        ];
+        await Promise.resolve();
+        expect(log).toEqual(['start first']);
+
+        first.release();
+        camera.release();
+        batch.release();
+        await expect(Promise.all(results)).resolves.toEqual(['first', 'batch', 'camera']);
+        expect(log).toEqual(['start first', 'start camera', 'start batch']);
+    });
+
+    it('should reject jobs when the queue is full', async () => {
+        const log: string[] = [];
+        const jobs = [0, 1, 2].map(index => deferred(`job ${index}`, log));
+        const running = jobs.map(job => queue.run('object-detection:model-b', job.task));
+
+        await expect(queue.run('object-detection:model-b', async () => 'late')).rejects.toBeInstanceOf(QueueFullError);
+
+        jobs.forEach(job => job.release());
+        await Promise.all(running);
+
+        const stats = queue.getStats().find(item => item.resource === 'object-detection:model-b');
+        expect(stats).toMatchObject({ completed: 3, rejected: 1, active: 0, waiting: { interactive: 0, batch: 0 } });
+    });
+
+    it('should accept interactive jobs when batch jobs fill their lane', async () => {
+        const log: string[] = [];
+        const jobs = [0, 1, 2].map(index => deferred(`batch ${index}`, log));
+        const camera = deferred('camera', log);
+        const running = jobs.map(job => queue.run('object-detection:model-d', job.task, 'batch'));
+
+        await expect(queue.run('object-detection:model-d', async () => 'late', 'batch')).rejects.toBeInstanceOf(QueueFullError);
+        const interactive = queue.run('object-detection:model-d', camera.task, 'interactive');
+
+        jobs[0].release();
+        camera.release();
+        await expect(interactive).resolves.toBe('camera');
+        jobs.slice(1).forEach(job => job.release());
+        await Promise.all(running);
+        expect(log).toEqual(['start batch 0', 'start camera', 'start batch 1', 'start batch 2']);
+    });
+
+    it('should use the concurrency configured for the kind', async () => {
+        const log: string[] = [];
+        const jobs = [0, 1, 2].map(index => deferred(`job ${index}`, log));
+        const running = jobs.map(job => queue.run('image-description:some-vlm', job.task));
+
+        await Promise.resolve();
+        expect(log).toEqual(['start job 0', 'start job 1']);
+
+        jobs.forEach(job => job.release());
+        await Promise.all(running);
+    });
+
+    it('should drop waiting jobs whose request was aborted', async () => {
+        const log: string[] = [];
+        const first = deferred('first', log);
+        const abandoned = deferred('abandoned', log);
+        const next = deferred('next', log);
+        const abortController = new AbortController();
+
+        const running = queue.run('object-detection:model-c', first.task);
+        const cancelled = queue.run('object-detection:model-c', abandoned.task, 'interactive', abortController.signal);
+        const waiting = queue.run('object-detection:model-c', next.task);
+
+        abortController.abort();
+        await expect(cancelled).rejects.toThrow('was cancelled');
+        expect(queue.getStats().find(item => item.resource === 'object-detection:model-c')?.waiting.interactive).toBe(1);
+
+        first.release();
+        next.release();
+        await expect(Promise.all([running, waiting])).resolves.toEqual(['first', 'next']);
+        expect(log).toEqual(['start first', 'start next']);
+    });
+});
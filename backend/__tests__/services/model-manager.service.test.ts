@@ -0,0 +1,123 @@
+import { ModelManagerService } from '../../src/services/model-manager.service';
+
+jest.mock('../../src/config/Config', () => ({
+    Config: {
+        getInstance: () => ({
+            modelManager: {
+                maxLoaded: 2,
+                preloadModels: ['object-detection:model-p', 'text-to-speech'],
+                cacheTTL: 60000,
+                memoryBudgetMB: 500
+            }
+        })
+    }
+}));
+
+/**
+ * A fake pipeline that records when it is disposed
+ */
+function fakeModel(name: string, disposed: string[]) {
+    return {
+        name,
+        dispose: async () => {
+            disposed.push(name);
+        }
+    };
+}
+
+describe('ModelManagerService', () => {
+    let manager: ModelManagerService;
+    let disposed: string[];
+
+    beforeAll(() => {
+        jest.useFakeTimers();
+        manager = ModelManagerService.getInstance();
+    });
+
+    afterAll(() => {
+        jest.useRealTimers();
+    });
+
+    beforeEach(() => {
+        disposed = [];
+    });
+
+    afterEach(() => {
+        manager.unloadAll();
+    });
+
+    function load(name: string, sizeMB = 10) {
+        const loader = jest.fn(async () => fakeModel(name, disposed));
+        return { loader, promise: manager.load('object-detection', name, loader, { modelName: name, sizeMB }) };
+    }
+
+    function stats(name: string) {
+        return manager.getStatus().models.find(model => model.key === name);
+    }
+
+    it('should load a model once and count hits', async () => {
+        const first = load('model-a');
+        const second = load('model-a');
+
+        expect((await first.promise).name).toBe('model-a');
+        expect((await second.promise).name).toBe('model-a');
+        expect(first.loader).toHaveBeenCalledTimes(1);
+        expect(second.loader).not.toHaveBeenCalled();
+        expect(stats('model-a')).toMatchObject({ loaded: true, loads: 1, hits: 1, estimatedMemoryMB: 10 });
+    });
+
+    it('should evict the least recently used model beyond maxLoaded', async () => {
+        await load('model-b').promise;
+        jest.advanceTimersByTime(10);
+        await load('model-c').promise;
+        jest.advanceTimersByTime(10);
+        await load('model-b').promise;
+        jest.advanceTimersByTime(10);
+        await load('model-d').promise;
+
+        expect(manager.isLoaded('object-detection', 'model-b')).toBe(true);
+        expect(manager.isLoaded('object-detection', 'model-c')).toBe(false);
+        expect(manager.isLoaded('object-detection', 'model-d')).toBe(true);
+        expect(disposed).toEqual(['model-c']);
+        expect(stats('model-c')).toMatchObject({ loaded: false, evictions: 1 });
+    });
+
+    it('should evict models to stay within the memory budget', async () => {
+        await load('model-e', 300).promise;
+        jest.advanceTimersByTime(10);
+        await load('model-f', 300).promise;
+
+        expect(manager.isLoaded('object-detection', 'model-e')).toBe(false);
+        expect(manager.getStatus().estimatedMemoryMB).toBe(300);
+    });
+
+    it('should not dispose a model while an inference runs on it', async () => {
+        const lease = await manager.acquire('ocr', 'model-g', async () => fakeModel('model-g', disposed), { modelName: 'model-g' });
+
+        expect(manager.unload('ocr', 'model-g')).toBe(true);
+        expect(disposed).toEqual([]);
+
+        lease.release();
+        await Promise.resolve();
+        expect(disposed).toEqual(['model-g']);
+    });
+
+    it('should unload models that stayed unused for the idle TTL', async () => {
+        await load('model-h').promise;
+
+        jest.advanceTimersByTime(60000 * 2);
+
+        expect(manager.isLoaded('object-detection', 'model-h')).toBe(false);
+        expect(stats('model-h')?.evictions).toBe(1);
+    });
+
+    it('should preload configured models of registered kinds', async () => {
+        const preloader = jest.fn(async () => undefined);
+        manager.registerPreloader('object-detection', preloader);
+
+        await manager.preloadModels();
+
+        expect(preloader).toHaveBeenCalledWith('model-p');
+        expect(preloader).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,113 @@
+import { ModelRegistryService } from '../../src/services/model-registry.service';
+import PrismaService from '../../src/database/prisma-service';
+
+// Mock PrismaService
+jest.mock('../../src/database/prisma-service', () => {
+    return {
+        __esModule: true,
+        default: {
+            getInstance: jest.fn().mockReturnValue({
+                prisma: {
+                    model: {
+                        findMany: jest.fn(),
+                        findUnique: jest.fn(),
+                        create: jest.fn(),
+                        update: jest.fn(),
+                        deleteMany: jest.fn(),
+                    },
+                },
+            }),
+        },
+    };
+});
+
+/**
+ * A registry entry with the fields the checks use
+ */
+function registeredModel(name: string, type: string, fields: { quantizations?: string[]; enabled?: boolean } = {}) {
+    return {
+        id: `${name}-id`,
+        name,
+        type,
+        quantizations: fields.quantizations || [],
+        capabilities: [],
+        enabled: fields.enabled ?? true
+    };
+}
+
+describe('ModelRegistryService', () => {
+    let registry: ModelRegistryService;
+    let findMany: jest.Mock;
+
+    beforeAll(() => {
+        registry = ModelRegistryService.getInstance();
+        findMany = PrismaService.getInstance().prisma.model.findMany as jest.Mock;
+    });
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+        findMany.mockResolvedValue([
+            registeredModel('Xenova/yolos-tiny', 'object-detection', { quantizations: ['fp32', 'q8'] }),
+            registeredModel('Xenova/detr-resnet-50', 'object-detection', { enabled: false }),
+            registeredModel('Xenova/owlvit-base-patch32', 'zero-shot-object-detection'),
+            registeredModel('llava', 'image-description', { enabled: false })
+        ]);
+        // Drop the cached copy of the previous test
+        (PrismaService.getInstance().prisma.model.deleteMany as jest.Mock).mockResolvedValue({ count: 0 });
+        await registry.deleteModel('none');
+    });
+
+    describe('getModelRejectionReason', () => {
+        it('accepts enabled models of the requested type', async () => {
+            expect(await registry.getModelRejectionReason(['object-detection'], 'Xenova/yolos-tiny')).toBeNull();
+        });
+
+        it('rejects unregistered local models', async () => {
+            expect(await registry.getModelRejectionReason(['object-detection'], 'someone/detector')).toMatch(/not registered/);
+        });
+
+        it('rejects models of another type', async () => {
+            expect(await registry.getModelRejectionReason(['object-detection'], 'Xenova/owlvit-base-patch32'))
+                .toMatch(/is a zero-shot-object-detection model/);
+        });
+
+        it('rejects disabled models', async () => {
+            expect(await registry.getModelRejectionReason(['object-detection'], 'Xenova/detr-resnet-50')).toMatch(/disabled/);
+            expect(await registry.getModelRejectionReason(['image-description'], 'llava')).toMatch(/disabled/);
+        });
+
+        it('leaves unregistered served models to the vision-language server', async () => {
+            expect(await registry.getModelRejectionReason(['image-description'], 'gemma3')).toBeNull();
+        });
+
+        it('accepts models when the registry cannot be read', async () => {
+            findMany.mockRejectedValue(new Error('database down'));
+            jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+            expect(await registry.getModelRejectionReason(['object-detection'], 'someone/detector')).toBeNull();
+        });
+    });
+
+    describe('getDtypeRejectionReason', () => {
+        it('accepts dtypes listed in the quantizations', async () => {
+            expect(await registry.getDtypeRejectionReason('Xenova/yolos-tiny', 'q8')).toBeNull();
+        });
+
+        it('rejects other dtypes', async () => {
+            expect(await registry.getDtypeRejectionReason('Xenova/yolos-tiny', 'q4')).toMatch(/use one of: fp32, q8/);
+        });
+
+        it('accepts any dtype for models without quantizations or not registered', async () => {
+            expect(await registry.getDtypeRejectionReason('Xenova/owlvit-base-patch32', 'q4')).toBeNull();
+            expect(await registry.getDtypeRejectionReason('someone/detector', 'q4')).toBeNull();
+        });
+    });
+
+    it('reads the table once while the cached copy is fresh', async () => {
+        await registry.getEnabledModels('object-detection');
+        await registry.findModel('Xenova/yolos-tiny');
+
+        expect(findMany).toHaveBeenCalledTimes(1);
+        expect((await registry.getEnabledModels('object-detection')).map(model => model.name)).toEqual(['Xenova/yolos-tiny']);
+    });
+});
@@ -0,0 +1,55 @@
+import sharp from 'sharp';
+import { pipeline } from '@huggingface/transformers';
+import { ObjectDetectionService } from '../../src/services/object-detection.service';
+import { ModelManagerService } from '../../src/services/model-manager.service';
+
+// Stub the pipelines, keeping the real image decoding
+jest.mock('@huggingface/transformers', () => ({
+    ...jest.requireActual('@huggingface/transformers'),
+    pipeline: jest.fn()
+}));
+
+const mockPipeline = pipeline as unknown as jest.Mock;
+
+describe('ObjectDetectionService', () => {
+    const service = ObjectDetectionService.getInstance();
+    let image: Buffer;
+    let detector: jest.Mock;
+    let finder: jest.Mock;
+
+    beforeAll(async () => {
+        image = await sharp({ create: { width: 200, height: 100, channels: 3, background: { r: 120, g: 120, b: 120 } } })
+            .png()
+            .toBuffer();
+    });
+
+    beforeEach(() => {
+        ModelManagerService.getInstance().unloadAll();
+        mockPipeline.mockReset();
+        detector = jest.fn().mockResolvedValue([
+            { label: 'cup', score: 0.9, box: { xmin: 10, ymin: 10, xmax: 50, ymax: 60 } }
+        ]);
+        finder = jest.fn().mockResolvedValue([
+            { label: 'keys', score: 0.3, box: { xmin: 100, ymin: 20, xmax: 140, ymax: 40 } }
+        ]);
+        mockPipeline.mockImplementation(async (task: string) => (task === 'zero-shot-object-detection' ? finder : detector));
+    });
+
+    it('finds free-text queries with a zero-shot pipeline', async () => {
+        const result = await service.detectObjects(image, { queries: ['keys'], useCache: false });
+
+        expect(mockPipeline).toHaveBeenCalledWith('zero-shot-object-detection', 'Xenova/owlvit-base-patch32', expect.anything());
+        expect(finder).toHaveBeenCalledWith(expect.anything(), ['keys'], { threshold: 0.1 });
+        expect(result.queries).toEqual(['keys']);
+        expect(result.detections.map(detection => detection.label)).toEqual(['keys']);
+    });
+
+    it('loads a model separately for each task', async () => {
+        await service.detectObjects(image, { modelName: 'Xenova/owlvit-base-patch32', useCache: false });
+        await service.detectObjects(image, { modelName: 'Xenova/owlvit-base-patch32', queries: ['keys'], useCache: false });
+
+        expect(mockPipeline.mock.calls.map(call => call[0])).toEqual(['object-detection', 'zero-shot-object-detection']);
+        expect(detector).toHaveBeenCalledWith(expect.anything(), { threshold: 0.5 });
+        expect(finder).toHaveBeenCalledWith(expect.anything(), ['keys'], { threshold: 0.1 });
+    });
+});
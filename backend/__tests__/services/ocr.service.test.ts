@@ -0,0 +1,79 @@
+import sharp from 'sharp';
+import { AutoProcessor, Florence2ForConditionalGeneration, pipeline } from '@huggingface/transformers';
+import { OcrService } from '../../src/services/ocr.service';
+import { ModelManagerService } from '../../src/services/model-manager.service';
+
+// Stub the models, keeping the real image decoding
+jest.mock('@huggingface/transformers', () => ({
+    ...jest.requireActual('@huggingface/transformers'),
+    pipeline: jest.fn(),
+    AutoProcessor: { from_pretrained: jest.fn() },
+    Florence2ForConditionalGeneration: { from_pretrained: jest.fn() }
+}));
+
+const mockPipeline = pipeline as unknown as jest.Mock;
+const mockProcessorLoader = AutoProcessor.from_pretrained as unknown as jest.Mock;
+const mockDetectorLoader = Florence2ForConditionalGeneration.from_pretrained as unknown as jest.Mock;
+
+describe('OcrService', () => {
+    const service = OcrService.getInstance();
+    let image: Buffer;
+    let processor: any;
+    let recognizer: jest.Mock;
+
+    beforeAll(async () => {
+        image = await sharp({ create: { width: 200, height: 100, channels: 3, background: { r: 255, g: 255, b: 255 } } })
+            .png()
+            .toBuffer();
+    });
+
+    beforeEach(() => {
+        ModelManagerService.getInstance().unloadAll();
+        jest.clearAllMocks();
+
+        // Two lines, given bottom one first, and a region outside the image
+        const processorFn: any = jest.fn().mockResolvedValue({ pixel_values: 'pixels', input_ids: 'prompt' });
+        processorFn.construct_prompts = jest.fn().mockReturnValue(['What is the text in the image, with regions?']);
+        processorFn.batch_decode = jest.fn().mockReturnValue(['</s>generated']);
+        processorFn.post_process_generation = jest.fn().mockReturnValue({
+            '<OCR_WITH_REGION>': {
+                labels: ['World', 'Hello', ''],
+                quad_boxes: [
+                    [10, 50, 120, 50, 120, 70, 10, 70],
+                    [10, 10, 150, 10, 150, 30, 10, 30],
+                    [300, 10, 320, 10, 320, 30, 300, 30]
+                ]
+            }
+        });
+        processor = processorFn;
+        mockProcessorLoader.mockResolvedValue(processor);
+        mockDetectorLoader.mockResolvedValue({ generate: jest.fn().mockResolvedValue('ids') });
+
+        recognizer = jest.fn()
+            .mockResolvedValueOnce([{ generated_text: 'Hello ' }])
+            .mockResolvedValueOnce([{ generated_text: 'World' }]);
+        mockPipeline.mockResolvedValue(recognizer);
+    });
+
+    it('reads the lines the text detection model finds, top to bottom', async () => {
+        const result = await service.recognizeText(image);
+
+        expect(mockDetectorLoader).toHaveBeenCalledWith('onnx-community/Florence-2-base-ft', expect.anything());
+        expect(processor.construct_prompts).toHaveBeenCalledWith('<OCR_WITH_REGION>');
+        expect(processor.post_process_generation).toHaveBeenCalledWith('</s>generated', '<OCR_WITH_REGION>', [200, 100]);
+        expect(recognizer).toHaveBeenCalledTimes(2);
+        expect(result.text).toBe('Hello\nWorld');
+        expect(result.blocks).toHaveLength(1);
+        expect(result.blocks[0].lines.map(line => line.box)).toEqual([
+            { xmin: 10, ymin: 10, xmax: 150, ymax: 30, width: 140, height: 20 },
+            { xmin: 10, ymin: 50, xmax: 120, ymax: 70, width: 110, height: 20 }
+        ]);
+    });
+
+    it('reads at most maxLines lines', async () => {
+        const result = await service.recognizeText(image, { maxLines: 1 });
+
+        expect(recognizer).toHaveBeenCalledTimes(1);
+        expect(result.text).toBe('Hello');
+    });
+});
@@ -0,0 +1,141 @@
+import sharp from 'sharp';
+import { VisionConversationService } from '../../src/services/vision-conversation.service';
+import PrismaService from '../../src/database/prisma-service';
+
+const mockGenerate = jest.fn();
+
+// Answer with a fake vision-language provider
+jest.mock('../../src/providers', () => ({
+    createVisionLanguageProvider: () => ({
+        type: 'openai-chat',
+        generate: mockGenerate,
+        generateStream: jest.fn(),
+        listModels: jest.fn().mockResolvedValue([])
+    })
+}));
+
+// Keep images in memory
+jest.mock('../../src/services/image-storage.service', () => {
+    const images = new Map<string, Buffer>();
+    return {
+        ImageStorageService: {
+            getInstance: () => ({
+                storeImage: jest.fn(async (data: Buffer) => {
+                    images.set('originals/ab/abc.png', data);
+                    return { imageHash: 'abc', imagePath: 'originals/ab/abc.png' };
+                }),
+                readImage: jest.fn(async (imagePath: string) => {
+                    const data = images.get(imagePath);
+                    return data ? { data, contentType: 'image/png' } : null;
+                })
+            })
+        }
+    };
+});
+
+// Mock PrismaService; transactions run against the same mocked client
+jest.mock('../../src/database/prisma-service', () => {
+    const prisma: any = {
+        visionAnalysis: { create: jest.fn() },
+        visionConversation: { create: jest.fn(), findUnique: jest.fn(), update: jest.fn() },
+        conversationTurn: { create: jest.fn() },
+        model: { findMany: jest.fn().mockResolvedValue([]) },
+        $transaction: jest.fn((work: any) => (Array.isArray(work) ? Promise.all(work) : work(prisma)))
+    };
+    return {
+        __esModule: true,
+        default: {
+            getInstance: jest.fn().mockReturnValue({ prisma })
+        }
+    };
+});
+
+describe('VisionConversationService', () => {
+    const service = VisionConversationService.getInstance();
+    const prisma = PrismaService.getInstance().prisma as any;
+    let image: Buffer;
+
+    beforeAll(async () => {
+        image = await sharp({ create: { width: 64, height: 48, channels: 3, background: { r: 90, g: 30, b: 10 } } })
+            .png()
+            .toBuffer();
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        prisma.visionAnalysis.create.mockResolvedValue({ id: 'analysis-1', imagePath: 'originals/ab/abc.png' });
+        prisma.visionConversation.create.mockImplementation(async ({ data }: any) => ({
+            id: 'conversation-1',
+            ...data,
+            turns: data.turns ? [data.turns.create] : []
+        }));
+    });
+
+    describe('createConversation', () => {
+        it('saves the conversation together with the answer to the first question', async () => {
+            mockGenerate.mockResolvedValue({ text: 'A red mug.', model: 'gemma3', processingTime: 12 });
+
+            const conversation = await service.createConversation('user-1', null, image, 'mug.png', 'png', 'What is this?');
+
+            expect(mockGenerate).toHaveBeenCalledTimes(1);
+            expect(prisma.visionConversation.create).toHaveBeenCalledWith(expect.objectContaining({
+                data: expect.objectContaining({
+                    visionAnalysisId: 'analysis-1',
+                    modelName: 'gemma3',
+                    turns: {
+                        create: { question: 'What is this?', answer: 'A red mug.', modelName: 'gemma3', processingTimeMs: 12 }
+                    }
+                })
+            }));
+            expect(conversation.turns).toHaveLength(1);
+        });
+
+        it('creates an empty conversation without a first question', async () => {
+            const conversation = await service.createConversation('user-1', null, image, null, null);
+
+            expect(mockGenerate).not.toHaveBeenCalled();
+            expect(conversation.turns).toEqual([]);
+        });
+
+        it('saves nothing when the first question cannot be answered', async () => {
+            mockGenerate.mockRejectedValue(new Error('connection refused'));
+
+            await expect(service.createConversation('user-1', null, image, null, null, 'What is this?'))
+                .rejects.toThrow(/connection refused/);
+            expect(prisma.visionAnalysis.create).not.toHaveBeenCalled();
+            expect(prisma.visionConversation.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('askQuestion', () => {
+        it('replays earlier turns to the model and saves the new one', async () => {
+            prisma.visionConversation.findUnique.mockResolvedValue({
+                id: 'conversation-1',
+                visionAnalysis: { imagePath: 'originals/ab/abc.png' },
+                turns: [{ question: 'What is this?', answer: 'A red mug.' }]
+            });
+            prisma.conversationTurn.create.mockImplementation(async ({ data }: any) => ({ id: 'turn-2', ...data }));
+            mockGenerate.mockResolvedValue({ text: 'It is empty.', model: 'gemma3', processingTime: 8 });
+
+            await service.createConversation('user-1', null, image, null, null);
+            const turn = await service.askQuestion('conversation-1', 'Is it full?');
+
+            const messages = mockGenerate.mock.calls[0][0];
+            expect(messages.map((message: any) => [message.role, message.content])).toEqual([
+                ['system', expect.any(String)],
+                ['user', 'What is this?'],
+                ['assistant', 'A red mug.'],
+                ['user', 'Is it full?']
+            ]);
+            expect(messages[1].images).toHaveLength(1);
+            expect(turn).toEqual(expect.objectContaining({ question: 'Is it full?', answer: 'It is empty.' }));
+        });
+
+        it('rejects unknown conversations', async () => {
+            prisma.visionConversation.findUnique.mockResolvedValue(null);
+
+            await expect(service.askQuestion('missing', 'Hello?')).rejects.toThrow(/not found/);
+            expect(mockGenerate).not.toHaveBeenCalled();
+        });
+    });
+});
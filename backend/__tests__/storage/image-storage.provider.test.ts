@@ -0,0 +1,129 @@
+import { promises as fs } from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { IImageStorageProvider } from '../../src/interfaces/IImageStorageProvider';
+import { LocalImageStorageProvider, S3ImageStorageProvider } from '../../src/storage';
+
+/**
+ * A minimal MinIO-style stand-in: path-style PUT, GET, HEAD and DELETE of objects kept in memory
+ */
+function startS3StandIn(): Promise<{ server: http.Server; objects: Map<string, Buffer>; endpoint: string }> {
+    const objects = new Map<string, Buffer>();
+    const server = http.createServer((req, res) => {
+        const key = decodeURIComponent((req.url || '').split('?')[0]);
+        const chunks: Buffer[] = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('end', () => {
+            const object = objects.get(key);
+            if (req.method === 'PUT') {
+                objects.set(key, Buffer.concat(chunks));
+                res.writeHead(200, { ETag: '"stand-in"' }).end();
+            } else if (!object) {
+                res.writeHead(404, { 'Content-Type': 'application/xml' })
+                    .end(req.method === 'HEAD' ? undefined : '<Error><Code>NoSuchKey</Code></Error>');
+            } else if (req.method === 'DELETE') {
+                objects.delete(key);
+                res.writeHead(204).end();
+            } else {
+                res.writeHead(200, { 'Content-Length': object.length, 'Content-Type': 'image/jpeg' })
+                    .end(req.method === 'HEAD' ? undefined : object);
+            }
+        });
+    });
+
+    return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve({
+        server,
+        objects,
+        endpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    })));
+}
+
+/**
+ * Behavior every provider must have
+ */
+function describeProvider(getProvider: () => IImageStorageProvider) {
+    it('stores and reads objects', async () => {
+        const provider = getProvider();
+        await provider.put('originals/ab/abc.jpg', Buffer.from('image'), 'image/jpeg');
+
+        expect(await provider.exists('originals/ab/abc.jpg')).toBe(true);
+        expect((await provider.get('originals/ab/abc.jpg'))?.toString()).toBe('image');
+    });
+
+    it('returns null and false for missing objects', async () => {
+        const provider = getProvider();
+
+        expect(await provider.get('originals/no/none.jpg')).toBeNull();
+        expect(await provider.exists('originals/no/none.jpg')).toBe(false);
+        expect(await provider.delete('originals/no/none.jpg')).toBe(false);
+    });
+
+    it('deletes objects', async () => {
+        const provider = getProvider();
+        await provider.put('thumbnails/ab/abc.jpg', Buffer.from('thumbnail'), 'image/jpeg');
+
+        expect(await provider.delete('thumbnails/ab/abc.jpg')).toBe(true);
+        expect(await provider.exists('thumbnails/ab/abc.jpg')).toBe(false);
+    });
+}
+
+describe('LocalImageStorageProvider', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'image-storage-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    describeProvider(() => new LocalImageStorageProvider(directory));
+
+    it('stores the same image uploaded concurrently', async () => {
+        const provider = new LocalImageStorageProvider(directory);
+        const image = Buffer.from('image');
+
+        await Promise.all([1, 2, 3].map(() => provider.put('originals/ab/abc.jpg', image, 'image/jpeg')));
+
+        expect(await provider.get('originals/ab/abc.jpg')).toEqual(image);
+        expect(await fs.readdir(path.join(directory, 'originals', 'ab'))).toEqual(['abc.jpg']);
+    });
+
+    it('rejects keys outside its directory', async () => {
+        const provider = new LocalImageStorageProvider(directory);
+
+        await expect(provider.put('../escape.jpg', Buffer.from('image'), 'image/jpeg')).rejects.toThrow('Invalid image storage key');
+    });
+});
+
+describe('S3ImageStorageProvider', () => {
+    let standIn: Awaited<ReturnType<typeof startS3StandIn>>;
+
+    beforeAll(async () => {
+        standIn = await startS3StandIn();
+    });
+
+    afterAll(done => {
+        standIn.server.close(done);
+    });
+
+    const createProvider = () => new S3ImageStorageProvider({
+        endpoint: standIn.endpoint,
+        region: 'us-east-1',
+        bucket: 'images',
+        accessKeyId: 'test',
+        secretAccessKey: 'test',
+        forcePathStyle: true
+    });
+
+    describeProvider(createProvider);
+
+    it('writes objects to the bucket by key', async () => {
+        await createProvider().put('originals/cd/cde.png', Buffer.from('png'), 'image/png');
+
+        expect(standIn.objects.get('/images/originals/cd/cde.png')?.toString()).toBe('png');
+    });
+});
@@ -0,0 +1,116 @@
+import {
+    classifyCodePayload,
+    describeBarcode,
+    expandUpcE,
+    normalizeGtin,
+    summarizeBarcodes,
+    toGtin
+} from '../../src/utils/barcode-content';
+import { parseCsv } from '../../src/utils/csv';
+
+const box = { xmin: 0, ymin: 0, xmax: 10, ymax: 10 };
+const corners = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }];
+
+describe('barcode content', () => {
+    it('normalizes product codes to the catalog form', () => {
+        expect(normalizeGtin('4006381333931')).toBe('4006381333931');
+        expect(normalizeGtin('036000291452')).toBe('0036000291452'); // UPC-A
+        expect(normalizeGtin('96385074')).toBe('96385074'); // EAN-8
+        expect(normalizeGtin('04006381333931')).toBe('4006381333931'); // GTIN-14
+        expect(normalizeGtin('4006381333932')).toBeNull(); // Wrong check digit
+        expect(normalizeGtin('40063813')).toBeNull();
+        expect(normalizeGtin('not a code')).toBeNull();
+    });
+
+    it('expands UPC-E codes to UPC-A', () => {
+        expect(expandUpcE('04252614')).toBe('042100005264');
+        expect(expandUpcE('01234565')).toBe('012345000065');
+        expect(toGtin('UPCE', '04252614')).toBe('0042100005264');
+        expect(toGtin('QRCode', '4006381333931')).toBeNull();
+    });
+
+    it('classifies QR payloads', () => {
+        expect(classifyCodePayload('https://www.example.com/menu?table=4')).toEqual({
+            type: 'url',
+            url: 'https://www.example.com/menu?table=4',
+            host: 'example.com'
+        });
+        expect(classifyCodePayload('WIFI:T:WPA;S:Cafe\\;Guests;P:c0ffee;H:true;;')).toEqual({
+            type: 'wifi',
+            ssid: 'Cafe;Guests',
+            security: 'WPA',
+            password: 'c0ffee',
+            hidden: true
+        });
+        expect(classifyCodePayload('WIFI:S:Open;T:nopass;;')).toMatchObject({ type: 'wifi', security: null, password: null });
+        expect(classifyCodePayload('Table 4, ask for the dessert menu')).toEqual({
+            type: 'text',
+            text: 'Table 4, ask for the dessert menu'
+        });
+    });
+
+    it('names the product or the kind of code', () => {
+        const product = {
+            barcode: '4006381333931',
+            name: 'Sparkling water',
+            brand: 'Fontaine',
+            quantity: '1.5 l',
+            category: null,
+            description: null
+        };
+        const known = { format: 'EAN13', text: '4006381333931', box, corners, gtin: '4006381333931', product };
+        const unknown = { ...known, product: null };
+        const wifi = {
+            format: 'QRCode',
+            text: 'WIFI:S:Home;;',
+            box,
+            corners,
+            payload: classifyCodePayload('WIFI:S:Home;;')
+        };
+
+        expect(describeBarcode(known)).toBe('Sparkling water by Fontaine, 1.5 l');
+        expect(describeBarcode(unknown)).toBe('Barcode 4006381333931, product not in the catalog');
+        expect(describeBarcode(wifi)).toBe('QR code for the Wi-Fi network Home');
+        expect(summarizeBarcodes([{ ...known, phrase: 'Sparkling water' }, { ...wifi, phrase: 'QR code' }]))
+            .toBe('Sparkling water. QR code.');
+        expect(summarizeBarcodes([])).toBe('No barcode found.');
+    });
+
+    it('names the product or the kind of code in the requested language', () => {
+        const product = {
+            barcode: '4006381333931',
+            name: 'Água com gás',
+            brand: 'Fontaine',
+            quantity: '1,5 l',
+            category: null,
+            description: null
+        };
+        const known = { format: 'EAN13', text: '4006381333931', box, corners, gtin: '4006381333931', product };
+        const link = {
+            format: 'QRCode',
+            text: 'https://www.example.com/menu',
+            box,
+            corners,
+            payload: classifyCodePayload('https://www.example.com/menu')
+        };
+
+        expect(describeBarcode(known, 'pt-BR')).toBe('Água com gás, marca Fontaine, 1,5 l');
+        expect(describeBarcode({ ...known, product: null }, 'pt-BR')).toBe('Código de barras 4006381333931, produto fora do catálogo');
+        expect(describeBarcode(link, 'es')).toBe('Código QR con un enlace a example.com');
+        expect(describeBarcode({ format: 'Code128', text: 'A-12', box, corners }, 'es')).toBe('Código de barras Code128: A-12');
+        expect(summarizeBarcodes([], 'es')).toBe('No se encontró ningún código de barras.');
+    });
+});
+
+describe('parseCsv', () => {
+    it('reads quoted fields, CRLF line endings and semicolon exports', () => {
+        expect(parseCsv('\uFEFFbarcode,name\r\n4006381333931,"Water, ""still"""\r\n\r\n')).toEqual([
+            ['barcode', 'name'],
+            ['4006381333931', 'Water, "still"']
+        ]);
+        expect(parseCsv('barcode;name;brand\n96385074;Tea;"Leaf\nCo"')).toEqual([
+            ['barcode', 'name', 'brand'],
+            ['96385074', 'Tea', 'Leaf\nCo']
+        ]);
+    });
+});
@@ -0,0 +1,68 @@
+import { analyzePixels, PixelGrid } from '../../src/utils/color-analysis';
+
+type Rgb = [number, number, number];
+
+/**
+ * A 64x64 grid painted by a function of the pixel position
+ */
+function paint(color: (x: number, y: number) => Rgb, size = 64): PixelGrid {
+    const data = new Uint8Array(size * size * 3);
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            data.set(color(x, y), (y * size + x) * 3);
+        }
+    }
+    return { data, width: size, height: size, channels: 3 };
+}
+
+const RED: Rgb = [205, 25, 30];
+const WHITE: Rgb = [250, 250, 245];
+const NAVY: Rgb = [20, 30, 75];
+const BLACK: Rgb = [15, 15, 15];
+
+describe('color analysis', () => {
+    it('names a solid color, ignoring its shading', () => {
+        const result = analyzePixels(paint((_x, y) => [NAVY[0], NAVY[1], NAVY[2] + Math.round(y / 8)]));
+
+        expect(result.pattern).toBe('solid');
+        expect(result.colors.map(color => color.name)).toEqual(['navy blue']);
+        expect(result.phrase).toBe('solid navy blue');
+    });
+
+    it('finds stripes and their direction', () => {
+        const result = analyzePixels(paint((_x, y) => (Math.floor(y / 8) % 2 ? WHITE : RED)));
+
+        expect(result.pattern).toBe('striped');
+        expect(result.stripeDirection).toBe('horizontal');
+        expect(result.colors.map(color => color.name).sort()).toEqual(['red', 'white']);
+        expect(analyzePixels(paint(x => (Math.floor(x / 6) % 2 ? WHITE : RED))).stripeDirection).toBe('vertical');
+    });
+
+    it('finds checks', () => {
+        const result = analyzePixels(
+            paint((x, y) => ((Math.floor(x / 8) + Math.floor(y / 8)) % 2 ? BLACK : RED)),
+            { mode: 'clothing' }
+        );
+
+        expect(result.pattern).toBe('checked');
+        expect(result.phrase).toMatch(/^clothing with (red and black|black and red) checks$/);
+    });
+
+    it('tells blocks of color and busy prints apart', () => {
+        // A deterministic speckle of three colors
+        const speckle = paint((x, y) => [RED, WHITE, NAVY][(x * 7 + y * 13 + ((x * y) % 5)) % 3]);
+
+        expect(analyzePixels(paint(x => (x < 32 ? RED : WHITE))).pattern).toBe('blocks');
+        expect(analyzePixels(speckle).pattern).toBe('patterned');
+    });
+
+    it('describes colors in Brazilian Portuguese', () => {
+        const result = analyzePixels(paint((_x, y) => (Math.floor(y / 8) % 2 ? WHITE : RED)), {
+            mode: 'clothing',
+            language: 'pt-BR'
+        });
+
+        expect(result.phrase).toMatch(/^roupa listrada em (vermelho e branco|branco e vermelho)$/);
+        expect(result.language).toBe('pt-BR');
+    });
+});
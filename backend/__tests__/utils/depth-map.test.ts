@@ -0,0 +1,64 @@
+import { buildDepthGrid, DepthMap, describeDistance, measureBoxCloseness, summarizeDistances } from '../../src/utils/depth-map';
+import { DetectionResult } from '../../src/interfaces/detection.interface';
+
+/**
+ * A depth map where the left half is far (0) and the right half near (255)
+ */
+function splitDepthMap(width: number, height: number): DepthMap {
+    const data = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = width / 2; x < width; x++) {
+            data[y * width + x] = 255;
+        }
+    }
+    return { data, width, height };
+}
+
+function detection(label: string, xmin: number, xmax: number): DetectionResult {
+    return { label, score: 0.9, box: { xmin, ymin: 0, xmax, ymax: 100 } };
+}
+
+describe('depth map', () => {
+    const depth = splitDepthMap(40, 20);
+
+    it('averages the closeness of each grid cell', () => {
+        expect(buildDepthGrid(depth, 2, 4)).toEqual([
+            [0, 0, 1, 1],
+            [0, 0, 1, 1]
+        ]);
+    });
+
+    it('measures boxes given in the coordinates of a larger image', () => {
+        const imageSize = { width: 400, height: 200 };
+
+        expect(measureBoxCloseness(depth, { xmin: 0, ymin: 0, xmax: 180, ymax: 200 }, imageSize)).toBe(0);
+        expect(measureBoxCloseness(depth, { xmin: 220, ymin: 0, xmax: 400, ymax: 200 }, imageSize)).toBe(1);
+        // Mostly near; the edges of the box are left out
+        expect(measureBoxCloseness(depth, { xmin: 180, ymin: 0, xmax: 400, ymax: 200 }, imageSize)).toBe(1);
+    });
+
+    it('describes distances with a direction', () => {
+        expect(describeDistance(detection('chair', 150, 250), 0.7, 400)).toEqual({
+            closeness: 0.7,
+            range: 'near',
+            steps: 2,
+            phrase: 'chair, about 2 steps ahead'
+        });
+        expect(describeDistance(detection('cup', 300, 380), 0.9, 400).phrase).toBe('cup, within reach on the right');
+        expect(describeDistance(detection('door', 0, 100), 0.1, 400).phrase).toBe('door, far on the left');
+    });
+
+    it('summarizes the nearest objects first', () => {
+        const far = { ...detection('door', 0, 100), distance: describeDistance(detection('door', 0, 100), 0.1, 400) };
+        const near = { ...detection('chair', 150, 250), distance: describeDistance(detection('chair', 150, 250), 0.7, 400) };
+
+        expect(summarizeDistances([far, near])).toBe('chair, about 2 steps ahead. door, far on the left.');
+        expect(summarizeDistances([])).toBe('No objects detected.');
+    });
+
+    it('describes distances in the requested language', () => {
+        expect(describeDistance(detection('cadeira', 150, 250), 0.7, 400, 'pt-BR').phrase).toBe('cadeira, a uns 2 passos à frente');
+        expect(describeDistance(detection('taza', 300, 380), 0.9, 400, 'es').phrase).toBe('taza, al alcance de la mano a la derecha');
+        expect(summarizeDistances([], 'pt-BR')).toBe('Nenhum objeto detectado.');
+    });
+});
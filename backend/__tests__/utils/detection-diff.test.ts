@@ -0,0 +1,67 @@
+import { diffDetections } from '../../src/utils/detection-diff';
+
+const box = (xmin: number, ymin: number, xmax: number, ymax: number) => ({ xmin, ymin, xmax, ymax });
+
+describe('diffDetections', () => {
+    it('matches objects of the same label by overlap', () => {
+        const diff = diffDetections(
+            { model: 'Xenova/yolos-tiny', objects: [{ label: 'cup', score: 0.6, box: box(10, 10, 50, 50) }] },
+            { model: 'onnx-community/rtdetr_r50vd', objects: [{ label: 'cup', score: 0.9, box: box(12, 12, 52, 52) }] }
+        );
+
+        expect(diff.matched).toHaveLength(1);
+        expect(diff.matched[0]).toMatchObject({ label: 'cup', before: { score: 0.6 }, after: { score: 0.9 } });
+        expect(diff.appeared).toEqual([]);
+        expect(diff.disappeared).toEqual([]);
+        expect(diff.summary).toContain('the same objects were found');
+    });
+
+    it('reports objects that appeared and disappeared', () => {
+        const diff = diffDetections(
+            {
+                model: 'Xenova/yolos-tiny',
+                objects: [
+                    { label: 'chair', score: 0.7, box: box(100, 100, 200, 300) },
+                    { label: 'cup', score: 0.6, box: box(10, 10, 50, 50) }
+                ]
+            },
+            {
+                model: 'onnx-community/rtdetr_r50vd',
+                objects: [
+                    // Same place, other label: not the same object
+                    { label: 'couch', score: 0.8, box: box(100, 100, 200, 300) },
+                    { label: 'cup', score: 0.9, box: box(10, 10, 50, 50) },
+                    { label: 'cup', score: 0.8, box: box(300, 10, 340, 50) }
+                ]
+            }
+        );
+
+        expect(diff.appeared.map(object => object.label)).toEqual(['couch', 'cup']);
+        expect(diff.disappeared.map(object => object.label)).toEqual(['chair']);
+        expect(diff.labelChanges).toEqual([
+            { label: 'chair', before: 1, after: 0 },
+            { label: 'couch', before: 0, after: 1 },
+            { label: 'cup', before: 1, after: 2 }
+        ]);
+        expect(diff.summary).toBe(
+            'onnx-community/rtdetr_r50vd found 3 objects, Xenova/yolos-tiny found 2; appeared: couch, cup; disappeared: chair'
+        );
+    });
+
+    it('matches each object at most once, best overlap first', () => {
+        const diff = diffDetections(
+            { model: 'a', objects: [{ label: 'person', score: 0.9, box: box(0, 0, 100, 200) }] },
+            {
+                model: 'b',
+                objects: [
+                    { label: 'person', score: 0.5, box: box(20, 20, 110, 210) },
+                    { label: 'person', score: 0.8, box: box(2, 2, 100, 200) }
+                ]
+            }
+        );
+
+        expect(diff.matched).toHaveLength(1);
+        expect(diff.matched[0].after.score).toBe(0.8);
+        expect(diff.appeared).toHaveLength(1);
+    });
+});
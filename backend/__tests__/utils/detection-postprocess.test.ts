@@ -0,0 +1,58 @@
+import { getModelThreshold, postProcessDetections, suppressOverlaps } from '../../src/utils/detection-postprocess';
+import { DetectionResult } from '../../src/interfaces/detection.interface';
+
+const detection = (label: string, score: number, xmin: number, ymin: number, xmax: number, ymax: number): DetectionResult => ({
+    label,
+    score,
+    box: { xmin, ymin, xmax, ymax }
+});
+
+const person = detection('person', 0.65, 0, 0, 100, 300);
+const cup = detection('cup', 0.8, 200, 200, 240, 250);
+const vase = detection('vase', 0.6, 202, 198, 242, 252);
+const chair = detection('chair', 0.4, 300, 100, 500, 400);
+
+const labels = (detections: DetectionResult[]) => detections.map(d => d.label);
+
+describe('postProcessDetections', () => {
+    it('keeps the allowed labels and drops the excluded ones, ignoring case', () => {
+        const detections = [person, cup, vase, chair];
+
+        expect(labels(postProcessDetections(detections, { threshold: 0, includeLabels: ['Cup', 'Chair'] }))).toEqual(['cup', 'chair']);
+        expect(labels(postProcessDetections(detections, { threshold: 0, excludeLabels: ['PERSON'] }))).toEqual(['cup', 'vase', 'chair']);
+    });
+
+    it('applies per-class thresholds instead of the general one', () => {
+        const result = postProcessDetections([person, cup, vase, chair], {
+            threshold: 0.5,
+            classThresholds: { person: 0.7, chair: 0.3 }
+        });
+
+        expect(labels(result)).toEqual(['cup', 'vase', 'chair']);
+    });
+
+    it('suppresses overlapping boxes of different labels when asked', () => {
+        expect(labels(postProcessDetections([cup, vase, person], { threshold: 0 }))).toEqual(['cup', 'person', 'vase']);
+        expect(labels(postProcessDetections([cup, vase, person], { threshold: 0, nmsThreshold: 0.5 }))).toEqual(['cup', 'person']);
+    });
+
+    it('limits the result to the likeliest or the largest objects', () => {
+        const detections = [person, cup, chair];
+
+        expect(labels(postProcessDetections(detections, { threshold: 0, maxObjects: 2 }))).toEqual(['cup', 'person']);
+        expect(labels(postProcessDetections(detections, { threshold: 0, maxObjects: 2, rankBy: 'area' }))).toEqual(['chair', 'person']);
+    });
+});
+
+describe('suppressOverlaps', () => {
+    it('keeps boxes that overlap less than the threshold', () => {
+        expect(labels(suppressOverlaps([vase, cup, chair], 0.95))).toEqual(['cup', 'vase', 'chair']);
+    });
+});
+
+describe('getModelThreshold', () => {
+    it('runs the model at the lowest threshold any class needs', () => {
+        expect(getModelThreshold(0.5)).toBe(0.5);
+        expect(getModelThreshold(0.5, { person: 0.7, cup: 0.2 })).toBe(0.2);
+    });
+});
@@ -0,0 +1,35 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { decodeImage, detectImageFormat } from '../../src/utils/image-decode';
+
+describe('detectImageFormat', () => {
+    it('detects formats from their leading bytes', () => {
+        expect(detectImageFormat(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00]))).toBe('jpeg');
+        expect(detectImageFormat(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]))).toBe('png');
+        expect(detectImageFormat(Buffer.concat([Buffer.from('RIFF'), Buffer.alloc(4), Buffer.from('WEBPVP8 ')]))).toBe('webp');
+        expect(detectImageFormat(Buffer.from('GIF89a\x01\x00'))).toBe('gif');
+        expect(detectImageFormat(Buffer.from('GIF87a\x01\x00'))).toBe('gif');
+    });
+
+    it('returns null for other data', () => {
+        expect(detectImageFormat(Buffer.from('not an image'))).toBeNull();
+        expect(detectImageFormat(Buffer.from('RIFF\x00\x00\x00\x00WAVE'))).toBeNull();
+        expect(detectImageFormat(Buffer.alloc(0))).toBeNull();
+    });
+});
+
+describe('decodeImage', () => {
+    it('decodes an image buffer without writing it to disk', async () => {
+        const buffer = fs.readFileSync(path.join(__dirname, '../../test-images/test-image.jpg'));
+
+        const image = await decodeImage(buffer);
+
+        expect(image.width).toBe(926);
+        expect(image.height).toBe(599);
+        expect(image.channels).toBe(3);
+    });
+
+    it('rejects unsupported formats', async () => {
+        await expect(decodeImage(Buffer.from('not an image'))).rejects.toThrow('Unsupported image format');
+    });
+});
@@ -0,0 +1,85 @@
+import sharp from 'sharp';
+import { assessQuality, summarizeQualityIssues } from '../../src/utils/image-quality';
+import { PixelGrid } from '../../src/utils/color-analysis';
+
+const SIZE = 256;
+
+/**
+ * Grid of 4x4 blocks of pseudo-random shades, mapped to a range of luma and tinted by a color
+ */
+function texture(min: number, max: number, tint: [number, number, number] = [1, 1, 1]): PixelGrid {
+    const data = new Uint8Array(SIZE * SIZE * 3);
+    let seed = 42;
+    const blocks: number[] = [];
+    for (let i = 0; i < (SIZE / 4) ** 2; i++) {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        blocks.push(min + (seed % 1000) / 1000 * (max - min));
+    }
+    for (let y = 0; y < SIZE; y++) {
+        for (let x = 0; x < SIZE; x++) {
+            const value = blocks[Math.floor(y / 4) * (SIZE / 4) + Math.floor(x / 4)];
+            data.set(tint.map(channel => Math.min(255, Math.round(value * channel))), (y * SIZE + x) * 3);
+        }
+    }
+    return { data, width: SIZE, height: SIZE, channels: 3 };
+}
+
+const codes = (grid: PixelGrid) => assessQuality(grid).issues.map(issue => `${issue.code}:${issue.severity}`);
+
+describe('assessQuality', () => {
+    it('finds no issues in a sharp, well-lit image', () => {
+        expect(codes(texture(40, 220))).toEqual([]);
+    });
+
+    it('flags dark images without also calling them blurry', () => {
+        expect(codes(texture(0, 30))).toEqual(['too-dark:unusable']);
+        expect(codes(texture(10, 80))).toEqual(['too-dark:warning']);
+    });
+
+    it('flags washed-out and uniform images', () => {
+        expect(codes(texture(248, 255))).toEqual(['overexposed:unusable']);
+        expect(codes(texture(120, 124))).toEqual(['low-information:unusable']);
+    });
+
+    it('accepts scans and screenshots, which are mostly white or black but legible', () => {
+        const page = texture(0, 255);
+        page.data = Uint8Array.from(page.data as Uint8Array, value => (value < 25 ? 0 : 255));
+
+        expect(assessQuality(page).issues.filter(issue => issue.severity === 'unusable')).toEqual([]);
+        page.data = Uint8Array.from(page.data as Uint8Array, value => 255 - value);
+        expect(assessQuality(page).issues.filter(issue => issue.severity === 'unusable')).toEqual([]);
+    });
+
+    it('gives guidance in the requested language', () => {
+        expect(assessQuality(texture(0, 30), undefined, 'pt-BR').issues[0].guidance).toBe('Muito escuro, acenda uma luz');
+        expect(assessQuality(texture(248, 255), undefined, 'es').issues[0].guidance)
+            .toBe('Demasiado claro, aparta la cámara de la luz');
+    });
+
+    it('recognizes a finger over the lens by its dim, featureless red', () => {
+        expect(codes(texture(90, 100, [1.4, 0.6, 0.5]))).toEqual(['lens-covered:unusable']);
+    });
+
+    it('flags blurry images', async () => {
+        const sharpGrid = texture(40, 220);
+        const { data, info } = await sharp(Buffer.from(sharpGrid.data as Uint8Array), { raw: { width: SIZE, height: SIZE, channels: 3 } })
+            .blur(4)
+            .raw()
+            .toBuffer({ resolveWithObject: true });
+
+        const { issues, metrics } = assessQuality({ data, width: info.width, height: info.height, channels: info.channels });
+
+        expect(issues.map(issue => issue.code)).toEqual(['blurry']);
+        expect(metrics.sharpness).toBeLessThan(assessQuality(sharpGrid).metrics.sharpness);
+    });
+});
+
+describe('summarizeQualityIssues', () => {
+    it('joins the guidance of all issues into one sentence', () => {
+        expect(summarizeQualityIssues([])).toBe('');
+        expect(summarizeQualityIssues([
+            { code: 'too-dark', severity: 'unusable', guidance: 'Too dark, turn on a light' },
+            { code: 'blurry', severity: 'warning', guidance: 'The image is slightly blurry, hold the camera steady' }
+        ])).toBe('Too dark, turn on a light. The image is slightly blurry, hold the camera steady.');
+    });
+});
@@ -0,0 +1,67 @@
+import { countLabel, labelForms, translateLabel, withIndefiniteArticle } from '../../src/utils/label-translations';
+import { formatLabelCounts, fuseSceneSummary } from '../../src/utils/scene-summary';
+import { describeSpatialLayout } from '../../src/utils/spatial-language';
+import { normalizeLanguage } from '../../src/utils/language';
+import { DetectionResult } from '../../src/interfaces/detection.interface';
+
+describe('translateLabel', () => {
+    it('translates COCO labels and keeps unknown ones', () => {
+        expect(translateLabel('dining table', 'pt-BR')).toBe('mesa de jantar');
+        expect(translateLabel('dining table', 'es')).toBe('mesa de comedor');
+        expect(translateLabel('dining table', 'en')).toBe('dining table');
+        expect(translateLabel('white cane', 'es')).toBe('white cane');
+    });
+});
+
+describe('labelForms', () => {
+    it('inflects labels given in English or already translated', () => {
+        expect(labelForms('person', 'pt-BR')).toEqual({ singular: 'pessoa', plural: 'pessoas', gender: 'f' });
+        expect(labelForms('pessoa', 'pt-BR')).toEqual({ singular: 'pessoa', plural: 'pessoas', gender: 'f' });
+        expect(labelForms('truck', 'es').plural).toBe('camiones');
+        expect(labelForms('potted plant', 'es').plural).toBe('plantas en maceta');
+    });
+
+    it('adds the article of the gender of the label', () => {
+        expect(withIndefiniteArticle('apple', 'en')).toBe('an apple');
+        expect(withIndefiniteArticle('chair', 'pt-BR')).toBe('uma cadeira');
+        expect(withIndefiniteArticle('dog', 'es')).toBe('un perro');
+        expect(countLabel('cup', 3, 'pt-BR')).toBe('3 xícaras');
+    });
+});
+
+describe('localized summaries', () => {
+    const counts = [{ label: 'pessoa', count: 2 }, { label: 'cadeira', count: 1 }, { label: 'cachorro', count: 1 }];
+
+    it('counts labels in the language', () => {
+        expect(formatLabelCounts(counts, 'pt-BR')).toBe('2 pessoas, uma cadeira e um cachorro');
+        expect(formatLabelCounts([{ label: 'persona', count: 3 }, { label: 'silla', count: 1 }], 'es')).toBe('3 personas y una silla');
+    });
+
+    it('fuses descriptions and detections in the language', () => {
+        expect(fuseSceneSummary('Duas pessoas estão sentadas', counts, 'pt-BR'))
+            .toBe('Duas pessoas estão sentadas. Também detectei uma cadeira e um cachorro.');
+        expect(fuseSceneSummary(null, [], 'es')).toBe('No pude identificar nada en esta imagen.');
+    });
+
+    it('describes where objects are in the language', () => {
+        const detection = (label: string, xmin: number, ymin: number, xmax: number, ymax: number): DetectionResult =>
+            ({ label, score: 0.9, box: { xmin, ymin, xmax, ymax } });
+
+        const [laptop] = describeSpatialLayout([
+            detection('notebook', 450, 200, 750, 420),
+            detection('mesa de jantar', 300, 380, 900, 700)
+        ], 1200, 800, 'pt-BR');
+
+        expect(laptop.phrase).toBe('um notebook às 12 horas, a média distância, sobre a mesa de jantar');
+    });
+});
+
+describe('normalizeLanguage', () => {
+    it('maps language tags to the supported languages', () => {
+        expect(normalizeLanguage('pt')).toBe('pt-BR');
+        expect(normalizeLanguage('es-MX')).toBe('es');
+        expect(normalizeLanguage('en-US')).toBe('en');
+        expect(normalizeLanguage('fr')).toBeNull();
+        expect(normalizeLanguage(null)).toBeNull();
+    });
+});
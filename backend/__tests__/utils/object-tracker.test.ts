@@ -0,0 +1,87 @@
+import { ObjectTracker, intersectionOverUnion } from '../../src/utils/object-tracker';
+import { DetectionResult } from '../../src/interfaces/detection.interface';
+
+const WIDTH = 600;
+const HEIGHT = 400;
+
+function detection(label: string, xmin: number, ymin: number, xmax: number, ymax: number): DetectionResult {
+    return { label, score: 0.9, box: { xmin, ymin, xmax, ymax } };
+}
+
+describe('intersectionOverUnion', () => {
+    it('should compute the overlap of two boxes', () => {
+        expect(intersectionOverUnion({ xmin: 0, ymin: 0, xmax: 10, ymax: 10 }, { xmin: 5, ymin: 0, xmax: 15, ymax: 10 }))
+            .toBeCloseTo(50 / 150);
+        expect(intersectionOverUnion({ xmin: 0, ymin: 0, xmax: 10, ymax: 10 }, { xmin: 20, ymin: 20, xmax: 30, ymax: 30 }))
+            .toBe(0);
+    });
+});
+
+describe('ObjectTracker', () => {
+    it('should announce an object once it was seen in two frames', () => {
+        const tracker = new ObjectTracker();
+        const person = detection('person', 20, 50, 120, 350);
+
+        expect(tracker.update([person], WIDTH, HEIGHT)).toEqual([]);
+
+        const events = tracker.update([person], WIDTH, HEIGHT);
+        expect(events).toHaveLength(1);
+        expect(events[0]).toMatchObject({ type: 'entered', label: 'person', horizontal: 'left', message: 'person entered on the left' });
+    });
+
+    it('should ignore one-frame false positives', () => {
+        const tracker = new ObjectTracker();
+
+        tracker.update([detection('dog', 250, 100, 350, 300)], WIDTH, HEIGHT);
+        for (let frame = 0; frame < 5; frame++) {
+            expect(tracker.update([], WIDTH, HEIGHT)).toEqual([]);
+        }
+    });
+
+    it('should keep the track ID of a moving object', () => {
+        const tracker = new ObjectTracker();
+
+        tracker.update([detection('chair', 100, 100, 200, 300)], WIDTH, HEIGHT);
+        const [entered] = tracker.update([detection('chair', 110, 100, 210, 300)], WIDTH, HEIGHT);
+        // Moved without overlap, but close enough to be the same chair
+        expect(tracker.update([detection('chair', 215, 100, 315, 300)], WIDTH, HEIGHT)).toEqual([]);
+
+        expect(tracker.getTrackedObjects(WIDTH)).toEqual([
+            expect.objectContaining({ trackId: entered.trackId, label: 'chair', horizontal: 'center' })
+        ]);
+    });
+
+    it('should announce an object as gone after it was missed in more than three frames', () => {
+        const tracker = new ObjectTracker();
+        const chair = detection('chair', 450, 100, 550, 300);
+
+        tracker.update([chair], WIDTH, HEIGHT);
+        tracker.update([chair], WIDTH, HEIGHT);
+        for (let frame = 0; frame < 3; frame++) {
+            expect(tracker.update([], WIDTH, HEIGHT)).toEqual([]);
+        }
+
+        expect(tracker.update([], WIDTH, HEIGHT)).toEqual([
+            expect.objectContaining({ type: 'left', label: 'chair', message: 'chair no longer visible' })
+        ]);
+        expect(tracker.getTrackedObjects(WIDTH)).toEqual([]);
+    });
+
+    it('should not match objects with different labels', () => {
+        const tracker = new ObjectTracker({ minHits: 1 });
+
+        tracker.update([detection('cup', 100, 100, 150, 150)], WIDTH, HEIGHT);
+        const events = tracker.update([detection('bowl', 100, 100, 150, 150)], WIDTH, HEIGHT);
+
+        expect(events.map(event => event.message)).toEqual(['bowl entered on the left']);
+        expect(tracker.getTrackedObjects(WIDTH).map(object => object.label)).toEqual(['cup', 'bowl']);
+    });
+
+    it('should announce objects in the requested language', () => {
+        const tracker = new ObjectTracker({ minHits: 1, maxMissed: 0, language: 'pt-BR' });
+
+        expect(tracker.update([detection('pessoa', 20, 50, 120, 350)], WIDTH, HEIGHT).map(event => event.message))
+            .toEqual(['pessoa entrou à esquerda']);
+        expect(tracker.update([], WIDTH, HEIGHT).map(event => event.message)).toEqual(['pessoa não está mais visível']);
+    });
+});
@@ -0,0 +1,57 @@
+import { buildGroundingPrompt, countLabels, formatLabelCounts, fuseSceneSummary, pluralize } from '../../src/utils/scene-summary';
+import { DetectionResult } from '../../src/interfaces/detection.interface';
+
+function detection(label: string): DetectionResult {
+    return { label, score: 0.9, box: { xmin: 0, ymin: 0, xmax: 10, ymax: 10 } };
+}
+
+describe('countLabels', () => {
+    it('should count labels with the most frequent first', () => {
+        const counts = countLabels(['cup', 'person', 'person', 'chair'].map(detection));
+
+        expect(counts).toEqual([
+            { label: 'person', count: 2 },
+            { label: 'cup', count: 1 },
+            { label: 'chair', count: 1 }
+        ]);
+    });
+});
+
+describe('formatLabelCounts', () => {
+    it('should list counts in speakable form', () => {
+        expect(pluralize('bus')).toBe('buses');
+        expect(formatLabelCounts([
+            { label: 'person', count: 2 },
+            { label: 'chair', count: 1 },
+            { label: 'umbrella', count: 1 }
+        ])).toBe('2 people, a chair and an umbrella');
+    });
+});
+
+describe('buildGroundingPrompt', () => {
+    it('should leave the prompt unchanged without detections', () => {
+        expect(buildGroundingPrompt('Describe this image.', [])).toBe('Describe this image.');
+    });
+
+    it('should append the detected labels as hints', () => {
+        const prompt = buildGroundingPrompt('Describe this image.', [{ label: 'person', count: 2 }, { label: 'dog', count: 1 }]);
+
+        expect(prompt).toContain('An object detector found: person (2), dog.');
+    });
+});
+
+describe('fuseSceneSummary', () => {
+    it('should only add objects the description does not mention', () => {
+        const summary = fuseSceneSummary('Two people sit at a table', [
+            { label: 'person', count: 2 },
+            { label: 'cup', count: 1 }
+        ]);
+
+        expect(summary).toBe('Two people sit at a table. I also detected a cup.');
+    });
+
+    it('should fall back to the detections without a description', () => {
+        expect(fuseSceneSummary(null, [{ label: 'car', count: 3 }])).toBe('I detected 3 cars.');
+        expect(fuseSceneSummary(null, [])).toBe('I could not identify anything in this image.');
+    });
+});
@@ -0,0 +1,64 @@
+import { clockPosition, describeSpatialLayout, summarizeSpatialLayout } from '../../src/utils/spatial-language';
+import { DetectionResult } from '../../src/interfaces/detection.interface';
+
+const WIDTH = 1200;
+const HEIGHT = 800;
+
+function detection(label: string, xmin: number, ymin: number, xmax: number, ymax: number): DetectionResult {
+    return { label, score: 0.9, box: { xmin, ymin, xmax, ymax, width: xmax - xmin, height: ymax - ymin } };
+}
+
+describe('clockPosition', () => {
+    it('should map the image width from 10 to 2 o\'clock', () => {
+        expect(clockPosition(0, WIDTH)).toBe(10);
+        expect(clockPosition(WIDTH / 2, WIDTH)).toBe(12);
+        expect(clockPosition(WIDTH, WIDTH)).toBe(2);
+    });
+});
+
+describe('describeSpatialLayout', () => {
+    it('should describe position and distance', () => {
+        const [cup, sofa] = describeSpatialLayout([
+            detection('cup', 1080, 100, 1140, 160),
+            detection('couch', 0, 200, 500, 800)
+        ], WIDTH, HEIGHT);
+
+        expect(cup.clockPosition).toBe(2);
+        expect(cup.horizontal).toBe('right');
+        expect(cup.distance).toBe('far');
+        expect(sofa.horizontal).toBe('left');
+        expect(sofa.distance).toBe('near');
+    });
+
+    it('should find objects resting on larger ones', () => {
+        const [laptop, table] = describeSpatialLayout([
+            detection('laptop', 450, 200, 750, 420),
+            detection('dining table', 300, 380, 900, 700)
+        ], WIDTH, HEIGHT);
+
+        expect(laptop.relations[0]).toEqual({ relation: 'on', label: 'dining table', index: 1 });
+        expect(laptop.phrase).toBe("a laptop at 12 o'clock, at medium distance, on the dining table");
+        expect(table.relations.map(relation => relation.relation)).not.toContain('on');
+    });
+
+    it('should relate objects side by side', () => {
+        const [chair] = describeSpatialLayout([
+            detection('chair', 100, 300, 300, 600),
+            detection('person', 350, 250, 550, 650)
+        ], WIDTH, HEIGHT);
+
+        expect(chair.relations[0].relation).toBe('left of');
+    });
+});
+
+describe('summarizeSpatialLayout', () => {
+    it('should read the largest objects first', () => {
+        const spatial = describeSpatialLayout([
+            detection('cup', 1080, 100, 1140, 160),
+            detection('couch', 0, 200, 500, 800)
+        ], WIDTH, HEIGHT);
+
+        expect(summarizeSpatialLayout(spatial)).toMatch(/^A couch at 11 o'clock.*\. A cup at 2 o'clock/);
+        expect(summarizeSpatialLayout([])).toBe('No objects detected in the image.');
+    });
+});
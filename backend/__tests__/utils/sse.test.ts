@@ -0,0 +1,72 @@
+import { readSSEData, SentenceBuffer } from '../../src/utils/sse';
+
+async function collect(chunks: Array<string | Buffer>): Promise<string[]> {
+    async function* stream() {
+        for (const chunk of chunks) {
+            yield Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        }
+    }
+
+    const result: string[] = [];
+    for await (const data of readSSEData(stream())) {
+        result.push(data);
+    }
+    return result;
+}
+
+describe('readSSEData', () => {
+    it('should yield the data payload of each event', async () => {
+        const result = await collect([
+            'data: {"a":1}\n\n',
+            'data: {"b":2}\n\n',
+            'data: [DONE]\n\n',
+        ]);
+
+        expect(result).toEqual(['{"a":1}', '{"b":2}', '[DONE]']);
+    });
+
+    it('should handle events split across chunks and CRLF separators', async () => {
+        const result = await collect([
+            'data: {"tok',
+            'en":"Hi"}\r\n\r\nda',
+            'ta: [DONE]',
+        ]);
+
+        expect(result).toEqual(['{"token":"Hi"}', '[DONE]']);
+    });
+
+    it('should decode multibyte characters split across chunks', async () => {
+        const bytes = Buffer.from('data: {"token":"ação"}\n\n');
+        // "ç" is two bytes in UTF-8; cut between them
+        const splitAt = bytes.indexOf(Buffer.from('ç')) + 1;
+
+        const result = await collect([bytes.subarray(0, splitAt), bytes.subarray(splitAt)]);
+
+        expect(result).toEqual(['{"token":"ação"}']);
+    });
+
+    it('should ignore comments and non-data fields', async () => {
+        const result = await collect([': keep-alive\n\n', 'event: token\ndata: x\n\n']);
+
+        expect(result).toEqual(['x']);
+    });
+});
+
+describe('SentenceBuffer', () => {
+    it('should emit sentences once they are terminated', () => {
+        const buffer = new SentenceBuffer();
+
+        expect(buffer.push('A red mug')).toEqual([]);
+        expect(buffer.push(' on a table.')).toEqual([]);
+        expect(buffer.push(' Behind it')).toEqual(['A red mug on a table.']);
+        expect(buffer.push(' is a window! It is')).toEqual(['Behind it is a window!']);
+        expect(buffer.flush()).toBe('It is');
+        expect(buffer.flush()).toBeNull();
+    });
+
+    it('should not split on decimals without trailing whitespace', () => {
+        const buffer = new SentenceBuffer();
+
+        expect(buffer.push('It costs 2.50 dollars. ')).toEqual(['It costs 2.50 dollars.']);
+    });
+});
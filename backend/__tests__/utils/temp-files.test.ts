@@ -0,0 +1,36 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { sweepTempFiles } from '../../src/utils/temp-files';
+
+describe('sweepTempFiles', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'temp-sweep-'));
+    });
+
+    afterEach(async () => {
+        await fs.promises.rm(dir, { recursive: true, force: true });
+    });
+
+    it('removes leftover temp images and the emptied directory', async () => {
+        await fs.promises.writeFile(path.join(dir, 'temp-1700000000000.jpg'), 'a');
+        await fs.promises.writeFile(path.join(dir, 'temp-1700000000001.jpg'), 'b');
+
+        expect(await sweepTempFiles(dir)).toBe(2);
+        expect(fs.existsSync(dir)).toBe(false);
+    });
+
+    it('keeps other files', async () => {
+        await fs.promises.writeFile(path.join(dir, 'temp-1700000000000.jpg'), 'a');
+        await fs.promises.writeFile(path.join(dir, 'notes.txt'), 'keep');
+
+        expect(await sweepTempFiles(dir)).toBe(1);
+        expect(await fs.promises.readdir(dir)).toEqual(['notes.txt']);
+    });
+
+    it('does nothing when the directory does not exist', async () => {
+        expect(await sweepTempFiles(path.join(dir, 'missing'))).toBe(0);
+    });
+});
@@ -0,0 +1,56 @@
+import { groupLinesIntoBlocks, textLinesFromQuads } from '../../src/utils/text-layout';
+import { BoundingBox } from '../../src/interfaces/detection.interface';
+
+function box(xmin: number, ymin: number, xmax: number, ymax: number): BoundingBox {
+    return { xmin, ymin, xmax, ymax, width: xmax - xmin, height: ymax - ymin };
+}
+
+describe('textLinesFromQuads', () => {
+    it('should turn quadrilaterals into boxes, top to bottom', () => {
+        const quads = [
+            [20.5, 30.5, 120.5, 30.5, 120.5, 39.5, 20.5, 39.5],
+            [20, 10, 150, 12, 149, 21, 19, 19]
+        ];
+
+        const lines = textLinesFromQuads(quads, 200, 120);
+
+        expect(lines).toEqual([box(19, 10, 150, 21), box(20, 30, 121, 40)]);
+    });
+
+    it('should clip boxes to the image and drop empty ones', () => {
+        const quads = [
+            [-5, 100, 210, 100, 210, 130, -5, 130],
+            [50, 50, 50, 50, 50, 60, 50, 60]
+        ];
+
+        const lines = textLinesFromQuads(quads, 200, 120);
+
+        expect(lines).toEqual([box(0, 100, 199, 119)]);
+    });
+});
+
+describe('groupLinesIntoBlocks', () => {
+    it('should group close lines and read columns left to right under a heading', () => {
+        const lines = [
+            box(10, 0, 190, 10),   // heading across both columns
+            box(10, 30, 90, 40),   // left column
+            box(110, 30, 190, 40), // right column
+            box(10, 45, 90, 55),   // left column
+            box(110, 45, 190, 55), // right column
+            box(10, 60, 90, 70),   // left column
+        ];
+
+        const blocks = groupLinesIntoBlocks(lines);
+
+        expect(blocks.map(block => block.lineIndices)).toEqual([[0], [1, 3, 5], [2, 4]]);
+        expect(blocks[1].box).toEqual(box(10, 30, 90, 70));
+    });
+
+    it('should start a new block after a large vertical gap', () => {
+        const lines = [box(10, 0, 100, 10), box(10, 50, 100, 60)];
+
+        const blocks = groupLinesIntoBlocks(lines);
+
+        expect(blocks.map(block => block.lineIndices)).toEqual([[0], [1]]);
+    });
+});
@@ -0,0 +1,96 @@
+import { deflateRawSync } from 'zlib';
+import { extractZipEntries } from '../../src/utils/zip';
+
+interface TestEntry {
+    name: string;
+    content: string;
+    deflate?: boolean;
+}
+
+/**
+ * Build a minimal ZIP archive (CRC fields are left zero, the reader doesn't check them)
+ */
+function buildZip(entries: TestEntry[]): Buffer {
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name, 'utf8');
+        const raw = Buffer.from(entry.content, 'utf8');
+        const data = entry.deflate ? deflateRawSync(raw) : raw;
+        const method = entry.deflate ? 8 : 0;
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(0x800, 6);
+        local.writeUInt16LE(method, 8);
+        local.writeUInt32LE(data.length, 18);
+        local.writeUInt32LE(raw.length, 22);
+        local.writeUInt16LE(name.length, 26);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(0x800, 8);
+        central.writeUInt16LE(method, 10);
+        central.writeUInt32LE(data.length, 20);
+        central.writeUInt32LE(raw.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(offset, 42);
+
+        localParts.push(local, name, data);
+        centralParts.push(central, name);
+        offset += local.length + name.length + data.length;
+    }
+
+    const centralDirectory = Buffer.concat(centralParts);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+describe('extractZipEntries', () => {
+    it('should extract stored and deflated entries', () => {
+        const archive = buildZip([
+            { name: 'a.jpg', content: 'stored content' },
+            { name: 'photos/b.png', content: 'deflated content '.repeat(20), deflate: true }
+        ]);
+
+        const entries = extractZipEntries(archive);
+
+        expect(entries.map(entry => entry.name)).toEqual(['a.jpg', 'photos/b.png']);
+        expect(entries[0].data.toString()).toBe('stored content');
+        expect(entries[1].data.toString()).toBe('deflated content '.repeat(20));
+    });
+
+    it('should skip directories and filtered entries', () => {
+        const archive = buildZip([
+            { name: 'photos/', content: '' },
+            { name: 'photos/a.jpg', content: 'image' },
+            { name: 'notes.txt', content: 'text' }
+        ]);
+
+        const entries = extractZipEntries(archive, { filter: name => name.endsWith('.jpg') });
+
+        expect(entries.map(entry => entry.name)).toEqual(['photos/a.jpg']);
+    });
+
+    it('should enforce entry and size limits', () => {
+        const archive = buildZip([
+            { name: 'a.jpg', content: 'x'.repeat(100) },
+            { name: 'b.jpg', content: 'y'.repeat(100), deflate: true }
+        ]);
+
+        expect(() => extractZipEntries(archive, { maxEntries: 1 })).toThrow('more than 1 files');
+        expect(() => extractZipEntries(archive, { maxTotalSize: 150 })).toThrow('exceeds 150 bytes');
+    });
+
+    it('should reject data that is not a ZIP archive', () => {
+        expect(() => extractZipEntries(Buffer.alloc(64))).toThrow('Not a ZIP archive');
+    });
+});
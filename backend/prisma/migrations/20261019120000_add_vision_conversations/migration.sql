@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "VisionConversation" (
+    "id" TEXT NOT NULL,
+    "visionAnalysisId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "sessionId" TEXT,
+    "modelName" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VisionConversation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ConversationTurn" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "question" TEXT NOT NULL,
+    "answer" TEXT NOT NULL,
+    "modelName" TEXT NOT NULL,
+    "processingTimeMs" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ConversationTurn_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VisionConversation_visionAnalysisId_key" ON "VisionConversation"("visionAnalysisId");
+
+-- CreateIndex
+CREATE INDEX "ConversationTurn_conversationId_createdAt_idx" ON "ConversationTurn"("conversationId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "VisionConversation" ADD CONSTRAINT "VisionConversation_visionAnalysisId_fkey" FOREIGN KEY ("visionAnalysisId") REFERENCES "VisionAnalysis"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VisionConversation" ADD CONSTRAINT "VisionConversation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VisionConversation" ADD CONSTRAINT "VisionConversation_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConversationTurn" ADD CONSTRAINT "ConversationTurn_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "VisionConversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "TextRecognition" (
+    "id" TEXT NOT NULL,
+    "visionAnalysisId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "modelName" TEXT NOT NULL,
+    "modelSettings" JSONB,
+    "text" TEXT NOT NULL,
+    "blocks" JSONB NOT NULL,
+    "processingTimeMs" INTEGER,
+
+    CONSTRAINT "TextRecognition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TextRecognition_visionAnalysisId_key" ON "TextRecognition"("visionAnalysisId");
+
+-- AddForeignKey
+ALTER TABLE "TextRecognition" ADD CONSTRAINT "TextRecognition_visionAnalysisId_fkey" FOREIGN KEY ("visionAnalysisId") REFERENCES "VisionAnalysis"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TextRecognition" ADD CONSTRAINT "TextRecognition_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
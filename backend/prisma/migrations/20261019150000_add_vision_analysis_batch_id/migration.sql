@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "VisionAnalysis" ADD COLUMN     "batchId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "VisionAnalysis_batchId_idx" ON "VisionAnalysis"("batchId");
@@ -0,0 +1,58 @@
+-- CreateTable
+CREATE TABLE "Model" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "provider" TEXT,
+    "version" TEXT,
+    "description" TEXT,
+    "license" TEXT,
+    "parameters" DOUBLE PRECISION,
+    "quantizations" TEXT[],
+    "size" INTEGER,
+    "capabilities" TEXT[],
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Model_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Model_name_key" ON "Model"("name");
+
+-- CreateIndex
+CREATE INDEX "Model_type_idx" ON "Model"("type");
+
+-- Seed the models that were previously hardcoded in the services
+INSERT INTO "Model" ("id", "name", "type", "provider", "description", "license", "parameters", "quantizations", "capabilities", "updatedAt") VALUES
+    (gen_random_uuid()::text, 'Xenova/yolos-tiny', 'object-detection', 'Xenova', 'YOLOS tiny, fast COCO detector (default)', 'apache-2.0', 6.5,
+        ARRAY['fp32', 'fp16', 'q8', 'int8', 'uint8', 'q4', 'bnb4', 'q4f16'], ARRAY['coco'], CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'Xenova/yolos-small', 'object-detection', 'Xenova', 'YOLOS small COCO detector', 'apache-2.0', 30.7,
+        ARRAY['fp32', 'fp16', 'q8', 'int8', 'uint8', 'q4', 'bnb4', 'q4f16'], ARRAY['coco'], CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'Xenova/detr-resnet-50', 'object-detection', 'Xenova', 'DETR with a ResNet-50 backbone, COCO detector', 'apache-2.0', 41.6,
+        ARRAY['fp32', 'fp16', 'q8', 'int8', 'uint8', 'q4', 'bnb4', 'q4f16'], ARRAY['coco'], CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'onnx-community/rtdetr_r50vd', 'object-detection', 'onnx-community', 'RT-DETR with a ResNet-50 backbone, COCO detector', 'apache-2.0', 42.9,
+        ARRAY['fp32', 'fp16', 'q8', 'int8', 'uint8', 'q4', 'bnb4', 'q4f16'], ARRAY['coco'], CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'onnx-community/dfine_n_coco-ONNX', 'object-detection', 'onnx-community', 'D-FINE nano COCO detector', 'apache-2.0', 3.8,
+        ARRAY['fp32', 'fp16', 'q8', 'int8', 'uint8', 'q4', 'bnb4', 'q4f16'], ARRAY['coco'], CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'Xenova/owlvit-base-patch32', 'zero-shot-object-detection', 'Xenova', 'OWL-ViT base, finds objects named in free text (default)', 'apache-2.0', 153,
+        ARRAY['fp32', 'fp16', 'q8', 'int8', 'uint8', 'q4', 'bnb4', 'q4f16'], ARRAY['open-vocabulary'], CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'Xenova/owlvit-base-patch16', 'zero-shot-object-detection', 'Xenova', 'OWL-ViT base with 16px patches, slower and more precise', 'apache-2.0', 153,
+        ARRAY['fp32', 'fp16', 'q8', 'int8', 'uint8', 'q4', 'bnb4', 'q4f16'], ARRAY['open-vocabulary'], CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'Xenova/owlv2-base-patch16-ensemble', 'zero-shot-object-detection', 'Xenova', 'OWLv2 base ensemble', 'apache-2.0', 155,
+        ARRAY['fp32', 'fp16', 'q8', 'int8', 'uint8', 'q4', 'bnb4', 'q4f16'], ARRAY['open-vocabulary'], CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'Xenova/trocr-small-printed', 'ocr', 'Xenova', 'TrOCR small, printed text (default)', 'mit', 61,
+        ARRAY['fp32', 'fp16', 'q8', 'int8', 'uint8', 'q4', 'bnb4', 'q4f16'], ARRAY['printed-text'], CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'Xenova/trocr-base-printed', 'ocr', 'Xenova', 'TrOCR base, printed text', 'mit', 334,
+        ARRAY['fp32', 'fp16', 'q8', 'int8', 'uint8', 'q4', 'bnb4', 'q4f16'], ARRAY['printed-text'], CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'Xenova/trocr-small-handwritten', 'ocr', 'Xenova', 'TrOCR small, handwriting', 'mit', 61,
+        ARRAY['fp32', 'fp16', 'q8', 'int8', 'uint8', 'q4', 'bnb4', 'q4f16'], ARRAY['handwritten-text'], CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'Xenova/trocr-base-handwritten', 'ocr', 'Xenova', 'TrOCR base, handwriting', 'mit', 334,
+        ARRAY['fp32', 'fp16', 'q8', 'int8', 'uint8', 'q4', 'bnb4', 'q4f16'], ARRAY['handwritten-text'], CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'SmolVLM2-2.2B-Instruct', 'image-description', 'HuggingFaceTB', 'SmolVLM2 2.2B, served by the vision-language server', 'apache-2.0', 2200,
+        ARRAY[]::TEXT[], ARRAY['image-description', 'visual-question-answering'], CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'internvl3-1b', 'image-description', 'OpenGVLab', 'InternVL3 1B Instruct, served by the vision-language server', NULL, 940,
+        ARRAY[]::TEXT[], ARRAY['image-description', 'visual-question-answering'], CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'smolvlm-500m', 'image-description', 'HuggingFaceTB', 'SmolVLM 500M Instruct, served by the vision-language server', 'apache-2.0', 507,
+        ARRAY[]::TEXT[], ARRAY['image-description', 'visual-question-answering'], CURRENT_TIMESTAMP);
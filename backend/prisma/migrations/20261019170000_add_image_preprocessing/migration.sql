@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "VisionAnalysis" ADD COLUMN     "preprocessing" JSONB;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "VisionAnalysis" ADD COLUMN     "parentAnalysisId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "VisionAnalysis_parentAnalysisId_idx" ON "VisionAnalysis"("parentAnalysisId");
+
+-- AddForeignKey
+ALTER TABLE "VisionAnalysis" ADD CONSTRAINT "VisionAnalysis_parentAnalysisId_fkey" FOREIGN KEY ("parentAnalysisId") REFERENCES "VisionAnalysis"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- Register the depth estimation models
+INSERT INTO "Model" ("id", "name", "type", "provider", "description", "license", "parameters", "quantizations", "capabilities", "updatedAt") VALUES
+    (gen_random_uuid()::text, 'onnx-community/depth-anything-v2-small', 'depth-estimation', 'onnx-community', 'Depth Anything V2 small, relative depth (default)', 'apache-2.0', 24.8,
+        ARRAY['fp32', 'fp16', 'q8', 'int8', 'uint8', 'q4', 'bnb4', 'q4f16'], ARRAY['relative-depth'], CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'Xenova/depth-anything-small-hf', 'depth-estimation', 'Xenova', 'Depth Anything small, relative depth', 'apache-2.0', 24.8,
+        ARRAY['fp32', 'fp16', 'q8', 'int8', 'uint8', 'q4', 'bnb4', 'q4f16'], ARRAY['relative-depth'], CURRENT_TIMESTAMP)
+ON CONFLICT ("name") DO NOTHING;
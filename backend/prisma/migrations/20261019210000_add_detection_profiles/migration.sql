@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "AppSettings" ADD COLUMN     "activeDetectionProfile" TEXT,
+ADD COLUMN     "detectionProfiles" JSONB;
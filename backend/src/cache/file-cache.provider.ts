@@ -0,0 +1,131 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { ICacheProvider } from '../interfaces/ICacheProvider';
+
+interface CacheFile {
+    key: string;
+    value: any;
+    expiresAt: number | null;
+}
+
+/**
+ * File-backed cache that survives restarts: one JSON file per key.
+ * Reads refresh the file's modification time, so pruning by mtime evicts the least recently used entries.
+ */
+export class FileCacheProvider implements ICacheProvider {
+    private ready: Promise<void> | null = null;
+
+    /**
+     * @param directory Directory the cache files are written to
+     * @param maxEntries Number of files kept before the least recently used are removed
+     * @param defaultExpiration Expiration in seconds when set() doesn't give one (0 = never)
+     */
+    constructor(
+        private readonly directory: string,
+        private readonly maxEntries: number = 500,
+        private readonly defaultExpiration: number = 0
+    ) { }
+
+    private ensureDirectory(): Promise<void> {
+        if (!this.ready) {
+            this.ready = fs.mkdir(this.directory, { recursive: true }).then(() => undefined);
+        }
+        return this.ready;
+    }
+
+    private filePath(key: string): string {
+        // Keys may contain characters that aren't valid in file names
+        return path.join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+    }
+
+    private async readEntry(key: string): Promise<CacheFile | null> {
+        const file = this.filePath(key);
+
+        let entry: CacheFile;
+        try {
+            entry = JSON.parse(await fs.readFile(file, 'utf8'));
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                console.warn(`Discarding unreadable cache file ${file}:`, error.message);
+                await fs.rm(file, { force: true });
+            }
+            return null;
+        }
+
+        if (entry.key !== key || (entry.expiresAt !== null && entry.expiresAt <= Date.now())) {
+            await fs.rm(file, { force: true });
+            return null;
+        }
+
+        return entry;
+    }
+
+    /**
+     * Remove the least recently used files beyond maxEntries
+     */
+    private async prune(): Promise<void> {
+        const names = (await fs.readdir(this.directory)).filter(name => name.endsWith('.json'));
+        if (names.length <= this.maxEntries) {
+            return;
+        }
+
+        const files = await Promise.all(names.map(async name => {
+            const file = path.join(this.directory, name);
+            const stats = await fs.stat(file).catch(() => null);
+            return { file, mtime: stats ? stats.mtimeMs : 0 };
+        }));
+
+        files.sort((a, b) => a.mtime - b.mtime);
+        await Promise.all(
+            files.slice(0, files.length - this.maxEntries).map(({ file }) => fs.rm(file, { force: true }))
+        );
+    }
+
+    public async get(key: string): Promise<any> {
+        await this.ensureDirectory();
+        const entry = await this.readEntry(key);
+        if (!entry) {
+            return null;
+        }
+
+        const now = new Date();
+        await fs.utimes(this.filePath(key), now, now).catch(() => undefined);
+        return entry.value;
+    }
+
+    public async set(key: string, value: any, expiration: number = this.defaultExpiration): Promise<boolean> {
+        await this.ensureDirectory();
+
+        const entry: CacheFile = {
+            key,
+            value,
+            expiresAt: expiration > 0 ? Date.now() + expiration * 1000 : null
+        };
+
+        // Write to a temporary file first so readers never see a partial entry;
+        // every write gets its own, since the same key can be written concurrently
+        const file = this.filePath(key);
+        const tempFile = `${file}.${uuidv4()}.tmp`;
+        await fs.writeFile(tempFile, JSON.stringify(entry));
+        await fs.rename(tempFile, file);
+
+        await this.prune();
+        return true;
+    }
+
+    public async delete(key: string): Promise<boolean> {
+        try {
+            await fs.unlink(this.filePath(key));
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    public async exists(key: string): Promise<boolean> {
+        await this.ensureDirectory();
+        return (await this.readEntry(key)) !== null;
+    }
+}
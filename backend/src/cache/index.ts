@@ -0,0 +1,24 @@
+import { ResultCacheConfig } from '../config/Config';
+import { ICacheProvider } from '../interfaces/ICacheProvider';
+import { MemoryCacheProvider } from './memory-cache.provider';
+import { FileCacheProvider } from './file-cache.provider';
+
+export { MemoryCacheProvider } from './memory-cache.provider';
+export { FileCacheProvider } from './file-cache.provider';
+
+/**
+ * Create the cache provider selected by configuration (RESULT_CACHE_PROVIDER).
+ * Returns null when caching is disabled.
+ */
+export function createCacheProvider(config: ResultCacheConfig): ICacheProvider | null {
+    switch (config.provider) {
+        case 'memory':
+            return new MemoryCacheProvider(config.maxEntries, config.ttl);
+        case 'file':
+            return new FileCacheProvider(config.directory, config.maxEntries, config.ttl);
+        case 'none':
+            return null;
+        default:
+            throw new Error(`Unknown result cache provider: ${config.provider}. Use 'memory', 'file' or 'none'.`);
+    }
+}
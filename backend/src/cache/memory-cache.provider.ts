@@ -0,0 +1,79 @@
+import { ICacheProvider } from '../interfaces/ICacheProvider';
+
+interface CacheEntry {
+    value: any;
+    expiresAt: number | null;
+}
+
+/**
+ * In-memory LRU cache with per-entry expiration.
+ * Relies on Map iteration order: the first key is the least recently used.
+ */
+export class MemoryCacheProvider implements ICacheProvider {
+    private entries: Map<string, CacheEntry> = new Map();
+
+    /**
+     * @param maxEntries Number of entries kept before the least recently used is evicted
+     * @param defaultExpiration Expiration in seconds when set() doesn't give one (0 = never)
+     */
+    constructor(
+        private readonly maxEntries: number = 500,
+        private readonly defaultExpiration: number = 0
+    ) { }
+
+    private getEntry(key: string): CacheEntry | null {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return null;
+        }
+
+        if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return null;
+        }
+
+        return entry;
+    }
+
+    public async get(key: string): Promise<any> {
+        const entry = this.getEntry(key);
+        if (!entry) {
+            return null;
+        }
+
+        // Move to the most recently used position
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    public async set(key: string, value: any, expiration: number = this.defaultExpiration): Promise<boolean> {
+        this.entries.delete(key);
+        this.entries.set(key, {
+            value,
+            expiresAt: expiration > 0 ? Date.now() + expiration * 1000 : null
+        });
+
+        while (this.entries.size > this.maxEntries) {
+            const oldestKey = this.entries.keys().next().value as string;
+            this.entries.delete(oldestKey);
+        }
+
+        return true;
+    }
+
+    public async delete(key: string): Promise<boolean> {
+        return this.entries.delete(key);
+    }
+
+    public async exists(key: string): Promise<boolean> {
+        return this.getEntry(key) !== null;
+    }
+
+    /**
+     * Number of entries, including expired ones not yet evicted
+     */
+    public get size(): number {
+        return this.entries.size;
+    }
+}
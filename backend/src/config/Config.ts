@@ -1,5 +1,6 @@
 import path from 'path';
 import fs from 'fs';
+import { VisionLanguageProviderType } from '../interfaces/IVisionLanguageProvider';
 
 /**
  * MongoDB database connection configuration
@@ -43,8 +44,78 @@ export interface ApiConfig {
  */
 export interface ModelManagerConfig {
     maxLoaded: number;
+    // "kind" for the kind's default model or "kind:model", e.g. "object-detection:Xenova/yolos-small"
     preloadModels: string[];
-    cacheTTL: number;
+    cacheTTL: number; // Milliseconds a model may stay unused before it is unloaded
+    memoryBudgetMB: number; // Approximate memory all loaded models may use, 0 for no limit
+}
+
+/**
+ * Vision-language model (image description) configuration
+ */
+export interface VisionLanguageConfig {
+    provider: VisionLanguageProviderType;
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+    timeout: number;
+    modelsCacheTTL: number;
+}
+
+/**
+ * Analysis result cache configuration
+ */
+export interface ResultCacheConfig {
+    provider: 'memory' | 'file' | 'none';
+    maxEntries: number;
+    ttl: number; // Seconds
+    directory: string;
+}
+
+/**
+ * Inference queue configuration
+ */
+export interface InferenceQueueConfig {
+    defaultConcurrency: number;
+    // Concurrency per resource ("kind:model"), model or kind, e.g. { "image-description": 2 }
+    concurrency: Record<string, number>;
+    maxQueueLength: number;
+    defaultRetryAfter: number; // Seconds, used until a model has run times to estimate from
+}
+
+/**
+ * Image preprocessing configuration
+ */
+export interface ImagePreprocessingConfig {
+    maxDimension: number; // Longest side images are downscaled to, 0 to keep the full size
+    // Longest side per resource ("kind:model"), model or kind, e.g. { "ocr": 2560 }
+    maxDimensions: Record<string, number>;
+}
+
+/**
+ * Image quality check configuration
+ */
+export interface ImageQualityConfig {
+    // block: unusable images are rejected before analysis; warn: they are analyzed and the issues reported; off: no check
+    mode: 'block' | 'warn' | 'off';
+    minSharpness: number; // Variance of the Laplacian below which an image is blurry
+}
+
+/**
+ * Image storage configuration
+ */
+export interface ImageStorageConfig {
+    provider: 'local' | 's3';
+    directory: string; // Root directory of the local provider
+    thumbnailSize: number; // Longest side of thumbnails in pixels
+    s3: {
+        endpoint?: string; // For S3-compatible servers such as MinIO; unset for AWS
+        region: string;
+        bucket: string;
+        accessKeyId?: string;
+        secretAccessKey?: string;
+        forcePathStyle: boolean;
+    };
 }
 
 /**
@@ -77,6 +148,12 @@ export class Config {
     public readonly auth: AuthConfig;
     public readonly api: ApiConfig;
     public readonly modelManager: ModelManagerConfig;
+    public readonly visionLanguage: VisionLanguageConfig;
+    public readonly resultCache: ResultCacheConfig;
+    public readonly inferenceQueue: InferenceQueueConfig;
+    public readonly imagePreprocessing: ImagePreprocessingConfig;
+    public readonly imageQuality: ImageQualityConfig;
+    public readonly imageStorage: ImageStorageConfig;
     public readonly logging: LoggingConfig;
 
     /**
@@ -140,8 +217,68 @@ export class Config {
         // Set model manager configuration
         this.modelManager = {
             maxLoaded: parseInt(process.env.MAX_LOADED_MODELS || '10', 10),
-            preloadModels: (process.env.PRELOAD_MODELS || 'text-to-speech,speech-to-text,object-detection').split(','),
-            cacheTTL: parseInt(process.env.MODEL_CACHE_TTL || '3600000', 10) // 1 hour
+            preloadModels: (process.env.PRELOAD_MODELS || 'text-to-speech,speech-to-text,object-detection')
+                .split(',')
+                .map(name => name.trim())
+                .filter(name => name.length > 0),
+            cacheTTL: parseInt(process.env.MODEL_CACHE_TTL || '3600000', 10), // 1 hour
+            memoryBudgetMB: parseInt(process.env.MODEL_MEMORY_BUDGET_MB || '0', 10)
+        };
+
+        // Set vision-language model configuration
+        this.visionLanguage = {
+            provider: (process.env.VLM_PROVIDER || 'openai-chat') as VisionLanguageProviderType,
+            baseUrl: process.env.VLM_BASE_URL || process.env.LLAMA_SERVER_URL || 'http://localhost:8080',
+            model: process.env.VLM_MODEL || process.env.LLAMA_DEFAULT_MODEL || 'SmolVLM2-2.2B-Instruct',
+            apiKey: process.env.VLM_API_KEY,
+            timeout: parseInt(process.env.VLM_TIMEOUT || '120000', 10), // 2 minutes
+            modelsCacheTTL: parseInt(process.env.VLM_MODELS_CACHE_TTL || '60000', 10) // 1 minute
+        };
+
+        // Set analysis result cache configuration
+        this.resultCache = {
+            provider: (process.env.RESULT_CACHE_PROVIDER || 'memory') as ResultCacheConfig['provider'],
+            maxEntries: parseInt(process.env.RESULT_CACHE_MAX_ENTRIES || '500', 10),
+            ttl: parseInt(process.env.RESULT_CACHE_TTL || '3600', 10), // 1 hour
+            directory: process.env.RESULT_CACHE_DIR || path.join(this.storagePath, 'cache')
+        };
+
+        // Set inference queue configuration
+        this.inferenceQueue = {
+            defaultConcurrency: parseInt(process.env.INFERENCE_CONCURRENCY || '1', 10),
+            concurrency: this.parseLimits(process.env.INFERENCE_MODEL_CONCURRENCY || ''),
+            maxQueueLength: parseInt(process.env.INFERENCE_MAX_QUEUE || '20', 10),
+            defaultRetryAfter: parseInt(process.env.INFERENCE_RETRY_AFTER || '5', 10)
+        };
+
+        // Set image preprocessing configuration; text needs more pixels than objects to stay legible
+        this.imagePreprocessing = {
+            maxDimension: parseInt(process.env.IMAGE_MAX_DIMENSION || '1280', 10),
+            maxDimensions: this.parseLimits(process.env.IMAGE_MODEL_MAX_DIMENSION || 'ocr=2560,barcode=2560')
+        };
+
+        // Set image quality check configuration
+        this.imageQuality = {
+            mode: (process.env.IMAGE_QUALITY_GATE || 'block') as ImageQualityConfig['mode'],
+            minSharpness: parseFloat(process.env.IMAGE_QUALITY_MIN_SHARPNESS || '100')
+        };
+
+        // Set image storage configuration
+        this.imageStorage = {
+            provider: (process.env.IMAGE_STORAGE_PROVIDER || 'local') as ImageStorageConfig['provider'],
+            directory: process.env.IMAGE_STORAGE_DIR || path.join(this.storagePath, 'images'),
+            thumbnailSize: parseInt(process.env.THUMBNAIL_SIZE || '256', 10),
+            s3: {
+                endpoint: process.env.S3_ENDPOINT,
+                region: process.env.S3_REGION || 'us-east-1',
+                bucket: process.env.S3_BUCKET || 'smallblind-images',
+                accessKeyId: process.env.S3_ACCESS_KEY_ID,
+                secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+                // MinIO and most self-hosted servers don't support bucket subdomains
+                forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+                    ? process.env.S3_FORCE_PATH_STYLE === 'true'
+                    : Boolean(process.env.S3_ENDPOINT)
+            }
         };
 
         // Set logging configuration
@@ -154,6 +291,22 @@ export class Config {
         };
     }
 
+    /**
+     * Parse "name=number" pairs separated by commas, e.g. "image-description=2,Xenova/yolos-tiny=1"
+     */
+    private parseLimits(value: string): Record<string, number> {
+        const limits: Record<string, number> = {};
+        for (const pair of value.split(',')) {
+            const separator = pair.lastIndexOf('=');
+            const name = pair.slice(0, separator).trim();
+            const limit = parseInt(pair.slice(separator + 1), 10);
+            if (separator > 0 && name && !isNaN(limit)) {
+                limits[name] = limit;
+            }
+        }
+        return limits;
+    }
+
     /**
      * Get a configuration value by key path
      * @param keyPath Key path (e.g., 'database.uri')
@@ -126,7 +126,7 @@ export class AuthController {
                     id: user.id,
                     username: user.username,
                     email: user.email,
-                    role: 'user', // Default role since it's not in the schema
+                    role: user.role,
                 },
                 session: session ? {
                     id: session.id
@@ -193,7 +193,7 @@ export class AuthController {
                     id: user.id,
                     username: user.username,
                     email: user.email,
-                    role: 'user', 
+                    role: user.role,
                     createdAt: user.createdAt,
                     updatedAt: user.createdAt, // Using createdAt as updatedAt is not in schema
                 },
@@ -0,0 +1,60 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { BarcodeService } from '../services/barcode.service';
+import { BarcodeOptions } from '../interfaces/detection.interface';
+import { sendQueueFullResponse } from '../utils/queue-full';
+import { sendUnsupportedImageResponse } from '../utils/unsupported-image';
+
+export class BarcodeController {
+    private barcodeService: BarcodeService;
+
+    constructor() {
+        this.barcodeService = BarcodeService.getInstance();
+    }
+
+    /**
+     * Read the barcodes and QR codes in an uploaded image
+     */
+    public readBarcodes = async (req: Request, res: Response): Promise<void> => {
+        try {
+            // Validate request
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            // Check if file was uploaded
+            if (!req.file) {
+                res.status(400).json({ error: 'No image file provided' });
+                return;
+            }
+
+            // Parse options from query parameters
+            const options: BarcodeOptions = {
+                formats: req.query.formats
+                    ? (req.query.formats as string).split(',').map(format => format.trim()).filter(Boolean)
+                    : undefined,
+                lookup: req.query.lookup !== 'false',
+                language: res.locals.language
+            };
+
+            const result = await this.barcodeService.readBarcodes(req.file.buffer, options);
+
+            res.status(200).json({
+                success: true,
+                data: { ...result, quality: res.locals.imageQuality }
+            });
+        } catch (error) {
+            if (sendQueueFullResponse(res, error) || sendUnsupportedImageResponse(res, error)) {
+                return;
+            }
+            console.error('Error reading barcodes:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error processing image',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+}
@@ -0,0 +1,214 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import * as path from 'path';
+import { BatchAnalysisService } from '../services/batch-analysis.service';
+import { VisionStorageService } from '../services/vision-storage.service';
+import { BatchAnalysisOptions, BatchImage, BatchImageResult, BatchTask } from '../interfaces/detection.interface';
+import { extractZipEntries } from '../utils/zip';
+
+// Extended Request interface to include user and session
+interface AuthenticatedRequest extends Request {
+    user?: {
+        id: string;
+        username?: string;
+        email?: string;
+    };
+    session?: {
+        id: string;
+        [key: string]: any;
+    };
+}
+
+// Image types accepted inside ZIP archives, by extension
+const IMAGE_MIME_TYPES: Record<string, string> = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    // Converted to JPEG or PNG before analysis
+    '.avif': 'image/avif',
+    '.tif': 'image/tiff',
+    '.tiff': 'image/tiff'
+};
+
+export const BATCH_MAX_IMAGES = parseInt(process.env.BATCH_MAX_IMAGES || '50', 10);
+const BATCH_MAX_ARCHIVE_CONTENT = 500 * 1024 * 1024; // 500 MB uncompressed
+
+export class BatchAnalysisController {
+    private batchAnalysisService: BatchAnalysisService;
+    private visionStorageService: VisionStorageService;
+
+    constructor() {
+        this.batchAnalysisService = BatchAnalysisService.getInstance();
+        this.visionStorageService = VisionStorageService.getInstance();
+    }
+
+    /**
+     * Collect the uploaded images and the images inside an uploaded ZIP archive
+     */
+    private collectImages(req: AuthenticatedRequest): BatchImage[] {
+        const files = (req.files || {}) as { [field: string]: Express.Multer.File[] };
+
+        const images: BatchImage[] = (files.images || []).map(file => ({
+            fileName: file.originalname,
+            buffer: file.buffer,
+            mimeType: file.mimetype
+        }));
+
+        for (const archive of files.archive || []) {
+            const entries = extractZipEntries(archive.buffer, {
+                // Skip macOS resource forks and hidden files
+                filter: name => !name.startsWith('__MACOSX/') &&
+                    !path.posix.basename(name).startsWith('.') &&
+                    path.posix.extname(name).toLowerCase() in IMAGE_MIME_TYPES,
+                maxEntries: BATCH_MAX_IMAGES,
+                maxTotalSize: BATCH_MAX_ARCHIVE_CONTENT
+            });
+
+            for (const entry of entries) {
+                images.push({
+                    fileName: entry.name,
+                    buffer: entry.data,
+                    mimeType: IMAGE_MIME_TYPES[path.posix.extname(entry.name).toLowerCase()]
+                });
+            }
+        }
+
+        return images;
+    }
+
+    /**
+     * Store the results of one batch image as its own vision analysis
+     */
+    private async saveResult(
+        req: AuthenticatedRequest,
+        options: BatchAnalysisOptions,
+        result: BatchImageResult,
+        image: BatchImage,
+        batchId: string
+    ): Promise<void> {
+        const { detection, description } = result;
+        if (!req.user || (!detection && !description)) {
+            return;
+        }
+
+        try {
+            const savedResult = await this.visionStorageService.saveBatchAnalysis(
+                req.user.id,
+                req.session?.id || null,
+                batchId,
+                image.buffer,
+                image.fileName,
+                image.mimeType?.split('/')[1] || null,
+                detection && {
+                    modelName: detection.model,
+                    modelSettings: {
+                        threshold: options.detection?.threshold || 0.5,
+                        maxObjects: options.detection?.maxObjects,
+                        dtype: detection.dtype,
+                        language: options.language
+                    },
+                    // Labels are stored as the model gave them, whatever the language of the response
+                    detections: detection.detections.map(item => ({
+                        label: item.originalLabel ?? item.label,
+                        confidence: item.score,
+                        boundingBox: {
+                            xMin: item.box.xmin,
+                            yMin: item.box.ymin,
+                            xMax: item.box.xmax,
+                            yMax: item.box.ymax
+                        }
+                    })),
+                    processingTimeMs: detection.processingTime
+                },
+                description && {
+                    modelName: description.model,
+                    prompt: description.prompt,
+                    maxNewTokens: options.description?.maxNewTokens || 150,
+                    temperature: options.description?.doSample ? 0.7 : 0,
+                    description: description.description,
+                    processingTimeMs: description.processingTime
+                },
+                [detection?.preprocessing, description?.preprocessing]
+            );
+
+            result.analysisId = savedResult?.id || null;
+        } catch (storageError) {
+            // Log the error but don't fail the batch
+            console.error(`Error saving batch result for ${image.fileName}:`, storageError);
+        }
+    }
+
+    /**
+     * Run detection and/or description on many uploaded images
+     */
+    public analyzeBatch = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+        try {
+            // Validate request
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            let images: BatchImage[];
+            try {
+                images = this.collectImages(req);
+            } catch (archiveError) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Invalid ZIP archive',
+                    details: archiveError instanceof Error ? archiveError.message : String(archiveError)
+                });
+                return;
+            }
+
+            if (images.length === 0) {
+                res.status(400).json({ error: 'No image files provided' });
+                return;
+            }
+            if (images.length > BATCH_MAX_IMAGES) {
+                res.status(400).json({ error: `A batch can contain at most ${BATCH_MAX_IMAGES} images` });
+                return;
+            }
+
+            // Parse options from query parameters
+            const options: BatchAnalysisOptions = {
+                tasks: ((req.query.tasks as string) || 'detection').split(',').map(task => task.trim()) as BatchTask[],
+                detection: {
+                    modelName: req.query.model as string,
+                    threshold: req.query.threshold ? parseFloat(req.query.threshold as string) : undefined,
+                    maxObjects: req.query.maxObjects ? parseInt(req.query.maxObjects as string) : undefined,
+                    dtype: req.query.dtype as string
+                },
+                description: {
+                    modelName: req.query.descriptionModel as string,
+                    prompt: req.query.prompt as string,
+                    maxNewTokens: req.query.maxNewTokens ? parseInt(req.query.maxNewTokens as string) : undefined,
+                    doSample: req.query.doSample === 'true'
+                },
+                skipQualityCheck: req.query.skipQualityCheck === 'true',
+                language: res.locals.language
+            };
+
+            const result = await this.batchAnalysisService.analyzeBatch(
+                images,
+                options,
+                (imageResult, image, batchId) => this.saveResult(req, options, imageResult, image, batchId)
+            );
+
+            res.status(200).json({
+                success: true,
+                data: result
+            });
+        } catch (error) {
+            console.error('Error in batch analysis:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error processing batch',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+}
@@ -0,0 +1,59 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { ColorAnalysisService } from '../services/color-analysis.service';
+import { ColorAnalysisOptions } from '../interfaces/detection.interface';
+import { parseRegion } from '../schemas/color-analysis.schema';
+import { sendUnsupportedImageResponse } from '../utils/unsupported-image';
+
+export class ColorAnalysisController {
+    private colorAnalysisService: ColorAnalysisService;
+
+    constructor() {
+        this.colorAnalysisService = ColorAnalysisService.getInstance();
+    }
+
+    /**
+     * Name the dominant colors and the pattern of an uploaded image, or of a region of it
+     */
+    public analyzeColors = async (req: Request, res: Response): Promise<void> => {
+        try {
+            // Validate request
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            // Check if file was uploaded
+            if (!req.file) {
+                res.status(400).json({ error: 'No image file provided' });
+                return;
+            }
+
+            // Parse options from query parameters
+            const options: ColorAnalysisOptions = {
+                box: req.query.box ? parseRegion(req.query.box as string) || undefined : undefined,
+                mode: req.query.mode === 'clothing' ? 'clothing' : 'general',
+                language: res.locals.language,
+                maxColors: req.query.maxColors ? parseInt(req.query.maxColors as string) : undefined
+            };
+
+            const result = await this.colorAnalysisService.analyzeColors(req.file.buffer, options);
+
+            res.status(200).json({
+                success: true,
+                data: { ...result, quality: res.locals.imageQuality }
+            });
+        } catch (error) {
+            if (sendUnsupportedImageResponse(res, error)) {
+                return;
+            }
+            console.error('Error analyzing colors:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error processing image',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+}
@@ -0,0 +1,163 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { DepthEstimationService } from '../services/depth-estimation.service';
+import { ModelRegistryService } from '../services/model-registry.service';
+import { VisionStorageService } from '../services/vision-storage.service';
+import { DepthEstimationOptions } from '../interfaces/detection.interface';
+import { sendQueueFullResponse } from '../utils/queue-full';
+import { sendUnsupportedImageResponse } from '../utils/unsupported-image';
+
+// Extended Request interface to include user and session
+interface AuthenticatedRequest extends Request {
+    user?: {
+        id: string;
+        username?: string;
+        email?: string;
+    };
+    session?: {
+        id: string;
+        [key: string]: any;
+    };
+}
+
+export class DepthEstimationController {
+    private depthService: DepthEstimationService;
+    private visionStorageService: VisionStorageService;
+    private modelRegistry: ModelRegistryService;
+
+    constructor() {
+        this.depthService = DepthEstimationService.getInstance();
+        this.visionStorageService = VisionStorageService.getInstance();
+        this.modelRegistry = ModelRegistryService.getInstance();
+    }
+
+    /**
+     * Estimate the depth of an uploaded image and the distance of the objects in it
+     */
+    public estimateDepth = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+        try {
+            // Validate request
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            // Check if file was uploaded
+            if (!req.file) {
+                res.status(400).json({ error: 'No image file provided' });
+                return;
+            }
+
+            // Parse options from query parameters
+            const options: DepthEstimationOptions = {
+                modelName: req.query.model as string,
+                dtype: req.query.dtype as string,
+                gridRows: req.query.rows ? parseInt(req.query.rows as string) : undefined,
+                gridCols: req.query.cols ? parseInt(req.query.cols as string) : undefined,
+                detect: req.query.detect !== 'false',
+                detection: {
+                    modelName: req.query.detectionModel as string,
+                    threshold: req.query.threshold ? parseFloat(req.query.threshold as string) : undefined,
+                    maxObjects: req.query.maxObjects ? parseInt(req.query.maxObjects as string) : undefined
+                },
+                language: res.locals.language
+            };
+
+            const result = await this.depthService.estimateDepth(req.file.buffer, options);
+
+            // Save the detections with their distances if the user is authenticated
+            let savedResult = null;
+            const { detection } = result;
+            if (req.user && detection) {
+                try {
+                    const sessionId = req.session?.id || null;
+
+                    savedResult = await this.visionStorageService.saveObjectDetection(
+                        req.user.id,
+                        sessionId,
+                        req.file.buffer,
+                        req.file.originalname || null,
+                        req.file.mimetype?.split('/')[1] || null,
+                        detection.model,
+                        {
+                            threshold: options.detection?.threshold || 0.5,
+                            maxObjects: options.detection?.maxObjects,
+                            dtype: detection.dtype,
+                            depthModel: result.model,
+                            depthDtype: result.dtype,
+                            language: options.language
+                        },
+                        // Labels are stored as the model gave them, whatever the language of the response
+                        detection.detections.map(item => ({
+                            label: item.originalLabel ?? item.label,
+                            confidence: item.score,
+                            boundingBox: {
+                                xMin: item.box.xmin,
+                                yMin: item.box.ymin,
+                                xMax: item.box.xmax,
+                                yMax: item.box.ymax
+                            },
+                            attributes: item.distance ? { distance: item.distance } : undefined
+                        })),
+                        result.processingTime,
+                        detection.preprocessing
+                    );
+
+                    console.log(`Saved depth detection results with ID: ${savedResult?.id || 'unknown'}`);
+                } catch (storageError) {
+                    // Log the error but don't fail the request
+                    console.error('Error saving depth detection results:', storageError);
+                }
+            }
+
+            res.status(200).json({
+                success: true,
+                data: {
+                    ...result,
+                    quality: res.locals.imageQuality,
+                    savedResultId: savedResult?.id || null,
+                    analysisId: savedResult?.visionAnalysisId || null
+                }
+            });
+        } catch (error) {
+            if (sendQueueFullResponse(res, error) || sendUnsupportedImageResponse(res, error)) {
+                return;
+            }
+            console.error('Error in depth estimation:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error processing image',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+
+    /**
+     * Get the registered models for depth estimation
+     */
+    public getAvailableModels = async (_req: Request, res: Response): Promise<void> => {
+        try {
+            const models = await this.modelRegistry.getEnabledModels('depth-estimation');
+
+            res.status(200).json({
+                success: true,
+                data: {
+                    models: models.map(model => model.name),
+                    modelDetails: models,
+                    default: {
+                        model: this.depthService.getDefaultModel()
+                    },
+                    currentModel: this.depthService.getCurrentModelInfo()
+                }
+            });
+        } catch (error) {
+            console.error('Error getting depth models:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error retrieving models',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+}
@@ -0,0 +1,136 @@
+import { Response } from 'express';
+import { validationResult } from 'express-validator';
+import { DetectionProfile } from '../interfaces/detection.interface';
+import { AuthRequest } from '../middlewares/authMiddleware';
+import { DetectionProfileError, DetectionProfileService } from '../services/detection-profile.service';
+
+export class DetectionProfileController {
+    private detectionProfiles: DetectionProfileService;
+
+    constructor() {
+        this.detectionProfiles = DetectionProfileService.getInstance();
+    }
+
+    /**
+     * List the user's detection profiles and the active one
+     */
+    public listProfiles = async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const result = await this.detectionProfiles.listProfiles(req.user.id);
+
+            res.status(200).json({
+                success: true,
+                data: result
+            });
+        } catch (error) {
+            console.error('Error listing detection profiles:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error retrieving detection profiles',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+
+    /**
+     * Create or replace a detection profile
+     */
+    public saveProfile = async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            // Validate request
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            // Only keep the settings a profile can hold
+            const { threshold, maxObjects, includeLabels, excludeLabels, classThresholds, nmsThreshold, rankBy } = req.body;
+            const profile: DetectionProfile = {
+                threshold, maxObjects, includeLabels, excludeLabels, classThresholds, nmsThreshold, rankBy
+            };
+
+            const saved = await this.detectionProfiles.saveProfile(req.user.id, req.params.name, profile);
+
+            res.status(200).json({
+                success: true,
+                data: { name: req.params.name, profile: saved }
+            });
+        } catch (error) {
+            if (error instanceof DetectionProfileError) {
+                res.status(400).json({ success: false, error: error.message });
+                return;
+            }
+            console.error('Error saving detection profile:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error saving detection profile',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+
+    /**
+     * Delete a detection profile
+     */
+    public deleteProfile = async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            // Validate request
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            const deleted = await this.detectionProfiles.deleteProfile(req.user.id, req.params.name);
+            if (!deleted) {
+                res.status(404).json({ success: false, error: 'Detection profile not found' });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                message: 'Detection profile deleted'
+            });
+        } catch (error) {
+            console.error('Error deleting detection profile:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error deleting detection profile',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+
+    /**
+     * Choose the profile applied to detection requests that name none, or clear it
+     */
+    public setActiveProfile = async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            // Validate request
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            await this.detectionProfiles.setActiveProfile(req.user.id, req.body.name);
+
+            res.status(200).json({
+                success: true,
+                data: { active: req.body.name }
+            });
+        } catch (error) {
+            if (error instanceof DetectionProfileError) {
+                res.status(error.notFound ? 404 : 400).json({ success: false, error: error.message });
+                return;
+            }
+            console.error('Error activating detection profile:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error activating detection profile',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+}
@@ -1,19 +1,38 @@
 import { Request, Response } from 'express';
 import { validationResult } from 'express-validator';
-import { ImageDescriptionService } from '../services/image-description.service';
+import { ImageDescriptionService, ModelNotServedError } from '../services/image-description.service';
+import { VisionStorageService } from '../services/vision-storage.service';
 import { ImageDescriptionOptions } from '../interfaces/detection.interface';
+import { initSSE, sendSSEEvent, SentenceBuffer } from '../utils/sse';
+import { sendQueueFullResponse } from '../utils/queue-full';
+import { sendUnsupportedImageResponse } from '../utils/unsupported-image';
+
+// Extended Request interface to include user and session
+interface AuthenticatedRequest extends Request {
+    user?: {
+        id: string;
+        username?: string;
+        email?: string;
+    };
+    session?: {
+        id: string;
+        [key: string]: any;
+    };
+}
 
 export class ImageDescriptionController {
     private descriptionService: ImageDescriptionService;
+    private visionStorageService: VisionStorageService;
 
     constructor() {
         this.descriptionService = ImageDescriptionService.getInstance();
+        this.visionStorageService = VisionStorageService.getInstance();
     }
 
     /**
      * Describe an image using multimodal models
      */
-    public describeImage = async (req: Request, res: Response): Promise<void> => {
+    public describeImage = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
         try {
             // Validate request
             const errors = validationResult(req);
@@ -33,19 +52,59 @@ export class ImageDescriptionController {
                 modelName: req.query.model as string,
                 prompt: req.query.prompt as string,
                 maxNewTokens: req.query.maxNewTokens ? parseInt(req.query.maxNewTokens as string) : undefined,
-                doSample: req.query.doSample === 'true'
+                doSample: req.query.doSample === 'true',
+                language: res.locals.language
             };
 
 
             // Process the image
+            const startTime = Date.now();
             const result = await this.descriptionService.describeImage(req.file.buffer, options);
+            const processingTime = Date.now() - startTime;
+
+            // Save the description results to the database if user is authenticated
+            let savedResult = null;
+            if (req.user) {
+                try {
+                    const sessionId = req.session?.id || null;
+
+                    savedResult = await this.visionStorageService.saveImageDescription(
+                        req.user.id,
+                        sessionId,
+                        req.file.buffer,
+                        req.file.originalname || null,
+                        req.file.mimetype?.split('/')[1] || null,
+                        result.model,
+                        result.prompt,
+                        options.maxNewTokens || 150,
+                        options.doSample ? 0.7 : 0,
+                        result.description,
+                        processingTime,
+                        result.preprocessing
+                    );
+
+                    console.log(`Saved image description with ID: ${savedResult?.id || 'unknown'}`);
+                } catch (storageError) {
+                    // Log the error but don't fail the request
+                    console.error('Error saving description results:', storageError);
+                }
+            }
 
             // Return the response
             res.status(200).json({
                 success: true,
-                data: result
+                data: {
+                    ...result,
+                    quality: res.locals.imageQuality,
+                    processingTime,
+                    savedResultId: savedResult?.id || null,
+                    analysisId: savedResult?.visionAnalysisId || null
+                }
             });
         } catch (error) {
+            if (sendQueueFullResponse(res, error) || sendUnsupportedImageResponse(res, error)) {
+                return;
+            }
             console.error('Error in image description:', error);
             res.status(500).json({
                 success: false,
@@ -55,24 +114,160 @@ export class ImageDescriptionController {
         }
     };
 
+    /**
+     * Describe an image and stream the generated tokens as Server-Sent Events.
+     *
+     * Events:
+     * - `token`: `{ token }` for every generated fragment
+     * - `sentence`: `{ text }` whenever a full sentence is available (for text-to-speech)
+     * - `done`: the final description plus `savedResultId` (the persisted ImageDescription id)
+     *   and `analysisId` (its VisionAnalysis id)
+     * - `error`: `{ error, details }` if generation fails after the stream has started
+     *
+     * The stream is opened with the first event, so a full queue or a failure before the model
+     * produces anything is answered with a regular status code (429 with Retry-After, 500).
+     */
+    public describeImageStream = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+        // Validate request
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({ errors: errors.array() });
+            return;
+        }
+
+        // Check if file was uploaded
+        if (!req.file) {
+            res.status(400).json({ error: 'No image file provided' });
+            return;
+        }
+
+        const file = req.file;
+
+        // Parse options from query parameters
+        const options: ImageDescriptionOptions = {
+            modelName: req.query.model as string,
+            prompt: req.query.prompt as string,
+            maxNewTokens: req.query.maxNewTokens ? parseInt(req.query.maxNewTokens as string) : undefined,
+            doSample: req.query.doSample === 'true',
+            language: res.locals.language
+        };
+
+        // Stop generating on the model server if the client goes away
+        const abortController = new AbortController();
+        res.on('close', () => {
+            if (!res.writableEnded) {
+                abortController.abort();
+            }
+        });
+
+        const send = (event: string, data: unknown) => {
+            if (!res.headersSent) {
+                initSSE(res);
+            }
+            sendSSEEvent(res, event, data);
+        };
+
+        const sentences = new SentenceBuffer();
+
+        try {
+            const startTime = Date.now();
+
+            const result = await this.descriptionService.describeImageStream(
+                file.buffer,
+                options,
+                (token) => {
+                    send('token', { token });
+                    for (const text of sentences.push(token)) {
+                        send('sentence', { text });
+                    }
+                },
+                abortController.signal
+            );
+
+            const lastSentence = sentences.flush();
+            if (lastSentence) {
+                send('sentence', { text: lastSentence });
+            }
+
+            const processingTime = Date.now() - startTime;
+
+            // Save the description results to the database if user is authenticated
+            let savedResult = null;
+            if (req.user) {
+                try {
+                    const sessionId = req.session?.id || null;
+
+                    savedResult = await this.visionStorageService.saveImageDescription(
+                        req.user.id,
+                        sessionId,
+                        file.buffer,
+                        file.originalname || null,
+                        file.mimetype?.split('/')[1] || null,
+                        result.model,
+                        result.prompt,
+                        options.maxNewTokens || 150,
+                        options.doSample ? 0.7 : 0,
+                        result.description,
+                        processingTime,
+                        result.preprocessing
+                    );
+
+                    console.log(`Saved streamed image description with ID: ${savedResult?.id || 'unknown'}`);
+                } catch (storageError) {
+                    // Log the error but don't fail the request
+                    console.error('Error saving description results:', storageError);
+                }
+            }
+
+            send('done', {
+                ...result,
+                quality: res.locals.imageQuality,
+                processingTime,
+                savedResultId: savedResult?.id || null,
+                analysisId: savedResult?.visionAnalysisId || null
+            });
+        } catch (error) {
+            if (abortController.signal.aborted) {
+                console.log('Client disconnected, streamed image description aborted');
+            } else if (!res.headersSent) {
+                if (sendQueueFullResponse(res, error) || sendUnsupportedImageResponse(res, error)) {
+                    return;
+                }
+                console.error('Error in streamed image description:', error);
+                res.status(500).json({
+                    success: false,
+                    error: 'Error processing image',
+                    details: error instanceof Error ? error.message : String(error)
+                });
+            } else {
+                console.error('Error in streamed image description:', error);
+                sendSSEEvent(res, 'error', {
+                    error: 'Error processing image',
+                    details: error instanceof Error ? error.message : String(error)
+                });
+            }
+        } finally {
+            res.end();
+        }
+    };
+
     /**
      * Get available models for image description
      */
-    public getAvailableModels = async (_req: Request, res: Response): Promise<void> => {
+    public getAvailableModels = async (req: Request, res: Response): Promise<void> => {
         try {
-            const models = this.descriptionService.getAvailableModels();
-            const currentModel = this.descriptionService.getCurrentModelInfo();
+            const models = await this.descriptionService.getListedModels(req.query.refresh === 'true');
+            const currentModel = await this.descriptionService.getCurrentModelInfo();
 
             res.status(200).json({
                 success: true,
                 data: {
                     models,
                     default: {
-                        // Use the actual model name from the server
-                        model: 'SmolVLM2-2.2B-Instruct',
+                        model: this.descriptionService.getDefaultModel(),
                     },
                     currentModel,
-                    note: "Image description is handled by the configured llama.cpp server."
+                    note: "Models are those currently served by the configured vision-language server, except those disabled in the model registry."
                 }
             });
         } catch (error) {
@@ -106,115 +301,87 @@ export class ImageDescriptionController {
     // };
 
     /**
-     * Switch to a specific model and unload all others
-     * (NOTE: For llama.cpp server, this is a conceptual switch.
-     * The actual model change needs server reconfiguration.)
+     * Make a served model the default for image description.
+     * The vision-language server is not reconfigured; only models it already serves can be selected.
      */
-    // public switchModel = async (req: Request, res: Response): Promise<void> => {
-    //     try {
-    //         const errors = validationResult(req);
-    //         if (!errors.isEmpty()) {
-    //             res.status(400).json({ errors: errors.array() });
-    //             return;
-    //         }
-    //
-    //         const { model /*, dtype */ } = req.body; // dtype removed
-    //
-    //         if (!model) {
-    //             res.status(400).json({ error: 'Model name is required' });
-    //             return;
-    //         }
-    //
-    //         // await this.descriptionService.switchModel(model, dtype); // dtype removed
-    //         await this.descriptionService.switchModel(model);
-    //
-    //         const currentModel = this.descriptionService.getCurrentModelInfo();
-    //
-    //         res.status(200).json({
-    //             success: true,
-    //             message: `Conceptually switched to model: ${model}. Ensure llama.cpp server is configured accordingly.`,
-    //             data: { currentModel }
-    //         });
-    //     } catch (error) {
-    //         console.error('Error switching model:', error);
-    //         res.status(500).json({
-    //             success: false,
-    //             error: 'Error switching model',
-    //             details: error instanceof Error ? error.message : String(error)
-    //         });
-    //     }
-    // };
+    public switchModel = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
 
-    /**
-     * Unload a specific model
-     * (NOTE: For llama.cpp server, this is conceptual.)
-     */
-    // public unloadModel = async (req: Request, res: Response): Promise<void> => {
-    //     try {
-    //         const errors = validationResult(req);
-    //         if (!errors.isEmpty()) {
-    //             res.status(400).json({ errors: errors.array() });
-    //             return;
-    //         }
-    //
-    //         const { model } = req.body;
-    //
-    //         if (!model) {
-    //             res.status(400).json({ error: 'Model name is required' });
-    //             return;
-    //         }
-    //
-    //         const wasUnloaded = await this.descriptionService.unloadModel(model);
-    //
-    //         if (wasUnloaded) {
-    //             res.status(200).json({
-    //                 success: true,
-    //                 message: `Conceptually unloaded model: ${model}`
-    //             });
-    //         } else {
-    //             res.status(404).json({
-    //                 success: false,
-    //                 message: `Model not found or not managed by client: ${model}`
-    //             });
-    //         }
-    //     } catch (error) {
-    //         console.error('Error unloading model:', error);
-    //         res.status(500).json({
-    //             success: false,
-    //             error: 'Error unloading model',
-    //             details: error instanceof Error ? error.message : String(error)
-    //         });
-    //     }
-    // };
+            const { model } = req.body;
+
+            const currentModel = await this.descriptionService.switchModel(model);
+
+            res.status(200).json({
+                success: true,
+                message: `Image descriptions now use model: ${currentModel.modelId}`,
+                data: { currentModel }
+            });
+        } catch (error) {
+            // The server's model list may have changed since the request was validated
+            if (error instanceof ModelNotServedError) {
+                res.status(400).json({
+                    success: false,
+                    error: error.message
+                });
+                return;
+            }
+            console.error('Error switching model:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error switching model',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
 
     /**
-     * Unload all models
-     * (NOTE: For llama.cpp server, this is conceptual.)
+     * Ask the vision-language server to release a model's memory
      */
-    // public unloadAllModels = async (_req: Request, res: Response): Promise<void> => {
-    //     try {
-    //         await this.descriptionService.unloadAllModels();
-    //
-    //         res.status(200).json({
-    //             success: true,
-    //             message: 'All image description models have been conceptually unloaded (client-side)'
-    //         });
-    //     } catch (error) {
-    //         console.error('Error unloading all models:', error);
-    //         res.status(500).json({
-    //             success: false,
-    //             error: 'Error unloading all models',
-    //             details: error instanceof Error ? error.message : String(error)
-    //         });
-    //     }
-    // };
+    public unloadModel = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            const { model } = req.body;
+
+            const wasUnloaded = await this.descriptionService.unloadModel(model);
+
+            if (wasUnloaded) {
+                res.status(200).json({
+                    success: true,
+                    message: `Unloaded model: ${model}`
+                });
+            } else {
+                res.status(501).json({
+                    success: false,
+                    error: 'Unloading is not supported',
+                    details: `The ${this.descriptionService.getProvider().type} server keeps its models loaded; restart it with a different model instead`
+                });
+            }
+        } catch (error) {
+            console.error('Error unloading model:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error unloading model',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
 
     /**
      * Get information about the current model
      */
     public getCurrentModel = async (_req: Request, res: Response): Promise<void> => {
         try {
-            const currentModel = this.descriptionService.getCurrentModelInfo();
+            const currentModel = await this.descriptionService.getCurrentModelInfo();
 
             if (currentModel) {
                 res.status(200).json({
@@ -224,7 +391,7 @@ export class ImageDescriptionController {
             } else {
                 res.status(404).json({
                     success: false,
-                    message: 'No image description model is currently loaded'
+                    message: `The default model '${this.descriptionService.getDefaultModel()}' is not served by the vision-language server`
                 });
             }
         } catch (error) {
@@ -0,0 +1,32 @@
+import { Request, Response } from 'express';
+import { InferenceQueueService } from '../services/inference-queue.service';
+
+export class InferenceQueueController {
+    private inferenceQueueService: InferenceQueueService;
+
+    constructor() {
+        this.inferenceQueueService = InferenceQueueService.getInstance();
+    }
+
+    /**
+     * Get depth and wait times of the inference queues
+     */
+    public getStats = async (_req: Request, res: Response): Promise<void> => {
+        try {
+            res.status(200).json({
+                success: true,
+                data: {
+                    maxQueueLength: this.inferenceQueueService.getMaxQueueLength(),
+                    queues: this.inferenceQueueService.getStats()
+                }
+            });
+        } catch (error) {
+            console.error('Error getting inference queue stats:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error retrieving queue statistics',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+}
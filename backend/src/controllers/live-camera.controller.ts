@@ -0,0 +1,157 @@
+import { RawData, WebSocket } from 'ws';
+import { LiveCameraOptions, LiveCameraSession } from '../services/live-camera.service';
+import { QueueFullError } from '../services/inference-queue.service';
+import { ModelRegistryService } from '../services/model-registry.service';
+import { ObjectDetectionService } from '../services/object-detection.service';
+import { Language } from '../interfaces/detection.interface';
+
+// User attached to the connection by the socket authentication
+interface LiveCameraUser {
+    id: string;
+    username?: string;
+    email?: string;
+}
+
+/**
+ * Text message from a live camera client; frames are sent as binary messages
+ */
+interface LiveCameraMessage {
+    type: 'config' | 'reset';
+    model?: unknown;
+    threshold?: unknown;
+    dtype?: unknown;
+}
+
+export class LiveCameraController {
+    private modelRegistry: ModelRegistryService;
+    private detectionService: ObjectDetectionService;
+
+    constructor() {
+        this.modelRegistry = ModelRegistryService.getInstance();
+        this.detectionService = ObjectDetectionService.getInstance();
+    }
+
+    /**
+     * Read detection options of a config message, ignoring invalid values
+     */
+    private parseOptions(message: LiveCameraMessage): LiveCameraOptions {
+        const options: LiveCameraOptions = {};
+        if (typeof message.model === 'string' && message.model) {
+            options.modelName = message.model;
+        }
+        if (typeof message.threshold === 'number' && message.threshold >= 0 && message.threshold <= 1) {
+            options.threshold = message.threshold;
+        }
+        if (typeof message.dtype === 'string' && message.dtype) {
+            options.dtype = message.dtype;
+        }
+        return options;
+    }
+
+    /**
+     * Apply a config message, unless its model or dtype is rejected by the model registry
+     */
+    private async applyConfig(socket: WebSocket, session: LiveCameraSession, message: LiveCameraMessage): Promise<void> {
+        const options = this.parseOptions(message);
+
+        const reason = (options.modelName && await this.modelRegistry.getModelRejectionReason(['object-detection'], options.modelName)) ||
+            (options.dtype && await this.modelRegistry.getDtypeRejectionReason(
+                options.modelName || this.detectionService.getDefaultModel(),
+                options.dtype
+            ));
+        if (reason) {
+            this.send(socket, { type: 'error', error: 'Invalid config', details: reason });
+            return;
+        }
+
+        session.updateOptions(options);
+    }
+
+    /**
+     * Parse a text message, or return null if it isn't a JSON object with a string `type`
+     */
+    private parseMessage(data: RawData): LiveCameraMessage | null {
+        let message: unknown;
+        try {
+            message = JSON.parse(data.toString());
+        } catch {
+            return null;
+        }
+
+        if (typeof message !== 'object' || message === null || typeof (message as { type?: unknown }).type !== 'string') {
+            return null;
+        }
+        return message as LiveCameraMessage;
+    }
+
+    private send(socket: WebSocket, message: Record<string, unknown>): void {
+        if (socket.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify(message));
+        }
+    }
+
+    /**
+     * Serve one live camera connection: binary messages are frames, text messages are JSON commands
+     * @param language Language of labels, events and quality guidance
+     */
+    public handleConnection = (socket: WebSocket, user: LiveCameraUser | null, language: Language = 'en'): void => {
+        console.log(`Live camera connected${user ? ` for user ${user.id}` : ''}`);
+
+        const session = new LiveCameraSession(
+            { language },
+            update => this.send(socket, { type: 'events', ...update }),
+            error => {
+                if (error instanceof QueueFullError) {
+                    // Frames keep coming, so the next one is the retry
+                    this.send(socket, { type: 'error', error: 'Server busy, skipping frames', retryAfter: error.retryAfter });
+                    return;
+                }
+                console.error('Error in live camera detection:', error);
+                this.send(socket, {
+                    type: 'error',
+                    error: 'Error processing frame',
+                    details: error instanceof Error ? error.message : String(error)
+                });
+            },
+            quality => this.send(socket, { type: 'quality', ...quality })
+        );
+
+        socket.on('message', (data: RawData, isBinary: boolean) => {
+            if (isBinary) {
+                session.pushFrame(Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data as ArrayBuffer));
+                return;
+            }
+
+            const message = this.parseMessage(data);
+            if (!message) {
+                this.send(socket, { type: 'error', error: 'Messages must be binary frames or JSON commands' });
+                return;
+            }
+
+            switch (message.type) {
+                case 'config':
+                    this.applyConfig(socket, session, message).catch(error => {
+                        console.error('Error applying live camera config:', error);
+                        this.send(socket, {
+                            type: 'error',
+                            error: 'Error applying config',
+                            details: error instanceof Error ? error.message : String(error)
+                        });
+                    });
+                    break;
+                case 'reset':
+                    session.reset();
+                    break;
+                default:
+                    this.send(socket, { type: 'error', error: `Unknown command: ${String(message.type)}` });
+            }
+        });
+
+        socket.on('close', () => {
+            session.close();
+            console.log('Live camera disconnected');
+        });
+
+        this.send(socket, { type: 'ready' });
+    };
+}
@@ -3,7 +3,9 @@ import { validationResult } from 'express-validator';
 import { ImageDescriptionService } from '../services/image-description.service';
 import { VisionStorageService } from '../services/vision-storage.service';
 import { ImageDescriptionOptions } from '../interfaces/detection.interface';
-import fetch from 'node-fetch';
+import { Config } from '../config/Config';
+import { sendQueueFullResponse } from '../utils/queue-full';
+import { sendUnsupportedImageResponse } from '../utils/unsupported-image';
 
 // Extended Request interface to include user and session
 interface AuthenticatedRequest extends Request {
@@ -21,37 +23,27 @@ interface AuthenticatedRequest extends Request {
 export class LlamaVisionController {
     private descriptionService: ImageDescriptionService;
     private visionStorageService: VisionStorageService;
-    private llamaServerUrl: string;
 
     constructor() {
         this.descriptionService = ImageDescriptionService.getInstance();
         this.visionStorageService = VisionStorageService.getInstance();
-        this.llamaServerUrl = process.env.LLAMA_SERVER_URL || 'http://localhost:8080';
     }
 
     /**
-     * Check if the llama.cpp server is running
+     * Check if the vision-language server is running
      */
     public checkServerStatus = async (_req: Request, res: Response): Promise<void> => {
         try {
-            const healthCheckUrl = `${this.llamaServerUrl}/health`;
-            let isRunning = false;
-            let status = 'offline';
-
-            try {
-                const response = await fetch(healthCheckUrl);
-                isRunning = response.ok;
-                status = isRunning ? 'online' : 'error';
-            } catch (error) {
-                console.warn(`Error checking llama.cpp server status:`, error);
-            }
+            const { provider, baseUrl } = Config.getInstance().visionLanguage;
+            const isRunning = await this.descriptionService.checkServerStatus();
 
             res.status(200).json({
                 success: true,
                 data: {
                     isRunning,
-                    status,
-                    serverUrl: this.llamaServerUrl
+                    status: isRunning ? 'online' : 'offline',
+                    provider,
+                    serverUrl: baseUrl
                 }
             });
         } catch (error) {
@@ -65,18 +57,19 @@ export class LlamaVisionController {
     };
 
     /**
-     * Get model information from the llama.cpp server
+     * Get model information from the vision-language server
      */
     public getModelInfo = async (_req: Request, res: Response): Promise<void> => {
         try {
             // Get information about the current model
-            const currentModel = this.descriptionService.getCurrentModelInfo();
+            const currentModel = await this.descriptionService.getCurrentModelInfo();
 
             res.status(200).json({
                 success: true,
                 data: {
                     currentModel,
-                    defaultModel: process.env.LLAMA_DEFAULT_MODEL || 'model.gguf'
+                    defaultModel: this.descriptionService.getDefaultModel(),
+                    metadata: this.descriptionService.getProvider().getMetadata()
                 }
             });
         } catch (error) {
@@ -92,20 +85,20 @@ export class LlamaVisionController {
     /**
      * Get available models
      */
-    public getAvailableModels = async (_req: Request, res: Response): Promise<void> => {
+    public getAvailableModels = async (req: Request, res: Response): Promise<void> => {
         try {
-            const models = this.descriptionService.getAvailableModels();
-            const currentModel = this.descriptionService.getCurrentModelInfo();
+            const models = await this.descriptionService.getListedModels(req.query.refresh === 'true');
+            const currentModel = await this.descriptionService.getCurrentModelInfo();
 
             res.status(200).json({
                 success: true,
                 data: {
                     models,
                     default: {
-                        model: currentModel?.modelType || process.env.LLAMA_DEFAULT_MODEL || 'default-model',
+                        model: this.descriptionService.getDefaultModel(),
                     },
                     currentModel,
-                    note: "Model is handled by the configured llama.cpp server."
+                    note: "Models are those currently served by the configured vision-language server, except those disabled in the model registry."
                 }
             });
         } catch (error) {
@@ -119,7 +112,7 @@ export class LlamaVisionController {
     };
 
     /**
-     * Describe an image using llama.cpp server
+     * Describe an image using the configured vision-language provider
      */
     public describeImage = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
         try {
@@ -141,12 +134,13 @@ export class LlamaVisionController {
                 modelName: req.query.model as string,
                 prompt: req.query.prompt as string,
                 maxNewTokens: req.query.maxNewTokens ? parseInt(req.query.maxNewTokens as string) : undefined,
-                doSample: req.query.doSample === 'true'
+                doSample: req.query.doSample === 'true',
+                language: res.locals.language
             };
 
             const startTime = Date.now();
 
-            // Process the image using the llama.cpp server
+            // Process the image using the configured vision-language provider
             const result = await this.descriptionService.describeImage(req.file.buffer, options);
 
             const processingTime = Date.now() - startTime;
@@ -170,7 +164,8 @@ export class LlamaVisionController {
                         options.maxNewTokens || 150,
                         options.doSample ? 0.7 : 0, // Temperature based on doSample
                         result.description,
-                        processingTime
+                        processingTime,
+                        result.preprocessing
                     );
 
                     console.log(`Saved image description results with ID: ${savedResult?.id || 'unknown'}`);
@@ -185,11 +180,16 @@ export class LlamaVisionController {
                 success: true,
                 data: {
                     ...result,
+                    quality: res.locals.imageQuality,
                     processingTime,
-                    savedResultId: savedResult?.id || null
+                    savedResultId: savedResult?.id || null,
+                    analysisId: savedResult?.visionAnalysisId || null
                 }
             });
         } catch (error) {
+            if (sendQueueFullResponse(res, error) || sendUnsupportedImageResponse(res, error)) {
+                return;
+            }
             console.error('Error in image description:', error);
             res.status(500).json({
                 success: false,
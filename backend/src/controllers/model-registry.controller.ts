@@ -0,0 +1,188 @@
+import { Request, Response } from 'express';
+import { matchedData, validationResult } from 'express-validator';
+import { ModelRegistryInput, ModelRegistryService } from '../services/model-registry.service';
+
+export class ModelRegistryController {
+    private modelRegistry: ModelRegistryService;
+
+    constructor() {
+        this.modelRegistry = ModelRegistryService.getInstance();
+    }
+
+    /**
+     * Registry fields present in the request body, as validated
+     */
+    private getModelFields(req: Request): Partial<ModelRegistryInput> {
+        return matchedData(req, { locations: ['body'] }) as Partial<ModelRegistryInput>;
+    }
+
+    /**
+     * List registered models, optionally of one type and including disabled ones
+     */
+    public listModels = async (req: Request, res: Response): Promise<void> => {
+        try {
+            // Validate request
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            const models = await this.modelRegistry.listModels({
+                type: req.query.type as string,
+                includeDisabled: req.query.includeDisabled === 'true'
+            });
+
+            res.status(200).json({
+                success: true,
+                data: models
+            });
+        } catch (error) {
+            console.error('Error listing registered models:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error retrieving models',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+
+    /**
+     * Get one registered model
+     */
+    public getModel = async (req: Request, res: Response): Promise<void> => {
+        try {
+            // Validate request
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            const model = await this.modelRegistry.getModel(req.params.id);
+            if (!model) {
+                res.status(404).json({ success: false, error: 'Model not found' });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: model
+            });
+        } catch (error) {
+            console.error('Error retrieving registered model:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error retrieving model',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+
+    /**
+     * Register a model
+     */
+    public createModel = async (req: Request, res: Response): Promise<void> => {
+        try {
+            // Validate request
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            const fields = this.getModelFields(req) as ModelRegistryInput;
+            if (await this.modelRegistry.getModelByName(fields.name)) {
+                res.status(409).json({ success: false, error: `Model '${fields.name}' is already registered` });
+                return;
+            }
+
+            const model = await this.modelRegistry.createModel(fields);
+
+            res.status(201).json({
+                success: true,
+                data: model
+            });
+        } catch (error) {
+            console.error('Error registering model:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error registering model',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+
+    /**
+     * Update a registered model, e.g. to disable it
+     */
+    public updateModel = async (req: Request, res: Response): Promise<void> => {
+        try {
+            // Validate request
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            const fields = this.getModelFields(req);
+            if (fields.name) {
+                const existing = await this.modelRegistry.getModelByName(fields.name);
+                if (existing && existing.id !== req.params.id) {
+                    res.status(409).json({ success: false, error: `Model '${fields.name}' is already registered` });
+                    return;
+                }
+            }
+
+            const model = await this.modelRegistry.updateModel(req.params.id, fields);
+            if (!model) {
+                res.status(404).json({ success: false, error: 'Model not found' });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: model
+            });
+        } catch (error) {
+            console.error('Error updating registered model:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error updating model',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+
+    /**
+     * Remove a model from the registry
+     */
+    public deleteModel = async (req: Request, res: Response): Promise<void> => {
+        try {
+            // Validate request
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            const deleted = await this.modelRegistry.deleteModel(req.params.id);
+            if (!deleted) {
+                res.status(404).json({ success: false, error: 'Model not found' });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                message: 'Model removed from the registry'
+            });
+        } catch (error) {
+            console.error('Error deleting registered model:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error deleting model',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+}
@@ -1,8 +1,14 @@
 import { Request, Response } from 'express';
 import { ObjectDetectionService } from '../services/object-detection.service';
 import { validationResult } from 'express-validator';
-import { ObjectDetectionOptions } from '../interfaces/detection.interface';
+import { ColorLanguage, DetectionRanking, ObjectDetectionOptions } from '../interfaces/detection.interface';
 import { VisionStorageService } from '../services/vision-storage.service';
+import { ModelManagerService } from '../services/model-manager.service';
+import { ModelRegistryService } from '../services/model-registry.service';
+import { sendQueueFullResponse } from '../utils/queue-full';
+import { sendUnsupportedImageResponse } from '../utils/unsupported-image';
+import { applyDetectionProfile, DetectionProfileError, DetectionProfileService } from '../services/detection-profile.service';
+import { parseClassThresholds, parseDetectionQueries } from '../schemas/object-detection.schema';
 
 // Extended Request interface to include user and session
 interface AuthenticatedRequest extends Request {
@@ -20,16 +26,59 @@ interface AuthenticatedRequest extends Request {
 export class ObjectDetectionController {
     private detectionService: ObjectDetectionService;
     private visionStorageService: VisionStorageService;
+    private modelManager: ModelManagerService;
+    private modelRegistry: ModelRegistryService;
+    private detectionProfiles: DetectionProfileService;
 
     constructor() {
         this.detectionService = ObjectDetectionService.getInstance();
         this.visionStorageService = VisionStorageService.getInstance();
+        this.modelManager = ModelManagerService.getInstance();
+        this.modelRegistry = ModelRegistryService.getInstance();
+        this.detectionProfiles = DetectionProfileService.getInstance();
+    }
+
+    /**
+     * Parse detection options from query parameters
+     */
+    private parseOptions(req: AuthenticatedRequest): ObjectDetectionOptions {
+        return {
+            modelName: req.query.model as string,
+            threshold: req.query.threshold ? parseFloat(req.query.threshold as string) : undefined,
+            maxObjects: req.query.maxObjects ? parseInt(req.query.maxObjects as string) : undefined,
+            dtype: req.query.dtype as string,
+            spatial: req.query.spatial === 'true',
+            colors: req.query.colors === 'true',
+            colorLanguage: req.query.colorLanguage as ColorLanguage,
+            includeLabels: req.query.include ? parseDetectionQueries(req.query.include) : undefined,
+            excludeLabels: req.query.exclude ? parseDetectionQueries(req.query.exclude) : undefined,
+            classThresholds: req.query.classThresholds ? parseClassThresholds(req.query.classThresholds as string) || undefined : undefined,
+            nmsThreshold: req.query.nms ? parseFloat(req.query.nms as string) : undefined,
+            rankBy: req.query.rankBy as DetectionRanking
+        };
     }
 
     /**
      * Detect objects in an uploaded image
      */
     public detectObjects = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+        await this.runDetection(req, res, this.parseOptions(req));
+    };
+
+    /**
+     * Find the objects named in free-text queries (e.g. "keys", "white cane") in an uploaded image
+     */
+    public findObjects = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+        await this.runDetection(req, res, {
+            ...this.parseOptions(req),
+            queries: parseDetectionQueries(req.query.queries)
+        });
+    };
+
+    /**
+     * Run detection on the uploaded image, store the results and send the response
+     */
+    private async runDetection(req: AuthenticatedRequest, res: Response, options: ObjectDetectionOptions): Promise<void> {
         try {
             // Validate request
             const errors = validationResult(req);
@@ -44,13 +93,19 @@ export class ObjectDetectionController {
                 return;
             }
 
-            // Parse options from query parameters
-            const options: ObjectDetectionOptions = {
-                modelName: req.query.model as string,
-                threshold: req.query.threshold ? parseFloat(req.query.threshold as string) : undefined,
-                maxObjects: req.query.maxObjects ? parseInt(req.query.maxObjects as string) : undefined,
-                dtype: req.query.dtype as string
-            };
+            // Fill the options the request didn't set from the named or active detection profile
+            const profileName = req.query.profile as string | undefined;
+            if (profileName && !req.user) {
+                res.status(401).json({ success: false, error: 'Sign in to use saved detection profiles' });
+                return;
+            }
+            const profile = req.user ? await this.detectionProfiles.resolveProfile(req.user.id, profileName) : null;
+            if (profile) {
+                options = applyDetectionProfile(options, profile.profile);
+            }
+
+            // Labels and summaries in the language asked for, or else the user's
+            options = { ...options, language: res.locals.language };
 
             // Process the image
             const startTime = Date.now();
@@ -65,15 +120,23 @@ export class ObjectDetectionController {
                     const sessionId = req.session?.id || null;
 
                     // Format the detections for storage
+                    // Labels are stored as the model gave them, whatever the language of the response
                     const formattedDetections = result.detections.map(detection => ({
-                        label: detection.label,
+                        label: detection.originalLabel ?? detection.label,
                         confidence: detection.score,
                         boundingBox: {
                             xMin: detection.box.xmin,
                             yMin: detection.box.ymin,
                             xMax: detection.box.xmax,
                             yMax: detection.box.ymax
-                        }
+                        },
+                        // Keep spatial descriptions and colors with the object
+                        attributes: detection.spatial || detection.colors
+                            ? {
+                                ...(detection.spatial ? { spatial: detection.spatial } : {}),
+                                ...(detection.colors ? { colors: detection.colors } : {})
+                            }
+                            : undefined
                     }));
 
                     // Save the object detection results
@@ -85,12 +148,24 @@ export class ObjectDetectionController {
                         req.file.mimetype?.split('/')[1] || null, // Extract format (jpeg, png, etc.)
                         result.model,
                         {
-                            threshold: options.threshold || 0.5,
+                            threshold: options.threshold || this.detectionService.getDefaultThreshold(Boolean(result.queries)),
                             maxObjects: options.maxObjects,
-                            dtype: options.dtype
+                            dtype: options.dtype,
+                            spatial: options.spatial,
+                            colors: options.colors,
+                            // Free-text objects searched for with a zero-shot model
+                            queries: result.queries,
+                            includeLabels: options.includeLabels,
+                            excludeLabels: options.excludeLabels,
+                            classThresholds: options.classThresholds,
+                            nmsThreshold: options.nmsThreshold,
+                            rankBy: options.rankBy,
+                            profile: profile?.name,
+                            language: options.language
                         },
                         formattedDetections,
-                        processingTime
+                        processingTime,
+                        result.preprocessing
                     );
 
                     console.log(`Saved object detection results with ID: ${savedResult?.id || 'unknown'}`);
@@ -105,11 +180,21 @@ export class ObjectDetectionController {
                 success: true,
                 data: {
                     ...result,
+                    profile: profile?.name,
+                    quality: res.locals.imageQuality,
                     processingTime,
-                    savedResultId: savedResult?.id || null
+                    savedResultId: savedResult?.id || null,
+                    analysisId: savedResult?.visionAnalysisId || null
                 }
             });
         } catch (error) {
+            if (sendQueueFullResponse(res, error) || sendUnsupportedImageResponse(res, error)) {
+                return;
+            }
+            if (error instanceof DetectionProfileError) {
+                res.status(error.notFound ? 404 : 400).json({ success: false, error: error.message });
+                return;
+            }
             console.error('Error in object detection:', error);
             res.status(500).json({
                 success: false,
@@ -117,28 +202,36 @@ export class ObjectDetectionController {
                 details: error instanceof Error ? error.message : String(error)
             });
         }
-    };
+    }
 
     /**
      * Get available models for object detection
      */
     public getAvailableModels = async (_req: Request, res: Response): Promise<void> => {
         try {
-            const models = this.detectionService.getSuggestedModels();
+            const [models, zeroShotModels] = await Promise.all([
+                this.modelRegistry.getEnabledModels('object-detection'),
+                this.modelRegistry.getEnabledModels('zero-shot-object-detection')
+            ]);
             const dtypes = this.detectionService.getQuantizationTypes();
             const currentModel = this.detectionService.getCurrentModelInfo();
 
             res.status(200).json({
                 success: true,
                 data: {
-                    models,
+                    models: models.map(model => model.name),
+                    zeroShotModels: zeroShotModels.map(model => model.name),
+                    // Registry entries of the models above: provider, quantizations, size, license...
+                    modelDetails: [...models, ...zeroShotModels],
                     quantizationTypes: dtypes,
                     default: {
                         model: 'Xenova/yolos-tiny',
                         dtype: 'q4'
                     },
                     currentModel,
-                    note: "You can use any Hugging Face model that supports object detection with the transformers.js pipeline API."
+                    // Limits and per-model statistics of all local models (detection and OCR)
+                    modelManager: this.modelManager.getStatus(),
+                    note: "Models come from the model registry; administrators can register any Hugging Face model that supports object detection with the transformers.js pipeline API."
                 }
             });
         } catch (error) {
@@ -0,0 +1,141 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { OcrService } from '../services/ocr.service';
+import { ModelRegistryService } from '../services/model-registry.service';
+import { VisionStorageService } from '../services/vision-storage.service';
+import { OcrOptions } from '../interfaces/detection.interface';
+import { sendQueueFullResponse } from '../utils/queue-full';
+import { sendUnsupportedImageResponse } from '../utils/unsupported-image';
+
+// Extended Request interface to include user and session
+interface AuthenticatedRequest extends Request {
+    user?: {
+        id: string;
+        username?: string;
+        email?: string;
+    };
+    session?: {
+        id: string;
+        [key: string]: any;
+    };
+}
+
+export class OcrController {
+    private ocrService: OcrService;
+    private visionStorageService: VisionStorageService;
+    private modelRegistry: ModelRegistryService;
+
+    constructor() {
+        this.ocrService = OcrService.getInstance();
+        this.visionStorageService = VisionStorageService.getInstance();
+        this.modelRegistry = ModelRegistryService.getInstance();
+    }
+
+    /**
+     * Read the text in an uploaded image
+     */
+    public recognizeText = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+        try {
+            // Validate request
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            // Check if file was uploaded
+            if (!req.file) {
+                res.status(400).json({ error: 'No image file provided' });
+                return;
+            }
+
+            // Parse options from query parameters
+            const options: OcrOptions = {
+                modelName: req.query.model as string,
+                dtype: req.query.dtype as string,
+                maxLines: req.query.maxLines ? parseInt(req.query.maxLines as string) : undefined
+            };
+
+            // Process the image
+            const result = await this.ocrService.recognizeText(req.file.buffer, options);
+
+            // Save the OCR results to the database if the user is authenticated
+            let savedResult = null;
+            if (req.user) {
+                try {
+                    const sessionId = req.session?.id || null;
+
+                    savedResult = await this.visionStorageService.saveTextRecognition(
+                        req.user.id,
+                        sessionId,
+                        req.file.buffer,
+                        req.file.originalname || null,
+                        req.file.mimetype?.split('/')[1] || null,
+                        result.model,
+                        {
+                            dtype: result.dtype,
+                            maxLines: options.maxLines
+                        },
+                        result.text,
+                        result.blocks,
+                        result.processingTime,
+                        result.preprocessing
+                    );
+
+                    console.log(`Saved text recognition results with ID: ${savedResult?.id || 'unknown'}`);
+                } catch (storageError) {
+                    // Log the error but don't fail the request
+                    console.error('Error saving text recognition results:', storageError);
+                }
+            }
+
+            res.status(200).json({
+                success: true,
+                data: {
+                    ...result,
+                    quality: res.locals.imageQuality,
+                    savedResultId: savedResult?.id || null,
+                    analysisId: savedResult?.visionAnalysisId || null
+                }
+            });
+        } catch (error) {
+            if (sendQueueFullResponse(res, error) || sendUnsupportedImageResponse(res, error)) {
+                return;
+            }
+            console.error('Error in text recognition:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error processing image',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+
+    /**
+     * Get the registered models for text recognition
+     */
+    public getAvailableModels = async (_req: Request, res: Response): Promise<void> => {
+        try {
+            const models = await this.modelRegistry.getEnabledModels('ocr');
+
+            res.status(200).json({
+                success: true,
+                data: {
+                    models: models.map(model => model.name),
+                    modelDetails: models,
+                    default: {
+                        model: this.ocrService.getDefaultModel()
+                    },
+                    currentModel: this.ocrService.getCurrentModelInfo()
+                }
+            });
+        } catch (error) {
+            console.error('Error getting OCR models:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error retrieving models',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+}
@@ -0,0 +1,105 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { ProductCatalogService, ProductImportError } from '../services/product-catalog.service';
+
+export class ProductCatalogController {
+    private productCatalog: ProductCatalogService;
+
+    constructor() {
+        this.productCatalog = ProductCatalogService.getInstance();
+    }
+
+    /**
+     * List catalog products, optionally matching a search term
+     */
+    public listProducts = async (req: Request, res: Response): Promise<void> => {
+        try {
+            // Validate request
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            const result = await this.productCatalog.listProducts({
+                search: req.query.search as string,
+                limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+                offset: req.query.offset ? parseInt(req.query.offset as string) : undefined
+            });
+
+            res.status(200).json({
+                success: true,
+                ...result
+            });
+        } catch (error) {
+            console.error('Error listing products:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error retrieving products',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+
+    /**
+     * Import products from an uploaded CSV file
+     */
+    public importProducts = async (req: Request, res: Response): Promise<void> => {
+        try {
+            if (!req.file) {
+                res.status(400).json({ error: 'No CSV file provided' });
+                return;
+            }
+
+            const result = await this.productCatalog.importCsv(req.file.buffer.toString('utf8'));
+
+            res.status(200).json({
+                success: true,
+                data: result
+            });
+        } catch (error) {
+            if (error instanceof ProductImportError) {
+                res.status(400).json({ success: false, error: error.message });
+                return;
+            }
+            console.error('Error importing products:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error importing products',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+
+    /**
+     * Remove a product from the catalog
+     */
+    public deleteProduct = async (req: Request, res: Response): Promise<void> => {
+        try {
+            // Validate request
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            const deleted = await this.productCatalog.deleteProduct(req.params.id);
+            if (!deleted) {
+                res.status(404).json({ success: false, error: 'Product not found' });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                message: 'Product removed from the catalog'
+            });
+        } catch (error) {
+            console.error('Error deleting product:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error deleting product',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+}
@@ -0,0 +1,138 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { SceneAnalysisService } from '../services/scene-analysis.service';
+import { VisionStorageService } from '../services/vision-storage.service';
+import { sendQueueFullResponse } from '../utils/queue-full';
+import { sendUnsupportedImageResponse } from '../utils/unsupported-image';
+import { SceneAnalysisOptions } from '../interfaces/detection.interface';
+
+// Extended Request interface to include user and session
+interface AuthenticatedRequest extends Request {
+    user?: {
+        id: string;
+        username?: string;
+        email?: string;
+    };
+    session?: {
+        id: string;
+        [key: string]: any;
+    };
+}
+
+export class SceneAnalysisController {
+    private sceneAnalysisService: SceneAnalysisService;
+    private visionStorageService: VisionStorageService;
+
+    constructor() {
+        this.sceneAnalysisService = SceneAnalysisService.getInstance();
+        this.visionStorageService = VisionStorageService.getInstance();
+    }
+
+    /**
+     * Detect objects in and describe an uploaded image, returning a fused summary
+     */
+    public analyzeScene = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+        try {
+            // Validate request
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            // Check if file was uploaded
+            if (!req.file) {
+                res.status(400).json({ error: 'No image file provided' });
+                return;
+            }
+
+            // Parse options from query parameters
+            const options: SceneAnalysisOptions = {
+                detection: {
+                    modelName: req.query.detectionModel as string,
+                    threshold: req.query.threshold ? parseFloat(req.query.threshold as string) : undefined,
+                    maxObjects: req.query.maxObjects ? parseInt(req.query.maxObjects as string) : undefined,
+                    dtype: req.query.dtype as string
+                },
+                description: {
+                    modelName: req.query.descriptionModel as string,
+                    prompt: req.query.prompt as string,
+                    maxNewTokens: req.query.maxNewTokens ? parseInt(req.query.maxNewTokens as string) : undefined,
+                    doSample: req.query.doSample === 'true'
+                },
+                language: res.locals.language
+            };
+
+            const result = await this.sceneAnalysisService.analyzeScene(req.file.buffer, options);
+
+            // Save both parts as one vision analysis if the user is authenticated
+            let savedResult = null;
+            if (req.user) {
+                try {
+                    const sessionId = req.session?.id || null;
+                    const { detection, description } = result;
+
+                    savedResult = await this.visionStorageService.saveSceneAnalysis(
+                        req.user.id,
+                        sessionId,
+                        req.file.buffer,
+                        req.file.originalname || null,
+                        req.file.mimetype?.split('/')[1] || null,
+                        detection && {
+                            modelName: detection.model,
+                            modelSettings: {
+                                threshold: options.detection?.threshold || 0.5,
+                                maxObjects: options.detection?.maxObjects,
+                                dtype: detection.dtype
+                            },
+                            detections: detection.detections.map(item => ({
+                                label: item.originalLabel ?? item.label,
+                                confidence: item.score,
+                                boundingBox: {
+                                    xMin: item.box.xmin,
+                                    yMin: item.box.ymin,
+                                    xMax: item.box.xmax,
+                                    yMax: item.box.ymax
+                                }
+                            })),
+                            processingTimeMs: detection.processingTime
+                        },
+                        description && {
+                            modelName: description.model,
+                            prompt: description.prompt,
+                            maxNewTokens: options.description?.maxNewTokens || 150,
+                            temperature: options.description?.doSample ? 0.7 : 0,
+                            description: description.description,
+                            processingTimeMs: description.processingTime
+                        },
+                        [detection?.preprocessing, description?.preprocessing]
+                    );
+
+                    console.log(`Saved scene analysis with ID: ${savedResult?.id || 'unknown'}`);
+                } catch (storageError) {
+                    // Log the error but don't fail the request
+                    console.error('Error saving scene analysis results:', storageError);
+                }
+            }
+
+            res.status(200).json({
+                success: true,
+                data: {
+                    ...result,
+                    quality: res.locals.imageQuality,
+                    analysisId: savedResult?.id || null
+                }
+            });
+        } catch (error) {
+            if (sendQueueFullResponse(res, error) || sendUnsupportedImageResponse(res, error)) {
+                return;
+            }
+            console.error('Error in scene analysis:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error processing image',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+}
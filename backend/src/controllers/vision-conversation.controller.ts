@@ -0,0 +1,252 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { VisionConversationService } from '../services/vision-conversation.service';
+import { SessionRepository } from '../repositories/SessionRepository';
+import { sendQueueFullResponse } from '../utils/queue-full';
+import { sendUnsupportedImageResponse } from '../utils/unsupported-image';
+import { ImageDescriptionOptions } from '../interfaces/detection.interface';
+
+// Extended Request interface to include user and session
+interface AuthenticatedRequest extends Request {
+    user?: {
+        id: string;
+        username?: string;
+        email?: string;
+    };
+    session?: {
+        id: string;
+        [key: string]: any;
+    };
+}
+
+export class VisionConversationController {
+    private conversationService: VisionConversationService;
+    private sessionRepository: SessionRepository;
+
+    constructor() {
+        this.conversationService = VisionConversationService.getInstance();
+        this.sessionRepository = new SessionRepository();
+    }
+
+    /**
+     * Create a conversation from an uploaded image, optionally asking the first question
+     */
+    public createConversation = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+        try {
+            // Validate request
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            // Ensure user is authenticated
+            if (!req.user) {
+                res.status(401).json({
+                    success: false,
+                    error: 'Authentication required'
+                });
+                return;
+            }
+
+            // Check if file was uploaded
+            if (!req.file) {
+                res.status(400).json({ error: 'No image file provided' });
+                return;
+            }
+
+            // Only link sessions that belong to the user
+            const sessionId: string | null = req.body.sessionId || req.session?.id || null;
+            if (sessionId) {
+                const session = await this.sessionRepository.findById(sessionId);
+                if (!session || session.userId !== req.user.id) {
+                    res.status(403).json({
+                        success: false,
+                        error: 'Unauthorized access to this session'
+                    });
+                    return;
+                }
+            }
+
+            // Answer the first question right away if one was sent with the image
+            const options: ImageDescriptionOptions = {
+                maxNewTokens: req.query.maxNewTokens ? parseInt(req.query.maxNewTokens as string) : undefined,
+                doSample: req.query.doSample === 'true',
+                language: res.locals.language
+            };
+
+            const conversation = await this.conversationService.createConversation(
+                req.user.id,
+                sessionId,
+                req.file.buffer,
+                req.file.originalname || null,
+                req.file.mimetype?.split('/')[1] || null,
+                req.body.question || undefined,
+                options
+            );
+
+            res.status(201).json({
+                success: true,
+                data: { ...conversation, quality: res.locals.imageQuality }
+            });
+        } catch (error) {
+            if (sendQueueFullResponse(res, error) || sendUnsupportedImageResponse(res, error)) {
+                return;
+            }
+            console.error('Error creating vision conversation:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error creating conversation',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+
+    /**
+     * Ask a follow-up question in an existing conversation
+     */
+    public askQuestion = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+        try {
+            // Validate request
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            // Ensure user is authenticated
+            if (!req.user) {
+                res.status(401).json({
+                    success: false,
+                    error: 'Authentication required'
+                });
+                return;
+            }
+
+            const { id } = req.params;
+            const conversation = await this.conversationService.getConversation(id);
+
+            if (!conversation) {
+                res.status(404).json({
+                    success: false,
+                    error: 'Vision conversation not found'
+                });
+                return;
+            }
+
+            // For security, verify this conversation belongs to the requesting user
+            if (conversation.userId !== req.user.id) {
+                res.status(403).json({
+                    success: false,
+                    error: 'Unauthorized access to this conversation'
+                });
+                return;
+            }
+
+            const options: ImageDescriptionOptions = {
+                maxNewTokens: req.body.maxNewTokens ? parseInt(req.body.maxNewTokens) : undefined,
+                doSample: req.body.doSample === true || req.body.doSample === 'true',
+                language: res.locals.language
+            };
+
+            const turn = await this.conversationService.askQuestion(id, req.body.question, options);
+
+            res.status(201).json({
+                success: true,
+                data: turn
+            });
+        } catch (error) {
+            if (sendQueueFullResponse(res, error) || sendUnsupportedImageResponse(res, error)) {
+                return;
+            }
+            console.error('Error answering question:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error answering question',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+
+    /**
+     * Get the conversations of the authenticated user
+     */
+    public getUserConversations = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+        try {
+            // Ensure user is authenticated
+            if (!req.user) {
+                res.status(401).json({
+                    success: false,
+                    error: 'Authentication required'
+                });
+                return;
+            }
+
+            // Parse pagination parameters
+            const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+            const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+
+            const result = await this.conversationService.getUserConversations(req.user.id, limit, offset);
+
+            res.status(200).json({
+                success: true,
+                data: result
+            });
+        } catch (error) {
+            console.error('Error fetching vision conversations:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error fetching conversations',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+
+    /**
+     * Get a specific conversation with all its turns
+     */
+    public getConversation = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+        try {
+            // Ensure user is authenticated
+            if (!req.user) {
+                res.status(401).json({
+                    success: false,
+                    error: 'Authentication required'
+                });
+                return;
+            }
+
+            const { id } = req.params;
+            const conversation = await this.conversationService.getConversation(id);
+
+            if (!conversation) {
+                res.status(404).json({
+                    success: false,
+                    error: 'Vision conversation not found'
+                });
+                return;
+            }
+
+            // For security, verify this conversation belongs to the requesting user
+            if (conversation.userId !== req.user.id) {
+                res.status(403).json({
+                    success: false,
+                    error: 'Unauthorized access to this conversation'
+                });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                data: conversation
+            });
+        } catch (error) {
+            console.error('Error fetching vision conversation:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error fetching conversation',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+}
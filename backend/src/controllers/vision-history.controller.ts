@@ -1,6 +1,11 @@
 import { Request, Response } from 'express';
 import { validationResult } from 'express-validator';
 import { VisionStorageService } from '../services/vision-storage.service';
+import { ImageContent, ImageStorageService } from '../services/image-storage.service';
+import { AnalysisImageUnavailableError, ReanalysisService } from '../services/reanalysis.service';
+import { ReanalysisOptions } from '../interfaces/detection.interface';
+import { sendQueueFullResponse } from '../utils/queue-full';
+import { sendUnsupportedImageResponse } from '../utils/unsupported-image';
 
 // Extended Request interface to include user and session
 interface AuthenticatedRequest extends Request {
@@ -17,9 +22,13 @@ interface AuthenticatedRequest extends Request {
 
 export class VisionHistoryController {
     private visionStorageService: VisionStorageService;
+    private imageStorageService: ImageStorageService;
+    private reanalysisService: ReanalysisService;
 
     constructor() {
         this.visionStorageService = VisionStorageService.getInstance();
+        this.imageStorageService = ImageStorageService.getInstance();
+        this.reanalysisService = ReanalysisService.getInstance();
     }
 
     /**
@@ -102,6 +111,47 @@ export class VisionHistoryController {
         }
     };
 
+    /**
+     * Get the vision analyses of a batch request
+     */
+    public getBatchVisionHistory = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+        try {
+            // Ensure user is authenticated
+            if (!req.user) {
+                res.status(401).json({
+                    success: false,
+                    error: 'Authentication required'
+                });
+                return;
+            }
+
+            // Get batch ID from the request parameters
+            const { batchId } = req.params;
+            if (!batchId) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Batch ID is required'
+                });
+                return;
+            }
+
+            // Only the user's own analyses are returned
+            const result = await this.visionStorageService.getBatchVisionAnalyses(req.user.id, batchId);
+
+            res.status(200).json({
+                success: true,
+                data: result
+            });
+        } catch (error) {
+            console.error('Error fetching batch vision history:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error fetching batch vision history',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
+
     /**
      * Get a specific vision analysis by ID
      */
@@ -160,4 +210,176 @@ export class VisionHistoryController {
             });
         }
     };
+
+    /**
+     * Send the stored image, or its thumbnail, of one of the user's vision analyses
+     */
+    private async sendAnalysisImage(req: AuthenticatedRequest, res: Response, thumbnail: boolean): Promise<void> {
+        try {
+            // Ensure user is authenticated
+            if (!req.user) {
+                res.status(401).json({
+                    success: false,
+                    error: 'Authentication required'
+                });
+                return;
+            }
+
+            const { id } = req.params;
+            if (!id) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Analysis ID is required'
+                });
+                return;
+            }
+
+            const analysis = await this.visionStorageService.getVisionAnalysisImage(id);
+            if (!analysis) {
+                res.status(404).json({
+                    success: false,
+                    error: 'Vision analysis not found'
+                });
+                return;
+            }
+
+            // For security, verify this analysis belongs to the requesting user
+            if (analysis.userId !== req.user.id) {
+                res.status(403).json({
+                    success: false,
+                    error: 'Unauthorized access to this vision analysis'
+                });
+                return;
+            }
+
+            // Analyses stored before images were kept have no image
+            let image: ImageContent | null = null;
+            if (analysis.imagePath) {
+                image = thumbnail && analysis.imageHash
+                    ? await this.imageStorageService.readThumbnail(analysis.imageHash, analysis.imagePath)
+                    : await this.imageStorageService.readImage(analysis.imagePath);
+            }
+            if (!image) {
+                res.status(404).json({
+                    success: false,
+                    error: 'No image is stored for this vision analysis'
+                });
+                return;
+            }
+
+            // Stored images never change, but they are private to the user
+            res.set({
+                'Content-Type': image.contentType,
+                'Cache-Control': 'private, max-age=86400'
+            });
+            res.status(200).send(image.data);
+        } catch (error) {
+            console.error('Error fetching vision analysis image:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error fetching vision analysis image',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    }
+
+    /**
+     * Get the image of a specific vision analysis
+     */
+    public getAnalysisImage = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+        await this.sendAnalysisImage(req, res, false);
+    };
+
+    /**
+     * Get the thumbnail of a specific vision analysis
+     */
+    public getAnalysisThumbnail = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+        await this.sendAnalysisImage(req, res, true);
+    };
+
+    /**
+     * Run detection or description again on the stored image of an analysis and store it as a revision
+     */
+    public reanalyze = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+        try {
+            // Validate request
+            const errors = validationResult(req);
+            if (!errors.isEmpty()) {
+                res.status(400).json({ errors: errors.array() });
+                return;
+            }
+
+            // Ensure user is authenticated
+            if (!req.user) {
+                res.status(401).json({
+                    success: false,
+                    error: 'Authentication required'
+                });
+                return;
+            }
+
+            const analysis = await this.visionStorageService.getVisionAnalysis(req.params.id);
+            if (!analysis) {
+                res.status(404).json({
+                    success: false,
+                    error: 'Vision analysis not found'
+                });
+                return;
+            }
+
+            // For security, verify this analysis belongs to the requesting user
+            if (analysis.userId !== req.user.id) {
+                res.status(403).json({
+                    success: false,
+                    error: 'Unauthorized access to this vision analysis'
+                });
+                return;
+            }
+
+            const options: ReanalysisOptions = req.body.task === 'detection'
+                ? {
+                    task: 'detection',
+                    detection: {
+                        modelName: req.body.model,
+                        threshold: req.body.threshold !== undefined ? parseFloat(req.body.threshold) : undefined,
+                        maxObjects: req.body.maxObjects !== undefined ? parseInt(req.body.maxObjects) : undefined,
+                        dtype: req.body.dtype
+                    }
+                }
+                : {
+                    task: 'description',
+                    description: {
+                        modelName: req.body.model,
+                        prompt: req.body.prompt,
+                        maxNewTokens: req.body.maxNewTokens !== undefined ? parseInt(req.body.maxNewTokens) : undefined,
+                        doSample: req.body.doSample === true || req.body.doSample === 'true'
+                    }
+                };
+
+            const result = await this.reanalysisService.reanalyze(req.user.id, analysis, options);
+
+            res.status(201).json({
+                success: true,
+                data: result
+            });
+        } catch (error) {
+            if (sendQueueFullResponse(res, error) || sendUnsupportedImageResponse(res, error)) {
+                return;
+            }
+            if (error instanceof AnalysisImageUnavailableError) {
+                res.status(409).json({
+                    success: false,
+                    error: 'No image is stored for this vision analysis',
+                    details: error.message
+                });
+                return;
+            }
+            console.error('Error re-analyzing vision analysis:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Error re-analyzing vision analysis',
+                details: error instanceof Error ? error.message : String(error)
+            });
+        }
+    };
 } 
\ No newline at end of file
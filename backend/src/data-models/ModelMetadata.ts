@@ -9,10 +9,12 @@ export interface ModelMetadata {
     license?: string;
     parameters?: number;
     quantization?: string;
+    quantizations?: string[]; // dtypes the model can run with
     size?: number; // size in MB
     createdAt?: Date;
-    type?: 'object-detection' | 'image-description' | 'multimodal' | 'other';
+    type?: 'object-detection' | 'zero-shot-object-detection' | 'ocr' | 'image-description' | 'multimodal' | 'other';
     capabilities?: string[];
+    enabled?: boolean;
 }
 
 /**
@@ -0,0 +1,32 @@
+/**
+ * Interface for image storage providers in the SmallBlind system.
+ * Keys are relative, slash-separated paths such as "originals/ab/ab12....jpg".
+ */
+export interface IImageStorageProvider {
+  /**
+   * Store an object, replacing any object with the same key
+   * @param key Object key
+   * @param data Object content
+   * @param contentType MIME type of the content
+   */
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Get an object, or null if there is none with this key
+   * @param key Object key
+   */
+  get(key: string): Promise<Buffer | null>;
+
+  /**
+   * Check if an object exists
+   * @param key Object key
+   */
+  exists(key: string): Promise<boolean>;
+
+  /**
+   * Delete an object
+   * @param key Object key
+   * @returns Whether an object was deleted
+   */
+  delete(key: string): Promise<boolean>;
+}
@@ -0,0 +1,96 @@
+import { IModel } from './IModel';
+
+/**
+ * Backends that can serve a vision-language model
+ * - openai-chat: OpenAI-compatible /v1/chat/completions (llama.cpp server, vLLM, ...)
+ * - llama-completion: llama.cpp native /completion with image_data
+ * - ollama: Ollama /api/chat
+ */
+export type VisionLanguageProviderType = 'openai-chat' | 'llama-completion' | 'ollama';
+
+/**
+ * A provider-neutral chat message; images are attached as raw buffers
+ */
+export interface VisionChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+    images?: Buffer[];
+}
+
+/**
+ * Generation options shared by all providers
+ */
+export interface VisionGenerationOptions {
+    model?: string;
+    maxNewTokens?: number;
+    temperature?: number;
+    topP?: number;
+    signal?: AbortSignal;
+}
+
+/**
+ * Result of a generation
+ */
+export interface VisionGenerationResult {
+    text: string;
+    model: string;
+    processingTime: number;
+}
+
+/**
+ * A model reported by the provider's server
+ */
+export interface VisionModelInfo {
+    id: string;
+    ownedBy: string | null;
+    // Context window in tokens, when the server reports it
+    contextSize: number | null;
+    // Whether the model accepts images; null when the server does not say
+    multimodal: boolean | null;
+}
+
+/**
+ * Interface for vision-language model providers in the SmallBlind system
+ */
+export interface IVisionLanguageProvider extends IModel {
+    /**
+     * The backend this provider talks to
+     */
+    readonly type: VisionLanguageProviderType;
+
+    /**
+     * Generate a reply for a conversation that includes images
+     * @param messages Conversation, oldest message first
+     * @param options Generation options
+     */
+    generate(messages: VisionChatMessage[], options?: VisionGenerationOptions): Promise<VisionGenerationResult>;
+
+    /**
+     * Generate a reply, calling onToken for every text fragment as it is produced
+     * @param messages Conversation, oldest message first
+     * @param options Generation options
+     * @param onToken Token callback
+     */
+    generateStream(
+        messages: VisionChatMessage[],
+        options: VisionGenerationOptions,
+        onToken: (token: string) => void
+    ): Promise<VisionGenerationResult>;
+
+    /**
+     * Check whether the backend server is reachable
+     */
+    checkHealth(): Promise<boolean>;
+
+    /**
+     * List the models the server currently serves
+     */
+    listModels(): Promise<VisionModelInfo[]>;
+
+    /**
+     * Ask the server to release a model's memory.
+     * Resolves to false when the server offers no way to do so.
+     * @param model Model name
+     */
+    unloadModel(model: string): Promise<boolean>;
+}
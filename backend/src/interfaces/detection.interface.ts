@@ -2,11 +2,92 @@
  * Detection interfaces for object detection functionality
  */
 
+/**
+ * Priority lane of an inference job. Interactive jobs (camera captures) always run before batch jobs.
+ */
+export type InferencePriority = 'interactive' | 'batch';
+
+/**
+ * Languages of labels, spoken summaries and model answers
+ */
+export type Language = 'en' | 'pt-BR' | 'es';
+
 export interface DetectionResult {
     box: BoundingBox;
     score: number;
-    label: string;
+    label: string; // In the requested language
+    originalLabel?: string; // Label given by the model, present when it was translated
     class?: number;
+    spatial?: SpatialDescription;
+    distance?: ObjectDistance;
+    colors?: ColorAnalysis; // For people, the colors of their clothing
+}
+
+/**
+ * Relative distance of a detected object, estimated from a depth map of the image.
+ * Monocular depth is only relative, so steps are a rough guide rather than a measurement.
+ */
+export interface ObjectDistance {
+    closeness: number; // 0 for the farthest and 1 for the nearest point of the scene
+    range: 'within reach' | 'near' | 'medium' | 'far';
+    steps: number | null; // Approximate walking steps, null when far
+    phrase: string; // e.g. "chair, about 2 steps ahead"
+}
+
+/**
+ * Relation of a detection to another detection in the same image
+ */
+export interface SpatialRelation {
+    relation: 'on' | 'above' | 'below' | 'left of' | 'right of';
+    label: string;
+    index: number; // Index of the other detection in the response
+}
+
+/**
+ * Where a detection is in the image, in terms that can be read aloud
+ */
+export interface SpatialDescription {
+    clockPosition: number; // 12 is straight ahead
+    horizontal: 'left' | 'center' | 'right';
+    distance: 'near' | 'medium' | 'far'; // Estimated from the share of the image the box covers
+    areaRatio: number;
+    relations: SpatialRelation[];
+    phrase: string; // e.g. "a cup at 2 o'clock, on the right, close by, on the dining table"
+}
+
+/**
+ * An object followed across frames of the live camera
+ */
+export interface TrackedObject {
+    trackId: number;
+    label: string;
+    box: BoundingBox;
+    score: number;
+    horizontal: SpatialDescription['horizontal'];
+    clockPosition: number;
+}
+
+/**
+ * Change between live camera frames: a tracked object appeared or is no longer visible
+ */
+export interface TrackEvent {
+    type: 'entered' | 'left';
+    trackId: number;
+    label: string;
+    horizontal: SpatialDescription['horizontal'];
+    clockPosition: number;
+    message: string; // e.g. "person entered on the left"
+}
+
+/**
+ * Update pushed to a live camera client after a frame that changed what is visible
+ */
+export interface LiveCameraUpdate {
+    frame: number; // Number of the analyzed frame since the session started
+    events: TrackEvent[];
+    objects: TrackedObject[]; // Everything currently tracked
+    droppedFrames: number; // Frames skipped so far because a newer one arrived during detection
+    processingTime: number;
 }
 
 export interface BoundingBox {
@@ -18,11 +99,56 @@ export interface BoundingBox {
     height?: number;
 }
 
-export interface ObjectDetectionOptions {
+/**
+ * How an image was normalized before analysis
+ */
+export interface ImagePreprocessingInfo {
+    kind: string; // Kind of analysis, e.g. 'object-detection'
+    model: string;
+    originalFormat: string; // As decoded, e.g. 'jpeg', 'heif'
+    format: string; // Format that was analyzed
+    originalSize: { width: number; height: number }; // Upright, i.e. after applying the EXIF orientation
+    size: { width: number; height: number };
+    steps: string[]; // e.g. 'auto-orient (EXIF orientation 6)', 'resize 4032x3024 -> 1280x960'
+}
+
+/**
+ * Order of detections, and which ones a limit keeps: likeliest or largest first
+ */
+export type DetectionRanking = 'score' | 'area';
+
+/**
+ * Post-processing of detections: which classes to keep, how confident each must be,
+ * overlapping boxes and ranking. Labels are matched case-insensitively.
+ */
+export interface DetectionPostProcessing {
+    includeLabels?: string[]; // Only keep these labels
+    excludeLabels?: string[]; // Drop these labels
+    classThresholds?: Record<string, number>; // Minimum score per label, instead of the threshold
+    nmsThreshold?: number; // IoU above which overlapping boxes of any class are suppressed, keeping the likeliest; off when unset
+    rankBy?: DetectionRanking; // Default score
+}
+
+/**
+ * Detection settings a user saves under a name in their AppSettings
+ */
+export interface DetectionProfile extends DetectionPostProcessing {
+    threshold?: number;
+    maxObjects?: number;
+}
+
+export interface ObjectDetectionOptions extends DetectionPostProcessing {
     modelName?: string;
     threshold?: number;
     maxObjects?: number;
     dtype?: string; // Quantization level: fp32, fp16, q8, q4, q2
+    spatial?: boolean; // Add spatial descriptions to the detections
+    colors?: boolean; // Add the dominant colors and pattern of each object
+    colorLanguage?: ColorLanguage;
+    language?: Language; // Of labels and summaries, default en
+    priority?: InferencePriority;
+    queries?: string[]; // Free-text objects to find with a zero-shot model, e.g. "keys"
+    useCache?: boolean; // Look up and store the result in the result cache (default true)
 }
 
 export interface DetectionResponse {
@@ -30,6 +156,22 @@ export interface DetectionResponse {
     processingTime: number;
     model: string;
     dtype: string; // Quantization level used
+    queries?: string[]; // Queries of a zero-shot detection; detection labels are these queries
+    imageSize?: { width: number; height: number };
+    spatialSummary?: string;
+    labelCounts: DetectionLabelCount[]; // Most frequent first
+    countSummary: string; // e.g. "2 people, a chair and a cup"
+    profile?: string; // Name of the detection profile applied
+    preprocessing?: ImagePreprocessingInfo; // Boxes are in the coordinates of the upright original image
+    cached?: boolean; // True when returned from the result cache
+}
+
+/**
+ * How many detections of a label an image has
+ */
+export interface DetectionLabelCount {
+    label: string;
+    count: number;
 }
 
 export interface ModelInfo {
@@ -50,6 +192,7 @@ export interface VisionModelRegistry {
 export interface ImageDescriptionOptions {
     modelName?: string;
     prompt?: string;
+    language?: Language; // Language the model is asked to answer in, default en
     maxNewTokens?: number;
     doSample?: boolean;
     dtype?: {
@@ -57,6 +200,7 @@ export interface ImageDescriptionOptions {
         vision_encoder: 'fp16' | 'fp32' | 'q8';
         decoder_model_merged: 'q4' | 'q4f16' | 'q8';
     };
+    priority?: InferencePriority;
 }
 
 /**
@@ -67,4 +211,398 @@ export interface ImageDescriptionResponse {
     processingTime: number;
     model: string;
     prompt: string;
-} 
\ No newline at end of file
+    preprocessing?: ImagePreprocessingInfo;
+    cached?: boolean; // True when returned from the result cache
+}
+
+/**
+ * A previous question and answer about the same image
+ */
+export interface VisualQuestionTurn {
+    question: string;
+    answer: string;
+}
+
+/**
+ * Image description model as reported by the vision-language server
+ */
+export interface DescriptionModelInfo {
+    modelType: string;
+    modelId: string;
+    ownedBy: string | null;
+    contextSize: number | null;
+    multimodal: boolean | null;
+}
+
+/**
+ * Options for text recognition (OCR)
+ */
+export interface OcrOptions {
+    modelName?: string;
+    dtype?: string; // Quantization level: fp32, fp16, q8, q4
+    maxLines?: number; // Upper bound on the number of lines sent to the recognizer
+    priority?: InferencePriority;
+}
+
+/**
+ * A recognized line of text
+ */
+export interface OcrTextLine {
+    text: string;
+    box: BoundingBox;
+}
+
+/**
+ * A block of consecutive lines (a paragraph or a column fragment)
+ */
+export interface OcrTextBlock {
+    text: string;
+    box: BoundingBox;
+    lines: OcrTextLine[];
+}
+
+/**
+ * Response for text recognition; blocks are in reading order
+ */
+export interface OcrResponse {
+    text: string;
+    blocks: OcrTextBlock[];
+    processingTime: number;
+    model: string;
+    dtype: string;
+    preprocessing?: ImagePreprocessingInfo; // Boxes are in the coordinates of the upright original image
+}
+
+/**
+ * Options for combined scene analysis (detection plus description)
+ */
+export interface SceneAnalysisOptions {
+    detection?: ObjectDetectionOptions;
+    description?: ImageDescriptionOptions;
+    // How long the description waits for detections to use as grounding, in milliseconds
+    groundingWaitMs?: number;
+    language?: Language; // Of the labels, the description and the summary, default en
+}
+
+/**
+ * Response for combined scene analysis.
+ * A part is null when it failed; its error message is in `errors`.
+ */
+export interface SceneAnalysisResponse {
+    summary: string;
+    detection: DetectionResponse | null;
+    description: ImageDescriptionResponse | null;
+    // Labels that were given to the description model as grounding
+    groundingLabels: string[];
+    errors: {
+        detection?: string;
+        description?: string;
+    };
+    processingTime: number;
+}
+
+/**
+ * An image of a batch request
+ */
+export interface BatchImage {
+    fileName: string;
+    buffer: Buffer;
+    mimeType: string | null;
+}
+
+export type BatchTask = 'detection' | 'description';
+
+/**
+ * Options for batch analysis; only the listed tasks run
+ */
+export interface BatchAnalysisOptions {
+    tasks: BatchTask[];
+    detection?: ObjectDetectionOptions;
+    description?: ImageDescriptionOptions;
+    skipQualityCheck?: boolean; // Analyze images the quality check finds unusable anyway
+    language?: Language; // Of the labels, descriptions and quality guidance, default en
+}
+
+/**
+ * Result of one image of a batch.
+ * A task's result is null when it wasn't requested, failed or the image was unusable; failures are in `errors`.
+ */
+export interface BatchImageResult {
+    index: number;
+    fileName: string;
+    detection: DetectionResponse | null;
+    description: ImageDescriptionResponse | null;
+    errors: {
+        detection?: string;
+        description?: string;
+        quality?: string; // Guidance when the image was too poor to analyze
+    };
+    quality?: ImageQualityReport; // Absent when the quality check is off
+    analysisId?: string | null;
+}
+
+/**
+ * How often a label was detected across a batch
+ */
+export interface BatchLabelCount {
+    label: string;
+    count: number; // Objects with this label
+    images: number; // Images containing the label
+}
+
+export interface BatchAnalysisResponse {
+    batchId: string;
+    results: BatchImageResult[];
+    labelCounts: BatchLabelCount[];
+    totals: {
+        images: number;
+        succeeded: number;
+        failed: number;
+    };
+    processingTime: number;
+}
+
+export type ReanalysisTask = 'detection' | 'description';
+
+/**
+ * Options for re-analyzing a stored image; only the options of the task are used
+ */
+export interface ReanalysisOptions {
+    task: ReanalysisTask;
+    detection?: ObjectDetectionOptions;
+    description?: ImageDescriptionOptions;
+}
+
+/**
+ * A detected object as compared between two analyses
+ */
+export interface DiffObject {
+    label: string;
+    score: number;
+    box: BoundingBox;
+}
+
+/**
+ * Objects that appeared, disappeared or were found by both of two detections of the same image.
+ * Objects match when they have the same label and their boxes overlap enough.
+ */
+export interface DetectionDiff {
+    before: { model: string; objects: number };
+    after: { model: string; objects: number };
+    appeared: DiffObject[];
+    disappeared: DiffObject[];
+    matched: {
+        label: string;
+        before: { score: number; box: BoundingBox };
+        after: { score: number; box: BoundingBox };
+        iou: number;
+    }[];
+    // Objects per label in both detections, for the labels whose count changed
+    labelChanges: { label: string; before: number; after: number }[];
+    summary: string;
+}
+
+/**
+ * The earlier and the new description of a re-analyzed image
+ */
+export interface DescriptionDiff {
+    before: { model: string; prompt: string; description: string } | null;
+    after: { model: string; prompt: string; description: string };
+}
+
+/**
+ * Response for re-analysis of a stored image.
+ * The diff compares the new result with the analysis that was re-analyzed; it is null when that
+ * analysis has no result of the same task.
+ */
+export interface ReanalysisResponse {
+    task: ReanalysisTask;
+    sourceAnalysisId: string; // The analysis that was re-analyzed
+    parentAnalysisId: string; // The original analysis all revisions are linked to
+    analysisId: string | null; // The stored revision
+    detection?: DetectionResponse;
+    description?: ImageDescriptionResponse;
+    diff: DetectionDiff | DescriptionDiff | null;
+}
+
+/**
+ * Options for depth estimation
+ */
+export interface DepthEstimationOptions {
+    modelName?: string;
+    dtype?: string; // Quantization level: fp32, fp16, q8, q4
+    gridRows?: number;
+    gridCols?: number;
+    detect?: boolean; // Also detect objects and estimate their distance (default true)
+    detection?: ObjectDetectionOptions;
+    priority?: InferencePriority;
+    language?: Language; // Of the labels and the distance phrases, default en
+}
+
+/**
+ * Response for depth estimation.
+ * The grid holds the closeness (0 farthest, 1 nearest) of each cell, top row first.
+ * Detection is null when it wasn't requested or failed; its error message is in `errors`.
+ */
+export interface DepthEstimationResponse {
+    grid: number[][];
+    gridSize: { rows: number; cols: number };
+    detection: DetectionResponse | null; // Detections carry their distance
+    summary: string;
+    errors: {
+        detection?: string;
+    };
+    processingTime: number;
+    model: string;
+    dtype: string;
+    preprocessing?: ImagePreprocessingInfo;
+}
+
+/**
+ * A corner of a barcode, in the coordinates of the upright original image
+ */
+export interface Point {
+    x: number;
+    y: number;
+}
+
+/**
+ * Product of the local catalog a barcode was found in
+ */
+export interface ProductInfo {
+    barcode: string;
+    name: string;
+    brand: string | null;
+    quantity: string | null;
+    category: string | null;
+    description: string | null;
+}
+
+/**
+ * What a QR or Data Matrix code contains
+ */
+export type CodePayload =
+    | { type: 'url'; url: string; host: string }
+    | { type: 'wifi'; ssid: string; security: string | null; password: string | null; hidden: boolean }
+    | { type: 'text'; text: string };
+
+/**
+ * A barcode read from an image.
+ * Product codes (EAN/UPC) carry their normalized GTIN and the catalog product, or null when it isn't known;
+ * 2D codes carry their classified payload.
+ */
+export interface BarcodeResult {
+    format: string; // e.g. "EAN13", "UPCA", "QRCode", "DataMatrix"
+    text: string;
+    box: BoundingBox;
+    corners: Point[]; // Top-left, top-right, bottom-right, bottom-left
+    gtin?: string;
+    product?: ProductInfo | null;
+    payload?: CodePayload;
+    phrase: string;
+}
+
+/**
+ * Options for reading barcodes
+ */
+export interface BarcodeOptions {
+    formats?: string[]; // Readable formats, defaults to product codes, QR and Data Matrix
+    lookup?: boolean; // Look up product codes in the catalog, defaults to true
+    priority?: InferencePriority;
+    language?: Language; // Of the phrases and the summary, default en
+}
+
+/**
+ * Response of barcode reading
+ */
+export interface BarcodeResponse {
+    barcodes: BarcodeResult[];
+    summary: string;
+    processingTime: number;
+    preprocessing?: ImagePreprocessingInfo;
+}
+
+/**
+ * Languages color names and phrases are available in
+ */
+export type ColorLanguage = Language;
+
+/**
+ * Pattern of a region: one color, stripes, checks, large blocks of color or any other print
+ */
+export type ColorPattern = 'solid' | 'striped' | 'checked' | 'blocks' | 'patterned';
+
+/**
+ * A dominant color of a region, named from a basic vocabulary
+ */
+export interface NamedColor {
+    name: string; // In the requested language, e.g. "navy blue" or "azul-marinho"
+    hex: string; // Average color of the pixels given this name
+    share: number; // Share of the region's pixels (0-1)
+}
+
+/**
+ * Dominant colors and pattern of an image region
+ */
+export interface ColorAnalysis {
+    colors: NamedColor[]; // Most common first
+    pattern: ColorPattern;
+    stripeDirection?: 'horizontal' | 'vertical'; // Present for striped regions
+    phrase: string; // e.g. "red and white stripes"
+    language: ColorLanguage;
+}
+
+/**
+ * Options for color analysis
+ */
+export interface ColorAnalysisOptions {
+    box?: BoundingBox; // Region to analyze, in the coordinates of the upright original image; the whole image by default
+    mode?: 'general' | 'clothing'; // Clothing mode leaves out the edges of the region and describes a garment
+    language?: ColorLanguage;
+    maxColors?: number;
+}
+
+/**
+ * Response of color analysis
+ */
+export interface ColorAnalysisResponse extends ColorAnalysis {
+    mode: 'general' | 'clothing';
+    region: BoundingBox; // Region that was analyzed, in the coordinates of the upright original image
+    processingTime: number;
+    preprocessing?: ImagePreprocessingInfo;
+}
+
+/**
+ * Problem of a photo found before analysis: too dark, overexposed, blurry, nearly uniform,
+ * or with a finger over the lens
+ */
+export type ImageQualityIssueCode = 'too-dark' | 'overexposed' | 'blurry' | 'low-information' | 'lens-covered';
+
+export interface ImageQualityIssue {
+    code: ImageQualityIssueCode;
+    severity: 'warning' | 'unusable'; // Unusable images are not worth analyzing at all
+    guidance: string; // What to do about it, to be spoken, e.g. "Too dark, turn on a light"
+}
+
+/**
+ * Measurements quality is judged on, from the greyscale image
+ */
+export interface ImageQualityMetrics {
+    brightness: number; // Mean luma, 0-255
+    contrast: number; // Standard deviation of luma
+    sharpness: number; // Variance of the Laplacian; low for blurry images
+    overexposed: number; // Share of pixels that are clipped white (0-1)
+    underexposed: number; // Share of pixels that are nearly black (0-1)
+    entropy: number; // Of the luma histogram in bits, 0 for a single shade
+}
+
+/**
+ * Outcome of the quality check run before analysis
+ */
+export interface ImageQualityReport {
+    usable: boolean;
+    issues: ImageQualityIssue[]; // Unusable issues first
+    guidance: string; // Guidance of all issues as one sentence, empty for good images
+    metrics: ImageQualityMetrics;
+    processingTime: number;
+}
@@ -8,6 +8,7 @@ export interface AuthRequest extends Request {
         id: string;
         username: string;
         email: string;
+        role: string;
     };
 }
 
@@ -61,7 +62,8 @@ export const authenticateJWT = async (req: AuthRequest, res: Response, next: Nex
         req.user = {
             id: decoded.id,
             username: decoded.username,
-            email: decoded.email
+            email: decoded.email,
+            role: user.role
         };
 
         next();
@@ -119,7 +121,8 @@ export const optionalAuthenticateJWT = async (req: AuthRequest, res: Response, n
             req.user = {
                 id: decoded.id,
                 username: decoded.username,
-                email: decoded.email
+                email: decoded.email,
+                role: user.role
             };
         }
 
@@ -128,4 +131,49 @@ export const optionalAuthenticateJWT = async (req: AuthRequest, res: Response, n
         // On error, just continue without user
         next();
     }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Only let administrators through; must run after authenticateJWT
+ */
+export const requireAdmin = (req: AuthRequest, res: Response, next: NextFunction): void => {
+    if (req.user?.role !== 'admin') {
+        res.status(403).json({
+            success: false,
+            error: 'Forbidden - Administrator role required'
+        });
+        return;
+    }
+
+    next();
+};
+
+/**
+ * Verify a JWT given outside the Authorization header, e.g. as a WebSocket query parameter
+ * @returns The user, or null if the token is missing, invalid or of an unknown user
+ */
+export const verifyAccessToken = async (token: string | null | undefined): Promise<NonNullable<AuthRequest['user']> | null> => {
+    const jwtSecret = process.env.JWT_SECRET;
+    if (!token || !jwtSecret) {
+        return null;
+    }
+
+    try {
+        const decoded = jwt.verify(token, jwtSecret) as { id: string; username: string; email: string };
+
+        const userRepo = new UserRepository();
+        const user = await userRepo.findById(decoded.id);
+        if (!user) {
+            return null;
+        }
+
+        return {
+            id: decoded.id,
+            username: decoded.username,
+            email: decoded.email,
+            role: user.role
+        };
+    } catch (error) {
+        return null;
+    }
+};
@@ -0,0 +1,40 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { ImageQualityService } from '../services/image-quality.service';
+
+/**
+ * Middleware checking the quality of the uploaded image before a vision handler runs.
+ * The report is left in res.locals.imageQuality for the handler to return; in block mode,
+ * unusable images are answered with 422 and guidance unless skipQualityCheck=true is given.
+ * The guidance is in res.locals.language when resolveLanguage ran before, else in English.
+ * Requests without an image or with invalid parameters are left to the handler to reject.
+ */
+export const checkImageQuality = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const qualityService = ImageQualityService.getInstance();
+    const mode = qualityService.getMode();
+    if (mode === 'off' || !req.file || !validationResult(req).isEmpty()) {
+        next();
+        return;
+    }
+
+    try {
+        const report = await qualityService.checkQuality(req.file.buffer, res.locals.language);
+        res.locals.imageQuality = report;
+
+        if (!report.usable && mode === 'block' && req.query.skipQualityCheck !== 'true') {
+            console.log(`Rejected unusable image: ${report.issues.map(issue => issue.code).join(', ')}`);
+            res.status(422).json({
+                success: false,
+                error: 'Image quality too low to analyze',
+                details: report.guidance,
+                quality: report
+            });
+            return;
+        }
+    } catch (error) {
+        // Images that can't be decoded are reported by the handler like before
+        console.warn('Image quality check failed:', error instanceof Error ? error.message : error);
+    }
+
+    next();
+};
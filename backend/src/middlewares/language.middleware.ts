@@ -0,0 +1,39 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth.middleware';
+import { Language } from '../interfaces/detection.interface';
+import { UserProfileService } from '../services/UserProfileService';
+import { normalizeLanguage } from '../utils/language';
+
+const userProfiles = new UserProfileService();
+
+/**
+ * Language of labels, spoken summaries and model answers: the requested language,
+ * else the language in the user's settings, else English
+ * @param requested Language tag asked for, e.g. the language query parameter
+ * @param userId User whose settings are used when none is asked for
+ */
+export async function findLanguage(requested: string | null | undefined, userId?: string): Promise<Language> {
+    let language: Language | null = normalizeLanguage(requested);
+
+    if (!language && userId) {
+        try {
+            const settings = await userProfiles.getSettings(userId);
+            language = normalizeLanguage(settings?.language);
+        } catch (error) {
+            // Answer in English rather than fail the request
+            console.warn('Could not read the language setting:', error instanceof Error ? error.message : error);
+        }
+    }
+
+    return language || 'en';
+}
+
+/**
+ * Middleware choosing the language of labels, spoken summaries and model answers:
+ * the language query parameter, else the language in the user's settings, else English.
+ * The language is left in res.locals.language for the handler.
+ */
+export const resolveLanguage = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    res.locals.language = await findLanguage(req.query.language as string | undefined, req.user?.id);
+    next();
+};
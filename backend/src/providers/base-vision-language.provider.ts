@@ -0,0 +1,256 @@
+import fetch, { Response } from 'node-fetch';
+import { ModelMetadata } from '../data-models/ModelMetadata';
+import { VisionLanguageConfig } from '../config/Config';
+import {
+    IVisionLanguageProvider,
+    VisionChatMessage,
+    VisionGenerationOptions,
+    VisionGenerationResult,
+    VisionLanguageProviderType,
+    VisionModelInfo
+} from '../interfaces/IVisionLanguageProvider';
+import { detectImageFormat, IMAGE_FORMAT_MIME_TYPES } from '../utils/image-decode';
+
+/**
+ * Input accepted by predict(), the generic IModel entry point
+ */
+export interface VisionPredictInput {
+    messages: VisionChatMessage[];
+    options?: VisionGenerationOptions;
+}
+
+/**
+ * Response of the OpenAI-compatible /v1/models endpoint (llama.cpp adds `meta`)
+ */
+interface ModelListResponse {
+    data?: {
+        id: string;
+        owned_by?: string;
+        meta?: {
+            n_ctx_train?: number;
+        };
+    }[];
+}
+
+/**
+ * The parts of the llama.cpp /props response used for discovery
+ */
+interface ServerPropsResponse {
+    default_generation_settings?: {
+        n_ctx?: number;
+    };
+    modalities?: {
+        vision?: boolean;
+    };
+    // Older llama.cpp builds report a single flag instead of `modalities`
+    multimodal?: boolean;
+}
+
+/**
+ * Abstract base class for vision-language providers that talk to a remote inference server.
+ * The server owns the model weights, so load/unload only track reachability.
+ */
+export abstract class BaseVisionLanguageProvider implements IVisionLanguageProvider {
+    public abstract readonly type: VisionLanguageProviderType;
+
+    protected config: VisionLanguageConfig;
+    protected loaded = false;
+
+    // Path used to check that the server is up
+    protected abstract readonly healthPath: string;
+
+    // Default sampling parameters
+    protected DEFAULT_MAX_NEW_TOKENS = 150;
+    protected DEFAULT_TEMPERATURE = 0.1;
+    protected DEFAULT_TOP_P = 0.9;
+
+    constructor(config: VisionLanguageConfig) {
+        this.config = config;
+    }
+
+    public abstract generate(
+        messages: VisionChatMessage[],
+        options?: VisionGenerationOptions
+    ): Promise<VisionGenerationResult>;
+
+    public abstract generateStream(
+        messages: VisionChatMessage[],
+        options: VisionGenerationOptions,
+        onToken: (token: string) => void
+    ): Promise<VisionGenerationResult>;
+
+    /**
+     * Check whether the backend server is reachable
+     */
+    public async checkHealth(): Promise<boolean> {
+        try {
+            const response = await fetch(`${this.config.baseUrl}${this.healthPath}`, {
+                headers: this.getHeaders(),
+            });
+            return response.ok;
+        } catch (error) {
+            console.warn(`Health check to ${this.config.baseUrl}${this.healthPath} failed:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * List served models from /v1/models, completed with the runtime context size
+     * and vision support reported by llama.cpp's /props (when the server has it)
+     */
+    public async listModels(): Promise<VisionModelInfo[]> {
+        const list = await this.getJson<ModelListResponse>('/v1/models');
+        if (!list?.data) {
+            throw new Error(`${this.type} server at ${this.config.baseUrl} did not return a model list`);
+        }
+
+        return Promise.all(list.data.map(async (model) => {
+            // Single-model servers ignore the query; router-mode servers answer per model
+            const props = await this.getJson<ServerPropsResponse>(`/props?model=${encodeURIComponent(model.id)}`);
+
+            return {
+                id: model.id,
+                ownedBy: model.owned_by || null,
+                contextSize: props?.default_generation_settings?.n_ctx ?? model.meta?.n_ctx_train ?? null,
+                multimodal: props?.modalities?.vision ?? props?.multimodal ?? null
+            };
+        }));
+    }
+
+    /**
+     * Release a model on the server. OpenAI-compatible and llama.cpp servers
+     * keep their model loaded for the lifetime of the process, so this is unsupported by default.
+     */
+    public async unloadModel(_model: string): Promise<boolean> {
+        return false;
+    }
+
+    /**
+     * Load the model (checks that the server serving it is reachable)
+     */
+    public async load(): Promise<boolean> {
+        this.loaded = await this.checkHealth();
+        return this.loaded;
+    }
+
+    /**
+     * Unload the model (model memory is managed by the server)
+     */
+    public async unload(): Promise<boolean> {
+        this.loaded = false;
+        return true;
+    }
+
+    /**
+     * Run inference through the generic IModel interface
+     */
+    public async predict(input: VisionPredictInput): Promise<VisionGenerationResult> {
+        return this.generate(input.messages, input.options);
+    }
+
+    /**
+     * Get model metadata
+     */
+    public getMetadata(): ModelMetadata {
+        return {
+            name: this.config.model,
+            provider: this.type,
+            type: 'multimodal',
+            capabilities: ['image-description', 'visual-question-answering', 'streaming']
+        };
+    }
+
+    /**
+     * Base URL of the server this provider talks to
+     */
+    public getBaseUrl(): string {
+        return this.config.baseUrl;
+    }
+
+    /**
+     * Model to use for a request
+     */
+    protected resolveModel(options: VisionGenerationOptions): string {
+        return options.model || this.config.model;
+    }
+
+    /**
+     * Default request headers
+     */
+    protected getHeaders(): Record<string, string> {
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+        };
+        if (this.config.apiKey) {
+            headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+        }
+        return headers;
+    }
+
+    /**
+     * GET a JSON document, resolving to null when the server does not have the endpoint
+     */
+    protected async getJson<T>(path: string): Promise<T | null> {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), this.config.timeout);
+
+        try {
+            const response = await fetch(`${this.config.baseUrl}${path}`, {
+                headers: this.getHeaders(),
+                signal: controller.signal,
+            });
+
+            if (!response.ok) {
+                return null;
+            }
+
+            return await response.json() as T;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    /**
+     * POST a JSON payload, applying the configured timeout and the caller's abort signal
+     */
+    protected async postJson(path: string, payload: unknown, signal?: AbortSignal): Promise<Response> {
+        const url = `${this.config.baseUrl}${path}`;
+
+        // The timeout covers the wait for response headers; the caller's signal also aborts streamed bodies
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), this.config.timeout);
+        if (signal?.aborted) {
+            controller.abort();
+        } else {
+            signal?.addEventListener('abort', () => controller.abort(), { once: true });
+        }
+
+        try {
+            const response = await fetch(url, {
+                method: 'POST',
+                headers: this.getHeaders(),
+                body: JSON.stringify(payload),
+                signal: controller.signal,
+            });
+
+            if (!response.ok) {
+                const errorBody = await response.text();
+                console.error(`Error response from ${this.type} server:`, errorBody);
+                throw new Error(`${this.type} request to ${url} failed with status ${response.status}: ${errorBody}`);
+            }
+
+            return response;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    /**
+     * Detect MIME type from image buffer.
+     * Images are normalized to JPEG, PNG or WebP before they reach a provider, so the fallback is rarely used.
+     */
+    protected detectMimeType(buffer: Buffer): string {
+        const format = detectImageFormat(buffer);
+        return format ? IMAGE_FORMAT_MIME_TYPES[format] : 'image/jpeg';
+    }
+}
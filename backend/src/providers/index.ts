@@ -0,0 +1,26 @@
+import { VisionLanguageConfig } from '../config/Config';
+import { IVisionLanguageProvider } from '../interfaces/IVisionLanguageProvider';
+import { OpenAIChatProvider } from './openai-chat.provider';
+import { LlamaCompletionProvider } from './llama-completion.provider';
+import { OllamaProvider } from './ollama.provider';
+
+export { BaseVisionLanguageProvider } from './base-vision-language.provider';
+export { OpenAIChatProvider } from './openai-chat.provider';
+export { LlamaCompletionProvider } from './llama-completion.provider';
+export { OllamaProvider } from './ollama.provider';
+
+/**
+ * Create the vision-language provider selected by configuration (VLM_PROVIDER)
+ */
+export function createVisionLanguageProvider(config: VisionLanguageConfig): IVisionLanguageProvider {
+    switch (config.provider) {
+        case 'openai-chat':
+            return new OpenAIChatProvider(config);
+        case 'llama-completion':
+            return new LlamaCompletionProvider(config);
+        case 'ollama':
+            return new OllamaProvider(config);
+        default:
+            throw new Error(`Unknown vision-language provider: ${config.provider}. Use 'openai-chat', 'llama-completion' or 'ollama'.`);
+    }
+}
@@ -0,0 +1,126 @@
+import { BaseVisionLanguageProvider } from './base-vision-language.provider';
+import {
+    VisionChatMessage,
+    VisionGenerationOptions,
+    VisionGenerationResult,
+    VisionLanguageProviderType
+} from '../interfaces/IVisionLanguageProvider';
+import { readSSEData } from '../utils/sse';
+
+/**
+ * Interface for the response (or streamed chunk) of llama.cpp /completion
+ */
+interface LlamaCppCompletionResponse {
+    content: string;
+    stop?: boolean;
+    model?: string;
+    tokens_predicted?: number;
+    timings?: object;
+}
+
+/**
+ * Provider for the llama.cpp native /completion endpoint.
+ * The conversation is rendered with a ChatML template and images are passed
+ * through `image_data`, referenced from the prompt as [img-N].
+ */
+export class LlamaCompletionProvider extends BaseVisionLanguageProvider {
+    public readonly type: VisionLanguageProviderType = 'llama-completion';
+    protected readonly healthPath = '/health';
+
+    private STOP_SEQUENCES = ['<|im_start|>', '<|im_end|>'];
+
+    /**
+     * Render messages with the ChatML template and collect the referenced images
+     */
+    private buildPrompt(messages: VisionChatMessage[]): { prompt: string; imageData: Array<{ data: string; id: number }> } {
+        const imageData: Array<{ data: string; id: number }> = [];
+
+        const turns = messages.map(message => {
+            const imageTags = (message.images || []).map(image => {
+                const id = imageData.length + 1;
+                imageData.push({ data: image.toString('base64'), id });
+                return `[img-${id}]`;
+            });
+            const content = imageTags.length > 0 ? `${imageTags.join(' ')}\n${message.content}` : message.content;
+            return `<|im_start|>${message.role}\n${content}<|im_end|>\n`;
+        });
+
+        return {
+            prompt: `${turns.join('')}<|im_start|>assistant\n`,
+            imageData
+        };
+    }
+
+    /**
+     * Build the /completion payload
+     */
+    private buildPayload(messages: VisionChatMessage[], options: VisionGenerationOptions, stream: boolean) {
+        const { prompt, imageData } = this.buildPrompt(messages);
+
+        return {
+            prompt,
+            image_data: imageData,
+            n_predict: options.maxNewTokens || this.DEFAULT_MAX_NEW_TOKENS,
+            temperature: options.temperature ?? this.DEFAULT_TEMPERATURE,
+            top_p: options.topP ?? this.DEFAULT_TOP_P,
+            stop: this.STOP_SEQUENCES,
+            stream
+        };
+    }
+
+    public async generate(
+        messages: VisionChatMessage[],
+        options: VisionGenerationOptions = {}
+    ): Promise<VisionGenerationResult> {
+        const startTime = Date.now();
+        const payload = this.buildPayload(messages, options, false);
+
+        const response = await this.postJson('/completion', payload, options.signal);
+        const result = await response.json() as LlamaCppCompletionResponse;
+
+        return {
+            text: (result.content || '').trim(),
+            model: this.resolveModel(options),
+            processingTime: Date.now() - startTime
+        };
+    }
+
+    public async generateStream(
+        messages: VisionChatMessage[],
+        options: VisionGenerationOptions,
+        onToken: (token: string) => void
+    ): Promise<VisionGenerationResult> {
+        const startTime = Date.now();
+        const payload = this.buildPayload(messages, options, true);
+
+        const response = await this.postJson('/completion', payload, options.signal);
+        if (!response.body) {
+            throw new Error('llama-completion server returned an empty stream');
+        }
+
+        let text = '';
+        for await (const data of readSSEData(response.body as AsyncIterable<Buffer>)) {
+            let chunk: LlamaCppCompletionResponse;
+            try {
+                chunk = JSON.parse(data) as LlamaCppCompletionResponse;
+            } catch {
+                console.warn('Skipping malformed stream chunk from llama-completion server:', data);
+                continue;
+            }
+
+            if (chunk.content) {
+                text += chunk.content;
+                onToken(chunk.content);
+            }
+            if (chunk.stop) {
+                break;
+            }
+        }
+
+        return {
+            text: text.trim(),
+            model: this.resolveModel(options),
+            processingTime: Date.now() - startTime
+        };
+    }
+}
@@ -0,0 +1,204 @@
+import { BaseVisionLanguageProvider } from './base-vision-language.provider';
+import {
+    VisionChatMessage,
+    VisionGenerationOptions,
+    VisionGenerationResult,
+    VisionLanguageProviderType,
+    VisionModelInfo
+} from '../interfaces/IVisionLanguageProvider';
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * Interface for the response (or streamed line) of Ollama /api/chat
+ */
+interface OllamaChatResponse {
+    model: string;
+    message?: {
+        role: string;
+        content: string;
+    };
+    done: boolean;
+    error?: string;
+}
+
+/**
+ * Response of Ollama /api/tags
+ */
+interface OllamaTagsResponse {
+    models?: {
+        name: string;
+    }[];
+}
+
+/**
+ * The parts of Ollama /api/show used for discovery
+ */
+interface OllamaShowResponse {
+    capabilities?: string[];
+    model_info?: Record<string, unknown>;
+    details?: {
+        families?: string[] | null;
+    };
+}
+
+/**
+ * Provider for Ollama-style /api/chat servers.
+ * Images are sent as base64 strings in each message's `images` array,
+ * and streaming responses are newline-delimited JSON.
+ */
+export class OllamaProvider extends BaseVisionLanguageProvider {
+    public readonly type: VisionLanguageProviderType = 'ollama';
+    protected readonly healthPath = '/api/tags';
+
+    /**
+     * Build the /api/chat payload
+     */
+    private buildPayload(messages: VisionChatMessage[], options: VisionGenerationOptions, stream: boolean) {
+        return {
+            model: this.resolveModel(options),
+            messages: messages.map(message => ({
+                role: message.role,
+                content: message.content,
+                ...(message.images && message.images.length > 0
+                    ? { images: message.images.map(image => image.toString('base64')) }
+                    : {})
+            })),
+            options: {
+                num_predict: options.maxNewTokens || this.DEFAULT_MAX_NEW_TOKENS,
+                temperature: options.temperature ?? this.DEFAULT_TEMPERATURE,
+                top_p: options.topP ?? this.DEFAULT_TOP_P
+            },
+            stream
+        };
+    }
+
+    /**
+     * List local models from /api/tags, with context size and vision support from /api/show
+     */
+    public async listModels(): Promise<VisionModelInfo[]> {
+        const tags = await this.getJson<OllamaTagsResponse>('/api/tags');
+        if (!tags?.models) {
+            throw new Error(`ollama server at ${this.config.baseUrl} did not return a model list`);
+        }
+
+        return Promise.all(tags.models.map(async ({ name }) => {
+            const response = await this.postJson('/api/show', { model: name });
+            const show = await response.json() as OllamaShowResponse;
+
+            // Context length is keyed by architecture, e.g. "llama.context_length"
+            const contextKey = Object.keys(show.model_info || {}).find(key => key.endsWith('.context_length'));
+            const contextSize = contextKey ? Number(show.model_info![contextKey]) : null;
+
+            let multimodal: boolean | null = null;
+            if (show.capabilities) {
+                multimodal = show.capabilities.includes('vision');
+            } else if (show.details?.families) {
+                // Older Ollama versions only list the vision projector family
+                multimodal = show.details.families.includes('clip');
+            }
+
+            return { id: name, ownedBy: null, contextSize, multimodal };
+        }));
+    }
+
+    /**
+     * Unload a model by asking Ollama to keep it alive for zero seconds
+     */
+    public async unloadModel(model: string): Promise<boolean> {
+        await this.postJson('/api/generate', { model, keep_alive: 0 });
+        return true;
+    }
+
+    public async generate(
+        messages: VisionChatMessage[],
+        options: VisionGenerationOptions = {}
+    ): Promise<VisionGenerationResult> {
+        const startTime = Date.now();
+        const payload = this.buildPayload(messages, options, false);
+
+        const response = await this.postJson('/api/chat', payload, options.signal);
+        const result = await response.json() as OllamaChatResponse;
+
+        if (result.error) {
+            throw new Error(`ollama request failed: ${result.error}`);
+        }
+
+        return {
+            text: (result.message?.content || '').trim(),
+            model: result.model || payload.model,
+            processingTime: Date.now() - startTime
+        };
+    }
+
+    public async generateStream(
+        messages: VisionChatMessage[],
+        options: VisionGenerationOptions,
+        onToken: (token: string) => void
+    ): Promise<VisionGenerationResult> {
+        const startTime = Date.now();
+        const payload = this.buildPayload(messages, options, true);
+
+        const response = await this.postJson('/api/chat', payload, options.signal);
+        if (!response.body) {
+            throw new Error('ollama server returned an empty stream');
+        }
+
+        let text = '';
+        for await (const line of readLines(response.body as AsyncIterable<Buffer>)) {
+            let result: OllamaChatResponse;
+            try {
+                result = JSON.parse(line) as OllamaChatResponse;
+            } catch {
+                console.warn('Skipping malformed stream chunk from ollama server:', line);
+                continue;
+            }
+
+            if (result.error) {
+                throw new Error(`ollama request failed: ${result.error}`);
+            }
+
+            const token = result.message?.content;
+            if (token) {
+                text += token;
+                onToken(token);
+            }
+            if (result.done) {
+                break;
+            }
+        }
+
+        return {
+            text: text.trim(),
+            model: payload.model,
+            processingTime: Date.now() - startTime
+        };
+    }
+}
+
+/**
+ * Split a newline-delimited byte stream into its non-empty lines.
+ * Multibyte characters may be split across chunks, so the bytes are decoded incrementally.
+ */
+async function* readLines(stream: AsyncIterable<Buffer>): AsyncGenerator<string> {
+    const decoder = new StringDecoder('utf8');
+    let buffer = '';
+
+    for await (const chunk of stream) {
+        buffer += decoder.write(chunk);
+
+        let newlineIndex = buffer.indexOf('\n');
+        while (newlineIndex !== -1) {
+            const line = buffer.slice(0, newlineIndex).trim();
+            buffer = buffer.slice(newlineIndex + 1);
+            if (line) {
+                yield line;
+            }
+            newlineIndex = buffer.indexOf('\n');
+        }
+    }
+
+    const rest = (buffer + decoder.end()).trim();
+    if (rest) {
+        yield rest;
+    }
+}
@@ -0,0 +1,145 @@
+import { BaseVisionLanguageProvider } from './base-vision-language.provider';
+import {
+    VisionChatMessage,
+    VisionGenerationOptions,
+    VisionGenerationResult,
+    VisionLanguageProviderType
+} from '../interfaces/IVisionLanguageProvider';
+import { readSSEData } from '../utils/sse';
+
+/**
+ * Interface for chat completions response
+ */
+interface ChatCompletionResponse {
+    model?: string;
+    choices: Array<{
+        message: {
+            content: string;
+            role: string;
+        };
+        finish_reason: string;
+    }>;
+    usage?: {
+        prompt_tokens: number;
+        completion_tokens: number;
+        total_tokens: number;
+    };
+}
+
+/**
+ * Interface for a streamed chat completions chunk
+ */
+interface ChatCompletionChunk {
+    choices: Array<{
+        delta: {
+            content?: string;
+            role?: string;
+        };
+        finish_reason: string | null;
+    }>;
+}
+
+/**
+ * Provider for OpenAI-compatible chat completions servers (llama.cpp server, vLLM, LM Studio, ...).
+ * Images are sent inline as base64 data URLs.
+ */
+export class OpenAIChatProvider extends BaseVisionLanguageProvider {
+    public readonly type: VisionLanguageProviderType = 'openai-chat';
+    protected readonly healthPath = '/v1/models';
+
+    /**
+     * Convert provider-neutral messages to the OpenAI multimodal message format
+     */
+    private toChatMessages(messages: VisionChatMessage[]) {
+        return messages.map(message => {
+            if (!message.images || message.images.length === 0) {
+                return { role: message.role, content: message.content };
+            }
+
+            return {
+                role: message.role,
+                content: [
+                    { type: 'text', text: message.content },
+                    ...message.images.map(image => ({
+                        type: 'image_url',
+                        image_url: {
+                            url: `data:${this.detectMimeType(image)};base64,${image.toString('base64')}`
+                        }
+                    }))
+                ]
+            };
+        });
+    }
+
+    /**
+     * Build the chat completions payload
+     */
+    private buildPayload(messages: VisionChatMessage[], options: VisionGenerationOptions, stream: boolean) {
+        return {
+            model: this.resolveModel(options),
+            messages: this.toChatMessages(messages),
+            max_tokens: options.maxNewTokens || this.DEFAULT_MAX_NEW_TOKENS,
+            temperature: options.temperature ?? this.DEFAULT_TEMPERATURE,
+            top_p: options.topP ?? this.DEFAULT_TOP_P,
+            stream
+        };
+    }
+
+    public async generate(
+        messages: VisionChatMessage[],
+        options: VisionGenerationOptions = {}
+    ): Promise<VisionGenerationResult> {
+        const startTime = Date.now();
+        const payload = this.buildPayload(messages, options, false);
+
+        const response = await this.postJson('/v1/chat/completions', payload, options.signal);
+        const result = await response.json() as ChatCompletionResponse;
+
+        return {
+            text: (result.choices?.[0]?.message?.content || '').trim(),
+            model: payload.model,
+            processingTime: Date.now() - startTime
+        };
+    }
+
+    public async generateStream(
+        messages: VisionChatMessage[],
+        options: VisionGenerationOptions,
+        onToken: (token: string) => void
+    ): Promise<VisionGenerationResult> {
+        const startTime = Date.now();
+        const payload = this.buildPayload(messages, options, true);
+
+        const response = await this.postJson('/v1/chat/completions', payload, options.signal);
+        if (!response.body) {
+            throw new Error('openai-chat server returned an empty stream');
+        }
+
+        let text = '';
+        for await (const data of readSSEData(response.body as AsyncIterable<Buffer>)) {
+            if (data === '[DONE]') {
+                break;
+            }
+
+            let chunk: ChatCompletionChunk;
+            try {
+                chunk = JSON.parse(data) as ChatCompletionChunk;
+            } catch {
+                console.warn('Skipping malformed stream chunk from openai-chat server:', data);
+                continue;
+            }
+
+            const token = chunk.choices?.[0]?.delta?.content;
+            if (token) {
+                text += token;
+                onToken(token);
+            }
+        }
+
+        return {
+            text: text.trim(),
+            model: payload.model,
+            processingTime: Date.now() - startTime
+        };
+    }
+}
@@ -40,9 +40,9 @@ export class UserRepository {
 
     /**
      * Create a new user
-     * @param userData User data
+     * @param userData User data (the role defaults to "user")
      */
-    async create(userData: Omit<User, 'id'>): Promise<User> {
+    async create(userData: Omit<User, 'id' | 'role'> & { role?: string }): Promise<User> {
         return this.prisma.prisma.user.create({
             data: userData,
         });
@@ -0,0 +1,77 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import { LiveCameraController } from '../controllers/live-camera.controller';
+import { verifyAccessToken } from '../middlewares/auth.middleware';
+import { findLanguage } from '../middlewares/language.middleware';
+
+export const LIVE_CAMERA_PATH = '/api/vision/live';
+
+// Downscaled frames are small; anything bigger is not a camera frame
+const MAX_FRAME_SIZE = 2 * 1024 * 1024;
+
+// Interval of the ping that detects dead connections
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+// Check if running in development mode
+const isDevelopment = process.env.NODE_ENV === 'development';
+
+function rejectUpgrade(socket: Duplex, status: string): void {
+    socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+    socket.destroy();
+}
+
+/**
+ * Serve the live camera WebSocket on the HTTP server.
+ * Browsers can't set headers on WebSocket requests, so the JWT is passed as the `token` query parameter;
+ * like the other vision routes it is optional in development. Labels, events and guidance are in the `language`
+ * query parameter, else in the language of the user's settings.
+ */
+export function attachLiveCameraSocket(server: Server): WebSocketServer {
+    const controller = new LiveCameraController();
+    const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_FRAME_SIZE });
+    const alive = new WeakMap<WebSocket, boolean>();
+
+    server.on('upgrade', async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+        try {
+            const url = new URL(req.url || '/', 'http://localhost');
+            if (url.pathname !== LIVE_CAMERA_PATH) {
+                rejectUpgrade(socket, '404 Not Found');
+                return;
+            }
+
+            const user = await verifyAccessToken(url.searchParams.get('token'));
+            if (!user && !isDevelopment) {
+                rejectUpgrade(socket, '401 Unauthorized');
+                return;
+            }
+            const language = await findLanguage(url.searchParams.get('language'), user?.id);
+
+            wss.handleUpgrade(req, socket, head, ws => {
+                alive.set(ws, true);
+                ws.on('pong', () => alive.set(ws, true));
+                controller.handleConnection(ws, user, language);
+            });
+        } catch (error) {
+            console.error('Error accepting live camera connection:', error);
+            // The client may have gone away while the token was checked
+            if (!socket.destroyed) {
+                rejectUpgrade(socket, '500 Internal Server Error');
+            }
+        }
+    });
+
+    const heartbeat = setInterval(() => {
+        for (const ws of wss.clients) {
+            if (!alive.get(ws)) {
+                ws.terminate();
+                continue;
+            }
+            alive.set(ws, false);
+            ws.ping();
+        }
+    }, HEARTBEAT_INTERVAL_MS);
+    wss.on('close', () => clearInterval(heartbeat));
+
+    return wss;
+}
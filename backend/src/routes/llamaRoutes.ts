@@ -1,7 +1,10 @@
 import { Router } from 'express';
 import multer from 'multer';
 import { LlamaVisionController } from '../controllers/llama-vision.controller';
+import { ImageDescriptionController } from '../controllers/image-description.controller';
 import { describeImageValidation } from '../schemas/image-description.schema';
+import { checkImageQuality } from '../middlewares/image-quality.middleware';
+import { resolveLanguage } from '../middlewares/language.middleware';
 import { authenticateJWT, optionalAuthenticateJWT } from '../middlewares/auth.middleware';
 
 // Configure multer for in-memory storage
@@ -27,8 +30,10 @@ const isDevelopment = process.env.NODE_ENV === 'development';
 // Create router
 export const llamaRouter = Router();
 
-// Initialize controller
+// Initialize controllers
 const llamaVisionController = new LlamaVisionController();
+// Streaming goes through the same description service, so the handler is shared with /api/vision
+const imageDescriptionController = new ImageDescriptionController();
 
 /**
  * @swagger
@@ -100,11 +105,17 @@ llamaRouter.get(
  * /api/llama/models:
  *   get:
  *     summary: Get available multimodal models
- *     description: Returns the list of available multimodal models for image description
+ *     description: Returns the models served by the vision-language server, with context size and image support
  *     security:
  *       - bearerAuth: []
  *     tags:
  *       - Llama CPP
+ *     parameters:
+ *       - in: query
+ *         name: refresh
+ *         schema:
+ *           type: boolean
+ *         description: Query the server instead of using the cached list
  *     responses:
  *       200:
  *         description: List of available models
@@ -137,7 +148,7 @@ llamaRouter.get(
  *         name: model
  *         schema:
  *           type: string
- *         description: Model ID to use (e.g., 'internvl3-1b', 'smolvlm-500m')
+ *         description: Model ID to use; must be served by the vision-language server (see /api/llama/models)
  *       - in: query
  *         name: prompt
  *         schema:
@@ -153,6 +164,17 @@ llamaRouter.get(
  *         schema:
  *           type: boolean
  *         description: Whether to use sampling for text generation
+ *       - in: query
+ *         name: language
+ *         schema:
+ *           type: string
+ *           enum: [en, pt-BR, es]
+ *         description: Language the model is asked to answer in (optional, default the language in the user's settings, else en)
+ *       - in: query
+ *         name: skipQualityCheck
+ *         schema:
+ *           type: boolean
+ *         description: Analyze the image even if the quality check finds it unusable (optional)
  *     requestBody:
  *       required: true
  *       content:
@@ -181,6 +203,14 @@ llamaRouter.get(
  *         description: Invalid request parameters
  *       401:
  *         description: Unauthorized
+ *       422:
+ *         description: Image too dark, overexposed, blurry, uniform or covered to analyze; see the guidance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImageQualityRejection'
+ *       415:
+ *         description: HEIC image, which can't be decoded; send JPEG, PNG, WebP or AVIF instead
  *       500:
  *         description: Server error
  */
@@ -190,5 +220,106 @@ llamaRouter.post(
     isDevelopment ? optionalAuthenticateJWT : authenticateJWT,
     upload.single('image'),
     describeImageValidation,
+    resolveLanguage,
+    checkImageQuality,
     llamaVisionController.describeImage
-); 
\ No newline at end of file
+);
+
+/**
+ * @swagger
+ * /api/llama/describe-image/stream:
+ *   post:
+ *     summary: Stream a description for an image as Server-Sent Events
+ *     description: |
+ *       Same as /api/llama/describe-image, but the description is relayed token by token as it is generated.
+ *       The response is a `text/event-stream` with the events `token` ({ token }),
+ *       `sentence` ({ text }, emitted whenever a full sentence is ready for speech),
+ *       `done` (the final description, `savedResultId`, the persisted ImageDescription id, and `analysisId`, its VisionAnalysis id)
+ *       and `error` ({ error, details }).
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Llama CPP
+ *     consumes:
+ *       - multipart/form-data
+ *     parameters:
+ *       - in: query
+ *         name: model
+ *         schema:
+ *           type: string
+ *         description: Model to use for description
+ *       - in: query
+ *         name: prompt
+ *         schema:
+ *           type: string
+ *         description: Custom prompt to guide the description generation
+ *       - in: query
+ *         name: maxNewTokens
+ *         schema:
+ *           type: integer
+ *         description: Maximum length of generated description
+ *       - in: query
+ *         name: doSample
+ *         schema:
+ *           type: boolean
+ *         description: Whether to use sampling for text generation
+ *       - in: query
+ *         name: language
+ *         schema:
+ *           type: string
+ *           enum: [en, pt-BR, es]
+ *         description: Language the model is asked to answer in (optional, default the language in the user's settings, else en)
+ *       - in: query
+ *         name: skipQualityCheck
+ *         schema:
+ *           type: boolean
+ *         description: Analyze the image even if the quality check finds it unusable (optional)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *                 description: Image file to describe
+ *     responses:
+ *       200:
+ *         description: Event stream with the generated description
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid request parameters
+ *       401:
+ *         description: Unauthorized
+ *       422:
+ *         description: Image too dark, overexposed, blurry, uniform or covered to analyze; see the guidance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImageQualityRejection'
+ *       415:
+ *         description: HEIC image, which can't be decoded; send JPEG, PNG, WebP or AVIF instead
+ *       429:
+ *         description: Inference queue full, retry after the number of seconds in the Retry-After header; sent before the stream opens
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/QueueFullResponse'
+ *       500:
+ *         description: Error before the model produced any text; later errors are sent as an `error` event
+ */
+llamaRouter.post(
+    '/describe-image/stream',
+    // Use optional authentication in development mode
+    isDevelopment ? optionalAuthenticateJWT : authenticateJWT,
+    upload.single('image'),
+    describeImageValidation,
+    resolveLanguage,
+    checkImageQuality,
+    imageDescriptionController.describeImageStream
+);
@@ -0,0 +1,276 @@
+import { Router } from 'express';
+import { ModelRegistryController } from '../controllers/model-registry.controller';
+import {
+    createModelValidation,
+    listModelsValidation,
+    modelIdValidation,
+    updateModelValidation
+} from '../schemas/model-registry.schema';
+import { authenticateJWT, requireAdmin } from '../middlewares/auth.middleware';
+
+// Create router
+export const modelRouter = Router();
+
+// Create controller instance
+const modelRegistryController = new ModelRegistryController();
+
+/**
+ * @swagger
+ * /api/models:
+ *   get:
+ *     summary: List registered models (administrators only)
+ *     description: |
+ *       Models the analysis routes accept. Local models (detection, zero-shot detection, OCR) must be registered
+ *       and enabled to be used; image description models are those served by the vision-language server,
+ *       minus the ones disabled here.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Models
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [object-detection, zero-shot-object-detection, ocr, depth-estimation, image-description]
+ *         description: Only list models of this type
+ *       - in: query
+ *         name: includeDisabled
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Also list disabled models
+ *     responses:
+ *       200:
+ *         description: Registered models
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/RegisteredModel'
+ *       400:
+ *         description: Invalid request parameters
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an administrator
+ *       500:
+ *         description: Server error
+ */
+modelRouter.get(
+    '/',
+    authenticateJWT,
+    requireAdmin,
+    listModelsValidation,
+    modelRegistryController.listModels
+);
+
+/**
+ * @swagger
+ * /api/models/{id}:
+ *   get:
+ *     summary: Get a registered model (administrators only)
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Models
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: The registered model
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/RegisteredModel'
+ *       400:
+ *         description: Invalid model ID
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an administrator
+ *       404:
+ *         description: Model not found
+ *       500:
+ *         description: Server error
+ */
+modelRouter.get(
+    '/:id',
+    authenticateJWT,
+    requireAdmin,
+    modelIdValidation,
+    modelRegistryController.getModel
+);
+
+/**
+ * @swagger
+ * /api/models:
+ *   post:
+ *     summary: Register a model (administrators only)
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Models
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/RegisteredModelInput'
+ *               - type: object
+ *                 required:
+ *                   - name
+ *                   - type
+ *           example:
+ *             name: Xenova/detr-resnet-101
+ *             type: object-detection
+ *             provider: Xenova
+ *             license: apache-2.0
+ *             parameters: 60.7
+ *             quantizations: [fp32, fp16, q8]
+ *             capabilities: [coco]
+ *     responses:
+ *       201:
+ *         description: Model registered
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/RegisteredModel'
+ *       400:
+ *         description: Invalid request parameters
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an administrator
+ *       409:
+ *         description: A model with this name is already registered
+ *       500:
+ *         description: Server error
+ */
+modelRouter.post(
+    '/',
+    authenticateJWT,
+    requireAdmin,
+    createModelValidation,
+    modelRegistryController.createModel
+);
+
+/**
+ * @swagger
+ * /api/models/{id}:
+ *   put:
+ *     summary: Update a registered model (administrators only)
+ *     description: Only the given fields are changed; set enabled to false to stop the analysis routes accepting the model
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Models
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RegisteredModelInput'
+ *     responses:
+ *       200:
+ *         description: Model updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/RegisteredModel'
+ *       400:
+ *         description: Invalid request parameters
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an administrator
+ *       404:
+ *         description: Model not found
+ *       409:
+ *         description: A model with this name is already registered
+ *       500:
+ *         description: Server error
+ */
+modelRouter.put(
+    '/:id',
+    authenticateJWT,
+    requireAdmin,
+    updateModelValidation,
+    modelRegistryController.updateModel
+);
+
+/**
+ * @swagger
+ * /api/models/{id}:
+ *   delete:
+ *     summary: Remove a model from the registry (administrators only)
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Models
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Model removed
+ *       400:
+ *         description: Invalid model ID
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an administrator
+ *       404:
+ *         description: Model not found
+ *       500:
+ *         description: Server error
+ */
+modelRouter.delete(
+    '/:id',
+    authenticateJWT,
+    requireAdmin,
+    modelIdValidation,
+    modelRegistryController.deleteModel
+);
@@ -0,0 +1,193 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { ProductCatalogController } from '../controllers/product-catalog.controller';
+import { listProductsValidation, productIdValidation } from '../schemas/product-catalog.schema';
+import { authenticateJWT, requireAdmin } from '../middlewares/auth.middleware';
+
+// CSV uploads are kept in memory
+const csvUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+        fileSize: 20 * 1024 * 1024, // 20 MB limit
+    },
+    fileFilter: (_req, file, cb) => {
+        const isCsv = ['text/csv', 'application/vnd.ms-excel', 'text/plain'].includes(file.mimetype) ||
+            file.originalname.toLowerCase().endsWith('.csv');
+        if (isCsv) {
+            cb(null, true);
+        } else {
+            cb(new Error('Only CSV files are allowed'));
+        }
+    }
+});
+
+// Create router
+export const productRouter = Router();
+
+// Create controller instance
+const productCatalogController = new ProductCatalogController();
+
+/**
+ * @swagger
+ * /api/products:
+ *   get:
+ *     summary: List catalog products (administrators only)
+ *     description: Products barcodes read by /api/vision/barcode are looked up in
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Products
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Only list products whose barcode, name or brand contain this
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *         description: Number of products to return (default 50)
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *         description: Number of products to skip (default 0)
+ *     responses:
+ *       200:
+ *         description: Catalog products, by name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CatalogProduct'
+ *                 pagination:
+ *                   type: object
+ *                   properties:
+ *                     total:
+ *                       type: integer
+ *                     limit:
+ *                       type: integer
+ *                     offset:
+ *                       type: integer
+ *                     hasMore:
+ *                       type: boolean
+ *       400:
+ *         description: Invalid request parameters
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an administrator
+ *       500:
+ *         description: Server error
+ */
+productRouter.get(
+    '/',
+    authenticateJWT,
+    requireAdmin,
+    listProductsValidation,
+    productCatalogController.listProducts
+);
+
+/**
+ * @swagger
+ * /api/products/import:
+ *   post:
+ *     summary: Import products from a CSV file (administrators only)
+ *     description: |
+ *       The first row names the columns. `barcode` (or `ean`, `gtin`, `upc`) and `name` are required;
+ *       `brand`, `quantity`, `category` and `description` are optional. Comma or semicolon separated.
+ *       Products are matched on their barcode, so importing a file again updates the existing products.
+ *       Rows with an invalid barcode (wrong length or check digit) or without a name are skipped and reported.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Products
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: UTF-8 CSV file
+ *     responses:
+ *       200:
+ *         description: Import outcome
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/ProductImportResult'
+ *       400:
+ *         description: No file, or the file lacks a barcode or name column
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an administrator
+ *       500:
+ *         description: Server error
+ */
+productRouter.post(
+    '/import',
+    authenticateJWT,
+    requireAdmin,
+    csvUpload.single('file'),
+    productCatalogController.importProducts
+);
+
+/**
+ * @swagger
+ * /api/products/{id}:
+ *   delete:
+ *     summary: Remove a product from the catalog (administrators only)
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Products
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Product removed
+ *       400:
+ *         description: Invalid product ID
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an administrator
+ *       404:
+ *         description: Product not found
+ *       500:
+ *         description: Server error
+ */
+productRouter.delete(
+    '/:id',
+    authenticateJWT,
+    requireAdmin,
+    productIdValidation,
+    productCatalogController.deleteProduct
+);
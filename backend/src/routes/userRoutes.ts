@@ -1,9 +1,16 @@
 import { Router } from 'express';
 import { UserController } from '../controllers/UserController';
+import { DetectionProfileController } from '../controllers/detection-profile.controller';
 import { authenticateJWT } from '../middlewares/authMiddleware';
+import {
+    activateDetectionProfileValidation,
+    deleteDetectionProfileValidation,
+    saveDetectionProfileValidation
+} from '../schemas/detection-profile.schema';
 
 const router = Router();
 const userController = new UserController();
+const detectionProfileController = new DetectionProfileController();
 
 /**
  * @swagger
@@ -191,6 +198,138 @@ router.get('/settings', authenticateJWT, (req, res) => userController.getSetting
  */
 router.put('/settings', authenticateJWT, (req, res) => userController.updateSettings(req, res));
 
+/**
+ * @swagger
+ * /api/users/settings/detection-profiles:
+ *   get:
+ *     summary: List the user's detection profiles
+ *     description: Named sets of detection settings (labels to keep or drop, per-class thresholds, overlap suppression, ranking), e.g. "street" or "kitchen"
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Profiles and the active one
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/DetectionProfileList'
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/settings/detection-profiles', authenticateJWT, detectionProfileController.listProfiles);
+
+/**
+ * @swagger
+ * /api/users/settings/detection-profiles/active:
+ *   put:
+ *     summary: Choose the detection profile applied when a request names none
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Name of a saved profile, or null to apply none
+ *     responses:
+ *       200:
+ *         description: Active profile changed
+ *       400:
+ *         description: Invalid name
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Profile not found
+ *       500:
+ *         description: Internal server error
+ */
+router.put(
+    '/settings/detection-profiles/active',
+    authenticateJWT,
+    activateDetectionProfileValidation,
+    detectionProfileController.setActiveProfile
+);
+
+/**
+ * @swagger
+ * /api/users/settings/detection-profiles/{name}:
+ *   put:
+ *     summary: Create or replace a detection profile
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Profile name (1-50 letters, digits, spaces, dashes or underscores)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/DetectionProfile'
+ *     responses:
+ *       200:
+ *         description: Profile saved
+ *       400:
+ *         description: Invalid settings, or too many profiles
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     summary: Delete a detection profile
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Profile deleted; if it was active, none is active anymore
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Profile not found
+ *       500:
+ *         description: Internal server error
+ */
+router.put(
+    '/settings/detection-profiles/:name',
+    authenticateJWT,
+    saveDetectionProfileValidation,
+    detectionProfileController.saveProfile
+);
+router.delete(
+    '/settings/detection-profiles/:name',
+    authenticateJWT,
+    deleteDetectionProfileValidation,
+    detectionProfileController.deleteProfile
+);
+
 /**
  * @swagger
  * /api/users/account:
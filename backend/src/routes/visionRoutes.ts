@@ -3,9 +3,27 @@ import multer from 'multer';
 import { ObjectDetectionController } from '../controllers/object-detection.controller';
 import { ImageDescriptionController } from '../controllers/image-description.controller';
 import { VisionHistoryController } from '../controllers/vision-history.controller';
-import { detectObjectsValidation } from '../schemas/object-detection.schema';
-import { describeImageValidation } from '../schemas/image-description.schema';
-import { authenticateJWT, optionalAuthenticateJWT } from '../middlewares/auth.middleware';
+import { VisionConversationController } from '../controllers/vision-conversation.controller';
+import { OcrController } from '../controllers/ocr.controller';
+import { BatchAnalysisController, BATCH_MAX_IMAGES } from '../controllers/batch-analysis.controller';
+import { InferenceQueueController } from '../controllers/inference-queue.controller';
+import { SceneAnalysisController } from '../controllers/scene-analysis.controller';
+import { DepthEstimationController } from '../controllers/depth-estimation.controller';
+import { BarcodeController } from '../controllers/barcode.controller';
+import { ColorAnalysisController } from '../controllers/color-analysis.controller';
+import { detectObjectsValidation, findObjectsValidation, switchModelValidation } from '../schemas/object-detection.schema';
+import { describeImageValidation, descriptionModelValidation, unloadDescriptionModelValidation } from '../schemas/image-description.schema';
+import { createConversationValidation, askQuestionValidation } from '../schemas/vision-conversation.schema';
+import { recognizeTextValidation } from '../schemas/ocr.schema';
+import { analyzeBatchValidation } from '../schemas/batch-analysis.schema';
+import { analyzeSceneValidation } from '../schemas/scene-analysis.schema';
+import { reanalyzeValidation } from '../schemas/reanalysis.schema';
+import { estimateDepthValidation } from '../schemas/depth-estimation.schema';
+import { readBarcodesValidation } from '../schemas/barcode.schema';
+import { analyzeColorsValidation } from '../schemas/color-analysis.schema';
+import { checkImageQuality } from '../middlewares/image-quality.middleware';
+import { resolveLanguage } from '../middlewares/language.middleware';
+import { authenticateJWT, optionalAuthenticateJWT, requireAdmin } from '../middlewares/auth.middleware';
 
 // Configure multer for in-memory storage
 const storage = multer.memoryStorage();
@@ -24,6 +42,24 @@ const upload = multer({
     }
 });
 
+// Batch uploads also accept ZIP archives of images
+const batchUpload = multer({
+    storage,
+    limits: {
+        fileSize: 100 * 1024 * 1024, // 100 MB limit, for archives
+        files: BATCH_MAX_IMAGES + 1
+    },
+    fileFilter: (_req, file, cb) => {
+        const isZip = ['application/zip', 'application/x-zip-compressed'].includes(file.mimetype) ||
+            file.originalname.toLowerCase().endsWith('.zip');
+        if (file.fieldname === 'archive' ? isZip : file.mimetype.startsWith('image/')) {
+            cb(null, true);
+        } else {
+            cb(new Error('Only image files, or a ZIP archive in the archive field, are allowed'));
+        }
+    }
+});
+
 // Check if running in development mode
 const isDevelopment = process.env.NODE_ENV === 'development';
 
@@ -34,6 +70,14 @@ export const visionRouter = Router();
 const objectDetectionController = new ObjectDetectionController();
 const imageDescriptionController = new ImageDescriptionController();
 const visionHistoryController = new VisionHistoryController();
+const visionConversationController = new VisionConversationController();
+const ocrController = new OcrController();
+const batchAnalysisController = new BatchAnalysisController();
+const inferenceQueueController = new InferenceQueueController();
+const sceneAnalysisController = new SceneAnalysisController();
+const depthEstimationController = new DepthEstimationController();
+const barcodeController = new BarcodeController();
+const colorAnalysisController = new ColorAnalysisController();
 
 /**
  * @swagger
@@ -68,6 +112,74 @@ const visionHistoryController = new VisionHistoryController();
  *         schema:
  *           type: string
  *         description: Quantization type (fp32, fp16, q8, q4, etc.)
+ *       - in: query
+ *         name: spatial
+ *         schema:
+ *           type: boolean
+ *         description: |
+ *           Describe where each object is: clock-face direction, left/center/right, near/far and
+ *           relations to other objects (optional). Stored in the detected objects' attributes.
+ *       - in: query
+ *         name: colors
+ *         schema:
+ *           type: boolean
+ *         description: |
+ *           Name the dominant colors and pattern of each object; for people, of the clothing on their
+ *           upper body (optional). Stored in the detected objects' attributes.
+ *       - in: query
+ *         name: colorLanguage
+ *         schema:
+ *           type: string
+ *           enum: [en, pt-BR, es]
+ *         description: Language of the color names (optional, default the language of the labels)
+ *       - in: query
+ *         name: include
+ *         schema:
+ *           type: string
+ *         description: Comma separated labels to keep, all others are dropped (optional)
+ *       - in: query
+ *         name: exclude
+ *         schema:
+ *           type: string
+ *         description: Comma separated labels to drop (optional)
+ *       - in: query
+ *         name: classThresholds
+ *         schema:
+ *           type: string
+ *         description: Thresholds of single labels as label:threshold pairs, e.g. person:0.7,chair:0.4 (optional)
+ *       - in: query
+ *         name: nms
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 1
+ *         description: |
+ *           Of boxes of any label overlapping by more than this IoU, only the likeliest is kept (optional,
+ *           off by default), so one object isn't reported as both "cup" and "vase"
+ *       - in: query
+ *         name: rankBy
+ *         schema:
+ *           type: string
+ *           enum: [score, area]
+ *         description: Which objects maxObjects keeps, the likeliest or the largest (optional, default score)
+ *       - in: query
+ *         name: profile
+ *         schema:
+ *           type: string
+ *         description: |
+ *           Saved detection profile filling the parameters not given (optional, signed-in users only);
+ *           without it the user's active profile applies
+ *       - in: query
+ *         name: language
+ *         schema:
+ *           type: string
+ *           enum: [en, pt-BR, es]
+ *         description: Language of the labels and the spoken summaries (optional, default the language in the user's settings, else en)
+ *       - in: query
+ *         name: skipQualityCheck
+ *         schema:
+ *           type: boolean
+ *         description: Analyze the image even if the quality check finds it unusable (optional)
  *     requestBody:
  *       required: true
  *       content:
@@ -96,6 +208,22 @@ const visionHistoryController = new VisionHistoryController();
  *         description: Invalid request parameters
  *       401:
  *         description: Unauthorized
+ *       404:
+ *         description: Detection profile not found
+ *       422:
+ *         description: Image too dark, overexposed, blurry, uniform or covered to analyze; see the guidance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImageQualityRejection'
+ *       415:
+ *         description: HEIC image, which can't be decoded; send JPEG, PNG, WebP or AVIF instead
+ *       429:
+ *         description: Inference queue full, retry after the number of seconds in the Retry-After header
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/QueueFullResponse'
  *       500:
  *         description: Server error
  */
@@ -105,15 +233,181 @@ visionRouter.post(
     isDevelopment ? optionalAuthenticateJWT : authenticateJWT,
     upload.single('image'),
     detectObjectsValidation,
+    resolveLanguage,
+    checkImageQuality,
     objectDetectionController.detectObjects
 );
 
+/**
+ * @swagger
+ * /api/vision/find:
+ *   post:
+ *     summary: Find objects named in free-text queries
+ *     description: |
+ *       Zero-shot ("find my object") detection: a zero-shot model such as OWL-ViT looks for the objects named in
+ *       `queries`, which need not be among the classes of the closed-set detectors (e.g. keys, white cane,
+ *       medicine bottle). Matches are returned best first, labelled with the query they match.
+ *       The queries are stored in the object detection's model settings.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Vision
+ *     parameters:
+ *       - in: query
+ *         name: queries
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: keys,white cane,medicine bottle
+ *         description: Comma separated objects to look for (at most 10), or one per repeated parameter
+ *       - in: query
+ *         name: model
+ *         schema:
+ *           type: string
+ *         description: Zero-shot detection model (optional, default Xenova/owlvit-base-patch32)
+ *       - in: query
+ *         name: threshold
+ *         schema:
+ *           type: number
+ *         description: Match score threshold (0-1, optional, default 0.1)
+ *       - in: query
+ *         name: maxObjects
+ *         schema:
+ *           type: integer
+ *         description: Maximum number of matches to return
+ *       - in: query
+ *         name: dtype
+ *         schema:
+ *           type: string
+ *         description: Quantization type (fp32, fp16, q8, q4, etc.)
+ *       - in: query
+ *         name: spatial
+ *         schema:
+ *           type: boolean
+ *         description: Describe where each match is (optional)
+ *       - in: query
+ *         name: colors
+ *         schema:
+ *           type: boolean
+ *         description: Name the dominant colors and pattern of each match (optional)
+ *       - in: query
+ *         name: colorLanguage
+ *         schema:
+ *           type: string
+ *           enum: [en, pt-BR, es]
+ *         description: Language of the color names (optional, default the language of the labels)
+ *       - in: query
+ *         name: include
+ *         schema:
+ *           type: string
+ *         description: Comma separated labels to keep, all others are dropped (optional)
+ *       - in: query
+ *         name: exclude
+ *         schema:
+ *           type: string
+ *         description: Comma separated labels to drop (optional)
+ *       - in: query
+ *         name: classThresholds
+ *         schema:
+ *           type: string
+ *         description: Thresholds of single labels as label:threshold pairs, e.g. person:0.7,chair:0.4 (optional)
+ *       - in: query
+ *         name: nms
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 1
+ *         description: |
+ *           Of boxes of any label overlapping by more than this IoU, only the likeliest is kept (optional,
+ *           off by default), so one object isn't reported as both "cup" and "vase"
+ *       - in: query
+ *         name: rankBy
+ *         schema:
+ *           type: string
+ *           enum: [score, area]
+ *         description: Which objects maxObjects keeps, the likeliest or the largest (optional, default score)
+ *       - in: query
+ *         name: profile
+ *         schema:
+ *           type: string
+ *         description: |
+ *           Saved detection profile filling the parameters not given (optional, signed-in users only);
+ *           without it the user's active profile applies
+ *       - in: query
+ *         name: language
+ *         schema:
+ *           type: string
+ *           enum: [en, pt-BR, es]
+ *         description: Language of the labels and the spoken summaries (optional, default the language in the user's settings, else en)
+ *       - in: query
+ *         name: skipQualityCheck
+ *         schema:
+ *           type: boolean
+ *         description: Analyze the image even if the quality check finds it unusable (optional)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *                 description: Image file to search
+ *     responses:
+ *       200:
+ *         description: Matches found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/DetectionResponse'
+ *       400:
+ *         description: Invalid request parameters or missing queries
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Detection profile not found
+ *       422:
+ *         description: Image too dark, overexposed, blurry, uniform or covered to analyze; see the guidance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImageQualityRejection'
+ *       415:
+ *         description: HEIC image, which can't be decoded; send JPEG, PNG, WebP or AVIF instead
+ *       429:
+ *         description: Inference queue full, retry after the number of seconds in the Retry-After header
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/QueueFullResponse'
+ *       500:
+ *         description: Server error
+ */
+visionRouter.post(
+    '/find',
+    // Use optional authentication in development mode
+    isDevelopment ? optionalAuthenticateJWT : authenticateJWT,
+    upload.single('image'),
+    findObjectsValidation,
+    resolveLanguage,
+    checkImageQuality,
+    objectDetectionController.findObjects
+);
+
 /**
  * @swagger
  * /api/vision/models:
  *   get:
  *     summary: Get available object detection models
- *     description: Returns the list of available models for object detection
+ *     description: Returns the enabled object detection models of the model registry
  *     security:
  *       - bearerAuth: []
  *     tags:
@@ -136,6 +430,16 @@ visionRouter.post(
  *                       type: array
  *                       items:
  *                         type: string
+ *                     zeroShotModels:
+ *                       type: array
+ *                       description: Models for /api/vision/find
+ *                       items:
+ *                         type: string
+ *                     modelDetails:
+ *                       type: array
+ *                       description: Registry entries of the models above
+ *                       items:
+ *                         $ref: '#/components/schemas/RegisteredModel'
  *                     quantizationTypes:
  *                       type: array
  *                       items:
@@ -154,6 +458,8 @@ visionRouter.post(
  *                           type: string
  *                         dtype:
  *                           type: string
+ *                     modelManager:
+ *                       $ref: '#/components/schemas/ModelManagerStatus'
  *                     note:
  *                       type: string
  *       401:
@@ -272,6 +578,7 @@ visionRouter.post(
     '/models/switch',
     // Use optional authentication in development mode
     isDevelopment ? optionalAuthenticateJWT : authenticateJWT,
+    switchModelValidation,
     objectDetectionController.switchModel
 );
 
@@ -379,6 +686,17 @@ visionRouter.post(
  *         schema:
  *           type: boolean
  *         description: Whether to use sampling for text generation
+ *       - in: query
+ *         name: language
+ *         schema:
+ *           type: string
+ *           enum: [en, pt-BR, es]
+ *         description: Language the model is asked to answer in (optional, default the language in the user's settings, else en)
+ *       - in: query
+ *         name: skipQualityCheck
+ *         schema:
+ *           type: boolean
+ *         description: Analyze the image even if the quality check finds it unusable (optional)
  *     requestBody:
  *       required: true
  *       content:
@@ -407,6 +725,20 @@ visionRouter.post(
  *         description: Invalid request parameters
  *       401:
  *         description: Unauthorized
+ *       422:
+ *         description: Image too dark, overexposed, blurry, uniform or covered to analyze; see the guidance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImageQualityRejection'
+ *       415:
+ *         description: HEIC image, which can't be decoded; send JPEG, PNG, WebP or AVIF instead
+ *       429:
+ *         description: Inference queue full, retry after the number of seconds in the Retry-After header
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/QueueFullResponse'
  *       500:
  *         description: Server error
  */
@@ -415,216 +747,1475 @@ visionRouter.post(
     isDevelopment ? optionalAuthenticateJWT : authenticateJWT,
     upload.single('image'),
     describeImageValidation,
+    resolveLanguage,
+    checkImageQuality,
     imageDescriptionController.describeImage
 );
 
 /**
  * @swagger
- * /api/vision/description-models:
- *   get:
- *     summary: Get available image description models
- *     description: Returns the list of available models for image description
+ * /api/vision/describe-image/stream:
+ *   post:
+ *     summary: Stream a description for an image as Server-Sent Events
+ *     description: |
+ *       Same as /api/vision/describe-image, but the description is relayed token by token as it is generated.
+ *       The response is a `text/event-stream` with the events `token` ({ token }),
+ *       `sentence` ({ text }, emitted whenever a full sentence is ready for speech),
+ *       `done` (the final description, `savedResultId`, the persisted ImageDescription id, and `analysisId`, its VisionAnalysis id)
+ *       and `error` ({ error, details }).
  *     security:
  *       - bearerAuth: []
  *     tags:
  *       - Vision
+ *     consumes:
+ *       - multipart/form-data
+ *     parameters:
+ *       - in: query
+ *         name: model
+ *         schema:
+ *           type: string
+ *         description: Model to use for description
+ *       - in: query
+ *         name: prompt
+ *         schema:
+ *           type: string
+ *         description: Custom prompt to guide the description generation
+ *       - in: query
+ *         name: maxNewTokens
+ *         schema:
+ *           type: integer
+ *         description: Maximum length of generated description
+ *       - in: query
+ *         name: doSample
+ *         schema:
+ *           type: boolean
+ *         description: Whether to use sampling for text generation
+ *       - in: query
+ *         name: language
+ *         schema:
+ *           type: string
+ *           enum: [en, pt-BR, es]
+ *         description: Language the model is asked to answer in (optional, default the language in the user's settings, else en)
+ *       - in: query
+ *         name: skipQualityCheck
+ *         schema:
+ *           type: boolean
+ *         description: Analyze the image even if the quality check finds it unusable (optional)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *                 description: Image file to describe
  *     responses:
  *       200:
- *         description: List of available models
+ *         description: Event stream with the generated description
  *         content:
- *           application/json:
+ *           text/event-stream:
  *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *                 data:
- *                   type: object
- *                   properties:
- *                     models:
- *                       type: array
- *                       items:
- *                         type: object
- *                         properties:
- *                           modelType:
- *                             type: string
- *                           modelId:
- *                             type: string
- *                     default:
- *                       type: object
- *                       properties:
- *                         model:
- *                           type: string
- *                     currentModel:
- *                       type: object
- *                       properties:
- *                         modelType:
- *                           type: string
- *                         modelId:
- *                           type: string
- *                     note:
- *                       type: string
+ *               type: string
+ *       400:
+ *         description: Invalid request parameters
  *       401:
  *         description: Unauthorized
+ *       422:
+ *         description: Image too dark, overexposed, blurry, uniform or covered to analyze; see the guidance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImageQualityRejection'
+ *       415:
+ *         description: HEIC image, which can't be decoded; send JPEG, PNG, WebP or AVIF instead
+ *       429:
+ *         description: Inference queue full, retry after the number of seconds in the Retry-After header; sent before the stream opens
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/QueueFullResponse'
  *       500:
- *         description: Server error
+ *         description: Error before the model produced any text; later errors are sent as an `error` event
  */
-visionRouter.get(
-    '/description-models',
-    // Use optional authentication in development mode
+visionRouter.post(
+    '/describe-image/stream',
     isDevelopment ? optionalAuthenticateJWT : authenticateJWT,
-    imageDescriptionController.getAvailableModels
+    upload.single('image'),
+    describeImageValidation,
+    resolveLanguage,
+    checkImageQuality,
+    imageDescriptionController.describeImageStream
 );
 
 /**
  * @swagger
- * /api/vision/description-models/current:
- *   get:
+ * /api/vision/analyze:
+ *   post:
+ *     summary: Detect objects in and describe an image in one request
+ *     description: |
+ *       Runs object detection and the vision-language model on the same image and fuses both
+ *       into one summary. The description waits briefly for the detections and passes the detected
+ *       labels to the model as hints. If one part fails the other is still returned, with the error
+ *       under `errors`. Results are saved as a SCENE_ANALYSIS vision analysis when the user is authenticated.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Vision
+ *     parameters:
+ *       - in: query
+ *         name: detectionModel
+ *         schema:
+ *           type: string
+ *         description: Object detection model (optional)
+ *       - in: query
+ *         name: threshold
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 1
+ *         description: Confidence threshold for detections (optional, default 0.5)
+ *       - in: query
+ *         name: maxObjects
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *         description: Maximum number of objects to return (optional)
+ *       - in: query
+ *         name: dtype
+ *         schema:
+ *           type: string
+ *           enum: [fp32, fp16, q8, int8, uint8, q4, bnb4, q4f16]
+ *         description: Quantization level of the detection model (optional)
+ *       - in: query
+ *         name: descriptionModel
+ *         schema:
+ *           type: string
+ *         description: Vision-language model served by the server (optional)
+ *       - in: query
+ *         name: prompt
+ *         schema:
+ *           type: string
+ *         description: Description prompt; detected labels are appended to it (optional)
+ *       - in: query
+ *         name: maxNewTokens
+ *         schema:
+ *           type: integer
+ *           minimum: 10
+ *           maximum: 1000
+ *         description: Maximum number of tokens to generate (optional)
+ *       - in: query
+ *         name: doSample
+ *         schema:
+ *           type: boolean
+ *         description: Whether to use sampling for generation (optional)
+ *       - in: query
+ *         name: language
+ *         schema:
+ *           type: string
+ *           enum: [en, pt-BR, es]
+ *         description: Language of the labels, the description and the summary (optional, default the language in the user's settings, else en)
+ *       - in: query
+ *         name: skipQualityCheck
+ *         schema:
+ *           type: boolean
+ *         description: Analyze the image even if the quality check finds it unusable (optional)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *                 description: Image file to analyze
+ *     responses:
+ *       200:
+ *         description: Scene analysis, possibly partial
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/SceneAnalysisResponse'
+ *       400:
+ *         description: Invalid request parameters
+ *       401:
+ *         description: Unauthorized
+ *       422:
+ *         description: Image too dark, overexposed, blurry, uniform or covered to analyze; see the guidance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImageQualityRejection'
+ *       415:
+ *         description: HEIC image, which can't be decoded; send JPEG, PNG, WebP or AVIF instead
+ *       429:
+ *         description: Inference queue full, retry after the number of seconds in the Retry-After header
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/QueueFullResponse'
+ *       500:
+ *         description: Both detection and description failed
+ */
+visionRouter.post(
+    '/analyze',
+    // Use optional authentication in development mode
+    isDevelopment ? optionalAuthenticateJWT : authenticateJWT,
+    upload.single('image'),
+    analyzeSceneValidation,
+    resolveLanguage,
+    checkImageQuality,
+    sceneAnalysisController.analyzeScene
+);
+
+/**
+ * @swagger
+ * /api/vision/batch:
+ *   post:
+ *     summary: Detect objects in and/or describe many images
+ *     description: |
+ *       Upload many images, or a ZIP archive of images, and run object detection and/or description on each.
+ *       Images are processed one at a time in the batch lane of the inference queue, so interactive requests
+ *       are served first. Returns per-image results and label counts over the whole batch. For authenticated
+ *       users each image is stored as its own vision analysis under the returned batch id.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Vision
+ *     parameters:
+ *       - in: query
+ *         name: tasks
+ *         schema:
+ *           type: string
+ *           example: detection,description
+ *         description: Comma separated tasks to run, detection and/or description (optional, default detection)
+ *       - in: query
+ *         name: model
+ *         schema:
+ *           type: string
+ *         description: Object detection model (optional)
+ *       - in: query
+ *         name: threshold
+ *         schema:
+ *           type: number
+ *         description: Detection confidence threshold (0-1)
+ *       - in: query
+ *         name: maxObjects
+ *         schema:
+ *           type: integer
+ *         description: Maximum number of objects per image
+ *       - in: query
+ *         name: dtype
+ *         schema:
+ *           type: string
+ *         description: Quantization type of the detection model
+ *       - in: query
+ *         name: descriptionModel
+ *         schema:
+ *           type: string
+ *         description: Vision-language model served by the server (optional)
+ *       - in: query
+ *         name: prompt
+ *         schema:
+ *           type: string
+ *         description: Description prompt (optional)
+ *       - in: query
+ *         name: maxNewTokens
+ *         schema:
+ *           type: integer
+ *         description: Maximum number of tokens per description (optional)
+ *       - in: query
+ *         name: doSample
+ *         schema:
+ *           type: boolean
+ *         description: Whether to use sampling for generation (optional)
+ *       - in: query
+ *         name: language
+ *         schema:
+ *           type: string
+ *           enum: [en, pt-BR, es]
+ *         description: Language of the labels, descriptions and quality guidance (optional, default the language in the user's settings, else en)
+ *       - in: query
+ *         name: skipQualityCheck
+ *         schema:
+ *           type: boolean
+ *         description: Analyze images the quality check finds unusable instead of skipping them (optional)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               images:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *                 description: Image files to analyze
+ *               archive:
+ *                 type: string
+ *                 format: binary
+ *                 description: ZIP archive of images (jpg, png, gif, webp, avif, tiff)
+ *     responses:
+ *       200:
+ *         description: Batch results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/BatchAnalysisResponse'
+ *       400:
+ *         description: Invalid request parameters, no images, too many images or an invalid archive
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+visionRouter.post(
+    '/batch',
+    // Use optional authentication in development mode
+    isDevelopment ? optionalAuthenticateJWT : authenticateJWT,
+    batchUpload.fields([
+        { name: 'images', maxCount: BATCH_MAX_IMAGES },
+        { name: 'archive', maxCount: 1 }
+    ]),
+    analyzeBatchValidation,
+    resolveLanguage,
+    batchAnalysisController.analyzeBatch
+);
+
+/**
+ * @swagger
+ * /api/vision/ocr:
+ *   post:
+ *     summary: Read the text in an image
+ *     description: |
+ *       Finds text lines with a local text detection model and reads each line with a local
+ *       image-to-text model. Lines are grouped into blocks and returned in reading order with
+ *       their bounding boxes.
+ *       Results are saved as a TEXT_RECOGNITION vision analysis when the user is authenticated.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Vision
+ *     parameters:
+ *       - in: query
+ *         name: model
+ *         schema:
+ *           type: string
+ *         description: Line recognition model (optional, defaults to Xenova/trocr-small-printed)
+ *       - in: query
+ *         name: dtype
+ *         schema:
+ *           type: string
+ *           enum: [fp32, fp16, q8, int8, uint8, q4, bnb4, q4f16]
+ *         description: Quantization level of the model (optional)
+ *       - in: query
+ *         name: maxLines
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *         description: Maximum number of lines to read (optional, default 50)
+ *       - in: query
+ *         name: language
+ *         schema:
+ *           type: string
+ *           enum: [en, pt-BR, es]
+ *         description: Language of the quality guidance (optional, default the language in the user's settings, else en)
+ *       - in: query
+ *         name: skipQualityCheck
+ *         schema:
+ *           type: boolean
+ *         description: Analyze the image even if the quality check finds it unusable (optional)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *                 description: Image file to read
+ *     responses:
+ *       200:
+ *         description: Recognized text
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/OcrResponse'
+ *       400:
+ *         description: Invalid request parameters
+ *       401:
+ *         description: Unauthorized
+ *       422:
+ *         description: Image too dark, overexposed, blurry, uniform or covered to analyze; see the guidance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImageQualityRejection'
+ *       415:
+ *         description: HEIC image, which can't be decoded; send JPEG, PNG, WebP or AVIF instead
+ *       429:
+ *         description: Inference queue full, retry after the number of seconds in the Retry-After header
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/QueueFullResponse'
+ *       500:
+ *         description: Server error
+ */
+visionRouter.post(
+    '/ocr',
+    // Use optional authentication in development mode
+    isDevelopment ? optionalAuthenticateJWT : authenticateJWT,
+    upload.single('image'),
+    recognizeTextValidation,
+    resolveLanguage,
+    checkImageQuality,
+    ocrController.recognizeText
+);
+
+/**
+ * @swagger
+ * /api/vision/ocr/models:
+ *   get:
+ *     summary: Get text recognition models
+ *     description: Returns the enabled line recognition models of the model registry, the default and the currently loaded one
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Vision
+ *     responses:
+ *       200:
+ *         description: List of models
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     models:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     modelDetails:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/RegisteredModel'
+ *                     default:
+ *                       type: object
+ *                       properties:
+ *                         model:
+ *                           type: string
+ *                     currentModel:
+ *                       type: object
+ *                       nullable: true
+ *                       properties:
+ *                         modelName:
+ *                           type: string
+ *                         dtype:
+ *                           type: string
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+visionRouter.get(
+    '/ocr/models',
+    // Use optional authentication in development mode
+    isDevelopment ? optionalAuthenticateJWT : authenticateJWT,
+    ocrController.getAvailableModels
+);
+
+/**
+ * @swagger
+ * /api/vision/depth:
+ *   post:
+ *     summary: Estimate depth and the distance of obstacles
+ *     description: |
+ *       Estimates a depth map with a local monocular depth model and returns it as a coarse grid of closeness
+ *       values. Unless detect=false, objects are detected as well and each one gets a relative distance
+ *       ("chair, about 2 steps ahead"). Monocular depth has no scale, so distances are relative to the scene.
+ *       Detections are saved with their distances in the object attributes when the user is authenticated.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Vision
+ *     parameters:
+ *       - in: query
+ *         name: model
+ *         schema:
+ *           type: string
+ *         description: Depth model (optional, defaults to onnx-community/depth-anything-v2-small)
+ *       - in: query
+ *         name: dtype
+ *         schema:
+ *           type: string
+ *           enum: [fp32, fp16, q8, int8, uint8, q4, bnb4, q4f16]
+ *         description: Quantization level of the depth model (optional)
+ *       - in: query
+ *         name: rows
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 32
+ *         description: Rows of the depth grid (optional, default 6)
+ *       - in: query
+ *         name: cols
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 32
+ *         description: Columns of the depth grid (optional, default 8)
+ *       - in: query
+ *         name: detect
+ *         schema:
+ *           type: boolean
+ *         description: Detect objects and estimate their distance (optional, default true)
+ *       - in: query
+ *         name: detectionModel
+ *         schema:
+ *           type: string
+ *         description: Object detection model (optional)
+ *       - in: query
+ *         name: threshold
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 1
+ *         description: Detection confidence threshold (optional)
+ *       - in: query
+ *         name: maxObjects
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *         description: Maximum number of objects to detect (optional)
+ *       - in: query
+ *         name: language
+ *         schema:
+ *           type: string
+ *           enum: [en, pt-BR, es]
+ *         description: Language of the labels and the distance phrases (optional, default the language in the user's settings, else en)
+ *       - in: query
+ *         name: skipQualityCheck
+ *         schema:
+ *           type: boolean
+ *         description: Analyze the image even if the quality check finds it unusable (optional)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *                 description: Image file to analyze
+ *     responses:
+ *       200:
+ *         description: Depth grid and object distances
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/DepthEstimationResponse'
+ *       400:
+ *         description: Invalid request parameters
+ *       401:
+ *         description: Unauthorized
+ *       422:
+ *         description: Image too dark, overexposed, blurry, uniform or covered to analyze; see the guidance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImageQualityRejection'
+ *       415:
+ *         description: HEIC image, which can't be decoded; send JPEG, PNG, WebP or AVIF instead
+ *       429:
+ *         description: Inference queue full, retry after the number of seconds in the Retry-After header
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/QueueFullResponse'
+ *       500:
+ *         description: Server error
+ */
+visionRouter.post(
+    '/depth',
+    // Use optional authentication in development mode
+    isDevelopment ? optionalAuthenticateJWT : authenticateJWT,
+    upload.single('image'),
+    estimateDepthValidation,
+    resolveLanguage,
+    checkImageQuality,
+    depthEstimationController.estimateDepth
+);
+
+/**
+ * @swagger
+ * /api/vision/depth/models:
+ *   get:
+ *     summary: Get depth estimation models
+ *     description: Returns the enabled depth estimation models of the model registry, the default and the currently loaded one
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Vision
+ *     responses:
+ *       200:
+ *         description: List of models
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     models:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     modelDetails:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/RegisteredModel'
+ *                     default:
+ *                       type: object
+ *                       properties:
+ *                         model:
+ *                           type: string
+ *                     currentModel:
+ *                       type: object
+ *                       nullable: true
+ *                       properties:
+ *                         modelName:
+ *                           type: string
+ *                         dtype:
+ *                           type: string
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+visionRouter.get(
+    '/depth/models',
+    // Use optional authentication in development mode
+    isDevelopment ? optionalAuthenticateJWT : authenticateJWT,
+    depthEstimationController.getAvailableModels
+);
+
+/**
+ * @swagger
+ * /api/vision/barcode:
+ *   post:
+ *     summary: Read barcodes and QR codes in an image
+ *     description: |
+ *       Decodes EAN, UPC, QR and Data Matrix codes (or the requested formats) with their locations.
+ *       EAN and UPC codes are looked up in the local product catalog; QR and Data Matrix contents are
+ *       classified as a link, a Wi-Fi network or text. Every code has a phrase to read aloud, naming the
+ *       product or saying what kind of QR code it is.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Vision
+ *     parameters:
+ *       - in: query
+ *         name: formats
+ *         schema:
+ *           type: string
+ *         description: |
+ *           Comma separated formats to read (optional, defaults to EAN13,EAN8,UPCA,UPCE,QRCode,MicroQRCode,DataMatrix).
+ *           Code128, Code39, Code93, Codabar, ITF, PDF417 and Aztec can be requested as well.
+ *       - in: query
+ *         name: lookup
+ *         schema:
+ *           type: boolean
+ *         description: Look up product codes in the catalog (optional, default true)
+ *       - in: query
+ *         name: language
+ *         schema:
+ *           type: string
+ *           enum: [en, pt-BR, es]
+ *         description: Language of the phrases and the summary (optional, default the language in the user's settings, else en)
+ *       - in: query
+ *         name: skipQualityCheck
+ *         schema:
+ *           type: boolean
+ *         description: Analyze the image even if the quality check finds it unusable (optional)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *                 description: Image file to read
+ *     responses:
+ *       200:
+ *         description: Codes found in the image
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/BarcodeResponse'
+ *       400:
+ *         description: Invalid request parameters
+ *       401:
+ *         description: Unauthorized
+ *       422:
+ *         description: Image too dark, overexposed, blurry, uniform or covered to analyze; see the guidance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImageQualityRejection'
+ *       415:
+ *         description: HEIC image, which can't be decoded; send JPEG, PNG, WebP or AVIF instead
+ *       429:
+ *         description: Inference queue full, retry after the number of seconds in the Retry-After header
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/QueueFullResponse'
+ *       500:
+ *         description: Server error
+ */
+visionRouter.post(
+    '/barcode',
+    // Use optional authentication in development mode
+    isDevelopment ? optionalAuthenticateJWT : authenticateJWT,
+    upload.single('image'),
+    readBarcodesValidation,
+    resolveLanguage,
+    checkImageQuality,
+    barcodeController.readBarcodes
+);
+
+/**
+ * @swagger
+ * /api/vision/colors:
+ *   post:
+ *     summary: Name the colors and pattern of an image or a region
+ *     description: |
+ *       Clusters the pixels of the image, or of the given region (e.g. the box of a detection), names the
+ *       dominant colors from a basic vocabulary and tells whether the region is solid, striped, checked,
+ *       made of blocks of color or patterned. Clothing mode leaves out the edges of the region, where the
+ *       background usually is, and describes a garment ("clothing with red and white stripes").
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Vision
+ *     parameters:
+ *       - in: query
+ *         name: box
+ *         schema:
+ *           type: string
+ *         description: Region to analyze as xmin,ymin,xmax,ymax in pixels of the upright image (optional, whole image by default)
+ *         example: 120,80,480,560
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [general, clothing]
+ *         description: How to describe the region (optional, default general)
+ *       - in: query
+ *         name: language
+ *         schema:
+ *           type: string
+ *           enum: [en, pt-BR, es]
+ *         description: Language of the color names and phrase (optional, default the language in the user's settings, else en)
+ *       - in: query
+ *         name: maxColors
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 5
+ *         description: Maximum number of colors to name (optional, default 3)
+ *       - in: query
+ *         name: skipQualityCheck
+ *         schema:
+ *           type: boolean
+ *         description: Analyze the image even if the quality check finds it unusable (optional)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *                 description: Image file to analyze
+ *     responses:
+ *       200:
+ *         description: Colors and pattern
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/ColorAnalysisResponse'
+ *       400:
+ *         description: Invalid request parameters
+ *       401:
+ *         description: Unauthorized
+ *       422:
+ *         description: Image too dark, overexposed, blurry, uniform or covered to analyze; see the guidance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImageQualityRejection'
+ *       415:
+ *         description: HEIC image, which can't be decoded; send JPEG, PNG, WebP or AVIF instead
+ *       500:
+ *         description: Server error
+ */
+visionRouter.post(
+    '/colors',
+    // Use optional authentication in development mode
+    isDevelopment ? optionalAuthenticateJWT : authenticateJWT,
+    upload.single('image'),
+    analyzeColorsValidation,
+    resolveLanguage,
+    checkImageQuality,
+    colorAnalysisController.analyzeColors
+);
+
+/**
+ * @swagger
+ * /api/vision/queue:
+ *   get:
+ *     summary: Get inference queue statistics (administrators only)
+ *     description: Returns, per model, the running and waiting jobs per priority lane, wait and run times, and rejected jobs
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Vision
+ *     responses:
+ *       200:
+ *         description: Queue statistics
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     maxQueueLength:
+ *                       type: integer
+ *                       description: Waiting jobs allowed per model and lane before requests are rejected
+ *                     queues:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/InferenceQueueStats'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an administrator
+ *       500:
+ *         description: Server error
+ */
+visionRouter.get(
+    '/queue',
+    authenticateJWT,
+    requireAdmin,
+    inferenceQueueController.getStats
+);
+
+/**
+ * @swagger
+ * /api/vision/description-models:
+ *   get:
+ *     summary: Get available image description models
+ *     description: Returns the models served by the vision-language server, with context size and image support. The list is cached briefly.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Vision
+ *     parameters:
+ *       - in: query
+ *         name: refresh
+ *         schema:
+ *           type: boolean
+ *         description: Query the server instead of using the cached list
+ *     responses:
+ *       200:
+ *         description: List of available models
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     models:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/DescriptionModel'
+ *                     default:
+ *                       type: object
+ *                       properties:
+ *                         model:
+ *                           type: string
+ *                     currentModel:
+ *                       $ref: '#/components/schemas/DescriptionModel'
+ *                     note:
+ *                       type: string
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error or the vision-language server is unreachable
+ */
+visionRouter.get(
+    '/description-models',
+    // Use optional authentication in development mode
+    isDevelopment ? optionalAuthenticateJWT : authenticateJWT,
+    imageDescriptionController.getAvailableModels
+);
+
+/**
+ * @swagger
+ * /api/vision/description-models/current:
+ *   get:
  *     summary: Get current image description model information
- *     description: Returns information about the currently loaded image description model
+ *     description: Returns the default image description model as reported by the vision-language server
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Vision
+ *     responses:
+ *       200:
+ *         description: Current model information
+ *       404:
+ *         description: The default model is not served by the vision-language server
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+visionRouter.get(
+    '/description-models/current',
+    // Use optional authentication in development mode
+    isDevelopment ? optionalAuthenticateJWT : authenticateJWT,
+    imageDescriptionController.getCurrentModel
+);
+
+/**
+ * @swagger
+ * /api/vision/description-models/switch:
+ *   post:
+ *     summary: Switch the default image description model
+ *     description: Makes a model already served by the vision-language server the default for requests that don't name one. The server itself is not reconfigured. Only administrators can switch models, since the default applies to every user.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Vision
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - model
+ *             properties:
+ *               model:
+ *                 type: string
+ *                 description: A model id listed by /api/vision/description-models
+ *                 example: SmolVLM2-2.2B-Instruct
+ *     responses:
+ *       200:
+ *         description: Successfully switched to model
+ *       400:
+ *         description: Invalid request parameters, or the model is not served or does not accept images
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an administrator
+ *       500:
+ *         description: Server error
+ */
+visionRouter.post(
+    '/description-models/switch',
+    // The default model is shared by every user
+    authenticateJWT,
+    requireAdmin,
+    descriptionModelValidation,
+    imageDescriptionController.switchModel
+);
+
+/**
+ * @swagger
+ * /api/vision/description-models/unload:
+ *   post:
+ *     summary: Unload an image description model
+ *     description: Asks the vision-language server to release a model's memory. Only servers that can unload models on request (Ollama) support this.
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Vision
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - model
+ *             properties:
+ *               model:
+ *                 type: string
+ *                 description: A model id listed by /api/vision/description-models
+ *                 example: llava:7b
+ *     responses:
+ *       200:
+ *         description: Successfully unloaded model
+ *       400:
+ *         description: Invalid request parameters
+ *       401:
+ *         description: Unauthorized
+ *       501:
+ *         description: The vision-language server cannot unload models
+ *       500:
+ *         description: Server error
+ */
+visionRouter.post(
+    '/description-models/unload',
+    // Use optional authentication in development mode
+    isDevelopment ? optionalAuthenticateJWT : authenticateJWT,
+    unloadDescriptionModelValidation,
+    imageDescriptionController.unloadModel
+);
+
+/**
+ * @swagger
+ * /api/vision/history:
+ *   get:
+ *     summary: Get vision analysis history for the authenticated user
+ *     description: Returns the user's vision analysis history with pagination
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Vision History
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *         description: Number of records to return (default 20)
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *         description: Number of records to skip (default 0)
+ *     responses:
+ *       200:
+ *         description: User vision history
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+visionRouter.get(
+    '/history',
+    authenticateJWT,
+    visionHistoryController.getUserVisionHistory
+);
+
+/**
+ * @swagger
+ * /api/vision/history/session/{sessionId}:
+ *   get:
+ *     summary: Get vision analyses for a specific session
+ *     description: Returns all vision analyses performed during a specific session
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Vision History
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the session
+ *     responses:
+ *       200:
+ *         description: Session vision history
+ *       400:
+ *         description: Invalid session ID
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+visionRouter.get(
+    '/history/session/:sessionId',
+    authenticateJWT,
+    visionHistoryController.getSessionVisionHistory
+);
+
+/**
+ * @swagger
+ * /api/vision/history/batch/{batchId}:
+ *   get:
+ *     summary: Get the vision analyses of a batch request
+ *     description: Returns the stored analyses of one /api/vision/batch request, in upload order
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Vision History
+ *     parameters:
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Batch ID returned by /api/vision/batch
+ *     responses:
+ *       200:
+ *         description: Batch vision history
+ *       400:
+ *         description: Invalid batch ID
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+visionRouter.get(
+    '/history/batch/:batchId',
+    authenticateJWT,
+    visionHistoryController.getBatchVisionHistory
+);
+
+/**
+ * @swagger
+ * /api/vision/history/{id}:
+ *   get:
+ *     summary: Get a specific vision analysis by ID
+ *     description: Returns details of a specific vision analysis
  *     security:
  *       - bearerAuth: []
  *     tags:
- *       - Vision
+ *       - Vision History
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the vision analysis
  *     responses:
  *       200:
- *         description: Current model information
+ *         description: Vision analysis details
+ *       400:
+ *         description: Invalid analysis ID
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - analysis belongs to another user
  *       404:
- *         description: No model is currently loaded
+ *         description: Analysis not found
+ *       500:
+ *         description: Server error
+ */
+visionRouter.get(
+    '/history/:id',
+    authenticateJWT,
+    visionHistoryController.getVisionAnalysis
+);
+
+/**
+ * @swagger
+ * /api/vision/history/{id}/image:
+ *   get:
+ *     summary: Get the image of a vision analysis
+ *     description: Returns the uploaded image as it was stored, in its original format
+ *     security:
+ *       - bearerAuth: []
+ *     tags:
+ *       - Vision History
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the vision analysis
+ *     responses:
+ *       200:
+ *         description: The image
+ *         content:
+ *           image/*:
+ *             schema:
+ *               type: string
+ *               format: binary
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - analysis belongs to another user
+ *       404:
+ *         description: Analysis not found, or no image is stored for it
  *       500:
  *         description: Server error
  */
 visionRouter.get(
-    '/description-models/current',
-    // Use optional authentication in development mode
-    isDevelopment ? optionalAuthenticateJWT : authenticateJWT,
-    imageDescriptionController.getCurrentModel
+    '/history/:id/image',
+    authenticateJWT,
+    visionHistoryController.getAnalysisImage
 );
 
 /**
  * @swagger
- * /api/vision/description-models/switch:
- *   post:
- *     summary: Switch to a specific image description model
- *     description: Unloads all current models and loads the specified model
+ * /api/vision/history/{id}/image/thumbnail:
+ *   get:
+ *     summary: Get the thumbnail of a vision analysis image
+ *     description: Returns an upright JPEG thumbnail of the stored image (THUMBNAIL_SIZE pixels on its longest side)
  *     security:
  *       - bearerAuth: []
  *     tags:
- *       - Vision
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - model
- *             properties:
- *               model:
- *                 type: string
- *                 description: The model type to switch to
- *                 example: moondream2
- *               dtype:
- *                 type: object
- *                 description: The dtype configuration
- *                 example: {embed_tokens: "fp16", vision_encoder: "fp16", decoder_model_merged: "q4"}
+ *       - Vision History
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the vision analysis
  *     responses:
  *       200:
- *         description: Successfully switched to model
- *       400:
- *         description: Invalid request parameters
+ *         description: The thumbnail
+ *         content:
+ *           image/jpeg:
+ *             schema:
+ *               type: string
+ *               format: binary
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - analysis belongs to another user
+ *       404:
+ *         description: Analysis not found, or no image is stored for it
  *       500:
  *         description: Server error
  */
-// visionRouter.post(
-//     '/description-models/switch',
-//     // Use optional authentication in development mode
-//     isDevelopment ? optionalAuthenticateJWT : authenticateJWT,
-//     imageDescriptionController.switchModel
-// );
+visionRouter.get(
+    '/history/:id/image/thumbnail',
+    authenticateJWT,
+    visionHistoryController.getAnalysisThumbnail
+);
 
 /**
  * @swagger
- * /api/vision/description-models/unload:
+ * /api/vision/history/{id}/reanalyze:
  *   post:
- *     summary: Unload a specific image description model
- *     description: Unloads a specific model to free memory
+ *     summary: Re-analyze the stored image of a vision analysis
+ *     description: |
+ *       Runs detection or description again on the stored image, with another model, threshold or prompt.
+ *       The result is stored as a revision of the original analysis (listed under `revisions` of
+ *       /api/vision/history/{id}) and compared with the analysis it was run from: the diff lists the objects
+ *       that appeared or disappeared, or the earlier and new description.
  *     security:
  *       - bearerAuth: []
  *     tags:
- *       - Vision
+ *       - Vision History
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the vision analysis
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - model
- *             properties:
- *               model:
- *                 type: string
- *                 description: The model type to unload
- *                 example: moondream2
+ *             $ref: '#/components/schemas/ReanalysisRequest'
+ *           example:
+ *             task: detection
+ *             model: onnx-community/rtdetr_r50vd
  *     responses:
- *       200:
- *         description: Successfully unloaded model
+ *       201:
+ *         description: The new result, stored as a revision, and its diff
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/ReanalysisResponse'
  *       400:
  *         description: Invalid request parameters
- *       404:
- *         description: Model not found
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - analysis belongs to another user
+ *       404:
+ *         description: Analysis not found
+ *       409:
+ *         description: No image is stored for this analysis
+ *       415:
+ *         description: HEIC image, which can't be decoded; send JPEG, PNG, WebP or AVIF instead
+ *       429:
+ *         description: Too many pending requests for the model, retry after the Retry-After delay
  *       500:
  *         description: Server error
  */
-// visionRouter.post(
-//     '/description-models/unload',
-//     // Use optional authentication in development mode
-//     isDevelopment ? optionalAuthenticateJWT : authenticateJWT,
-//     imageDescriptionController.unloadModel
-// );
+visionRouter.post(
+    '/history/:id/reanalyze',
+    authenticateJWT,
+    reanalyzeValidation,
+    visionHistoryController.reanalyze
+);
 
 /**
  * @swagger
- * /api/vision/description-models/unload-all:
+ * /api/vision/conversations:
  *   post:
- *     summary: Unload all image description models
- *     description: Unloads all loaded image description models to free memory
+ *     summary: Start a conversation about an image
+ *     description: |
+ *       Uploads an image and creates a visual question answering conversation about it.
+ *       If a question is sent along with the image it is answered right away.
+ *       Follow-up questions reuse the same image and the previous turns.
  *     security:
  *       - bearerAuth: []
  *     tags:
- *       - Vision
+ *       - Vision Conversations
+ *     parameters:
+ *       - in: query
+ *         name: maxNewTokens
+ *         schema:
+ *           type: integer
+ *         description: Maximum length of the first answer
+ *       - in: query
+ *         name: language
+ *         schema:
+ *           type: string
+ *           enum: [en, pt-BR, es]
+ *         description: Language the first answer is given in (optional, default the language in the user's settings, else en)
+ *       - in: query
+ *         name: skipQualityCheck
+ *         schema:
+ *           type: boolean
+ *         description: Analyze the image even if the quality check finds it unusable (optional)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *                 description: Image the conversation is about
+ *               question:
+ *                 type: string
+ *                 description: Optional first question; if it can't be answered no conversation is created
+ *                 example: What color is the mug?
+ *               sessionId:
+ *                 type: string
+ *                 description: Optional session to link the conversation to
  *     responses:
- *       200:
- *         description: Successfully unloaded all models
+ *       201:
+ *         description: Conversation created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/VisionConversation'
+ *       400:
+ *         description: Invalid request parameters
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - session belongs to another user
+ *       422:
+ *         description: Image too dark, overexposed, blurry, uniform or covered to analyze; see the guidance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImageQualityRejection'
  *       500:
  *         description: Server error
- */
-// visionRouter.post(
-//     '/description-models/unload-all',
-//     // Use optional authentication in development mode
-//     isDevelopment ? optionalAuthenticateJWT : authenticateJWT,
-//     imageDescriptionController.unloadAllModels
-// );
-
-/**
- * @swagger
- * /api/vision/history:
  *   get:
- *     summary: Get vision analysis history for the authenticated user
- *     description: Returns the user's vision analysis history with pagination
+ *     summary: List the user's conversations
+ *     description: Returns the user's visual question answering conversations, most recently active first
  *     security:
  *       - bearerAuth: []
  *     tags:
- *       - Vision History
+ *       - Vision Conversations
  *     parameters:
  *       - in: query
  *         name: limit
@@ -638,84 +2229,140 @@ visionRouter.get(
  *         description: Number of records to skip (default 0)
  *     responses:
  *       200:
- *         description: User vision history
+ *         description: User conversations
  *       401:
  *         description: Unauthorized
  *       500:
  *         description: Server error
  */
+visionRouter.post(
+    '/conversations',
+    authenticateJWT,
+    upload.single('image'),
+    createConversationValidation,
+    resolveLanguage,
+    checkImageQuality,
+    visionConversationController.createConversation
+);
+
 visionRouter.get(
-    '/history',
+    '/conversations',
     authenticateJWT,
-    visionHistoryController.getUserVisionHistory
+    visionConversationController.getUserConversations
 );
 
 /**
  * @swagger
- * /api/vision/history/session/{sessionId}:
+ * /api/vision/conversations/{id}:
  *   get:
- *     summary: Get vision analyses for a specific session
- *     description: Returns all vision analyses performed during a specific session
+ *     summary: Get a conversation
+ *     description: Returns a conversation with all its question/answer turns
  *     security:
  *       - bearerAuth: []
  *     tags:
- *       - Vision History
+ *       - Vision Conversations
  *     parameters:
  *       - in: path
- *         name: sessionId
+ *         name: id
  *         required: true
  *         schema:
  *           type: string
- *         description: ID of the session
+ *         description: ID of the conversation
  *     responses:
  *       200:
- *         description: Session vision history
- *       400:
- *         description: Invalid session ID
+ *         description: Conversation details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/VisionConversation'
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - conversation belongs to another user
+ *       404:
+ *         description: Conversation not found
  *       500:
  *         description: Server error
  */
 visionRouter.get(
-    '/history/session/:sessionId',
+    '/conversations/:id',
     authenticateJWT,
-    visionHistoryController.getSessionVisionHistory
+    visionConversationController.getConversation
 );
 
 /**
  * @swagger
- * /api/vision/history/{id}:
- *   get:
- *     summary: Get a specific vision analysis by ID
- *     description: Returns details of a specific vision analysis
+ * /api/vision/conversations/{id}/messages:
+ *   post:
+ *     summary: Ask a follow-up question
+ *     description: Asks a question about the conversation's image, taking the previous turns into account
  *     security:
  *       - bearerAuth: []
  *     tags:
- *       - Vision History
+ *       - Vision Conversations
  *     parameters:
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: string
- *         description: ID of the vision analysis
+ *         description: ID of the conversation
+ *       - in: query
+ *         name: language
+ *         schema:
+ *           type: string
+ *           enum: [en, pt-BR, es]
+ *         description: Language of the answer (optional, default the language in the user's settings, else en)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - question
+ *             properties:
+ *               question:
+ *                 type: string
+ *                 example: Is there text on the box?
+ *               maxNewTokens:
+ *                 type: integer
+ *               doSample:
+ *                 type: boolean
  *     responses:
- *       200:
- *         description: Vision analysis details
+ *       201:
+ *         description: Question answered
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/ConversationTurn'
  *       400:
- *         description: Invalid analysis ID
+ *         description: Invalid request parameters
  *       401:
  *         description: Unauthorized
  *       403:
- *         description: Forbidden - analysis belongs to another user
+ *         description: Forbidden - conversation belongs to another user
  *       404:
- *         description: Analysis not found
+ *         description: Conversation not found
  *       500:
  *         description: Server error
  */
-visionRouter.get(
-    '/history/:id',
+visionRouter.post(
+    '/conversations/:id/messages',
     authenticateJWT,
-    visionHistoryController.getVisionAnalysis
-); 
\ No newline at end of file
+    askQuestionValidation,
+    resolveLanguage,
+    visionConversationController.askQuestion
+);
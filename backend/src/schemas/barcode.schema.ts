@@ -0,0 +1,149 @@
+import { query } from 'express-validator';
+import { skipQualityCheckValidation } from './image-quality.schema';
+import { languageValidation } from './language.schema';
+
+// Formats that can be requested; UPC and EAN codes, QR and Data Matrix are read by default
+export const READABLE_BARCODE_FORMATS = [
+    'EAN13', 'EAN8', 'UPCA', 'UPCE', 'QRCode', 'MicroQRCode', 'DataMatrix',
+    'Code128', 'Code39', 'Code93', 'Codabar', 'ITF', 'PDF417', 'Aztec'
+];
+
+export const readBarcodesValidation = [
+    query('formats')
+        .optional()
+        .isString()
+        .withMessage('formats must be a comma separated list')
+        .bail()
+        .custom((formats: string) => {
+            const unknown = formats.split(',')
+                .map(format => format.trim())
+                .filter(format => format && !READABLE_BARCODE_FORMATS.includes(format));
+            if (unknown.length > 0) {
+                throw new Error(`Unknown formats: ${unknown.join(', ')}; use: ${READABLE_BARCODE_FORMATS.join(', ')}`);
+            }
+            return true;
+        }),
+
+    query('lookup')
+        .optional()
+        .isBoolean()
+        .withMessage('lookup must be a boolean'),
+
+    languageValidation,
+
+    skipQualityCheckValidation
+];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Product:
+ *       type: object
+ *       properties:
+ *         barcode:
+ *           type: string
+ *           description: GTIN; 12-digit UPC-A codes are stored as 13-digit EAN
+ *           example: '4006381333931'
+ *         name:
+ *           type: string
+ *         brand:
+ *           type: string
+ *           nullable: true
+ *         quantity:
+ *           type: string
+ *           nullable: true
+ *           example: 500 g
+ *         category:
+ *           type: string
+ *           nullable: true
+ *         description:
+ *           type: string
+ *           nullable: true
+ *
+ *     CodePayload:
+ *       type: object
+ *       description: Content of a QR or Data Matrix code
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [url, wifi, text]
+ *         url:
+ *           type: string
+ *           description: Present for links
+ *         host:
+ *           type: string
+ *           description: Present for links
+ *         ssid:
+ *           type: string
+ *           description: Present for Wi-Fi networks
+ *         security:
+ *           type: string
+ *           nullable: true
+ *           description: Present for Wi-Fi networks, e.g. WPA; null for open networks
+ *         password:
+ *           type: string
+ *           nullable: true
+ *           description: Present for Wi-Fi networks
+ *         hidden:
+ *           type: boolean
+ *           description: Present for Wi-Fi networks
+ *         text:
+ *           type: string
+ *           description: Present for plain text
+ *
+ *     BarcodeResult:
+ *       type: object
+ *       properties:
+ *         format:
+ *           type: string
+ *           example: EAN13
+ *         text:
+ *           type: string
+ *           description: Decoded content
+ *         box:
+ *           $ref: '#/components/schemas/BoundingBox'
+ *         corners:
+ *           type: array
+ *           description: Top-left, top-right, bottom-right and bottom-left corners, in the coordinates of the upright image
+ *           items:
+ *             type: object
+ *             properties:
+ *               x:
+ *                 type: number
+ *               y:
+ *                 type: number
+ *         gtin:
+ *           type: string
+ *           description: Normalized product code, present for EAN and UPC codes
+ *         product:
+ *           nullable: true
+ *           description: Catalog product of the code; null when it isn't in the catalog, absent when not looked up
+ *           allOf:
+ *             - $ref: '#/components/schemas/Product'
+ *         payload:
+ *           $ref: '#/components/schemas/CodePayload'
+ *         phrase:
+ *           type: string
+ *           description: What to say about the code
+ *           example: Sparkling water by Fontaine, 1.5 l
+ *
+ *     BarcodeResponse:
+ *       type: object
+ *       properties:
+ *         barcodes:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/BarcodeResult'
+ *         summary:
+ *           type: string
+ *           description: Phrases of all codes, ready to be read aloud
+ *           example: Sparkling water by Fontaine, 1.5 l. QR code with a link to example.com.
+ *         processingTime:
+ *           type: number
+ *           description: Processing time in milliseconds
+ *         preprocessing:
+ *           $ref: '#/components/schemas/ImagePreprocessing'
+ *         quality:
+ *           $ref: '#/components/schemas/ImageQuality'
+ */
@@ -0,0 +1,144 @@
+import { query } from 'express-validator';
+import { skipQualityCheckValidation } from './image-quality.schema';
+import { languageValidation } from './language.schema';
+import { ObjectDetectionService } from '../services/object-detection.service';
+import { isServedModel } from './image-description.schema';
+import { isRegisteredDtype, isRegisteredModel } from './model-registry.schema';
+
+const BATCH_TASKS = ['detection', 'description'];
+
+export const analyzeBatchValidation = [
+    query('tasks')
+        .optional()
+        .isString()
+        .custom((tasks: string) => tasks.split(',').every(task => BATCH_TASKS.includes(task.trim())))
+        .withMessage(`Tasks must be a comma separated list of: ${BATCH_TASKS.join(', ')}`),
+
+    query('model')
+        .optional()
+        .isString()
+        .withMessage('Model must be a string')
+        .bail()
+        .custom(isRegisteredModel(['object-detection'])),
+
+    query('threshold')
+        .optional()
+        .isFloat({ min: 0, max: 1 })
+        .withMessage('Threshold must be a float between 0 and 1'),
+
+    query('maxObjects')
+        .optional()
+        .isInt({ min: 1, max: 100 })
+        .withMessage('Max objects must be an integer between 1 and 100'),
+
+    query('dtype')
+        .optional()
+        .isString()
+        .withMessage('dtype must be a string')
+        .bail()
+        .custom(isRegisteredDtype('model', () => ObjectDetectionService.getInstance().getDefaultModel())),
+
+    query('descriptionModel')
+        .optional()
+        .isString()
+        .withMessage('Description model must be a string')
+        .bail()
+        .custom(isServedModel),
+
+    query('prompt')
+        .optional()
+        .isString()
+        .withMessage('Prompt must be a string'),
+
+    query('maxNewTokens')
+        .optional()
+        .isInt({ min: 10, max: 1000 })
+        .withMessage('Max tokens must be an integer between 10 and 1000'),
+
+    query('doSample')
+        .optional()
+        .isBoolean()
+        .withMessage('doSample must be a boolean'),
+
+    languageValidation,
+
+    skipQualityCheckValidation
+];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     BatchImageResult:
+ *       type: object
+ *       properties:
+ *         index:
+ *           type: integer
+ *           description: Position of the image in the batch
+ *         fileName:
+ *           type: string
+ *           description: Uploaded file name, or path inside the ZIP archive
+ *         detection:
+ *           nullable: true
+ *           allOf:
+ *             - $ref: '#/components/schemas/DetectionResponse'
+ *         description:
+ *           nullable: true
+ *           allOf:
+ *             - $ref: '#/components/schemas/ImageDescriptionResponse'
+ *         errors:
+ *           type: object
+ *           description: Error messages of the tasks that failed for this image
+ *           properties:
+ *             detection:
+ *               type: string
+ *             description:
+ *               type: string
+ *             quality:
+ *               type: string
+ *               description: Guidance, when the image was too poor to analyze and was skipped
+ *         analysisId:
+ *           type: string
+ *           nullable: true
+ *           description: ID of the stored VisionAnalysis, when the user is authenticated
+ *         quality:
+ *           $ref: '#/components/schemas/ImageQuality'
+ *
+ *     BatchAnalysisResponse:
+ *       type: object
+ *       properties:
+ *         batchId:
+ *           type: string
+ *           description: Shared by the stored analyses of this batch, usable with /api/vision/history/batch/{batchId}
+ *         results:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/BatchImageResult'
+ *         labelCounts:
+ *           type: array
+ *           description: Detected labels over all images, most frequent first
+ *           items:
+ *             type: object
+ *             properties:
+ *               label:
+ *                 type: string
+ *               count:
+ *                 type: integer
+ *                 description: Number of objects with this label
+ *               images:
+ *                 type: integer
+ *                 description: Number of images containing the label
+ *         totals:
+ *           type: object
+ *           properties:
+ *             images:
+ *               type: integer
+ *             succeeded:
+ *               type: integer
+ *             failed:
+ *               type: integer
+ *               description: Images where at least one task failed
+ *         processingTime:
+ *           type: number
+ *           description: Total processing time in milliseconds
+ */
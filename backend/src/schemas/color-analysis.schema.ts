@@ -0,0 +1,112 @@
+import { query } from 'express-validator';
+import { skipQualityCheckValidation } from './image-quality.schema';
+import { languageValidation } from './language.schema';
+import { LANGUAGES } from '../utils/language';
+
+export const COLOR_LANGUAGES = LANGUAGES;
+
+/**
+ * Parse a region given as "xmin,ymin,xmax,ymax"
+ */
+export const parseRegion = (value: string): { xmin: number; ymin: number; xmax: number; ymax: number } | null => {
+    const numbers = value.split(',').map(item => Number(item.trim()));
+    if (numbers.length !== 4 || numbers.some(number => !Number.isFinite(number) || number < 0)) {
+        return null;
+    }
+    const [xmin, ymin, xmax, ymax] = numbers;
+    return xmax > xmin && ymax > ymin ? { xmin, ymin, xmax, ymax } : null;
+};
+
+export const colorLanguageValidation = query('colorLanguage')
+    .optional()
+    .isIn(COLOR_LANGUAGES)
+    .withMessage(`colorLanguage must be one of: ${COLOR_LANGUAGES.join(', ')}`);
+
+export const analyzeColorsValidation = [
+    query('box')
+        .optional()
+        .isString()
+        .withMessage('box must be a string')
+        .bail()
+        .custom((value: string) => {
+            if (!parseRegion(value)) {
+                throw new Error('box must be "xmin,ymin,xmax,ymax" with xmax > xmin and ymax > ymin');
+            }
+            return true;
+        }),
+
+    query('mode')
+        .optional()
+        .isIn(['general', 'clothing'])
+        .withMessage('mode must be general or clothing'),
+
+    languageValidation,
+
+    query('maxColors')
+        .optional()
+        .isInt({ min: 1, max: 5 })
+        .withMessage('maxColors must be an integer between 1 and 5'),
+
+    skipQualityCheckValidation
+];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     NamedColor:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *           description: Color name in the requested language
+ *           example: navy blue
+ *         hex:
+ *           type: string
+ *           description: Average color of the pixels given this name
+ *           example: '#1e2650'
+ *         share:
+ *           type: number
+ *           description: Share of the region's pixels (0-1)
+ *
+ *     ColorAnalysis:
+ *       type: object
+ *       description: Dominant colors and pattern of a region; for people, of the clothing on their upper body
+ *       properties:
+ *         colors:
+ *           type: array
+ *           description: Most common first
+ *           items:
+ *             $ref: '#/components/schemas/NamedColor'
+ *         pattern:
+ *           type: string
+ *           enum: [solid, striped, checked, blocks, patterned]
+ *         stripeDirection:
+ *           type: string
+ *           enum: [horizontal, vertical]
+ *           description: Present for striped regions
+ *         phrase:
+ *           type: string
+ *           example: clothing with red and white stripes
+ *         language:
+ *           type: string
+ *           enum: [en, pt-BR, es]
+ *
+ *     ColorAnalysisResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/ColorAnalysis'
+ *         - type: object
+ *           properties:
+ *             mode:
+ *               type: string
+ *               enum: [general, clothing]
+ *             region:
+ *               $ref: '#/components/schemas/BoundingBox'
+ *             processingTime:
+ *               type: number
+ *               description: Processing time in milliseconds
+ *             preprocessing:
+ *               $ref: '#/components/schemas/ImagePreprocessing'
+ *             quality:
+ *               $ref: '#/components/schemas/ImageQuality'
+ */
@@ -0,0 +1,132 @@
+import { query } from 'express-validator';
+import { DepthEstimationService } from '../services/depth-estimation.service';
+import { skipQualityCheckValidation } from './image-quality.schema';
+import { languageValidation } from './language.schema';
+import { isRegisteredDtype, isRegisteredModel } from './model-registry.schema';
+
+export const estimateDepthValidation = [
+    query('model')
+        .optional()
+        .isString()
+        .withMessage('Model must be a string')
+        .bail()
+        .custom(isRegisteredModel(['depth-estimation'])),
+
+    query('dtype')
+        .optional()
+        .isString()
+        .withMessage('dtype must be a string')
+        .bail()
+        .custom(isRegisteredDtype('model', () => DepthEstimationService.getInstance().getDefaultModel())),
+
+    query('rows')
+        .optional()
+        .isInt({ min: 1, max: 32 })
+        .withMessage('Rows must be an integer between 1 and 32'),
+
+    query('cols')
+        .optional()
+        .isInt({ min: 1, max: 32 })
+        .withMessage('Cols must be an integer between 1 and 32'),
+
+    query('detect')
+        .optional()
+        .isBoolean()
+        .withMessage('detect must be a boolean'),
+
+    query('detectionModel')
+        .optional()
+        .isString()
+        .withMessage('Detection model must be a string')
+        .bail()
+        .custom(isRegisteredModel(['object-detection'])),
+
+    query('threshold')
+        .optional()
+        .isFloat({ min: 0, max: 1 })
+        .withMessage('Threshold must be a float between 0 and 1'),
+
+    query('maxObjects')
+        .optional()
+        .isInt({ min: 1, max: 100 })
+        .withMessage('Max objects must be an integer between 1 and 100'),
+
+    languageValidation,
+
+    skipQualityCheckValidation
+];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ObjectDistance:
+ *       type: object
+ *       description: Relative distance of a detected object; monocular depth has no scale, so steps are a rough guide
+ *       properties:
+ *         closeness:
+ *           type: number
+ *           description: 0 for the farthest and 1 for the nearest point of the scene
+ *         range:
+ *           type: string
+ *           enum: [within reach, near, medium, far]
+ *         steps:
+ *           type: integer
+ *           nullable: true
+ *           description: Approximate walking steps, null when far
+ *         phrase:
+ *           type: string
+ *           example: chair, about 2 steps ahead
+ *
+ *     DepthEstimationResponse:
+ *       type: object
+ *       properties:
+ *         grid:
+ *           type: array
+ *           description: Closeness of each cell of the image (0 farthest, 1 nearest), top row first
+ *           items:
+ *             type: array
+ *             items:
+ *               type: number
+ *         gridSize:
+ *           type: object
+ *           properties:
+ *             rows:
+ *               type: integer
+ *             cols:
+ *               type: integer
+ *         detection:
+ *           nullable: true
+ *           description: Detected objects, each with a `distance` (ObjectDistance); null when not requested or failed
+ *           allOf:
+ *             - $ref: '#/components/schemas/DetectionResponse'
+ *         summary:
+ *           type: string
+ *           description: Distances of the detected objects, nearest first, ready to be read aloud
+ *           example: chair, about 2 steps ahead. table, about 4 steps on the left.
+ *         errors:
+ *           type: object
+ *           properties:
+ *             detection:
+ *               type: string
+ *         processingTime:
+ *           type: number
+ *           description: Processing time in milliseconds
+ *         model:
+ *           type: string
+ *           description: Depth model used
+ *         dtype:
+ *           type: string
+ *         preprocessing:
+ *           $ref: '#/components/schemas/ImagePreprocessing'
+ *         savedResultId:
+ *           type: string
+ *           nullable: true
+ *           description: ID of the stored ObjectDetection, when the user is authenticated and objects were detected
+ *         analysisId:
+ *           type: string
+ *           nullable: true
+ *           description: ID of the stored VisionAnalysis
+ *         quality:
+ *           $ref: '#/components/schemas/ImageQuality'
+ */
@@ -0,0 +1,126 @@
+import { body, param } from 'express-validator';
+import { DetectionRanking } from '../interfaces/detection.interface';
+
+export const DETECTION_RANKINGS: DetectionRanking[] = ['score', 'area'];
+
+// Letters, digits, spaces, dashes and underscores
+export const PROFILE_NAME_PATTERN = /^[\w\- ]{1,50}$/;
+
+const profileNameValidation = param('name')
+    .matches(PROFILE_NAME_PATTERN)
+    .withMessage('Profile names are 1-50 letters, digits, spaces, dashes or underscores')
+    // Taken by the route choosing the active profile
+    .not()
+    .equals('active')
+    .withMessage('"active" cannot be used as a profile name');
+
+export const saveDetectionProfileValidation = [
+    profileNameValidation,
+
+    body('threshold')
+        .optional()
+        .isFloat({ min: 0, max: 1 })
+        .withMessage('threshold must be a number between 0 and 1'),
+
+    body('maxObjects')
+        .optional()
+        .isInt({ min: 1, max: 100 })
+        .withMessage('maxObjects must be an integer between 1 and 100'),
+
+    body(['includeLabels', 'excludeLabels'])
+        .optional()
+        .isArray({ max: 100 })
+        .withMessage('includeLabels and excludeLabels must be lists of at most 100 labels'),
+
+    body(['includeLabels.*', 'excludeLabels.*'])
+        .isString()
+        .trim()
+        .notEmpty()
+        .withMessage('Labels must be non-empty strings'),
+
+    body('classThresholds')
+        .optional()
+        .isObject()
+        .bail()
+        .custom((value: Record<string, unknown>) => Object.values(value)
+            .every(threshold => typeof threshold === 'number' && threshold >= 0 && threshold <= 1))
+        .withMessage('classThresholds must map labels to thresholds between 0 and 1'),
+
+    body('nmsThreshold')
+        .optional()
+        .isFloat({ min: 0, max: 1 })
+        .withMessage('nmsThreshold must be an IoU threshold between 0 and 1'),
+
+    body('rankBy')
+        .optional()
+        .isIn(DETECTION_RANKINGS)
+        .withMessage(`rankBy must be one of: ${DETECTION_RANKINGS.join(', ')}`)
+];
+
+export const deleteDetectionProfileValidation = [
+    profileNameValidation
+];
+
+export const activateDetectionProfileValidation = [
+    body('name')
+        .custom(value => value === null || (typeof value === 'string' && PROFILE_NAME_PATTERN.test(value)))
+        .withMessage('name must be the name of a saved profile, or null for none')
+];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     DetectionProfile:
+ *       type: object
+ *       description: Detection settings saved under a name; request parameters take precedence over them
+ *       properties:
+ *         threshold:
+ *           type: number
+ *           description: Confidence threshold (0-1)
+ *         maxObjects:
+ *           type: integer
+ *           description: Maximum number of objects to return
+ *         includeLabels:
+ *           type: array
+ *           description: Only return these labels
+ *           items:
+ *             type: string
+ *         excludeLabels:
+ *           type: array
+ *           description: Never return these labels
+ *           items:
+ *             type: string
+ *         classThresholds:
+ *           type: object
+ *           description: Thresholds of single labels, overriding the general one
+ *           additionalProperties:
+ *             type: number
+ *         nmsThreshold:
+ *           type: number
+ *           description: Of boxes of any label overlapping by more than this IoU, only the likeliest is kept (0 to disable)
+ *         rankBy:
+ *           type: string
+ *           enum: [score, area]
+ *           description: Which objects maxObjects keeps, the likeliest or the largest
+ *       example:
+ *         includeLabels: [person, car, bicycle, bus]
+ *         classThresholds:
+ *           person: 0.7
+ *         nmsThreshold: 0.5
+ *         rankBy: area
+ *         maxObjects: 5
+ *
+ *     DetectionProfileList:
+ *       type: object
+ *       properties:
+ *         profiles:
+ *           type: object
+ *           description: Profiles by name
+ *           additionalProperties:
+ *             $ref: '#/components/schemas/DetectionProfile'
+ *         active:
+ *           type: string
+ *           nullable: true
+ *           description: Profile applied to detection requests that name none
+ */
@@ -1,10 +1,26 @@
-import { query } from 'express-validator';
+import { body, query } from 'express-validator';
+import { ImageDescriptionService } from '../services/image-description.service';
+import { skipQualityCheckValidation } from './image-quality.schema';
+import { languageValidation } from './language.schema';
+
+/**
+ * Reject models the vision-language server doesn't serve (or that can't take images)
+ */
+export const isServedModel = async (model: string): Promise<boolean> => {
+    const reason = await ImageDescriptionService.getInstance().getModelRejectionReason(model);
+    if (reason) {
+        throw new Error(reason);
+    }
+    return true;
+};
 
 export const describeImageValidation = [
     query('model')
         .optional()
         .isString()
-        .withMessage('Model must be a string'),
+        .withMessage('Model must be a string')
+        .bail()
+        .custom(isServedModel),
 
     query('prompt')
         .optional()
@@ -19,13 +35,57 @@ export const describeImageValidation = [
     query('doSample')
         .optional()
         .isBoolean()
-        .withMessage('doSample must be a boolean')
+        .withMessage('doSample must be a boolean'),
+
+    languageValidation,
+
+    skipQualityCheckValidation
+];
+
+export const descriptionModelValidation = [
+    body('model')
+        .isString()
+        .withMessage('Model name is required')
+        .bail()
+        .custom(isServedModel)
+];
+
+export const unloadDescriptionModelValidation = [
+    body('model')
+        .isString()
+        .withMessage('Model name is required')
 ];
 
 /**
  * @swagger
  * components:
  *   schemas:
+ *     DescriptionModel:
+ *       type: object
+ *       properties:
+ *         modelType:
+ *           type: string
+ *           description: Model id as served by the vision-language server
+ *         modelId:
+ *           type: string
+ *           description: Model id as served by the vision-language server
+ *         ownedBy:
+ *           type: string
+ *           nullable: true
+ *         contextSize:
+ *           type: integer
+ *           nullable: true
+ *           description: Context window in tokens, when the server reports it
+ *         multimodal:
+ *           type: boolean
+ *           nullable: true
+ *           description: Whether the model accepts images; null when the server does not say
+ *         metadata:
+ *           nullable: true
+ *           description: The model's registry entry, when it has one (only in model listings)
+ *           allOf:
+ *             - $ref: '#/components/schemas/RegisteredModel'
+ *
  *     ImageDescriptionResponse:
  *       type: object
  *       properties:
@@ -37,8 +97,15 @@ export const describeImageValidation = [
  *           description: Processing time in milliseconds
  *         model:
  *           type: string
- *           description: Model used for description (as configured on llama.cpp server)
+ *           description: Model used for description (as served by the vision-language server)
  *         prompt:
  *           type: string
  *           description: Prompt used to generate the description
+ *         preprocessing:
+ *           $ref: '#/components/schemas/ImagePreprocessing'
+ *         cached:
+ *           type: boolean
+ *           description: Present and true when an identical earlier request's result was returned from the cache
+ *         quality:
+ *           $ref: '#/components/schemas/ImageQuality'
  */ 
\ No newline at end of file
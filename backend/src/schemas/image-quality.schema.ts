@@ -0,0 +1,81 @@
+import { query } from 'express-validator';
+
+export const skipQualityCheckValidation = query('skipQualityCheck')
+    .optional()
+    .isBoolean()
+    .withMessage('skipQualityCheck must be a boolean');
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ImageQualityIssue:
+ *       type: object
+ *       properties:
+ *         code:
+ *           type: string
+ *           enum: [too-dark, overexposed, blurry, low-information, lens-covered]
+ *         severity:
+ *           type: string
+ *           enum: [warning, unusable]
+ *           description: Unusable images are not analyzed when the quality gate blocks them
+ *         guidance:
+ *           type: string
+ *           description: What to do about it, meant to be spoken
+ *           example: Too dark, turn on a light
+ *
+ *     ImageQuality:
+ *       type: object
+ *       description: Quality check run before analysis; absent when the check is off
+ *       properties:
+ *         usable:
+ *           type: boolean
+ *         issues:
+ *           type: array
+ *           description: Unusable issues first
+ *           items:
+ *             $ref: '#/components/schemas/ImageQualityIssue'
+ *         guidance:
+ *           type: string
+ *           description: Guidance of all issues as one sentence, empty for good images
+ *           example: Image is blurry, hold still.
+ *         metrics:
+ *           type: object
+ *           properties:
+ *             brightness:
+ *               type: number
+ *               description: Mean luma, 0-255
+ *             contrast:
+ *               type: number
+ *               description: Standard deviation of luma
+ *             sharpness:
+ *               type: number
+ *               description: Variance of the Laplacian at 512 pixels on the longest side; low for blurry images
+ *             overexposed:
+ *               type: number
+ *               description: Share of clipped white pixels (0-1)
+ *             underexposed:
+ *               type: number
+ *               description: Share of nearly black pixels (0-1)
+ *             entropy:
+ *               type: number
+ *               description: Entropy of the luma histogram in bits
+ *         processingTime:
+ *           type: integer
+ *
+ *     ImageQualityRejection:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: false
+ *         error:
+ *           type: string
+ *           example: Image quality too low to analyze
+ *         details:
+ *           type: string
+ *           description: Guidance to take a better photo
+ *           example: Too dark, turn on a light.
+ *         quality:
+ *           $ref: '#/components/schemas/ImageQuality'
+ */
@@ -0,0 +1,59 @@
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     InferenceQueueStats:
+ *       type: object
+ *       properties:
+ *         resource:
+ *           type: string
+ *           description: Queue name, the kind of inference and the model
+ *           example: object-detection:Xenova/yolos-tiny
+ *         concurrency:
+ *           type: integer
+ *           description: Jobs the model runs at the same time
+ *         active:
+ *           type: integer
+ *           description: Jobs running now
+ *         waiting:
+ *           type: object
+ *           description: Jobs waiting per priority lane
+ *           properties:
+ *             interactive:
+ *               type: integer
+ *             batch:
+ *               type: integer
+ *         completed:
+ *           type: integer
+ *         failed:
+ *           type: integer
+ *         rejected:
+ *           type: integer
+ *           description: Jobs refused because the queue was full
+ *         averageWaitMs:
+ *           type: integer
+ *           description: Average time jobs waited for a slot
+ *         maxWaitMs:
+ *           type: integer
+ *         oldestWaitMs:
+ *           type: integer
+ *           description: How long the oldest waiting job has been waiting
+ *         averageRunMs:
+ *           type: integer
+ *           description: Average inference time
+ *
+ *     QueueFullResponse:
+ *       type: object
+ *       properties:
+ *         success:
+ *           type: boolean
+ *           example: false
+ *         error:
+ *           type: string
+ *           example: Server busy, try again later
+ *         details:
+ *           type: string
+ *         retryAfter:
+ *           type: integer
+ *           description: Seconds to wait before retrying, also sent as the Retry-After header
+ */
@@ -0,0 +1,9 @@
+import { query } from 'express-validator';
+import { LANGUAGES, normalizeLanguage } from '../utils/language';
+
+// Any tag of a supported language is accepted (e.g. "pt" or "es-MX") and stored as the supported language
+export const languageValidation = query('language')
+    .optional()
+    .custom((value: string) => normalizeLanguage(value) !== null)
+    .withMessage(`language must be one of: ${LANGUAGES.join(', ')}`)
+    .customSanitizer((value: string) => normalizeLanguage(value));
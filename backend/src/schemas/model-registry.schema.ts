@@ -0,0 +1,219 @@
+import { body, param, query, Meta } from 'express-validator';
+import { MODEL_TYPES, ModelRegistryService, RegistryModelType } from '../services/model-registry.service';
+
+/**
+ * Reject models that aren't registered and enabled for one of the given types
+ */
+export const isRegisteredModel = (types: RegistryModelType[]) => async (model: string): Promise<boolean> => {
+    const reason = await ModelRegistryService.getInstance().getModelRejectionReason(types, model);
+    if (reason) {
+        throw new Error(reason);
+    }
+    return true;
+};
+
+/**
+ * Reject dtypes the requested model doesn't list among its quantizations
+ * @param modelField Request field holding the model, in the same location as the dtype
+ * @param getDefaultModel Model used when the request doesn't name one
+ */
+export const isRegisteredDtype = (modelField: string, getDefaultModel: (meta: Meta) => string) =>
+    async (dtype: string, meta: Meta): Promise<boolean> => {
+        const fields = meta.location === 'body' ? meta.req.body : meta.req.query;
+        const model = fields?.[modelField] || getDefaultModel(meta);
+
+        const reason = await ModelRegistryService.getInstance().getDtypeRejectionReason(model, dtype);
+        if (reason) {
+            throw new Error(reason);
+        }
+        return true;
+    };
+
+const stringArrayValidation = (field: string) => [
+    body(field)
+        .optional()
+        .isArray()
+        .withMessage(`${field} must be an array of strings`),
+
+    body(`${field}.*`)
+        .isString()
+        .withMessage(`${field} must be an array of strings`)
+];
+
+const modelFieldsValidation = [
+    body('provider')
+        .optional({ values: 'null' })
+        .isString()
+        .withMessage('Provider must be a string'),
+
+    body('version')
+        .optional({ values: 'null' })
+        .isString()
+        .withMessage('Version must be a string'),
+
+    body('description')
+        .optional({ values: 'null' })
+        .isString()
+        .withMessage('Description must be a string'),
+
+    body('license')
+        .optional({ values: 'null' })
+        .isString()
+        .withMessage('License must be a string'),
+
+    body('parameters')
+        .optional({ values: 'null' })
+        .isFloat({ min: 0 })
+        .withMessage('Parameters must be a positive number (millions)'),
+
+    body('size')
+        .optional({ values: 'null' })
+        .isInt({ min: 0 })
+        .withMessage('Size must be a positive integer (MB)'),
+
+    ...stringArrayValidation('quantizations'),
+    ...stringArrayValidation('capabilities'),
+
+    body('enabled')
+        .optional()
+        .isBoolean({ strict: true })
+        .withMessage('enabled must be a boolean')
+];
+
+export const listModelsValidation = [
+    query('type')
+        .optional()
+        .isIn(MODEL_TYPES)
+        .withMessage(`Type must be one of: ${MODEL_TYPES.join(', ')}`),
+
+    query('includeDisabled')
+        .optional()
+        .isBoolean()
+        .withMessage('includeDisabled must be a boolean')
+];
+
+export const modelIdValidation = [
+    param('id')
+        .isUUID()
+        .withMessage('Invalid model ID')
+];
+
+export const createModelValidation = [
+    body('name')
+        .isString()
+        .trim()
+        .notEmpty()
+        .withMessage('Model name is required'),
+
+    body('type')
+        .isIn(MODEL_TYPES)
+        .withMessage(`Type must be one of: ${MODEL_TYPES.join(', ')}`),
+
+    ...modelFieldsValidation
+];
+
+export const updateModelValidation = [
+    ...modelIdValidation,
+
+    body('name')
+        .optional()
+        .isString()
+        .trim()
+        .notEmpty()
+        .withMessage('Model name must be a non-empty string'),
+
+    body('type')
+        .optional()
+        .isIn(MODEL_TYPES)
+        .withMessage(`Type must be one of: ${MODEL_TYPES.join(', ')}`),
+
+    ...modelFieldsValidation
+];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     RegisteredModel:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         name:
+ *           type: string
+ *           description: Hugging Face id for local models, served name for vision-language models
+ *           example: Xenova/yolos-tiny
+ *         type:
+ *           type: string
+ *           enum: [object-detection, zero-shot-object-detection, ocr, depth-estimation, image-description]
+ *         provider:
+ *           type: string
+ *           nullable: true
+ *         version:
+ *           type: string
+ *           nullable: true
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         license:
+ *           type: string
+ *           nullable: true
+ *         parameters:
+ *           type: number
+ *           nullable: true
+ *           description: Parameter count in millions
+ *         quantizations:
+ *           type: array
+ *           description: dtypes the model can run with; empty means any
+ *           items:
+ *             type: string
+ *         size:
+ *           type: integer
+ *           nullable: true
+ *           description: Size in MB
+ *         capabilities:
+ *           type: array
+ *           items:
+ *             type: string
+ *         enabled:
+ *           type: boolean
+ *           description: Disabled models are hidden from the listings and rejected by the analysis routes
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     RegisteredModelInput:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *         type:
+ *           type: string
+ *           enum: [object-detection, zero-shot-object-detection, ocr, depth-estimation, image-description]
+ *         provider:
+ *           type: string
+ *         version:
+ *           type: string
+ *         description:
+ *           type: string
+ *         license:
+ *           type: string
+ *         parameters:
+ *           type: number
+ *         quantizations:
+ *           type: array
+ *           items:
+ *             type: string
+ *         size:
+ *           type: integer
+ *         capabilities:
+ *           type: array
+ *           items:
+ *             type: string
+ *         enabled:
+ *           type: boolean
+ */
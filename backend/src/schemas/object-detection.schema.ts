@@ -1,10 +1,57 @@
-import { query } from 'express-validator';
+import { body, query } from 'express-validator';
+import { ObjectDetectionService } from '../services/object-detection.service';
+import { skipQualityCheckValidation } from './image-quality.schema';
+import { languageValidation } from './language.schema';
+import { isRegisteredDtype, isRegisteredModel } from './model-registry.schema';
+import { colorLanguageValidation } from './color-analysis.schema';
+import { DETECTION_RANKINGS, PROFILE_NAME_PATTERN } from './detection-profile.schema';
 
-export const detectObjectsValidation = [
+export const MAX_DETECTION_QUERIES = 10;
+const MAX_QUERY_LENGTH = 100;
+
+/**
+ * Parse zero-shot queries given as a comma separated list and/or repeated query parameters
+ */
+export const parseDetectionQueries = (value: unknown): string[] => {
+    const values = Array.isArray(value) ? value : [value];
+    const queries = values
+        .filter((item): item is string => typeof item === 'string')
+        .flatMap(item => item.split(','))
+        .map(item => item.trim().toLowerCase())
+        .filter(item => item.length > 0);
+
+    return Array.from(new Set(queries));
+};
+
+/**
+ * Parse per-class thresholds given as "label:threshold" pairs, e.g. "person:0.7,chair:0.4"
+ * @returns The thresholds by label, or null if a pair is malformed or a threshold is not between 0 and 1
+ */
+export const parseClassThresholds = (value: string): Record<string, number> | null => {
+    const thresholds: Record<string, number> = {};
+    for (const pair of value.split(',').map(item => item.trim()).filter(item => item.length > 0)) {
+        const separator = pair.lastIndexOf(':');
+        const label = pair.slice(0, separator).trim().toLowerCase();
+        const threshold = Number(pair.slice(separator + 1));
+        if (separator <= 0 || !label || !Number.isFinite(threshold) || threshold < 0 || threshold > 1) {
+            return null;
+        }
+        thresholds[label] = threshold;
+    }
+    return Object.keys(thresholds).length > 0 ? thresholds : null;
+};
+
+/**
+ * Validation of the detection options shared by /detect and /find
+ * @param zeroShot Whether the route searches for free-text queries, which needs a zero-shot model
+ */
+const detectionOptionsValidation = (zeroShot: boolean) => [
     query('model')
         .optional()
         .isString()
-        .withMessage('Model must be a string'),
+        .withMessage('Model must be a string')
+        .bail()
+        .custom(isRegisteredModel([zeroShot ? 'zero-shot-object-detection' : 'object-detection'])),
 
     query('threshold')
         .optional()
@@ -20,6 +67,88 @@ export const detectObjectsValidation = [
         .optional()
         .isString()
         .withMessage('dtype must be a string')
+        .bail()
+        .custom(isRegisteredDtype('model', () => ObjectDetectionService.getInstance().getDefaultModel(zeroShot))),
+
+    query('spatial')
+        .optional()
+        .isBoolean()
+        .withMessage('spatial must be a boolean'),
+
+    query('colors')
+        .optional()
+        .isBoolean()
+        .withMessage('colors must be a boolean'),
+
+    colorLanguageValidation,
+
+    // Post-processing; labels are given like queries, as a comma separated list
+    query(['include', 'exclude'])
+        .optional()
+        .custom(value => parseDetectionQueries(value).length > 0)
+        .withMessage('include and exclude must be comma separated lists of labels'),
+
+    query('classThresholds')
+        .optional()
+        .isString()
+        .bail()
+        .custom((value: string) => parseClassThresholds(value) !== null)
+        .withMessage('classThresholds must be label:threshold pairs with thresholds between 0 and 1, e.g. person:0.7,chair:0.4'),
+
+    query('nms')
+        .optional()
+        .isFloat({ min: 0, max: 1 })
+        .withMessage('nms must be an IoU threshold between 0 and 1'),
+
+    query('rankBy')
+        .optional()
+        .isIn(DETECTION_RANKINGS)
+        .withMessage(`rankBy must be one of: ${DETECTION_RANKINGS.join(', ')}`),
+
+    query('profile')
+        .optional()
+        .matches(PROFILE_NAME_PATTERN)
+        .withMessage('profile must be the name of a saved detection profile'),
+
+    languageValidation,
+
+    skipQualityCheckValidation
+];
+
+export const detectObjectsValidation = detectionOptionsValidation(false);
+
+export const findObjectsValidation = [
+    ...detectionOptionsValidation(true),
+
+    query('queries')
+        .custom(value => {
+            const queries = parseDetectionQueries(value);
+            if (queries.length === 0) {
+                throw new Error('At least one query is required, e.g. queries=keys,white cane');
+            }
+            if (queries.length > MAX_DETECTION_QUERIES) {
+                throw new Error(`At most ${MAX_DETECTION_QUERIES} queries are allowed`);
+            }
+            if (queries.some(item => item.length > MAX_QUERY_LENGTH)) {
+                throw new Error(`Queries must be at most ${MAX_QUERY_LENGTH} characters`);
+            }
+            return true;
+        })
+];
+
+export const switchModelValidation = [
+    body('model')
+        .isString()
+        .withMessage('Model name is required')
+        .bail()
+        .custom(isRegisteredModel(['object-detection'])),
+
+    body('dtype')
+        .optional()
+        .isString()
+        .withMessage('dtype must be a string')
+        .bail()
+        .custom(isRegisteredDtype('model', () => ObjectDetectionService.getInstance().getDefaultModel()))
 ];
 
 /**
@@ -58,10 +187,160 @@ export const detectObjectsValidation = [
  *           description: Confidence score (0-1)
  *         label:
  *           type: string
- *           description: Object class label
+ *           description: Object class label, in the requested language
+ *         originalLabel:
+ *           type: string
+ *           description: Label given by the model, present when the label was translated; stored labels are these
  *         class:
  *           type: number
  *           description: Numeric class identifier
+ *         spatial:
+ *           $ref: '#/components/schemas/SpatialDescription'
+ *         colors:
+ *           $ref: '#/components/schemas/ColorAnalysis'
+ *         distance:
+ *           $ref: '#/components/schemas/ObjectDistance'
+ *
+ *     SpatialDescription:
+ *       type: object
+ *       description: Where the object is, only present when spatial descriptions were requested
+ *       properties:
+ *         clockPosition:
+ *           type: integer
+ *           description: Clock-face direction, 12 being straight ahead
+ *           example: 2
+ *         horizontal:
+ *           type: string
+ *           enum: [left, center, right]
+ *         distance:
+ *           type: string
+ *           enum: [near, medium, far]
+ *           description: Rough distance estimated from the share of the image the box covers
+ *         areaRatio:
+ *           type: number
+ *           description: Share of the image covered by the box (0-1)
+ *         relations:
+ *           type: array
+ *           description: Relations to the nearest other objects
+ *           items:
+ *             type: object
+ *             properties:
+ *               relation:
+ *                 type: string
+ *                 enum: [on, above, below, left of, right of]
+ *               label:
+ *                 type: string
+ *                 description: Label of the other object
+ *               index:
+ *                 type: integer
+ *                 description: Index of the other object in detections
+ *         phrase:
+ *           type: string
+ *           example: "a cup at 2 o'clock, on the right, close by, on the dining table"
+ *
+ *     ModelStats:
+ *       type: object
+ *       description: Usage statistics of a local model, kept after it is unloaded
+ *       properties:
+ *         kind:
+ *           type: string
+ *           example: object-detection
+ *         key:
+ *           type: string
+ *           example: "Xenova/yolos-tiny|||fp16"
+ *         modelName:
+ *           type: string
+ *         dtype:
+ *           type: string
+ *           nullable: true
+ *         loaded:
+ *           type: boolean
+ *         loading:
+ *           type: boolean
+ *         active:
+ *           type: integer
+ *           description: Inferences running on the model
+ *         loads:
+ *           type: integer
+ *         hits:
+ *           type: integer
+ *           description: Requests served by the already loaded model
+ *         evictions:
+ *           type: integer
+ *           description: Times the model was unloaded to respect the limits
+ *         lastUsed:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         loadedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         loadTimeMs:
+ *           type: integer
+ *           nullable: true
+ *         estimatedMemoryMB:
+ *           type: integer
+ *           nullable: true
+ *           description: Approximate memory use, from the growth of the process memory during the load
+ *
+ *     ModelManagerStatus:
+ *       type: object
+ *       properties:
+ *         maxLoaded:
+ *           type: integer
+ *           description: Models kept loaded at most (MAX_LOADED_MODELS)
+ *         idleTTL:
+ *           type: integer
+ *           description: Milliseconds an unused model stays loaded (MODEL_CACHE_TTL)
+ *         memoryBudgetMB:
+ *           type: integer
+ *           description: Approximate memory budget of all models, 0 for none (MODEL_MEMORY_BUDGET_MB)
+ *         estimatedMemoryMB:
+ *           type: integer
+ *         models:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ModelStats'
+ *
+ *     ImagePreprocessing:
+ *       type: object
+ *       description: How the uploaded image was normalized before analysis
+ *       properties:
+ *         kind:
+ *           type: string
+ *           example: object-detection
+ *         model:
+ *           type: string
+ *         originalFormat:
+ *           type: string
+ *           example: heif
+ *         format:
+ *           type: string
+ *           description: Format of the analyzed image (jpeg, png or webp)
+ *           example: jpeg
+ *         originalSize:
+ *           type: object
+ *           description: Size of the upright original; boxes are given in these coordinates
+ *           properties:
+ *             width:
+ *               type: integer
+ *             height:
+ *               type: integer
+ *         size:
+ *           type: object
+ *           description: Size of the analyzed image
+ *           properties:
+ *             width:
+ *               type: integer
+ *             height:
+ *               type: integer
+ *         steps:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Steps applied, empty when the image was analyzed as uploaded
+ *           example: ['auto-orient (EXIF orientation 6)', 'strip-metadata', 'resize 3024x4032 -> 960x1280', 'convert heif -> jpeg']
  *
  *     DetectionResponse:
  *       type: object
@@ -79,4 +358,44 @@ export const detectObjectsValidation = [
  *         dtype:
  *           type: string
  *           description: Quantization level used (fp32, fp16, q8, q4, q2)
- */ 
\ No newline at end of file
+ *         queries:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Queries of a zero-shot detection, only present for /find; detection labels are these queries
+ *         labelCounts:
+ *           type: array
+ *           description: Number of detections of each label, most frequent first
+ *           items:
+ *             type: object
+ *             properties:
+ *               label:
+ *                 type: string
+ *               count:
+ *                 type: integer
+ *         countSummary:
+ *           type: string
+ *           description: Counts of all labels, ready to be read aloud
+ *           example: 3 people, 2 chairs and a dog
+ *         profile:
+ *           type: string
+ *           description: Name of the detection profile applied, if any
+ *         imageSize:
+ *           type: object
+ *           description: Image dimensions, only present when spatial descriptions were requested
+ *           properties:
+ *             width:
+ *               type: integer
+ *             height:
+ *               type: integer
+ *         spatialSummary:
+ *           type: string
+ *           description: Spatial phrases of all objects, largest first, ready to be read aloud
+ *         preprocessing:
+ *           $ref: '#/components/schemas/ImagePreprocessing'
+ *         cached:
+ *           type: boolean
+ *           description: Present and true when an identical earlier request's result was returned from the cache
+ *         quality:
+ *           $ref: '#/components/schemas/ImageQuality'
+ */
\ No newline at end of file
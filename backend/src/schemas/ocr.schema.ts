@@ -0,0 +1,90 @@
+import { query } from 'express-validator';
+import { OcrService } from '../services/ocr.service';
+import { skipQualityCheckValidation } from './image-quality.schema';
+import { languageValidation } from './language.schema';
+import { isRegisteredDtype, isRegisteredModel } from './model-registry.schema';
+
+export const recognizeTextValidation = [
+    query('model')
+        .optional()
+        .isString()
+        .withMessage('Model must be a string')
+        .bail()
+        .custom(isRegisteredModel(['ocr'])),
+
+    query('dtype')
+        .optional()
+        .isString()
+        .withMessage('dtype must be a string')
+        .bail()
+        .custom(isRegisteredDtype('model', () => OcrService.getInstance().getDefaultModel())),
+
+    query('maxLines')
+        .optional()
+        .isInt({ min: 1, max: 200 })
+        .withMessage('Max lines must be an integer between 1 and 200'),
+
+    languageValidation,
+
+    skipQualityCheckValidation
+];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     OcrTextLine:
+ *       type: object
+ *       properties:
+ *         text:
+ *           type: string
+ *           description: Recognized text of the line
+ *         box:
+ *           $ref: '#/components/schemas/BoundingBox'
+ *
+ *     OcrTextBlock:
+ *       type: object
+ *       properties:
+ *         text:
+ *           type: string
+ *           description: Text of the block, one line per row
+ *         box:
+ *           $ref: '#/components/schemas/BoundingBox'
+ *         lines:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/OcrTextLine'
+ *
+ *     OcrResponse:
+ *       type: object
+ *       properties:
+ *         text:
+ *           type: string
+ *           description: All recognized text in reading order, blocks separated by a blank line
+ *         blocks:
+ *           type: array
+ *           description: Text blocks in reading order
+ *           items:
+ *             $ref: '#/components/schemas/OcrTextBlock'
+ *         processingTime:
+ *           type: number
+ *           description: Processing time in milliseconds
+ *         model:
+ *           type: string
+ *           description: Line recognition model used
+ *         dtype:
+ *           type: string
+ *           description: Quantization level used
+ *         preprocessing:
+ *           $ref: '#/components/schemas/ImagePreprocessing'
+ *         savedResultId:
+ *           type: string
+ *           nullable: true
+ *           description: ID of the stored TextRecognition, when the user is authenticated
+ *         analysisId:
+ *           type: string
+ *           nullable: true
+ *           description: ID of the stored VisionAnalysis, usable with /api/vision/history/{id}
+ *         quality:
+ *           $ref: '#/components/schemas/ImageQuality'
+ */
@@ -0,0 +1,67 @@
+import { param, query } from 'express-validator';
+
+export const listProductsValidation = [
+    query('search')
+        .optional()
+        .isString()
+        .trim()
+        .withMessage('Search must be a string'),
+
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 200 })
+        .withMessage('Limit must be an integer between 1 and 200'),
+
+    query('offset')
+        .optional()
+        .isInt({ min: 0 })
+        .withMessage('Offset must be a non-negative integer')
+];
+
+export const productIdValidation = [
+    param('id')
+        .isUUID()
+        .withMessage('Invalid product ID')
+];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CatalogProduct:
+ *       allOf:
+ *         - $ref: '#/components/schemas/Product'
+ *         - type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             createdAt:
+ *               type: string
+ *               format: date-time
+ *             updatedAt:
+ *               type: string
+ *               format: date-time
+ *
+ *     ProductImportResult:
+ *       type: object
+ *       properties:
+ *         created:
+ *           type: integer
+ *         updated:
+ *           type: integer
+ *         skipped:
+ *           type: integer
+ *           description: Rows without a valid barcode or a name
+ *         errors:
+ *           type: array
+ *           description: Why rows were skipped (at most 100)
+ *           items:
+ *             type: object
+ *             properties:
+ *               line:
+ *                 type: integer
+ *                 description: Row of the file, the header being row 1
+ *               error:
+ *                 type: string
+ */
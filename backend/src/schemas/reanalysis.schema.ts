@@ -0,0 +1,186 @@
+import { body, param } from 'express-validator';
+import { ObjectDetectionService } from '../services/object-detection.service';
+import { isServedModel } from './image-description.schema';
+import { isRegisteredDtype, isRegisteredModel } from './model-registry.schema';
+
+const REANALYSIS_TASKS = ['detection', 'description'];
+
+export const reanalyzeValidation = [
+    param('id')
+        .isUUID()
+        .withMessage('Analysis ID must be a valid UUID'),
+
+    body('task')
+        .isIn(REANALYSIS_TASKS)
+        .withMessage(`Task must be one of: ${REANALYSIS_TASKS.join(', ')}`),
+
+    // A detection model or a description model, depending on the task
+    body('model')
+        .optional()
+        .isString()
+        .withMessage('Model must be a string')
+        .bail()
+        .custom((model: string, { req }) => req.body.task === 'description'
+            ? isServedModel(model)
+            : isRegisteredModel(['object-detection'])(model)),
+
+    body('threshold')
+        .optional()
+        .isFloat({ min: 0, max: 1 })
+        .withMessage('Threshold must be a float between 0 and 1'),
+
+    body('maxObjects')
+        .optional()
+        .isInt({ min: 1, max: 100 })
+        .withMessage('Max objects must be an integer between 1 and 100'),
+
+    body('dtype')
+        .optional()
+        .isString()
+        .withMessage('dtype must be a string')
+        .bail()
+        .custom(isRegisteredDtype('model', () => ObjectDetectionService.getInstance().getDefaultModel())),
+
+    body('prompt')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ min: 1, max: 1000 })
+        .withMessage('Prompt must be a string between 1 and 1000 characters'),
+
+    body('maxNewTokens')
+        .optional()
+        .isInt({ min: 10, max: 1000 })
+        .withMessage('Max tokens must be an integer between 10 and 1000'),
+
+    body('doSample')
+        .optional()
+        .isBoolean()
+        .withMessage('doSample must be a boolean')
+];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ReanalysisRequest:
+ *       type: object
+ *       required:
+ *         - task
+ *       properties:
+ *         task:
+ *           type: string
+ *           enum: [detection, description]
+ *         model:
+ *           type: string
+ *           description: Detection model (registered) or description model (served), depending on the task
+ *           example: onnx-community/rtdetr_r50vd
+ *         threshold:
+ *           type: number
+ *           description: Detection confidence threshold
+ *         maxObjects:
+ *           type: integer
+ *         dtype:
+ *           type: string
+ *           description: Quantization level of the detection model
+ *         prompt:
+ *           type: string
+ *           description: Description prompt
+ *         maxNewTokens:
+ *           type: integer
+ *         doSample:
+ *           type: boolean
+ *
+ *     DiffObject:
+ *       type: object
+ *       properties:
+ *         label:
+ *           type: string
+ *         score:
+ *           type: number
+ *         box:
+ *           $ref: '#/components/schemas/BoundingBox'
+ *
+ *     DetectionDiff:
+ *       type: object
+ *       description: Objects of the same label whose boxes overlap (IoU of 0.5 or more) are the same object
+ *       properties:
+ *         before:
+ *           type: object
+ *           properties:
+ *             model:
+ *               type: string
+ *             objects:
+ *               type: integer
+ *         after:
+ *           type: object
+ *           properties:
+ *             model:
+ *               type: string
+ *             objects:
+ *               type: integer
+ *         appeared:
+ *           type: array
+ *           description: Objects only the new detection found
+ *           items:
+ *             $ref: '#/components/schemas/DiffObject'
+ *         disappeared:
+ *           type: array
+ *           description: Objects only the earlier detection found
+ *           items:
+ *             $ref: '#/components/schemas/DiffObject'
+ *         matched:
+ *           type: array
+ *           description: Objects both detections found, with both scores and boxes
+ *           items:
+ *             type: object
+ *         labelChanges:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               label:
+ *                 type: string
+ *               before:
+ *                 type: integer
+ *               after:
+ *                 type: integer
+ *         summary:
+ *           type: string
+ *           example: "onnx-community/rtdetr_r50vd found 5 objects, Xenova/yolos-tiny found 3; appeared: 2 cup"
+ *
+ *     ReanalysisResponse:
+ *       type: object
+ *       properties:
+ *         task:
+ *           type: string
+ *           enum: [detection, description]
+ *         sourceAnalysisId:
+ *           type: string
+ *           description: The analysis that was re-analyzed
+ *         parentAnalysisId:
+ *           type: string
+ *           description: The original analysis the revision is linked to
+ *         analysisId:
+ *           type: string
+ *           nullable: true
+ *           description: The stored revision
+ *         detection:
+ *           $ref: '#/components/schemas/DetectionResponse'
+ *         description:
+ *           $ref: '#/components/schemas/ImageDescriptionResponse'
+ *         diff:
+ *           nullable: true
+ *           description: |
+ *             For detection a DetectionDiff; for description the earlier and new description (before, after).
+ *             Null when the source analysis has no result of the same task.
+ *           oneOf:
+ *             - $ref: '#/components/schemas/DetectionDiff'
+ *             - type: object
+ *               properties:
+ *                 before:
+ *                   type: object
+ *                   nullable: true
+ *                 after:
+ *                   type: object
+ */
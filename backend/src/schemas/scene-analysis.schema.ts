@@ -0,0 +1,102 @@
+import { query } from 'express-validator';
+import { ObjectDetectionService } from '../services/object-detection.service';
+import { isServedModel } from './image-description.schema';
+import { skipQualityCheckValidation } from './image-quality.schema';
+import { languageValidation } from './language.schema';
+import { isRegisteredDtype, isRegisteredModel } from './model-registry.schema';
+
+export const analyzeSceneValidation = [
+    query('detectionModel')
+        .optional()
+        .isString()
+        .withMessage('Detection model must be a string')
+        .bail()
+        .custom(isRegisteredModel(['object-detection'])),
+
+    query('threshold')
+        .optional()
+        .isFloat({ min: 0, max: 1 })
+        .withMessage('Threshold must be a float between 0 and 1'),
+
+    query('maxObjects')
+        .optional()
+        .isInt({ min: 1, max: 100 })
+        .withMessage('Max objects must be an integer between 1 and 100'),
+
+    query('dtype')
+        .optional()
+        .isString()
+        .withMessage('dtype must be a string')
+        .bail()
+        .custom(isRegisteredDtype('detectionModel', () => ObjectDetectionService.getInstance().getDefaultModel())),
+
+    query('descriptionModel')
+        .optional()
+        .isString()
+        .withMessage('Description model must be a string')
+        .bail()
+        .custom(isServedModel),
+
+    query('prompt')
+        .optional()
+        .isString()
+        .withMessage('Prompt must be a string'),
+
+    query('maxNewTokens')
+        .optional()
+        .isInt({ min: 10, max: 1000 })
+        .withMessage('Max tokens must be an integer between 10 and 1000'),
+
+    query('doSample')
+        .optional()
+        .isBoolean()
+        .withMessage('doSample must be a boolean'),
+
+    languageValidation,
+
+    skipQualityCheckValidation
+];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SceneAnalysisResponse:
+ *       type: object
+ *       properties:
+ *         summary:
+ *           type: string
+ *           description: Description and detected objects fused into one text suitable for speech
+ *         detection:
+ *           nullable: true
+ *           description: Object detection result, null when detection failed
+ *           allOf:
+ *             - $ref: '#/components/schemas/DetectionResponse'
+ *         description:
+ *           nullable: true
+ *           description: Image description result, null when description failed
+ *           allOf:
+ *             - $ref: '#/components/schemas/ImageDescriptionResponse'
+ *         groundingLabels:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Detected labels passed to the vision-language model as hints (empty if detection was too slow)
+ *         errors:
+ *           type: object
+ *           description: Error messages of the parts that failed
+ *           properties:
+ *             detection:
+ *               type: string
+ *             description:
+ *               type: string
+ *         processingTime:
+ *           type: number
+ *           description: Total processing time in milliseconds
+ *         analysisId:
+ *           type: string
+ *           nullable: true
+ *           description: ID of the stored VisionAnalysis, usable with /api/vision/history/{id}
+ *         quality:
+ *           $ref: '#/components/schemas/ImageQuality'
+ */
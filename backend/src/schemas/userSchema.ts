@@ -77,7 +77,7 @@
  *         language:
  *           type: string
  *           default: "en"
- *           description: Preferred language
+ *           description: Preferred language; labels, spoken summaries and answers are given in en, pt-BR or es
  *         theme:
  *           type: string
  *           default: "system"
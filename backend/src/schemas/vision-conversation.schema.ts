@@ -0,0 +1,100 @@
+import { body, param, query } from 'express-validator';
+import { skipQualityCheckValidation } from './image-quality.schema';
+import { languageValidation } from './language.schema';
+
+export const createConversationValidation = [
+    body('question')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ min: 1, max: 1000 })
+        .withMessage('Question must be a string between 1 and 1000 characters'),
+
+    body('sessionId')
+        .optional()
+        .isUUID()
+        .withMessage('Session ID must be a valid UUID'),
+
+    query('maxNewTokens')
+        .optional()
+        .isInt({ min: 10, max: 1000 })
+        .withMessage('Max tokens must be an integer between 10 and 1000'),
+
+    languageValidation,
+
+    skipQualityCheckValidation
+];
+
+export const askQuestionValidation = [
+    param('id')
+        .isUUID()
+        .withMessage('Conversation ID must be a valid UUID'),
+
+    body('question')
+        .isString()
+        .trim()
+        .isLength({ min: 1, max: 1000 })
+        .withMessage('Question must be a string between 1 and 1000 characters'),
+
+    body('maxNewTokens')
+        .optional()
+        .isInt({ min: 10, max: 1000 })
+        .withMessage('Max tokens must be an integer between 10 and 1000'),
+
+    body('doSample')
+        .optional()
+        .isBoolean()
+        .withMessage('doSample must be a boolean'),
+
+    languageValidation
+];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ConversationTurn:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         question:
+ *           type: string
+ *           description: The question asked about the image
+ *         answer:
+ *           type: string
+ *           description: The model's answer
+ *         modelName:
+ *           type: string
+ *         processingTimeMs:
+ *           type: integer
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     VisionConversation:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         visionAnalysisId:
+ *           type: string
+ *           description: The VisionAnalysis (type VISUAL_QA) holding the image
+ *         sessionId:
+ *           type: string
+ *           nullable: true
+ *         modelName:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *         turns:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ConversationTurn'
+ *         quality:
+ *           $ref: '#/components/schemas/ImageQuality'
+ */
@@ -10,8 +10,15 @@ import { userRouter } from './routes/userRoutes';
 import { sessionRouter } from './routes/sessionRoutes';
 import { visionRouter } from './routes/visionRoutes';
 import { llamaRouter } from './routes/llamaRoutes';
+import { modelRouter } from './routes/modelRoutes';
+import { productRouter } from './routes/productRoutes';
+import { attachLiveCameraSocket, LIVE_CAMERA_PATH } from './routes/liveCameraSocket';
+import { sweepTempFiles } from './utils/temp-files';
 import PrismaService from './database/prisma-service';
 import { ObjectDetectionService } from './services/object-detection.service';
+import { OcrService } from './services/ocr.service';
+import { DepthEstimationService } from './services/depth-estimation.service';
+import { ModelManagerService } from './services/model-manager.service';
 
 // Load environment variables
 dotenv.config();
@@ -81,6 +88,8 @@ app.use('/api/users', userRouter);
 app.use('/api/sessions', sessionRouter);
 app.use('/api/vision', visionRouter);
 app.use('/api/llama', llamaRouter);
+app.use('/api/models', modelRouter);
+app.use('/api/products', productRouter);
 
 // Health check route
 app.get('/health', (req, res) => {
@@ -96,17 +105,33 @@ const startServer = async () => {
         await prismaService.connect();
         console.log('Connected to database');
 
-        // Preload default object detection model in the background
-        const objectDetectionService = ObjectDetectionService.getInstance();
-        objectDetectionService.preloadDefaultModel().catch(error => {
-            console.error('Error preloading detection model:', error);
+        // Images are decoded in memory now; remove temp files left behind by earlier versions
+        const removedTempFiles = await sweepTempFiles().catch(error => {
+            console.warn('Error removing leftover temporary files:', error);
+            return 0;
+        });
+        if (removedTempFiles > 0) {
+            console.log(`Removed ${removedTempFiles} leftover temporary image files`);
+        }
+
+        // Preload the models listed in PRELOAD_MODELS in the background;
+        // the services register how to load their kinds of models
+        ObjectDetectionService.getInstance();
+        OcrService.getInstance();
+        DepthEstimationService.getInstance();
+        ModelManagerService.getInstance().preloadModels().catch(error => {
+            console.error('Error preloading models:', error);
         });
 
         // Start server
-        app.listen(PORT, () => {
+        const server = app.listen(PORT, () => {
             console.log(`Server running on port ${PORT}`);
             console.log(`Swagger documentation available at http://localhost:${PORT}/api-docs`);
         });
+
+        // Live camera detection over WebSocket
+        attachLiveCameraSocket(server);
+        console.log(`Live camera WebSocket available at ws://localhost:${PORT}${LIVE_CAMERA_PATH}`);
     } catch (error) {
         console.error('Failed to start server:', error);
         process.exit(1);
@@ -0,0 +1,172 @@
+import { promises as fs } from 'fs';
+import sharp from 'sharp';
+import { prepareZXingModule, readBarcodes, ReaderOptions, ReadResult } from 'zxing-wasm/reader';
+import {
+    BarcodeOptions,
+    BarcodeResponse,
+    BarcodeResult,
+    BoundingBox,
+    ImagePreprocessingInfo,
+    Point
+} from '../interfaces/detection.interface';
+import {
+    classifyCodePayload,
+    describeBarcode,
+    PRODUCT_CODE_FORMATS,
+    summarizeBarcodes,
+    toGtin
+} from '../utils/barcode-content';
+import { InferenceQueueService } from './inference-queue.service';
+import { ImagePreprocessingService } from './image-preprocessing.service';
+import { ProductCatalogService } from './product-catalog.service';
+
+// Kind of analysis, for image preprocessing and the inference queue
+const KIND = 'barcode';
+
+// Formats read when none are requested: product codes, QR and Data Matrix
+export const DEFAULT_BARCODE_FORMATS = [...PRODUCT_CODE_FORMATS, 'QRCode', 'MicroQRCode', 'DataMatrix'];
+
+// 2D formats whose content is classified as a link, Wi-Fi network or text
+const MATRIX_FORMATS = ['QRCode', 'MicroQRCode', 'DataMatrix'];
+
+/**
+ * Service for reading barcodes and QR codes with ZXing (compiled to WebAssembly, no model download).
+ * Product codes are looked up in the local product catalog and 2D codes are classified,
+ * so every code comes with a phrase to read aloud.
+ */
+export class BarcodeService {
+    private static instance: BarcodeService;
+    private readerReady: Promise<unknown> | null = null;
+    private inferenceQueue: InferenceQueueService = InferenceQueueService.getInstance();
+    private imagePreprocessing: ImagePreprocessingService = ImagePreprocessingService.getInstance();
+    private productCatalog: ProductCatalogService = ProductCatalogService.getInstance();
+
+    private constructor() { }
+
+    /**
+     * Gets the singleton instance of the service
+     */
+    public static getInstance(): BarcodeService {
+        if (!BarcodeService.instance) {
+            BarcodeService.instance = new BarcodeService();
+        }
+        return BarcodeService.instance;
+    }
+
+    /**
+     * Load the ZXing reader from the installed package; by default it would be fetched from a CDN
+     */
+    private prepareReader(): Promise<unknown> {
+        if (!this.readerReady) {
+            this.readerReady = fs.readFile(require.resolve('zxing-wasm/reader/zxing_reader.wasm'))
+                .then(wasm => prepareZXingModule({
+                    // Copied into an ArrayBuffer of its own, Node buffers may share a larger one
+                    overrides: { wasmBinary: new Uint8Array(wasm).buffer },
+                    fireImmediately: true
+                }))
+                .catch(error => {
+                    this.readerReady = null;
+                    throw error;
+                });
+        }
+        return this.readerReady;
+    }
+
+    /**
+     * Read the barcodes and QR codes in an image
+     * @param imageBuffer The image buffer to process
+     * @param options Formats to read, whether to look up products, queue priority, language of the phrases
+     */
+    public async readBarcodes(imageBuffer: Buffer, options: BarcodeOptions = {}): Promise<BarcodeResponse> {
+        const startTime = Date.now();
+        const formats = options.formats && options.formats.length > 0 ? options.formats : DEFAULT_BARCODE_FORMATS;
+
+        const preprocessed = await this.imagePreprocessing.normalize(imageBuffer, KIND, 'zxing');
+        await this.prepareReader();
+
+        const { data, info } = await sharp(preprocessed.buffer)
+            .ensureAlpha()
+            .raw()
+            .toBuffer({ resolveWithObject: true });
+
+        const readerOptions: ReaderOptions = {
+            formats: formats as ReaderOptions['formats'],
+            tryHarder: true,
+            maxNumberOfSymbols: 20
+        };
+        const results: ReadResult[] = await this.inferenceQueue.run(
+            KIND,
+            () => readBarcodes({
+                data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.byteLength),
+                width: info.width,
+                height: info.height,
+                colorSpace: 'srgb'
+            } as ImageData, readerOptions),
+            options.priority
+        );
+
+        const barcodes = results
+            .filter(result => result.isValid)
+            .map(result => this.toBarcode(result, preprocessed.info));
+
+        // Look up all product codes at once
+        if (options.lookup !== false) {
+            const gtins = barcodes.flatMap(barcode => (barcode.gtin ? [barcode.gtin] : []));
+            const products = await this.productCatalog.findByBarcodes(gtins);
+            for (const barcode of barcodes) {
+                if (barcode.gtin) {
+                    barcode.product = products.get(barcode.gtin) || null;
+                }
+            }
+        }
+
+        for (const barcode of barcodes) {
+            barcode.phrase = describeBarcode(barcode, options.language);
+        }
+
+        return {
+            barcodes,
+            summary: summarizeBarcodes(barcodes, options.language),
+            processingTime: Date.now() - startTime,
+            preprocessing: preprocessed.info
+        };
+    }
+
+    /**
+     * A decoded barcode, located in the upright original image; its phrase is set once the product is known
+     */
+    private toBarcode(result: ReadResult, info: ImagePreprocessingInfo): BarcodeResult {
+        const { topLeft, topRight, bottomRight, bottomLeft } = result.position;
+        const scaleX = info.originalSize.width / info.size.width;
+        const scaleY = info.originalSize.height / info.size.height;
+        const corners: Point[] = [topLeft, topRight, bottomRight, bottomLeft].map(point => ({
+            x: Math.round(point.x * scaleX),
+            y: Math.round(point.y * scaleY)
+        }));
+
+        const xs = corners.map(point => point.x);
+        const ys = corners.map(point => point.y);
+        const box: BoundingBox = {
+            xmin: Math.min(...xs),
+            ymin: Math.min(...ys),
+            xmax: Math.max(...xs),
+            ymax: Math.max(...ys)
+        };
+
+        const barcode: BarcodeResult = {
+            format: result.format,
+            text: result.text,
+            box,
+            corners,
+            phrase: ''
+        };
+
+        const gtin = toGtin(result.format, result.text);
+        if (gtin) {
+            barcode.gtin = gtin;
+        } else if (MATRIX_FORMATS.includes(result.format)) {
+            barcode.payload = classifyCodePayload(result.text);
+        }
+        return barcode;
+    }
+}
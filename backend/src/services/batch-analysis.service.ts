@@ -0,0 +1,179 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ObjectDetectionService } from './object-detection.service';
+import { ImageDescriptionService } from './image-description.service';
+import { ImageQualityService } from './image-quality.service';
+import { QueueFullError } from './inference-queue.service';
+import {
+    BatchAnalysisOptions,
+    BatchAnalysisResponse,
+    BatchImage,
+    BatchImageResult,
+    BatchLabelCount
+} from '../interfaces/detection.interface';
+
+/**
+ * Service for analyzing many images in one request (e.g. a phone gallery backlog).
+ * Images are processed one at a time in the batch lane of the inference queue,
+ * so interactive requests keep priority while a batch runs.
+ */
+export class BatchAnalysisService {
+    private static instance: BatchAnalysisService;
+    private detectionService: ObjectDetectionService;
+    private descriptionService: ImageDescriptionService;
+    private qualityService: ImageQualityService;
+
+    // How often a job rejected by a full queue is retried
+    private MAX_QUEUE_RETRIES = 3;
+
+    private constructor() {
+        this.detectionService = ObjectDetectionService.getInstance();
+        this.descriptionService = ImageDescriptionService.getInstance();
+        this.qualityService = ImageQualityService.getInstance();
+    }
+
+    /**
+     * Get the singleton instance of BatchAnalysisService
+     */
+    public static getInstance(): BatchAnalysisService {
+        if (!BatchAnalysisService.instance) {
+            BatchAnalysisService.instance = new BatchAnalysisService();
+        }
+        return BatchAnalysisService.instance;
+    }
+
+    /**
+     * Run a job, waiting and retrying when the inference queue is full
+     */
+    private async withQueueRetry<T>(job: () => Promise<T>): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await job();
+            } catch (error) {
+                if (!(error instanceof QueueFullError) || attempt >= this.MAX_QUEUE_RETRIES) {
+                    throw error;
+                }
+                console.log(`Inference queue full, retrying batch job in ${error.retryAfter}s`);
+                await new Promise(resolve => setTimeout(resolve, error.retryAfter * 1000));
+            }
+        }
+    }
+
+    private errorMessage(reason: unknown): string {
+        return reason instanceof Error ? reason.message : String(reason);
+    }
+
+    /**
+     * Analyze one image with the requested tasks
+     */
+    private async analyzeImage(image: BatchImage, index: number, options: BatchAnalysisOptions): Promise<BatchImageResult> {
+        const result: BatchImageResult = {
+            index,
+            fileName: image.fileName,
+            detection: null,
+            description: null,
+            errors: {}
+        };
+
+        // Unusable images are reported with guidance instead of analyzed, as on the single-image routes
+        const qualityMode = this.qualityService.getMode();
+        if (qualityMode !== 'off') {
+            try {
+                result.quality = await this.qualityService.checkQuality(image.buffer, options.language);
+            } catch (error) {
+                console.warn(`Quality check failed for batch image ${image.fileName}:`, this.errorMessage(error));
+            }
+            if (result.quality && !result.quality.usable && qualityMode === 'block' && !options.skipQualityCheck) {
+                result.errors.quality = result.quality.guidance;
+                return result;
+            }
+        }
+
+        const { language } = options;
+        const [detection, description] = await Promise.allSettled([
+            options.tasks.includes('detection')
+                ? this.withQueueRetry(() => this.detectionService.detectObjects(image.buffer, { ...options.detection, priority: 'batch', language }))
+                : Promise.resolve(null),
+            options.tasks.includes('description')
+                ? this.withQueueRetry(() => this.descriptionService.describeImage(image.buffer, { ...options.description, priority: 'batch', language }))
+                : Promise.resolve(null)
+        ]);
+
+        if (detection.status === 'fulfilled') {
+            result.detection = detection.value;
+        } else {
+            console.error(`Detection failed for batch image ${image.fileName}:`, detection.reason);
+            result.errors.detection = this.errorMessage(detection.reason);
+        }
+
+        if (description.status === 'fulfilled') {
+            result.description = description.value;
+        } else {
+            console.error(`Description failed for batch image ${image.fileName}:`, description.reason);
+            result.errors.description = this.errorMessage(description.reason);
+        }
+
+        return result;
+    }
+
+    /**
+     * Count labels over all images, most frequent first
+     */
+    private countBatchLabels(results: BatchImageResult[]): BatchLabelCount[] {
+        const counts = new Map<string, BatchLabelCount>();
+
+        for (const result of results) {
+            const seen = new Set<string>();
+            for (const { label } of result.detection?.detections || []) {
+                const count = counts.get(label) || { label, count: 0, images: 0 };
+                count.count++;
+                if (!seen.has(label)) {
+                    count.images++;
+                    seen.add(label);
+                }
+                counts.set(label, count);
+            }
+        }
+
+        return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+    }
+
+    /**
+     * Analyze a batch of images
+     * @param images The images, in request order
+     * @param options Tasks to run and their options
+     * @param onImageDone Called after each image, e.g. to store it; may set `analysisId` on the result
+     */
+    public async analyzeBatch(
+        images: BatchImage[],
+        options: BatchAnalysisOptions,
+        onImageDone?: (result: BatchImageResult, image: BatchImage, batchId: string) => Promise<void>
+    ): Promise<BatchAnalysisResponse> {
+        const startTime = Date.now();
+        const batchId = uuidv4();
+
+        console.log(`Starting batch ${batchId}: ${images.length} images, tasks: ${options.tasks.join(', ')}`);
+
+        const results: BatchImageResult[] = [];
+        for (const [index, image] of images.entries()) {
+            const result = await this.analyzeImage(image, index, options);
+            if (onImageDone) {
+                await onImageDone(result, image, batchId);
+            }
+            results.push(result);
+        }
+
+        const failed = results.filter(result => Object.keys(result.errors).length > 0).length;
+
+        return {
+            batchId,
+            results,
+            labelCounts: this.countBatchLabels(results),
+            totals: {
+                images: results.length,
+                succeeded: results.length - failed,
+                failed
+            },
+            processingTime: Date.now() - startTime
+        };
+    }
+}
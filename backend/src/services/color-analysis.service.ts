@@ -0,0 +1,143 @@
+import sharp from 'sharp';
+import {
+    BoundingBox,
+    ColorAnalysis,
+    ColorAnalysisOptions,
+    ColorAnalysisResponse,
+    ColorLanguage,
+    DetectionResult
+} from '../interfaces/detection.interface';
+import { analyzePixels } from '../utils/color-analysis';
+import { ImagePreprocessingService, PreprocessedImage } from './image-preprocessing.service';
+
+// Kind of analysis, for image preprocessing
+const KIND = 'color-analysis';
+
+// Regions are downscaled to this grid before clustering
+const GRID_SIZE = 64;
+
+// Share of each side of a region left out in clothing mode, where the background usually is
+const CLOTHING_INSET = 0.15;
+
+// Part of a person's box where the upper-body clothing is, as fractions of the box
+const TORSO = { left: 0.2, right: 0.8, top: 0.2, bottom: 0.6 };
+
+/**
+ * Service for naming the dominant colors of an image or a region and telling its pattern
+ * (solid, striped, checked...). Detected people are described by the colors of their clothing.
+ */
+export class ColorAnalysisService {
+    private static instance: ColorAnalysisService;
+    private imagePreprocessing: ImagePreprocessingService = ImagePreprocessingService.getInstance();
+
+    private constructor() { }
+
+    /**
+     * Gets the singleton instance of the service
+     */
+    public static getInstance(): ColorAnalysisService {
+        if (!ColorAnalysisService.instance) {
+            ColorAnalysisService.instance = new ColorAnalysisService();
+        }
+        return ColorAnalysisService.instance;
+    }
+
+    /**
+     * Analyze the colors of an image, or of a region of it
+     * @param imageBuffer The image buffer to process
+     * @param options Region, mode, language and number of colors to name
+     */
+    public async analyzeColors(imageBuffer: Buffer, options: ColorAnalysisOptions = {}): Promise<ColorAnalysisResponse> {
+        const startTime = Date.now();
+        const mode = options.mode || 'general';
+
+        const preprocessed = await this.imagePreprocessing.normalize(imageBuffer, KIND, 'palette');
+        const { width, height } = preprocessed.info.originalSize;
+        const region: BoundingBox = options.box
+            ? {
+                xmin: Math.max(0, Math.min(options.box.xmin, width - 1)),
+                ymin: Math.max(0, Math.min(options.box.ymin, height - 1)),
+                xmax: Math.min(width, Math.max(options.box.xmax, 1)),
+                ymax: Math.min(height, Math.max(options.box.ymax, 1))
+            }
+            : { xmin: 0, ymin: 0, xmax: width, ymax: height };
+
+        const analysis = await this.analyzeRegion(preprocessed, region, mode, options.language, options.maxColors);
+
+        return {
+            ...analysis,
+            mode,
+            region,
+            processingTime: Date.now() - startTime,
+            preprocessing: preprocessed.info
+        };
+    }
+
+    /**
+     * Analyze the colors of detected objects; people are described by the clothing on their upper body
+     * @param image The preprocessed image the objects were detected in
+     * @param detections Detections, with boxes in the coordinates of the upright original image
+     */
+    public async analyzeDetections(
+        image: PreprocessedImage,
+        detections: DetectionResult[],
+        language?: ColorLanguage
+    ): Promise<ColorAnalysis[]> {
+        const analyses: ColorAnalysis[] = [];
+        for (const detection of detections) {
+            const { box } = detection;
+            if ((detection.originalLabel ?? detection.label) === 'person') {
+                const width = box.xmax - box.xmin;
+                const height = box.ymax - box.ymin;
+                const torso: BoundingBox = {
+                    xmin: box.xmin + width * TORSO.left,
+                    ymin: box.ymin + height * TORSO.top,
+                    xmax: box.xmin + width * TORSO.right,
+                    ymax: box.ymin + height * TORSO.bottom
+                };
+                analyses.push(await this.analyzeRegion(image, torso, 'clothing', language));
+            } else {
+                analyses.push(await this.analyzeRegion(image, box, 'general', language));
+            }
+        }
+        return analyses;
+    }
+
+    /**
+     * Dominant colors and pattern of a region of a preprocessed image
+     * @param box Region in the coordinates of the upright original image
+     */
+    private async analyzeRegion(
+        image: PreprocessedImage,
+        box: BoundingBox,
+        mode: 'general' | 'clothing',
+        language?: ColorLanguage,
+        maxColors?: number
+    ): Promise<ColorAnalysis> {
+        // From the coordinates of the original to those of the analyzed image
+        const { info } = image;
+        const scaleX = info.size.width / info.originalSize.width;
+        const scaleY = info.size.height / info.originalSize.height;
+        const inset = mode === 'clothing' ? CLOTHING_INSET : 0;
+        const insetX = (box.xmax - box.xmin) * inset;
+        const insetY = (box.ymax - box.ymin) * inset;
+
+        const left = Math.min(info.size.width - 1, Math.max(0, Math.floor((box.xmin + insetX) * scaleX)));
+        const top = Math.min(info.size.height - 1, Math.max(0, Math.floor((box.ymin + insetY) * scaleY)));
+        const right = Math.min(info.size.width, Math.max(left + 1, Math.ceil((box.xmax - insetX) * scaleX)));
+        const bottom = Math.min(info.size.height, Math.max(top + 1, Math.ceil((box.ymax - insetY) * scaleY)));
+
+        const { data, info: raw } = await sharp(image.buffer)
+            .extract({ left, top, width: Math.max(1, right - left), height: Math.max(1, bottom - top) })
+            // Sampled rather than averaged, so the edges of stripes don't blend into colors of their own
+            .resize(GRID_SIZE, GRID_SIZE, { fit: 'fill', kernel: 'nearest' })
+            .removeAlpha()
+            .raw()
+            .toBuffer({ resolveWithObject: true });
+
+        return analyzePixels(
+            { data, width: raw.width, height: raw.height, channels: raw.channels },
+            { mode, language, maxColors }
+        );
+    }
+}
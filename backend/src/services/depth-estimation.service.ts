@@ -0,0 +1,218 @@
+import { pipeline } from '@huggingface/transformers';
+import {
+    DepthEstimationOptions,
+    DepthEstimationResponse,
+    DetectionResponse
+} from '../interfaces/detection.interface';
+import { decodeImage } from '../utils/image-decode';
+import { buildDepthGrid, DepthMap, describeDistance, measureBoxCloseness, summarizeDistances } from '../utils/depth-map';
+import { InferenceQueueService, QueueFullError } from './inference-queue.service';
+import { ModelLease, ModelManagerService } from './model-manager.service';
+import { ImagePreprocessingService } from './image-preprocessing.service';
+import { ObjectDetectionService } from './object-detection.service';
+
+// Define valid dtype types
+type ValidDtype = 'fp32' | 'fp16' | 'q8' | 'int8' | 'uint8' | 'q4' | 'bnb4' | 'q4f16';
+
+// Kind of the depth models in the model manager
+const MODEL_KIND = 'depth-estimation';
+
+/**
+ * Service for monocular depth estimation with local transformers.js models.
+ * The depth map is reduced to a coarse grid and, combined with object detection,
+ * to a relative distance per detected object ("chair, about 2 steps ahead").
+ */
+export class DepthEstimationService {
+    private static instance: DepthEstimationService;
+    private currentModelKey: string | null = null;
+    private modelManager: ModelManagerService = ModelManagerService.getInstance();
+    private inferenceQueue: InferenceQueueService = InferenceQueueService.getInstance();
+    private imagePreprocessing: ImagePreprocessingService = ImagePreprocessingService.getInstance();
+    private detectionService: ObjectDetectionService = ObjectDetectionService.getInstance();
+
+    // Default depth model - can be configured via env var
+    private DEFAULT_MODEL = process.env.DEPTH_MODEL || 'onnx-community/depth-anything-v2-small';
+    private DEFAULT_DTYPE: ValidDtype = 'fp32';
+    private DEFAULT_GRID_ROWS = 6;
+    private DEFAULT_GRID_COLS = 8;
+
+    // Valid quantization types
+    private VALID_DTYPES: ValidDtype[] = ['fp32', 'fp16', 'q8', 'int8', 'uint8', 'q4', 'bnb4', 'q4f16'];
+
+    private constructor() {
+        // Models listed in PRELOAD_MODELS as "depth-estimation" or "depth-estimation:model"
+        this.modelManager.registerPreloader(MODEL_KIND, modelName => this.loadModel(modelName));
+    }
+
+    /**
+     * Gets the singleton instance of the service
+     */
+    public static getInstance(): DepthEstimationService {
+        if (!DepthEstimationService.instance) {
+            DepthEstimationService.instance = new DepthEstimationService();
+        }
+        return DepthEstimationService.instance;
+    }
+
+    /**
+     * Get the key for a model+dtype combination
+     */
+    private getModelKey(modelName: string, dtype: string): string {
+        return `${modelName}|||${dtype}`;
+    }
+
+    /**
+     * Get the depth model used when none is given
+     */
+    public getDefaultModel(): string {
+        return this.DEFAULT_MODEL;
+    }
+
+    /**
+     * Get information about the most recently used depth model, if it is still loaded
+     */
+    public getCurrentModelInfo(): { modelName: string, dtype: string } | null {
+        if (!this.currentModelKey || !this.modelManager.isLoaded(MODEL_KIND, this.currentModelKey)) {
+            return null;
+        }
+
+        const [modelName, dtype] = this.currentModelKey.split('|||');
+        return { modelName, dtype };
+    }
+
+    /**
+     * Get a depth model from the model manager, loading it if needed.
+     * The model can't be evicted until the lease is released.
+     */
+    private async acquireModel(modelName: string, dtype: string): Promise<ModelLease<any>> {
+        const validatedDtype = this.VALID_DTYPES.includes(dtype as ValidDtype)
+            ? (dtype as ValidDtype)
+            : this.DEFAULT_DTYPE;
+
+        if (validatedDtype !== dtype) {
+            console.warn(`Invalid dtype: ${dtype}, using default: ${this.DEFAULT_DTYPE}`);
+        }
+
+        const modelKey = this.getModelKey(modelName, validatedDtype);
+        this.currentModelKey = modelKey;
+
+        return this.modelManager.acquire(MODEL_KIND, modelKey, async () => {
+            console.log(`Loading depth model: ${modelName} with dtype: ${validatedDtype}`);
+            try {
+                return await pipeline('depth-estimation', modelName, {
+                    dtype: validatedDtype
+                });
+            } catch (error) {
+                console.error(`Error loading depth model ${modelName} (${validatedDtype}):`, error);
+                throw error;
+            }
+        }, { modelName, dtype: validatedDtype });
+    }
+
+    /**
+     * Load a depth model with the specified name and dtype
+     * @param modelName The HuggingFace model name to load
+     * @param dtype The quantization type (fp32, fp16, q8, q4, etc.)
+     * @returns The loaded depth-estimation pipeline
+     */
+    public async loadModel(modelName: string = this.DEFAULT_MODEL, dtype: string = this.DEFAULT_DTYPE): Promise<any> {
+        const lease = await this.acquireModel(modelName, dtype);
+        lease.release();
+        return lease.model;
+    }
+
+    /**
+     * Unload all depth models to free memory
+     */
+    public async unloadAllModels(): Promise<void> {
+        const count = this.modelManager.unloadAll([MODEL_KIND]);
+        this.currentModelKey = null;
+
+        console.log(`Unloaded ${count} depth models`);
+    }
+
+    /**
+     * Estimate the depth of an image and the relative distance of the objects in it
+     * @param imageBuffer The image buffer to process
+     * @param options Depth model, grid size and detection options
+     */
+    public async estimateDepth(
+        imageBuffer: Buffer,
+        options: DepthEstimationOptions = {}
+    ): Promise<DepthEstimationResponse> {
+        const startTime = Date.now();
+
+        const modelName = options.modelName || this.DEFAULT_MODEL;
+        const dtype = options.dtype || this.DEFAULT_DTYPE;
+        const rows = options.gridRows || this.DEFAULT_GRID_ROWS;
+        const cols = options.gridCols || this.DEFAULT_GRID_COLS;
+        const language = options.language || 'en';
+        const errors: DepthEstimationResponse['errors'] = {};
+
+        // Detection runs alongside; its boxes are in the coordinates of the upright original
+        const detectionPromise: Promise<DetectionResponse | null> = options.detect === false
+            ? Promise.resolve(null)
+            : this.detectionService.detectObjects(imageBuffer, { ...options.detection, priority: options.priority, language })
+                .catch(error => {
+                    if (error instanceof QueueFullError) {
+                        throw error;
+                    }
+                    errors.detection = error instanceof Error ? error.message : String(error);
+                    return null;
+                });
+        // Handled when awaited below; don't report it as unhandled if depth estimation fails first
+        detectionPromise.catch(() => undefined);
+
+        const preprocessed = await this.imagePreprocessing.normalize(imageBuffer, MODEL_KIND, modelName);
+
+        // Load the depth model, keeping it loaded until the estimation is done
+        const lease = await this.acquireModel(modelName, dtype);
+        const estimator = lease.model;
+
+        let depth: DepthMap;
+        try {
+            const image = await decodeImage(preprocessed.buffer);
+
+            console.log(`Running depth estimation with model ${modelName}, dtype: ${dtype}`);
+
+            const output: { depth: DepthMap } = await this.inferenceQueue.run(
+                `${MODEL_KIND}:${modelName}`,
+                () => estimator(image),
+                options.priority
+            );
+            depth = output.depth;
+        } catch (error: any) {
+            if (error instanceof QueueFullError) {
+                throw error;
+            }
+            console.error(`Error during depth estimation:`, error);
+
+            throw new Error(`Failed to estimate depth: ${error.message || 'Unknown error'}`);
+        } finally {
+            lease.release();
+        }
+
+        // A copy with distances, the detection may be shared with the result cache
+        const { originalSize } = preprocessed.info;
+        const detected = await detectionPromise;
+        const detection = detected && {
+            ...detected,
+            detections: detected.detections.map(item => ({
+                ...item,
+                distance: describeDistance(item, measureBoxCloseness(depth, item.box, originalSize), originalSize.width, language)
+            }))
+        };
+
+        return {
+            grid: buildDepthGrid(depth, rows, cols),
+            gridSize: { rows, cols },
+            detection,
+            summary: detection ? summarizeDistances(detection.detections, language) : '',
+            errors,
+            processingTime: Date.now() - startTime,
+            model: modelName,
+            dtype,
+            preprocessing: preprocessed.info
+        };
+    }
+}
@@ -0,0 +1,140 @@
+import PrismaService from '../database/prisma-service';
+import { Prisma } from '../generated/prisma';
+import { DetectionProfile, ObjectDetectionOptions } from '../interfaces/detection.interface';
+
+// Profiles a user may save
+export const MAX_DETECTION_PROFILES = 20;
+
+/**
+ * Thrown when a detection profile doesn't exist, or a new one would exceed MAX_DETECTION_PROFILES
+ */
+export class DetectionProfileError extends Error {
+    constructor(message: string, public readonly notFound: boolean = false) {
+        super(message);
+        this.name = 'DetectionProfileError';
+    }
+}
+
+/**
+ * Fill the detection options a request didn't set from a profile
+ */
+export function applyDetectionProfile(options: ObjectDetectionOptions, profile: DetectionProfile): ObjectDetectionOptions {
+    const applied: ObjectDetectionOptions = { ...options };
+    for (const [key, value] of Object.entries(profile) as [keyof DetectionProfile, unknown][]) {
+        if (applied[key] === undefined && value !== undefined && value !== null) {
+            (applied as Record<string, unknown>)[key] = value;
+        }
+    }
+    return applied;
+}
+
+/**
+ * Service for the named detection profiles users keep in their AppSettings,
+ * e.g. "street" keeping only vehicles and people, or "kitchen" with a lower threshold for cups.
+ * The active profile applies to detection requests that name none.
+ */
+export class DetectionProfileService {
+    private static instance: DetectionProfileService;
+    private prismaService: PrismaService;
+
+    private constructor() {
+        this.prismaService = PrismaService.getInstance();
+    }
+
+    /**
+     * Get the singleton instance of DetectionProfileService
+     */
+    public static getInstance(): DetectionProfileService {
+        if (!DetectionProfileService.instance) {
+            DetectionProfileService.instance = new DetectionProfileService();
+        }
+        return DetectionProfileService.instance;
+    }
+
+    /**
+     * Profiles of a user by name, and the name of the active one
+     */
+    public async listProfiles(userId: string): Promise<{ profiles: Record<string, DetectionProfile>; active: string | null }> {
+        const settings = await this.prismaService.prisma.appSettings.findUnique({
+            where: { userId },
+            select: { detectionProfiles: true, activeDetectionProfile: true }
+        });
+        return {
+            profiles: (settings?.detectionProfiles as Record<string, DetectionProfile> | null) || {},
+            active: settings?.activeDetectionProfile || null
+        };
+    }
+
+    /**
+     * Create or replace a profile
+     * @throws DetectionProfileError If the user already has MAX_DETECTION_PROFILES other profiles
+     */
+    public async saveProfile(userId: string, name: string, profile: DetectionProfile): Promise<DetectionProfile> {
+        const { profiles } = await this.listProfiles(userId);
+        if (!Object.hasOwn(profiles, name) && Object.keys(profiles).length >= MAX_DETECTION_PROFILES) {
+            throw new DetectionProfileError(`At most ${MAX_DETECTION_PROFILES} detection profiles can be saved`);
+        }
+
+        await this.writeProfiles(userId, { ...profiles, [name]: profile });
+        return profile;
+    }
+
+    /**
+     * Delete a profile; if it was active, no profile is active afterwards
+     * @returns True if the profile existed
+     */
+    public async deleteProfile(userId: string, name: string): Promise<boolean> {
+        const { profiles, active } = await this.listProfiles(userId);
+        if (!Object.hasOwn(profiles, name)) {
+            return false;
+        }
+
+        const { [name]: _deleted, ...remaining } = profiles;
+        await this.writeProfiles(userId, remaining, active === name ? null : undefined);
+        return true;
+    }
+
+    /**
+     * Make a profile the one applied when a request names none, or clear it with null
+     * @throws DetectionProfileError If the profile doesn't exist
+     */
+    public async setActiveProfile(userId: string, name: string | null): Promise<void> {
+        const { profiles } = await this.listProfiles(userId);
+        if (name !== null && !Object.hasOwn(profiles, name)) {
+            throw new DetectionProfileError(`Unknown detection profile: ${name}`, true);
+        }
+        await this.writeProfiles(userId, profiles, name);
+    }
+
+    /**
+     * The profile a detection request uses: the named one, or else the active one
+     * @returns The profile and its name, or null if no name is given and none is active
+     * @throws DetectionProfileError If the named profile doesn't exist
+     */
+    public async resolveProfile(userId: string, name?: string): Promise<{ name: string; profile: DetectionProfile } | null> {
+        const { profiles, active } = await this.listProfiles(userId);
+        if (name) {
+            if (!Object.hasOwn(profiles, name)) {
+                throw new DetectionProfileError(`Unknown detection profile: ${name}`, true);
+            }
+            return { name, profile: profiles[name] };
+        }
+        return active && profiles[active] ? { name: active, profile: profiles[active] } : null;
+    }
+
+    /**
+     * Store the profiles, creating the settings of users who have none yet
+     * @param active New active profile, or undefined to keep it
+     */
+    private async writeProfiles(userId: string, profiles: Record<string, DetectionProfile>, active?: string | null): Promise<void> {
+        const data = {
+            detectionProfiles: profiles as unknown as Prisma.InputJsonValue,
+            ...(active !== undefined ? { activeDetectionProfile: active } : {})
+        };
+        await this.prismaService.prisma.appSettings.upsert({
+            where: { userId },
+            create: { userId, ...data },
+            update: data
+        });
+    }
+}
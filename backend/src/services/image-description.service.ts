@@ -1,55 +1,66 @@
-import { ImageDescriptionOptions, ImageDescriptionResponse } from '../interfaces/detection.interface';
-import fetch from 'node-fetch';
-import * as dotenv from 'dotenv';
-dotenv.config();
+import { DescriptionModelInfo, ImageDescriptionOptions, ImageDescriptionResponse, VisualQuestionTurn } from '../interfaces/detection.interface';
+import { IVisionLanguageProvider, VisionChatMessage, VisionGenerationOptions } from '../interfaces/IVisionLanguageProvider';
+import { createVisionLanguageProvider } from '../providers';
+import { Config } from '../config/Config';
+import { ResultCacheService } from './result-cache.service';
+import { InferenceQueueService, QueueFullError } from './inference-queue.service';
+import { ModelRegistryService } from './model-registry.service';
+import { ImagePreprocessingService, PreprocessedImage } from './image-preprocessing.service';
+import { Model } from '../generated/prisma';
+import { languageInstruction } from '../utils/language';
 
 /**
- * Types of models that can be loaded (now refers to aliases or names for models configured on the llama.cpp server)
+ * Types of models that can be used (names of models served by the configured provider)
  */
 type ModelType = string;
 
 /**
- * Interface for the expected success response from llama.cpp /completion
+ * A served model with its model registry entry, if it has one
  */
-interface LlamaCppCompletionResponse {
-    content: string;
-    slot_id?: number;
-    stop?: boolean;
-    model?: string;
-    tokens_predicted?: number;
-    timings?: object;
+export interface ListedDescriptionModel extends DescriptionModelInfo {
+    metadata: Model | null;
 }
 
 /**
- * Interface for chat completions response
+ * Thrown when a model that the vision-language server doesn't serve is made the default
  */
-interface LlamaCppChatResponse {
-    choices: Array<{
-        message: {
-            content: string;
-            role: string;
-        };
-        finish_reason: string;
-    }>;
-    usage?: {
-        prompt_tokens: number;
-        completion_tokens: number;
-        total_tokens: number;
-    };
+export class ModelNotServedError extends Error {
+    constructor(public readonly modelType: string, providerType: string) {
+        super(`Model '${modelType}' is not served by the ${providerType} server`);
+        this.name = 'ModelNotServedError';
+    }
 }
 
 /**
- * Service for performing image description using a llama.cpp server
+ * Service for performing image description through the configured vision-language provider
+ * (OpenAI-compatible chat, llama.cpp /completion or Ollama, selected with VLM_PROVIDER)
  */
 export class ImageDescriptionService {
     private static instance: ImageDescriptionService;
-    private currentModelKey: string | null = null;
-
-    // Default model alias and server configuration from .env
-    private DEFAULT_MODEL: ModelType = process.env.LLAMA_DEFAULT_MODEL || 'default-model';
-    private LLAMA_SERVER_URL: string = process.env.LLAMA_SERVER_URL || 'http://localhost:8080';
+    private provider: IVisionLanguageProvider;
+    private resultCache: ResultCacheService;
+    private inferenceQueue: InferenceQueueService;
+    private modelRegistry: ModelRegistryService;
+    private imagePreprocessing: ImagePreprocessingService;
+    private modelCache: { models: DescriptionModelInfo[], fetchedAt: number } | null = null;
+
+    // Default model from configuration
+    private DEFAULT_MODEL: ModelType;
     private DEFAULT_PROMPT = 'Describe this image in detail.';
     private DEFAULT_MAX_NEW_TOKENS = 150;
+    private QUESTION_SYSTEM_PROMPT = 'You are helping a blind person understand a photo they took. ' +
+        'Answer their questions about the image briefly and concretely. ' +
+        'If the image does not show the answer, say so.';
+
+    private constructor() {
+        const config = Config.getInstance().visionLanguage;
+        this.provider = createVisionLanguageProvider(config);
+        this.DEFAULT_MODEL = config.model;
+        this.resultCache = ResultCacheService.getInstance();
+        this.inferenceQueue = InferenceQueueService.getInstance();
+        this.modelRegistry = ModelRegistryService.getInstance();
+        this.imagePreprocessing = ImagePreprocessingService.getInstance();
+    }
 
     /**
      * Gets the singleton instance of the service
@@ -57,290 +68,366 @@ export class ImageDescriptionService {
     public static getInstance(): ImageDescriptionService {
         if (!ImageDescriptionService.instance) {
             ImageDescriptionService.instance = new ImageDescriptionService();
-            ImageDescriptionService.instance.currentModelKey = ImageDescriptionService.instance.getModelKey(ImageDescriptionService.instance.DEFAULT_MODEL);
         }
         return ImageDescriptionService.instance;
     }
 
     /**
-     * Get the key for a model (can be just the model name/alias)
+     * Get the provider used for generation
      */
-    private getModelKey(modelType: ModelType): string {
-        return `image-description-${modelType}`;
+    public getProvider(): IVisionLanguageProvider {
+        return this.provider;
     }
 
     /**
-     * Get information about the currently configured model on the llama.cpp server
+     * Get the model used when a request doesn't name one
      */
-    public getCurrentModelInfo(): { modelType: ModelType, modelId: string } | null {
-        // Return the actual model that's loaded on the server
-        return {
-            modelType: 'SmolVLM2-2.2B-Instruct',
-            modelId: 'SmolVLM2-2.2B-Instruct'
-        };
+    public getDefaultModel(): ModelType {
+        return this.DEFAULT_MODEL;
     }
 
     /**
-     * Get a list of available models
+     * Compare a requested model name with a served model id.
+     * Ollama reports untagged models with an implicit ":latest" tag.
      */
-    public getAvailableModels(): { modelType: ModelType, modelId: string }[] {
-        return [
-            {
-                modelType: 'SmolVLM2-2.2B-Instruct',
-                modelId: 'SmolVLM2-2.2B-Instruct'
+    private matchesModel(modelId: string, modelType: ModelType): boolean {
+        return modelId === modelType || modelId === `${modelType}:latest`;
+    }
+
+    /**
+     * Get the models served by the provider's server.
+     * The list is cached for VLM_MODELS_CACHE_TTL; a stale list is returned if the server can't be reached.
+     * @param forceRefresh Query the server even if the cached list is still fresh
+     */
+    public async getAvailableModels(forceRefresh = false): Promise<DescriptionModelInfo[]> {
+        const { modelsCacheTTL } = Config.getInstance().visionLanguage;
+        const isFresh = this.modelCache && Date.now() - this.modelCache.fetchedAt < modelsCacheTTL;
+
+        if (!forceRefresh && isFresh) {
+            return this.modelCache!.models;
+        }
+
+        try {
+            const served = await this.provider.listModels();
+            const models = served.map(model => ({
+                modelType: model.id,
+                modelId: model.id,
+                ownedBy: model.ownedBy,
+                contextSize: model.contextSize,
+                multimodal: model.multimodal
+            }));
+            this.modelCache = { models, fetchedAt: Date.now() };
+            return models;
+        } catch (error) {
+            if (this.modelCache) {
+                console.warn(`Could not refresh models from ${this.provider.type} server, using cached list:`, error);
+                return this.modelCache.models;
             }
-        ];
+            throw error;
+        }
     }
 
     /**
-     * Load a model (Placeholder - llama.cpp server handles loading)
+     * Get the served models for the listing routes: models disabled in the model registry are left out,
+     * the others carry their registry entry. If the registry can't be read the served models are listed as is.
+     * @param forceRefresh Query the server even if the cached list is still fresh
      */
-    public async loadModel(
-        modelType: ModelType = this.DEFAULT_MODEL,
-        _dtype?: Record<string, string>
-    ): Promise<void> {
-        const modelKey = this.getModelKey(modelType);
-        this.currentModelKey = modelKey;
-        console.log(`Connecting to llama.cpp server, which should have model '${modelType}' loaded.`);
-        return Promise.resolve();
+    public async getListedModels(forceRefresh = false): Promise<ListedDescriptionModel[]> {
+        const models = await this.getAvailableModels(forceRefresh);
+
+        let registered: Model[] = [];
+        try {
+            registered = await this.modelRegistry.getRegisteredModels('image-description');
+        } catch (error) {
+            console.warn('Could not read image description models from the model registry:', error);
+        }
+
+        return models
+            .map(model => ({
+                ...model,
+                metadata: registered.find(entry => this.matchesModel(model.modelId, entry.name)) || null
+            }))
+            .filter(model => model.metadata?.enabled !== false);
     }
 
     /**
-     * Switch model (Placeholder - server typically configured with one model at a time)
+     * Get information about the default model, or null if the server doesn't serve it
      */
-    public async switchModel(
-        modelType: ModelType,
-        _dtype?: Record<string, string>
-    ): Promise<void> {
-        console.warn(`Switching model to '${modelType}'. Ensure llama.cpp server is configured for this model.`);
-        this.currentModelKey = this.getModelKey(modelType);
-        process.env.LLAMA_DEFAULT_MODEL = modelType;
-        this.DEFAULT_MODEL = modelType;
-        return Promise.resolve();
+    public async getCurrentModelInfo(): Promise<DescriptionModelInfo | null> {
+        const models = await this.getAvailableModels();
+        return models.find(model => this.matchesModel(model.modelId, this.DEFAULT_MODEL)) || null;
     }
 
     /**
-     * Unload a model (Placeholder)
+     * Explain why a model can't be used for image description, or return null if it can.
+     * This fails open: when the server's model list can't be fetched the model is given the benefit
+     * of the doubt, and a request for a model the server doesn't have fails when it reaches the server.
+     */
+    public async getModelRejectionReason(modelType: ModelType): Promise<string | null> {
+        const registryReason = await this.modelRegistry.getModelRejectionReason(['image-description'], modelType);
+        if (registryReason) {
+            return registryReason;
+        }
+
+        let models: DescriptionModelInfo[];
+        try {
+            models = await this.getAvailableModels();
+        } catch (error) {
+            console.warn(`Could not verify model '${modelType}' against the ${this.provider.type} server:`, error);
+            return null;
+        }
+
+        const model = models.find(candidate => this.matchesModel(candidate.modelId, modelType));
+        if (!model) {
+            return `Model '${modelType}' is not served by the ${this.provider.type} server`;
+        }
+        if (model.multimodal === false) {
+            return `Model '${modelType}' does not accept images`;
+        }
+        return null;
+    }
+
+    /**
+     * Load a model (the provider's server handles loading; this checks it is reachable)
+     */
+    public async loadModel(modelType: ModelType = this.DEFAULT_MODEL): Promise<void> {
+        console.log(`Connecting to ${this.provider.type} server, which should have model '${modelType}' loaded.`);
+        await this.provider.load();
+    }
+
+    /**
+     * Make a served model the default for requests that don't name one.
+     * The server itself is not reconfigured.
+     */
+    public async switchModel(modelType: ModelType): Promise<DescriptionModelInfo> {
+        const models = await this.getAvailableModels(true);
+        const model = models.find(candidate => this.matchesModel(candidate.modelId, modelType));
+
+        if (!model) {
+            throw new ModelNotServedError(modelType, this.provider.type);
+        }
+
+        console.log(`Default image description model switched from '${this.DEFAULT_MODEL}' to '${model.modelId}'`);
+        this.DEFAULT_MODEL = model.modelId;
+        return model;
+    }
+
+    /**
+     * Ask the server to release a model's memory.
+     * Resolves to false when the provider's server has no way to unload models.
      */
     public async unloadModel(modelType: ModelType): Promise<boolean> {
-        console.warn(`Request to unload model '${modelType}'. This is not directly managed by the client for llama.cpp server.`);
-        if (this.currentModelKey === this.getModelKey(modelType)) {
-            this.currentModelKey = null;
+        const unloaded = await this.provider.unloadModel(modelType);
+        if (unloaded) {
+            console.log(`Model '${modelType}' unloaded from ${this.provider.type} server`);
         }
-        return Promise.resolve(true);
+        return unloaded;
     }
 
     /**
-     * Unload all models (Placeholder)
+     * Check whether the provider's server is reachable
      */
-    public async unloadAllModels(): Promise<void> {
-        console.warn("Request to unload all models. This is not directly managed by the client for llama.cpp server.");
-        this.currentModelKey = null;
-        return Promise.resolve();
+    public async checkServerStatus(): Promise<boolean> {
+        return this.provider.checkHealth();
     }
 
     /**
-     * Create a proper chat template for multimodal models
+     * Map description options to provider generation options
      */
-    private createChatTemplate(prompt: string): string {
-        // Include the image placeholder [img-1] in the prompt
-        return `USER: [img-1] ${prompt}\nASSISTANT:`;
+    private toGenerationOptions(options: ImageDescriptionOptions, signal?: AbortSignal): VisionGenerationOptions {
+        return {
+            model: options.modelName || this.DEFAULT_MODEL,
+            maxNewTokens: options.maxNewTokens || this.DEFAULT_MAX_NEW_TOKENS,
+            temperature: options.doSample ? 0.7 : 0.1,
+            topP: 0.9,
+            signal
+        };
     }
 
     /**
-     * Describe an image using the llama.cpp server with chat completions endpoint
+     * Run a generation once the model has a free slot in the inference queue
+     */
+    private enqueue<T>(options: ImageDescriptionOptions, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        const model = options.modelName || this.DEFAULT_MODEL;
+        return this.inferenceQueue.run(`image-description:${model}`, task, options.priority, signal);
+    }
+
+    /**
+     * Normalize an image for the model: upright, without metadata, downscaled and in a format every server reads
+     */
+    private prepareImage(imageBuffer: Buffer, options: ImageDescriptionOptions): Promise<PreprocessedImage> {
+        return this.imagePreprocessing.normalize(imageBuffer, 'image-description', options.modelName || this.DEFAULT_MODEL);
+    }
+
+    /**
+     * Add the instruction to answer in the requested language to a prompt
+     */
+    private withLanguage(prompt: string, options: ImageDescriptionOptions): string {
+        const instruction = languageInstruction(options.language);
+        return instruction ? `${prompt}\n${instruction}` : prompt;
+    }
+
+    /**
+     * Build the single-turn description conversation
+     */
+    private buildDescriptionMessages(imageBuffer: Buffer, prompt: string, options: ImageDescriptionOptions): VisionChatMessage[] {
+        return [{ role: 'user', content: this.withLanguage(prompt, options), images: [imageBuffer] }];
+    }
+
+    /**
+     * Describe an image
      */
     public async describeImage(
         imageBuffer: Buffer,
         options: ImageDescriptionOptions = {}
     ): Promise<ImageDescriptionResponse> {
         const startTime = Date.now();
+        const prompt = options.prompt || this.DEFAULT_PROMPT;
+
+        // Return the earlier description if this image was already described with the same settings
+        const cacheKey = this.resultCache.buildKey('image-description', imageBuffer, {
+            modelName: options.modelName || this.DEFAULT_MODEL,
+            prompt,
+            language: options.language || 'en',
+            maxNewTokens: options.maxNewTokens,
+            doSample: options.doSample || false
+        });
+        const cached = await this.resultCache.get<ImageDescriptionResponse>(cacheKey);
+        if (cached) {
+            console.log(`Returning cached description from model ${cached.model}`);
+            return { ...cached, processingTime: Date.now() - startTime, cached: true };
+        }
+
+        // Images that can't be read are rejected as they are, not as a failed generation
+        const image = await this.prepareImage(imageBuffer, options);
 
         try {
-            // Use the actual model name from the server
-            const modelIdentifier = 'SmolVLM2-2.2B-Instruct';
-            const prompt = options.prompt || this.DEFAULT_PROMPT;
-            const maxNewTokens = options.maxNewTokens || this.DEFAULT_MAX_NEW_TOKENS;
-            const temperature = options.doSample ? 0.7 : 0.1;
-
-            // Convert image buffer to base64
-            const imageBase64 = imageBuffer.toString('base64');
-            const mimeType = this.detectMimeType(imageBuffer);
-
-            // Use the chat completions API (OpenAI-compatible) which works reliably
-            const payload = {
-                model: modelIdentifier,
-                messages: [
-                    {
-                        role: "user",
-                        content: [
-                            {
-                                type: "text",
-                                text: prompt
-                            },
-                            {
-                                type: "image_url",
-                                image_url: {
-                                    url: `data:${mimeType};base64,${imageBase64}`
-                                }
-                            }
-                        ]
-                    }
-                ],
-                max_tokens: maxNewTokens,
-                temperature: temperature,
-                top_p: 0.9,
-                stream: false
+            console.log(`Sending description request to ${this.provider.type} server, prompt: ${prompt}`);
+
+            const result = await this.enqueue(options, () => this.provider.generate(
+                this.buildDescriptionMessages(image.buffer, prompt, options),
+                this.toGenerationOptions(options)
+            ));
+
+            const response: ImageDescriptionResponse = {
+                description: result.text,
+                processingTime: result.processingTime,
+                model: result.model,
+                prompt,
+                preprocessing: image.info
             };
+            await this.resultCache.set(cacheKey, response);
 
-            const serverUrl = `${this.LLAMA_SERVER_URL}/v1/chat/completions`;
-            console.log(`Sending request to llama.cpp server: ${serverUrl}`);
-            console.log(`Request prompt: ${prompt}`);
-            console.log(`Image data size: ${imageBase64.length} chars`);
-
-            const response = await fetch(serverUrl, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify(payload),
-            });
-
-            if (!response.ok) {
-                const errorBody = await response.text();
-                console.error('Error response from llama.cpp server:', errorBody);
-                throw new Error(`llama.cpp server request failed with status ${response.status}: ${errorBody}`);
+            return response;
+        } catch (error: any) {
+            if (error instanceof QueueFullError) {
+                throw error;
             }
+            console.error(`Error during image description with ${this.provider.type} provider:`, error);
+            throw new Error(`Failed to describe image via ${this.provider.type}: ${error.message || 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Describe an image with a streamed generation, relaying tokens as they are generated
+     * @param imageBuffer The image buffer to describe
+     * @param options Description options
+     * @param onToken Called with every generated text fragment
+     * @param signal Optional abort signal (e.g. when the client disconnects)
+     */
+    public async describeImageStream(
+        imageBuffer: Buffer,
+        options: ImageDescriptionOptions = {},
+        onToken: (token: string) => void,
+        signal?: AbortSignal
+    ): Promise<ImageDescriptionResponse> {
+        const prompt = options.prompt || this.DEFAULT_PROMPT;
+
+        // Images that can't be read are rejected as they are, not as a failed generation
+        const image = await this.prepareImage(imageBuffer, options);
 
-            const result = await response.json() as LlamaCppChatResponse;
-            console.log('llama.cpp server response:', result);
+        try {
+            console.log(`Sending streaming description request to ${this.provider.type} server`);
 
-            const description = result.choices?.[0]?.message?.content || '';
-            const processingTime = Date.now() - startTime;
+            const result = await this.enqueue(options, () => this.provider.generateStream(
+                this.buildDescriptionMessages(image.buffer, prompt, options),
+                this.toGenerationOptions(options, signal),
+                onToken
+            ), signal);
 
             return {
-                description: description.trim(),
-                processingTime,
-                model: modelIdentifier,
-                prompt: options.prompt || this.DEFAULT_PROMPT
+                description: result.text,
+                processingTime: result.processingTime,
+                model: result.model,
+                prompt,
+                preprocessing: image.info
             };
-
         } catch (error: any) {
-            console.error(`Error during image description with llama.cpp server:`, error);
-            throw new Error(`Failed to describe image via llama.cpp: ${error.message || 'Unknown error'}`);
+            if (error instanceof QueueFullError) {
+                throw error;
+            }
+            console.error(`Error during streamed image description with ${this.provider.type} provider:`, error);
+            throw new Error(`Failed to stream image description via ${this.provider.type}: ${error.message || 'Unknown error'}`);
         }
     }
 
     /**
-     * Alternative method using chat completions API (OpenAI-compatible)
+     * Answer a follow-up question about an image, replaying the previous turns as chat history
+     * @param imageBuffer The image the conversation is about
+     * @param question The new question
+     * @param history Earlier questions and answers, oldest first
+     * @param options Generation options (the prompt option is ignored)
      */
-    public async describeImageWithChatAPI(
+    public async answerQuestion(
         imageBuffer: Buffer,
+        question: string,
+        history: VisualQuestionTurn[] = [],
         options: ImageDescriptionOptions = {}
     ): Promise<ImageDescriptionResponse> {
-        const startTime = Date.now();
+        const image = await this.prepareImage(imageBuffer, options);
 
         try {
-            const modelIdentifier = process.env.LLAMA_DEFAULT_MODEL || 'gpt-4-vision-preview';
-            const prompt = options.prompt || this.DEFAULT_PROMPT;
-            const maxNewTokens = options.maxNewTokens || this.DEFAULT_MAX_NEW_TOKENS;
-            const temperature = options.doSample ? 0.7 : 0.1;
-
-            // Convert image buffer to base64
-            const imageBase64 = imageBuffer.toString('base64');
-            const mimeType = this.detectMimeType(imageBuffer);
-
-            const payload = {
-                model: modelIdentifier,
-                messages: [
-                    {
-                        role: "user",
-                        content: [
-                            {
-                                type: "text",
-                                text: prompt
-                            },
-                            {
-                                type: "image_url",
-                                image_url: {
-                                    url: `data:${mimeType};base64,${imageBase64}`
-                                }
-                            }
-                        ]
-                    }
-                ],
-                max_tokens: maxNewTokens,
-                temperature: temperature,
-                top_p: 0.9
-            };
-
-            const serverUrl = `${this.LLAMA_SERVER_URL}/v1/chat/completions`;
-            console.log(`Sending chat API request to: ${serverUrl}`);
-
-            const response = await fetch(serverUrl, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify(payload),
+            // The image is attached once, to the first user message
+            const questions = [...history.map(turn => turn.question), question];
+            const messages: VisionChatMessage[] = [
+                { role: 'system', content: this.withLanguage(this.QUESTION_SYSTEM_PROMPT, options) }
+            ];
+            questions.forEach((text, index) => {
+                messages.push({
+                    role: 'user',
+                    content: text,
+                    images: index === 0 ? [image.buffer] : undefined
+                });
+                if (index < history.length) {
+                    messages.push({ role: 'assistant', content: history[index].answer });
+                }
             });
 
-            if (!response.ok) {
-                const errorBody = await response.text();
-                console.error('Error response from llama.cpp chat API:', errorBody);
-                throw new Error(`llama.cpp chat API request failed with status ${response.status}: ${errorBody}`);
-            }
-
-            const result = await response.json() as LlamaCppChatResponse;
-            console.log('llama.cpp chat API response:', result);
+            console.log(`Sending question with ${history.length} previous turns to ${this.provider.type} server`);
 
-            const description = result.choices?.[0]?.message?.content || '';
-            const processingTime = Date.now() - startTime;
+            const result = await this.enqueue(options, () => this.provider.generate(messages, this.toGenerationOptions(options)));
 
             return {
-                description: description.trim(),
-                processingTime,
-                model: modelIdentifier,
-                prompt: options.prompt || this.DEFAULT_PROMPT
+                description: result.text,
+                processingTime: result.processingTime,
+                model: result.model,
+                prompt: question,
+                preprocessing: image.info
             };
-
         } catch (error: any) {
-            console.error(`Error during image description with llama.cpp chat API:`, error);
-            throw new Error(`Failed to describe image via llama.cpp chat API: ${error.message || 'Unknown error'}`);
+            if (error instanceof QueueFullError) {
+                throw error;
+            }
+            console.error(`Error answering question with ${this.provider.type} provider:`, error);
+            throw new Error(`Failed to answer question via ${this.provider.type}: ${error.message || 'Unknown error'}`);
         }
     }
 
     /**
-     * Detect MIME type from image buffer
-     */
-    private detectMimeType(buffer: Buffer): string {
-        const header = buffer.toString('hex', 0, 4);
-
-        if (header.startsWith('ffd8')) return 'image/jpeg';
-        if (header.startsWith('8950')) return 'image/png';
-        if (header.startsWith('4749')) return 'image/gif';
-        if (header.startsWith('5249')) return 'image/webp';
-
-        return 'image/jpeg'; // Default fallback
-    }
-
-    /**
-     * Preload default model (Placeholder - Server handles this)
+     * Preload default model (the server handles loading; this checks the connection)
      */
     public async preloadDefaultModel(): Promise<void> {
-        console.log("Preload request: Ensuring connection to llama.cpp server.");
-        try {
-            // Try to ping the server
-            const healthCheckUrl = `${this.LLAMA_SERVER_URL}/health`;
-            const response = await fetch(healthCheckUrl);
-            if (!response.ok) {
-                console.warn(`Health check to ${healthCheckUrl} failed with status ${response.status}`);
-            } else {
-                console.log(`Health check to ${healthCheckUrl} successful.`);
-            }
-        } catch (error) {
-            console.warn(`Error during health check to ${this.LLAMA_SERVER_URL}:`, error);
-        }
+        console.log(`Preload request: Ensuring connection to ${this.provider.type} server.`);
         return this.loadModel();
     }
-}
\ No newline at end of file
+}
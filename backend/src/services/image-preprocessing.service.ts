@@ -0,0 +1,188 @@
+import sharp from 'sharp';
+import { Config, ImagePreprocessingConfig } from '../config/Config';
+import { BoundingBox, ImagePreprocessingInfo } from '../interfaces/detection.interface';
+
+/**
+ * An image ready for analysis, with how it was obtained from the upload
+ */
+export interface PreprocessedImage {
+    buffer: Buffer;
+    info: ImagePreprocessingInfo;
+}
+
+// Formats every model input path (transformers.js and the vision-language servers) can read
+const ANALYZABLE_FORMATS = ['jpeg', 'png', 'webp'];
+const JPEG_QUALITY = 90;
+
+// ISOBMFF brands of HEIF images coded with HEVC (HEIC), which the bundled libvips can't decode
+const HEVC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'hevm', 'hevs'];
+
+/**
+ * Error thrown for images in a format that can be recognized but not decoded
+ */
+export class UnsupportedImageFormatError extends Error {
+    constructor(public readonly format: string, message: string) {
+        super(message);
+        this.name = 'UnsupportedImageFormatError';
+    }
+}
+
+/**
+ * Whether an image is a HEIF file coded with HEVC, going by the major and compatible brands of its ftyp box
+ */
+function isHevcHeif(buffer: Buffer): boolean {
+    if (buffer.length < 12 || buffer.toString('ascii', 4, 8) !== 'ftyp') {
+        return false;
+    }
+    const boxSize = Math.min(buffer.readUInt32BE(0), buffer.length);
+    const brands = [buffer.toString('ascii', 8, 12)];
+    // The minor version (4 bytes) is followed by the compatible brands
+    for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+        brands.push(buffer.toString('ascii', offset, offset + 4));
+    }
+    return brands.some(brand => HEVC_BRANDS.includes(brand));
+}
+
+/**
+ * Service for normalizing uploaded images before any model sees them.
+ * Phone photos are turned upright according to their EXIF orientation, stripped of metadata
+ * (EXIF, GPS, XMP), downscaled to the maximum size of the model they are for and converted
+ * to JPEG, PNG or WebP when they arrive as e.g. AVIF or TIFF.
+ * Images that need none of this are passed through untouched. HEIC photos are rejected, as no HEVC decoder
+ * is bundled; iOS converts them to JPEG when shared with the "Most Compatible" camera setting.
+ */
+export class ImagePreprocessingService {
+    private static instance: ImagePreprocessingService;
+    private config: ImagePreprocessingConfig;
+
+    private constructor() {
+        this.config = Config.getInstance().imagePreprocessing;
+    }
+
+    /**
+     * Get the singleton instance of ImagePreprocessingService
+     */
+    public static getInstance(): ImagePreprocessingService {
+        if (!ImagePreprocessingService.instance) {
+            ImagePreprocessingService.instance = new ImagePreprocessingService();
+        }
+        return ImagePreprocessingService.instance;
+    }
+
+    /**
+     * Longest side images for a model are downscaled to: configured for the kind and model, the model or the kind,
+     * or the default; 0 keeps the full size
+     */
+    public getMaxDimension(kind: string, model: string): number {
+        const limits = this.config.maxDimensions;
+        return limits[`${kind}:${model}`] ?? limits[model] ?? limits[kind] ?? this.config.maxDimension;
+    }
+
+    /**
+     * Reject images in a format that is recognized but can't be decoded
+     * @throws UnsupportedImageFormatError for HEIC images
+     */
+    public assertSupportedFormat(imageBuffer: Buffer): void {
+        if (isHevcHeif(imageBuffer)) {
+            throw new UnsupportedImageFormatError('heic', 'HEIC images are not supported, send the photo as JPEG, PNG, WebP or AVIF');
+        }
+    }
+
+    /**
+     * Normalize an uploaded image for a model
+     * @param imageBuffer The uploaded image
+     * @param kind Kind of analysis, e.g. 'object-detection'
+     * @param model Model the image is for
+     * @throws UnsupportedImageFormatError for HEIC images
+     * @throws If the image can't be decoded
+     */
+    public async normalize(imageBuffer: Buffer, kind: string, model: string): Promise<PreprocessedImage> {
+        this.assertSupportedFormat(imageBuffer);
+
+        let metadata: sharp.Metadata;
+        try {
+            metadata = await sharp(imageBuffer).metadata();
+        } catch (error) {
+            throw new Error(`Unsupported or corrupt image: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        if (!metadata.format || !metadata.width || !metadata.height) {
+            throw new Error('Unsupported or corrupt image: size and format could not be read');
+        }
+
+        // Orientations 5-8 are rotated by 90 degrees, so width and height swap once upright
+        const orientation = metadata.orientation || 1;
+        const upright = orientation >= 5
+            ? { width: metadata.height, height: metadata.width }
+            : { width: metadata.width, height: metadata.height };
+
+        const maxDimension = this.getMaxDimension(kind, model);
+        const scale = maxDimension > 0 ? Math.min(1, maxDimension / Math.max(upright.width, upright.height)) : 1;
+        const format = ANALYZABLE_FORMATS.includes(metadata.format) ? metadata.format : (metadata.hasAlpha ? 'png' : 'jpeg');
+
+        const steps: string[] = [];
+        if (orientation !== 1) {
+            steps.push(`auto-orient (EXIF orientation ${orientation})`);
+        }
+        if (metadata.exif || metadata.xmp || metadata.iptc) {
+            steps.push('strip-metadata');
+        }
+        if (scale < 1) {
+            steps.push(`resize ${upright.width}x${upright.height} -> ` +
+                `${Math.round(upright.width * scale)}x${Math.round(upright.height * scale)}`);
+        }
+        if (format !== metadata.format) {
+            steps.push(`convert ${metadata.format} -> ${format}`);
+        }
+
+        const info: ImagePreprocessingInfo = {
+            kind,
+            model,
+            originalFormat: metadata.format,
+            format,
+            originalSize: upright,
+            size: upright,
+            steps
+        };
+
+        if (steps.length === 0) {
+            return { buffer: imageBuffer, info };
+        }
+
+        // Metadata is dropped because the output is written without withMetadata()
+        let pipeline = sharp(imageBuffer).rotate();
+        if (scale < 1) {
+            pipeline = pipeline.resize({ width: maxDimension, height: maxDimension, fit: 'inside', withoutEnlargement: true });
+        }
+        const { data, info: output } = await pipeline
+            .toFormat(format as keyof sharp.FormatEnum, format === 'png' ? {} : { quality: JPEG_QUALITY })
+            .toBuffer({ resolveWithObject: true });
+
+        info.size = { width: output.width, height: output.height };
+        return { buffer: data, info };
+    }
+
+    /**
+     * Map a box found in the analyzed image back to the (rounded) coordinates of the upright original
+     */
+    public toOriginalCoordinates(box: BoundingBox, info: ImagePreprocessingInfo): BoundingBox {
+        const scaleX = info.originalSize.width / info.size.width;
+        const scaleY = info.originalSize.height / info.size.height;
+        if (scaleX === 1 && scaleY === 1) {
+            return box;
+        }
+
+        const mapped: BoundingBox = {
+            xmin: Math.round(box.xmin * scaleX),
+            ymin: Math.round(box.ymin * scaleY),
+            xmax: Math.round(box.xmax * scaleX),
+            ymax: Math.round(box.ymax * scaleY)
+        };
+        if (box.width !== undefined) {
+            mapped.width = mapped.xmax - mapped.xmin;
+        }
+        if (box.height !== undefined) {
+            mapped.height = mapped.ymax - mapped.ymin;
+        }
+        return mapped;
+    }
+}
@@ -0,0 +1,75 @@
+import sharp from 'sharp';
+import { Config, ImageQualityConfig } from '../config/Config';
+import { ImageQualityReport, Language } from '../interfaces/detection.interface';
+import { assessQuality, summarizeQualityIssues } from '../utils/image-quality';
+
+// Longest side images are measured at; sharpness depends on resolution, so it must be fixed
+const ANALYSIS_SIZE = 512;
+
+/**
+ * Service for the quality check run before any model sees an image.
+ * Photos that are too dark, overexposed, blurry, nearly uniform or taken with a finger over the lens
+ * get guidance the user can act on ("Too dark, turn on a light"); unusable ones are not analyzed at all,
+ * which saves the inference and an answer that says nothing.
+ */
+export class ImageQualityService {
+    private static instance: ImageQualityService;
+    private config: ImageQualityConfig;
+
+    private constructor() {
+        this.config = Config.getInstance().imageQuality;
+    }
+
+    /**
+     * Get the singleton instance of ImageQualityService
+     */
+    public static getInstance(): ImageQualityService {
+        if (!ImageQualityService.instance) {
+            ImageQualityService.instance = new ImageQualityService();
+        }
+        return ImageQualityService.instance;
+    }
+
+    /**
+     * Whether unusable images are rejected, only reported, or not checked
+     */
+    public getMode(): ImageQualityConfig['mode'] {
+        return this.config.mode;
+    }
+
+    /**
+     * Check the quality of an image
+     * @param imageBuffer The uploaded image
+     * @param language Language of the guidance
+     * @throws If the image can't be decoded
+     */
+    public async checkQuality(imageBuffer: Buffer, language: Language = 'en'): Promise<ImageQualityReport> {
+        const startTime = Date.now();
+
+        let raw: { data: Buffer; info: sharp.OutputInfo };
+        try {
+            raw = await sharp(imageBuffer)
+                .rotate()
+                .resize(ANALYSIS_SIZE, ANALYSIS_SIZE, { fit: 'inside', withoutEnlargement: true })
+                .removeAlpha()
+                .raw()
+                .toBuffer({ resolveWithObject: true });
+        } catch (error) {
+            throw new Error(`Unsupported or corrupt image: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        const { metrics, issues } = assessQuality(
+            { data: raw.data, width: raw.info.width, height: raw.info.height, channels: raw.info.channels },
+            { minSharpness: this.config.minSharpness },
+            language
+        );
+
+        return {
+            usable: issues.every(issue => issue.severity !== 'unusable'),
+            issues,
+            guidance: summarizeQualityIssues(issues),
+            metrics,
+            processingTime: Date.now() - startTime
+        };
+    }
+}
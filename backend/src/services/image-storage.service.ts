@@ -0,0 +1,142 @@
+import * as path from 'path';
+import sharp from 'sharp';
+import { Config } from '../config/Config';
+import { IImageStorageProvider } from '../interfaces/IImageStorageProvider';
+import { createImageStorageProvider } from '../storage';
+import { hashImage } from '../utils/image-hash';
+
+/**
+ * An image kept by the image storage
+ */
+export interface StoredImage {
+    imageHash: string;
+    imagePath: string; // Storage key, stored in VisionAnalysis.imagePath
+    format: string;
+}
+
+/**
+ * Content of a stored image or thumbnail
+ */
+export interface ImageContent {
+    data: Buffer;
+    contentType: string;
+}
+
+// File extensions and MIME types by sharp format name
+const FORMAT_EXTENSIONS: Record<string, string> = {
+    jpeg: 'jpg',
+    png: 'png',
+    webp: 'webp',
+    gif: 'gif',
+    heif: 'heic',
+    avif: 'avif',
+    tiff: 'tiff'
+};
+
+const EXTENSION_CONTENT_TYPES: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    webp: 'image/webp',
+    gif: 'image/gif',
+    heic: 'image/heic',
+    avif: 'image/avif',
+    tiff: 'image/tiff'
+};
+
+/**
+ * Service for keeping the uploaded images of stored analyses, so history entries can be viewed and re-analyzed.
+ * Images are stored once per content hash (originals/<hash>.<ext>) with a JPEG thumbnail (thumbnails/<hash>.jpg),
+ * on the local filesystem or in an S3-compatible bucket depending on IMAGE_STORAGE_PROVIDER.
+ */
+export class ImageStorageService {
+    private static instance: ImageStorageService;
+    private provider: IImageStorageProvider;
+    private thumbnailSize: number;
+
+    private constructor() {
+        const config = Config.getInstance().imageStorage;
+        this.provider = createImageStorageProvider(config);
+        this.thumbnailSize = config.thumbnailSize;
+        console.log(`Image storage: ${config.provider}`);
+    }
+
+    /**
+     * Get the singleton instance of ImageStorageService
+     */
+    public static getInstance(): ImageStorageService {
+        if (!ImageStorageService.instance) {
+            ImageStorageService.instance = new ImageStorageService();
+        }
+        return ImageStorageService.instance;
+    }
+
+    private imageKey(imageHash: string, extension: string): string {
+        return `originals/${imageHash.slice(0, 2)}/${imageHash}.${extension}`;
+    }
+
+    private thumbnailKey(imageHash: string): string {
+        return `thumbnails/${imageHash.slice(0, 2)}/${imageHash}.jpg`;
+    }
+
+    private contentType(imagePath: string): string {
+        return EXTENSION_CONTENT_TYPES[path.extname(imagePath).slice(1).toLowerCase()] || 'application/octet-stream';
+    }
+
+    private createThumbnail(imageBuffer: Buffer): Promise<Buffer> {
+        return sharp(imageBuffer)
+            .rotate()
+            .resize({ width: this.thumbnailSize, height: this.thumbnailSize, fit: 'inside', withoutEnlargement: true })
+            .jpeg({ quality: 80 })
+            .toBuffer();
+    }
+
+    /**
+     * Store an uploaded image and its thumbnail, unless an identical image is already stored
+     * @throws If the image can't be read or written
+     */
+    public async storeImage(imageBuffer: Buffer): Promise<StoredImage> {
+        const imageHash = hashImage(imageBuffer);
+        const { format } = await sharp(imageBuffer).metadata();
+        if (!format) {
+            throw new Error('Unsupported or corrupt image: format could not be read');
+        }
+
+        const imagePath = this.imageKey(imageHash, FORMAT_EXTENSIONS[format] || format);
+        if (!(await this.provider.exists(imagePath))) {
+            await this.provider.put(imagePath, imageBuffer, this.contentType(imagePath));
+            await this.provider.put(this.thumbnailKey(imageHash), await this.createThumbnail(imageBuffer), 'image/jpeg');
+        }
+
+        return { imageHash, imagePath, format };
+    }
+
+    /**
+     * Read a stored image, or null if it is no longer available
+     * @param imagePath Storage key
+     */
+    public async readImage(imagePath: string): Promise<ImageContent | null> {
+        const data = await this.provider.get(imagePath);
+        return data && { data, contentType: this.contentType(imagePath) };
+    }
+
+    /**
+     * Read the thumbnail of a stored image, creating it if it is missing
+     */
+    public async readThumbnail(imageHash: string, imagePath: string): Promise<ImageContent | null> {
+        const key = this.thumbnailKey(imageHash);
+        const thumbnail = await this.provider.get(key);
+        if (thumbnail) {
+            return { data: thumbnail, contentType: 'image/jpeg' };
+        }
+
+        const image = await this.readImage(imagePath);
+        if (!image) {
+            return null;
+        }
+
+        const data = await this.createThumbnail(image.data);
+        await this.provider.put(key, data, 'image/jpeg');
+        return { data, contentType: 'image/jpeg' };
+    }
+}
@@ -0,0 +1,250 @@
+import { Config, InferenceQueueConfig } from '../config/Config';
+import { InferencePriority } from '../interfaces/detection.interface';
+
+export const INFERENCE_PRIORITIES: InferencePriority[] = ['interactive', 'batch'];
+
+/**
+ * Thrown when a model's queue is full; the request should be retried after `retryAfter` seconds
+ */
+export class QueueFullError extends Error {
+    constructor(public readonly resource: string, public readonly retryAfter: number) {
+        super(`Too many pending requests for ${resource}, retry in ${retryAfter} seconds`);
+        this.name = 'QueueFullError';
+    }
+}
+
+interface QueuedJob {
+    start: () => void;
+    enqueuedAt: number;
+}
+
+interface ResourceQueue {
+    concurrency: number;
+    active: number;
+    lanes: Record<InferencePriority, QueuedJob[]>;
+    completed: number;
+    failed: number;
+    rejected: number;
+    totalWaitMs: number;
+    maxWaitMs: number;
+    totalRunMs: number;
+}
+
+/**
+ * Queue statistics of one model
+ */
+export interface ResourceQueueStats {
+    resource: string;
+    concurrency: number;
+    active: number;
+    waiting: Record<InferencePriority, number>;
+    completed: number;
+    failed: number;
+    rejected: number;
+    averageWaitMs: number;
+    maxWaitMs: number;
+    oldestWaitMs: number;
+    averageRunMs: number;
+}
+
+/**
+ * Service that runs inference jobs through per-model queues.
+ * Each model (resource) runs at most `concurrency` jobs at a time; further jobs wait in their priority lane,
+ * and once `maxQueueLength` jobs are waiting in a lane new jobs for it are rejected with a QueueFullError.
+ * Each lane has its own limit, so a large batch can't fill the queue for interactive requests.
+ */
+export class InferenceQueueService {
+    private static instance: InferenceQueueService;
+    private config: InferenceQueueConfig;
+    private queues: Map<string, ResourceQueue> = new Map();
+
+    private constructor() {
+        this.config = Config.getInstance().inferenceQueue;
+    }
+
+    /**
+     * Get the singleton instance of InferenceQueueService
+     */
+    public static getInstance(): InferenceQueueService {
+        if (!InferenceQueueService.instance) {
+            InferenceQueueService.instance = new InferenceQueueService();
+        }
+        return InferenceQueueService.instance;
+    }
+
+    /**
+     * Concurrency of a resource ("kind:model"): configured for the resource, its model or its kind, or the default
+     */
+    private getConcurrency(resource: string): number {
+        const separator = resource.indexOf(':');
+        const kind = separator >= 0 ? resource.slice(0, separator) : resource;
+        const model = separator >= 0 ? resource.slice(separator + 1) : resource;
+        const limits = this.config.concurrency;
+
+        return limits[resource] ?? limits[model] ?? limits[kind] ?? this.config.defaultConcurrency;
+    }
+
+    private getQueue(resource: string): ResourceQueue {
+        let queue = this.queues.get(resource);
+        if (!queue) {
+            queue = {
+                concurrency: Math.max(1, this.getConcurrency(resource)),
+                active: 0,
+                lanes: { interactive: [], batch: [] },
+                completed: 0,
+                failed: 0,
+                rejected: 0,
+                totalWaitMs: 0,
+                maxWaitMs: 0,
+                totalRunMs: 0
+            };
+            this.queues.set(resource, queue);
+        }
+        return queue;
+    }
+
+    /**
+     * Jobs that start before a new job of the given priority: those in its own lane and the lanes ahead of it
+     */
+    private waitingAhead(queue: ResourceQueue, priority: InferencePriority): number {
+        return INFERENCE_PRIORITIES
+            .slice(0, INFERENCE_PRIORITIES.indexOf(priority) + 1)
+            .reduce((total, lane) => total + queue.lanes[lane].length, 0);
+    }
+
+    /**
+     * Estimated seconds until a slot frees up for a job of the given priority, from the average run time of the model
+     */
+    private estimateRetryAfter(queue: ResourceQueue, priority: InferencePriority): number {
+        const finished = queue.completed + queue.failed;
+        if (finished === 0) {
+            return this.config.defaultRetryAfter;
+        }
+
+        const averageRunMs = queue.totalRunMs / finished;
+        const rounds = this.waitingAhead(queue, priority) / queue.concurrency + 1;
+        return Math.max(1, Math.ceil((rounds * averageRunMs) / 1000));
+    }
+
+    /**
+     * Start waiting jobs while there are free slots, interactive lane first
+     */
+    private drain(queue: ResourceQueue): void {
+        while (queue.active < queue.concurrency) {
+            const lane = INFERENCE_PRIORITIES.find(priority => queue.lanes[priority].length > 0);
+            if (!lane) {
+                return;
+            }
+
+            const job = queue.lanes[lane].shift() as QueuedJob;
+            const waitMs = Date.now() - job.enqueuedAt;
+            queue.totalWaitMs += waitMs;
+            queue.maxWaitMs = Math.max(queue.maxWaitMs, waitMs);
+            queue.active++;
+            job.start();
+        }
+    }
+
+    /**
+     * Run an inference job once the model has a free slot
+     * @param resource Queue name, "kind:model" (e.g. "object-detection:Xenova/yolos-tiny")
+     * @param task The inference to run
+     * @param priority Lane to wait in
+     * @param signal Aborting it takes the job out of the queue if it hasn't started yet
+     * @throws QueueFullError if the model's lane for the priority is full
+     */
+    public run<T>(
+        resource: string,
+        task: () => Promise<T>,
+        priority: InferencePriority = 'interactive',
+        signal?: AbortSignal
+    ): Promise<T> {
+        const queue = this.getQueue(resource);
+
+        if (signal?.aborted) {
+            return Promise.reject(new Error(`Inference job for ${resource} was cancelled`));
+        }
+
+        if (queue.lanes[priority].length >= this.config.maxQueueLength) {
+            queue.rejected++;
+            const retryAfter = this.estimateRetryAfter(queue, priority);
+            console.warn(`Inference queue for ${resource} is full, rejecting ${priority} job (retry after ${retryAfter}s)`);
+            return Promise.reject(new QueueFullError(resource, retryAfter));
+        }
+
+        return new Promise<T>((resolve, reject) => {
+            const lane = queue.lanes[priority];
+
+            const cancel = () => {
+                const index = lane.indexOf(job);
+                if (index >= 0) {
+                    lane.splice(index, 1);
+                    reject(new Error(`Inference job for ${resource} was cancelled`));
+                }
+            };
+
+            const start = () => {
+                signal?.removeEventListener('abort', cancel);
+                const startedAt = Date.now();
+                Promise.resolve()
+                    .then(task)
+                    .then(result => {
+                        queue.completed++;
+                        resolve(result);
+                    }, error => {
+                        queue.failed++;
+                        reject(error);
+                    })
+                    .finally(() => {
+                        queue.totalRunMs += Date.now() - startedAt;
+                        queue.active--;
+                        this.drain(queue);
+                    });
+            };
+
+            const job: QueuedJob = { start, enqueuedAt: Date.now() };
+            signal?.addEventListener('abort', cancel, { once: true });
+            lane.push(job);
+            this.drain(queue);
+        });
+    }
+
+    /**
+     * Depth, wait and run times of every model queue
+     */
+    public getStats(): ResourceQueueStats[] {
+        const now = Date.now();
+
+        return Array.from(this.queues, ([resource, queue]) => {
+            const started = queue.completed + queue.failed + queue.active;
+            const finished = queue.completed + queue.failed;
+            const oldest = INFERENCE_PRIORITIES
+                .map(priority => queue.lanes[priority][0]?.enqueuedAt)
+                .filter((enqueuedAt): enqueuedAt is number => enqueuedAt !== undefined);
+
+            return {
+                resource,
+                concurrency: queue.concurrency,
+                active: queue.active,
+                waiting: {
+                    interactive: queue.lanes.interactive.length,
+                    batch: queue.lanes.batch.length
+                },
+                completed: queue.completed,
+                failed: queue.failed,
+                rejected: queue.rejected,
+                averageWaitMs: started > 0 ? Math.round(queue.totalWaitMs / started) : 0,
+                maxWaitMs: queue.maxWaitMs,
+                oldestWaitMs: oldest.length > 0 ? now - Math.min(...oldest) : 0,
+                averageRunMs: finished > 0 ? Math.round(queue.totalRunMs / finished) : 0
+            };
+        });
+    }
+
+    /**
+     * Maximum number of waiting jobs per model and lane
+     */
+    public getMaxQueueLength(): number {
+        return this.config.maxQueueLength;
+    }
+}
@@ -0,0 +1,145 @@
+import { ObjectDetectionService } from './object-detection.service';
+import { ImageQualityService } from './image-quality.service';
+import { ImageQualityReport, LiveCameraUpdate, ObjectDetectionOptions } from '../interfaces/detection.interface';
+import { ObjectTracker } from '../utils/object-tracker';
+
+/**
+ * Detection options of a live camera connection; clients may change all but the language, chosen when connecting
+ */
+export type LiveCameraOptions = Pick<ObjectDetectionOptions, 'modelName' | 'threshold' | 'dtype' | 'language'>;
+
+/**
+ * One live camera connection.
+ * Frames are detected one at a time, always the latest: frames arriving while detection runs replace each
+ * other, so a slow model skips frames instead of falling behind the camera. Detections go through the
+ * tracker and only frames that change what is visible produce an update. Each frame's quality is checked first;
+ * unusable frames (too dark, finger over the lens...) are not detected, and the guidance is sent when it changes.
+ */
+export class LiveCameraSession {
+    private detectionService: ObjectDetectionService = ObjectDetectionService.getInstance();
+    private qualityService: ImageQualityService = ImageQualityService.getInstance();
+    private tracker: ObjectTracker;
+    private latestFrame: Buffer | null = null;
+    private processing = false;
+    private closed = false;
+    private frameCount = 0;
+    private droppedFrames = 0;
+    private lastGuidance = '';
+
+    /**
+     * @param options Detection options, and the language of labels, events and guidance
+     * @param onUpdate Called with the changes after each frame that has any
+     * @param onError Called when detection of a frame fails; the session keeps running
+     * @param onQuality Called when the quality guidance changes, including when it clears up
+     */
+    constructor(
+        private options: LiveCameraOptions,
+        private onUpdate: (update: LiveCameraUpdate) => void,
+        private onError: (error: unknown) => void,
+        private onQuality?: (report: ImageQualityReport) => void
+    ) {
+        this.tracker = new ObjectTracker({ language: options.language });
+    }
+
+    /**
+     * Check the quality of a frame, telling the client when the guidance changes
+     * @returns True if the frame is worth detecting
+     */
+    private async checkFrameQuality(frame: Buffer): Promise<boolean> {
+        const mode = this.qualityService.getMode();
+        if (mode === 'off') {
+            return true;
+        }
+
+        const report = await this.qualityService.checkQuality(frame, this.options.language);
+        if (report.guidance !== this.lastGuidance && !this.closed) {
+            this.lastGuidance = report.guidance;
+            this.onQuality?.(report);
+        }
+        return report.usable || mode === 'warn';
+    }
+
+    /**
+     * Queue a frame (JPEG or PNG), replacing a frame still waiting
+     */
+    public pushFrame(frame: Buffer): void {
+        if (this.closed) {
+            return;
+        }
+        if (this.latestFrame) {
+            this.droppedFrames++;
+        }
+        this.latestFrame = frame;
+
+        if (!this.processing) {
+            this.processFrames();
+        }
+    }
+
+    private async processFrames(): Promise<void> {
+        this.processing = true;
+
+        while (this.latestFrame && !this.closed) {
+            const frame = this.latestFrame;
+            this.latestFrame = null;
+
+            try {
+                if (!await this.checkFrameQuality(frame)) {
+                    continue;
+                }
+
+                const result = await this.detectionService.detectObjects(frame, {
+                    ...this.options,
+                    // Spatial descriptions give the frame size
+                    spatial: true,
+                    priority: 'interactive',
+                    // Live frames are never resubmitted
+                    useCache: false
+                });
+                this.frameCount++;
+
+                const width = result.imageSize?.width ?? 0;
+                const height = result.imageSize?.height ?? 0;
+                const events = this.tracker.update(result.detections, width, height);
+
+                if (events.length > 0 && !this.closed) {
+                    this.onUpdate({
+                        frame: this.frameCount,
+                        events,
+                        objects: this.tracker.getTrackedObjects(width),
+                        droppedFrames: this.droppedFrames,
+                        processingTime: result.processingTime
+                    });
+                }
+            } catch (error) {
+                if (!this.closed) {
+                    this.onError(error);
+                }
+            }
+        }
+
+        this.processing = false;
+    }
+
+    /**
+     * Change detection options; tracks are kept
+     */
+    public updateOptions(options: LiveCameraOptions): void {
+        this.options = { ...this.options, ...options };
+    }
+
+    /**
+     * Forget tracked objects, e.g. after the camera was pointed somewhere else
+     */
+    public reset(): void {
+        this.tracker.reset();
+    }
+
+    /**
+     * Stop processing; frames still waiting are dropped
+     */
+    public close(): void {
+        this.closed = true;
+        this.latestFrame = null;
+    }
+}
@@ -0,0 +1,404 @@
+import { Config, ModelManagerConfig } from '../config/Config';
+
+/**
+ * Describes a model being loaded
+ */
+export interface ModelLoadInfo {
+    modelName: string;
+    dtype?: string;
+    // Known memory use; when absent it is estimated from the growth of the process memory during the load
+    sizeMB?: number;
+}
+
+/**
+ * A loaded model in use; release it once the inference is done so it can be evicted again
+ */
+export interface ModelLease<T> {
+    model: T;
+    release: () => void;
+}
+
+/**
+ * Usage statistics of one model, kept after it is unloaded
+ */
+export interface ModelStats {
+    kind: string;
+    key: string;
+    modelName: string;
+    dtype: string | null;
+    loaded: boolean;
+    loading: boolean;
+    active: number; // Inferences running on the model
+    loads: number;
+    hits: number; // Requests served by the already loaded model
+    evictions: number;
+    lastUsed: string | null;
+    loadedAt: string | null;
+    loadTimeMs: number | null;
+    estimatedMemoryMB: number | null;
+}
+
+export interface ModelManagerStatus {
+    maxLoaded: number;
+    idleTTL: number;
+    memoryBudgetMB: number;
+    estimatedMemoryMB: number;
+    models: ModelStats[];
+}
+
+interface ModelEntry {
+    kind: string;
+    key: string;
+    model: any;
+    loadPromise: Promise<any> | null;
+    loadedAt: number;
+    lastUsed: number;
+    active: number;
+    sizeMB: number;
+    // Set when the model was unloaded while in use; it is disposed once the last lease is released
+    disposeOnRelease: boolean;
+}
+
+type Preloader = (modelName?: string) => Promise<unknown>;
+
+/**
+ * Keeps the local transformers.js pipelines of all services in one LRU.
+ * Models are unloaded when more than `maxLoaded` are loaded, when unused for `cacheTTL`,
+ * or when their estimated memory exceeds `memoryBudgetMB`; least recently used first,
+ * and never while an inference runs on them.
+ */
+export class ModelManagerService {
+    private static instance: ModelManagerService;
+    private config: ModelManagerConfig;
+    private entries: Map<string, ModelEntry> = new Map();
+    private stats: Map<string, ModelStats> = new Map();
+    private preloaders: Map<string, Preloader> = new Map();
+    private sweepTimer: NodeJS.Timeout | null = null;
+
+    private constructor() {
+        this.config = Config.getInstance().modelManager;
+
+        if (this.config.cacheTTL > 0) {
+            this.sweepTimer = setInterval(() => this.enforceLimits(), Math.min(this.config.cacheTTL, 60000));
+            // Don't keep the process alive just for the sweep
+            this.sweepTimer.unref();
+        }
+    }
+
+    /**
+     * Get the singleton instance of ModelManagerService
+     */
+    public static getInstance(): ModelManagerService {
+        if (!ModelManagerService.instance) {
+            ModelManagerService.instance = new ModelManagerService();
+        }
+        return ModelManagerService.instance;
+    }
+
+    private entryKey(kind: string, key: string): string {
+        return `${kind}:${key}`;
+    }
+
+    private getStats(kind: string, key: string, info: ModelLoadInfo): ModelStats {
+        const entryKey = this.entryKey(kind, key);
+        let stats = this.stats.get(entryKey);
+        if (!stats) {
+            stats = {
+                kind,
+                key,
+                modelName: info.modelName,
+                dtype: info.dtype || null,
+                loaded: false,
+                loading: false,
+                active: 0,
+                loads: 0,
+                hits: 0,
+                evictions: 0,
+                lastUsed: null,
+                loadedAt: null,
+                loadTimeMs: null,
+                estimatedMemoryMB: null
+            };
+            this.stats.set(entryKey, stats);
+        }
+        return stats;
+    }
+
+    private async dispose(entry: ModelEntry): Promise<void> {
+        try {
+            if (typeof entry.model?.dispose === 'function') {
+                await entry.model.dispose();
+            }
+        } catch (error) {
+            console.warn(`Error disposing model ${entry.key}:`, error);
+        }
+
+        // Force garbage collection (Node.js only)
+        if (global.gc) {
+            try {
+                global.gc();
+            } catch (e) {
+                console.warn('Failed to trigger garbage collection:', e);
+            }
+        }
+    }
+
+    /**
+     * Remove a model from the manager, disposing it now or once its last inference ends
+     */
+    private remove(entry: ModelEntry, reason: string): void {
+        this.entries.delete(this.entryKey(entry.kind, entry.key));
+
+        const stats = this.stats.get(this.entryKey(entry.kind, entry.key));
+        if (stats) {
+            stats.loaded = false;
+            stats.estimatedMemoryMB = null;
+        }
+
+        console.log(`Unloading ${entry.kind} model ${entry.key} (${reason})`);
+        if (entry.active > 0) {
+            entry.disposeOnRelease = true;
+        } else {
+            this.dispose(entry);
+        }
+    }
+
+    private evict(entry: ModelEntry, reason: string): void {
+        const stats = this.stats.get(this.entryKey(entry.kind, entry.key));
+        if (stats) {
+            stats.evictions++;
+        }
+        this.remove(entry, reason);
+    }
+
+    /**
+     * Loaded models that may be evicted, least recently used first
+     */
+    private evictionCandidates(): ModelEntry[] {
+        return Array.from(this.entries.values())
+            .filter(entry => !entry.loadPromise && entry.active === 0)
+            .sort((a, b) => a.lastUsed - b.lastUsed);
+    }
+
+    private loadedEntries(): ModelEntry[] {
+        return Array.from(this.entries.values()).filter(entry => !entry.loadPromise);
+    }
+
+    private totalMemoryMB(): number {
+        return this.loadedEntries().reduce((total, entry) => total + entry.sizeMB, 0);
+    }
+
+    /**
+     * Evict idle models, then least recently used ones until the count and memory limits hold
+     */
+    private enforceLimits(): void {
+        const now = Date.now();
+
+        if (this.config.cacheTTL > 0) {
+            for (const entry of this.evictionCandidates()) {
+                if (now - entry.lastUsed > this.config.cacheTTL) {
+                    this.evict(entry, 'idle');
+                }
+            }
+        }
+
+        for (const entry of this.evictionCandidates()) {
+            const overCount = this.config.maxLoaded > 0 && this.loadedEntries().length > this.config.maxLoaded;
+            const overMemory = this.config.memoryBudgetMB > 0 && this.totalMemoryMB() > this.config.memoryBudgetMB;
+            if (!overCount && !overMemory) {
+                break;
+            }
+            this.evict(entry, overCount ? 'too many models loaded' : 'memory budget exceeded');
+        }
+    }
+
+    /**
+     * Get a model, loading it if needed
+     * @param kind Kind of pipeline, e.g. 'object-detection'
+     * @param key Model key within the kind, e.g. model name and dtype
+     * @param loader Loads the model
+     * @param info Model name and size, for statistics and the memory budget
+     */
+    public async load<T>(kind: string, key: string, loader: () => Promise<T>, info: ModelLoadInfo): Promise<T> {
+        const lease = await this.acquire(kind, key, loader, info);
+        lease.release();
+        return lease.model;
+    }
+
+    /**
+     * Get a model for an inference, loading it if needed. It won't be evicted until the lease is released.
+     * @param kind Kind of pipeline, e.g. 'object-detection'
+     * @param key Model key within the kind, e.g. model name and dtype
+     * @param loader Loads the model
+     * @param info Model name and size, for statistics and the memory budget
+     */
+    public async acquire<T>(kind: string, key: string, loader: () => Promise<T>, info: ModelLoadInfo): Promise<ModelLease<T>> {
+        const entryKey = this.entryKey(kind, key);
+        const stats = this.getStats(kind, key, info);
+        let entry = this.entries.get(entryKey);
+
+        if (entry) {
+            stats.hits++;
+        } else {
+            entry = {
+                kind,
+                key,
+                model: null,
+                loadPromise: null,
+                loadedAt: 0,
+                lastUsed: Date.now(),
+                active: 0,
+                sizeMB: 0,
+                disposeOnRelease: false
+            };
+            this.entries.set(entryKey, entry);
+            entry.loadPromise = this.loadEntry(entry, stats, loader, info);
+        }
+
+        // Pin the model while it loads, so the limits applied after another load can't evict it
+        entry.active++;
+        stats.active = entry.active;
+
+        try {
+            if (entry.loadPromise) {
+                await entry.loadPromise;
+            }
+        } catch (error) {
+            entry.active--;
+            stats.active = entry.active;
+            throw error;
+        }
+
+        entry.lastUsed = Date.now();
+        stats.lastUsed = new Date(entry.lastUsed).toISOString();
+
+        const leased = entry;
+        let released = false;
+        return {
+            model: leased.model as T,
+            release: () => {
+                if (released) {
+                    return;
+                }
+                released = true;
+                leased.active--;
+                leased.lastUsed = Date.now();
+                if (this.entries.get(entryKey) === leased) {
+                    stats.active = leased.active;
+                    stats.lastUsed = new Date(leased.lastUsed).toISOString();
+                    this.enforceLimits();
+                } else if (leased.disposeOnRelease && leased.active === 0) {
+                    stats.active = 0;
+                    this.dispose(leased);
+                }
+            }
+        };
+    }
+
+    private async loadEntry(entry: ModelEntry, stats: ModelStats, loader: () => Promise<unknown>, info: ModelLoadInfo): Promise<void> {
+        const startTime = Date.now();
+        const rssBefore = process.memoryUsage().rss;
+        stats.loading = true;
+        stats.loads++;
+
+        try {
+            entry.model = await loader();
+        } catch (error) {
+            this.entries.delete(this.entryKey(entry.kind, entry.key));
+            throw error;
+        } finally {
+            stats.loading = false;
+            entry.loadPromise = null;
+        }
+
+        // Approximate: concurrent loads and garbage collection blur the growth of the process memory
+        entry.sizeMB = info.sizeMB ?? Math.max(0, Math.round((process.memoryUsage().rss - rssBefore) / (1024 * 1024)));
+        entry.loadedAt = Date.now();
+
+        stats.loaded = true;
+        stats.loadedAt = new Date(entry.loadedAt).toISOString();
+        stats.loadTimeMs = entry.loadedAt - startTime;
+        stats.estimatedMemoryMB = entry.sizeMB;
+
+        console.log(`Loaded ${entry.kind} model ${entry.key} in ${stats.loadTimeMs}ms (~${entry.sizeMB} MB)`);
+        this.enforceLimits();
+    }
+
+    /**
+     * Whether a model is loaded
+     */
+    public isLoaded(kind: string, key: string): boolean {
+        const entry = this.entries.get(this.entryKey(kind, key));
+        return Boolean(entry && !entry.loadPromise);
+    }
+
+    /**
+     * Unload a model
+     * @returns True if the model was loaded
+     */
+    public unload(kind: string, key: string): boolean {
+        const entry = this.entries.get(this.entryKey(kind, key));
+        if (!entry) {
+            return false;
+        }
+        this.remove(entry, 'unloaded on request');
+        return true;
+    }
+
+    /**
+     * Unload all models of the given kinds, or every model
+     * @returns Number of models unloaded
+     */
+    public unloadAll(kinds?: string[]): number {
+        const entries = Array.from(this.entries.values()).filter(entry => !kinds || kinds.includes(entry.kind));
+        for (const entry of entries) {
+            this.remove(entry, 'unloaded on request');
+        }
+        return entries.length;
+    }
+
+    /**
+     * Register how to preload models of a kind
+     * @param kind Kind of pipeline, as used in PRELOAD_MODELS
+     * @param preloader Loads the given model, or the kind's default model
+     */
+    public registerPreloader(kind: string, preloader: Preloader): void {
+        this.preloaders.set(kind, preloader);
+    }
+
+    /**
+     * Load the models listed in Config.modelManager.preloadModels, one at a time
+     */
+    public async preloadModels(): Promise<void> {
+        for (const name of this.config.preloadModels) {
+            const separator = name.indexOf(':');
+            const kind = separator >= 0 ? name.slice(0, separator) : name;
+            const modelName = separator >= 0 ? name.slice(separator + 1) : undefined;
+
+            const preloader = this.preloaders.get(kind);
+            if (!preloader) {
+                console.warn(`No local models of kind ${kind} to preload, skipping`);
+                continue;
+            }
+
+            try {
+                await preloader(modelName);
+            } catch (error) {
+                console.error(`Error preloading ${name}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Limits, memory use and per-model statistics
+     */
+    public getStatus(): ModelManagerStatus {
+        return {
+            maxLoaded: this.config.maxLoaded,
+            idleTTL: this.config.cacheTTL,
+            memoryBudgetMB: this.config.memoryBudgetMB,
+            estimatedMemoryMB: this.totalMemoryMB(),
+            models: Array.from(this.stats.values(), stats => ({ ...stats }))
+        };
+    }
+}
@@ -0,0 +1,202 @@
+import PrismaService from '../database/prisma-service';
+import { Model } from '../generated/prisma';
+
+// Kinds of models in the registry; local kinds match the model manager kinds
+export const MODEL_TYPES = ['object-detection', 'zero-shot-object-detection', 'ocr', 'depth-estimation', 'image-description'] as const;
+export type RegistryModelType = typeof MODEL_TYPES[number];
+
+// Models of these types run on the vision-language server, which decides what it serves
+const SERVED_MODEL_TYPES: RegistryModelType[] = ['image-description'];
+
+/**
+ * Fields of a registry entry that can be set
+ */
+export interface ModelRegistryInput {
+    name: string;
+    type: RegistryModelType;
+    provider?: string | null;
+    version?: string | null;
+    description?: string | null;
+    license?: string | null;
+    parameters?: number | null;
+    quantizations?: string[];
+    size?: number | null;
+    capabilities?: string[];
+    enabled?: boolean;
+}
+
+/**
+ * Service for the registry of models the API may use, stored in the Model table.
+ * Listing routes and request validation read a copy that is refreshed every 30 seconds
+ * and after every change; admin routes read the table directly.
+ */
+export class ModelRegistryService {
+    private static instance: ModelRegistryService;
+    private prismaService: PrismaService;
+    private cache: { models: Model[]; fetchedAt: number } | null = null;
+
+    private CACHE_TTL = 30000;
+
+    private constructor() {
+        this.prismaService = PrismaService.getInstance();
+    }
+
+    /**
+     * Get the singleton instance of ModelRegistryService
+     */
+    public static getInstance(): ModelRegistryService {
+        if (!ModelRegistryService.instance) {
+            ModelRegistryService.instance = new ModelRegistryService();
+        }
+        return ModelRegistryService.instance;
+    }
+
+    /**
+     * All registered models, from the cached copy when it is fresh
+     */
+    private async getCachedModels(): Promise<Model[]> {
+        if (this.cache && Date.now() - this.cache.fetchedAt < this.CACHE_TTL) {
+            return this.cache.models;
+        }
+
+        const models = await this.prismaService.prisma.model.findMany({
+            orderBy: [{ type: 'asc' }, { name: 'asc' }]
+        });
+        this.cache = { models, fetchedAt: Date.now() };
+        return models;
+    }
+
+    private invalidateCache(): void {
+        this.cache = null;
+    }
+
+    /**
+     * List registered models
+     * @param options Filter by type; disabled models are left out unless includeDisabled is set
+     */
+    public async listModels(options: { type?: string; includeDisabled?: boolean } = {}): Promise<Model[]> {
+        return this.prismaService.prisma.model.findMany({
+            where: {
+                type: options.type,
+                enabled: options.includeDisabled ? undefined : true
+            },
+            orderBy: [{ type: 'asc' }, { name: 'asc' }]
+        });
+    }
+
+    /**
+     * Registered models of a type, including disabled ones, from the cached copy
+     */
+    public async getRegisteredModels(type: RegistryModelType): Promise<Model[]> {
+        const models = await this.getCachedModels();
+        return models.filter(model => model.type === type);
+    }
+
+    /**
+     * Enabled models of a type, for the listing routes
+     */
+    public async getEnabledModels(type: RegistryModelType): Promise<Model[]> {
+        const models = await this.getRegisteredModels(type);
+        return models.filter(model => model.enabled);
+    }
+
+    /**
+     * Find a model by name in the cached copy
+     */
+    public async findModel(name: string): Promise<Model | null> {
+        const models = await this.getCachedModels();
+        return models.find(model => model.name === name) || null;
+    }
+
+    public async getModel(id: string): Promise<Model | null> {
+        return this.prismaService.prisma.model.findUnique({ where: { id } });
+    }
+
+    public async getModelByName(name: string): Promise<Model | null> {
+        return this.prismaService.prisma.model.findUnique({ where: { name } });
+    }
+
+    public async createModel(data: ModelRegistryInput): Promise<Model> {
+        const model = await this.prismaService.prisma.model.create({ data });
+        this.invalidateCache();
+        console.log(`Registered ${model.type} model ${model.name}`);
+        return model;
+    }
+
+    /**
+     * Update a model
+     * @returns The updated model, or null if it doesn't exist
+     */
+    public async updateModel(id: string, data: Partial<ModelRegistryInput>): Promise<Model | null> {
+        const existing = await this.getModel(id);
+        if (!existing) {
+            return null;
+        }
+
+        const model = await this.prismaService.prisma.model.update({ where: { id }, data });
+        this.invalidateCache();
+        return model;
+    }
+
+    /**
+     * Delete a model
+     * @returns True if the model existed
+     */
+    public async deleteModel(id: string): Promise<boolean> {
+        const { count } = await this.prismaService.prisma.model.deleteMany({ where: { id } });
+        this.invalidateCache();
+        return count > 0;
+    }
+
+    /**
+     * Explain why a model can't be used for a type of analysis, or return null if it can.
+     * Local models must be registered and enabled. Models served by the vision-language server
+     * are only rejected when their entry is disabled, since the server decides what it serves.
+     * When the registry can't be read the model is given the benefit of the doubt.
+     * @param types Model types accepted by the analysis
+     * @param name Requested model
+     */
+    public async getModelRejectionReason(types: RegistryModelType[], name: string): Promise<string | null> {
+        let model: Model | null;
+        try {
+            model = await this.findModel(name);
+        } catch (error) {
+            console.warn(`Could not verify model '${name}' against the model registry:`, error);
+            return null;
+        }
+
+        if (!model) {
+            return types.every(type => SERVED_MODEL_TYPES.includes(type))
+                ? null
+                : `Model '${name}' is not registered for ${types.join(' or ')}`;
+        }
+        if (!types.includes(model.type as RegistryModelType)) {
+            return `Model '${name}' is a ${model.type} model, expected ${types.join(' or ')}`;
+        }
+        if (!model.enabled) {
+            return `Model '${name}' is disabled`;
+        }
+        return null;
+    }
+
+    /**
+     * Explain why a model can't run with a dtype, or return null if it can.
+     * Unregistered models and models without listed quantizations accept any dtype.
+     * @param name Model the dtype is for
+     * @param dtype Requested quantization
+     */
+    public async getDtypeRejectionReason(name: string, dtype: string): Promise<string | null> {
+        let model: Model | null;
+        try {
+            model = await this.findModel(name);
+        } catch (error) {
+            console.warn(`Could not verify dtype '${dtype}' of model '${name}' against the model registry:`, error);
+            return null;
+        }
+
+        if (model && model.quantizations.length > 0 && !model.quantizations.includes(dtype)) {
+            return `Model '${name}' does not support dtype '${dtype}', use one of: ${model.quantizations.join(', ')}`;
+        }
+        return null;
+    }
+}
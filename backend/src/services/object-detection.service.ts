@@ -1,27 +1,58 @@
 import { pipeline } from '@huggingface/transformers';
-import { BoundingBox, DetectionResponse, DetectionResult, ObjectDetectionOptions } from '../interfaces/detection.interface';
-import * as fs from 'fs';
-import * as path from 'path';
+import { BoundingBox, DetectionResponse, DetectionResult, Language, ObjectDetectionOptions } from '../interfaces/detection.interface';
+import { decodeImage } from '../utils/image-decode';
+import { describeSpatialLayout, summarizeSpatialLayout } from '../utils/spatial-language';
+import { getModelThreshold, postProcessDetections, PostProcessingOptions } from '../utils/detection-postprocess';
+import { countLabels, formatLabelCounts } from '../utils/scene-summary';
+import { translateLabel } from '../utils/label-translations';
+import { ResultCacheService } from './result-cache.service';
+import { ColorAnalysisService } from './color-analysis.service';
+import { InferenceQueueService, QueueFullError } from './inference-queue.service';
+import { ModelLease, ModelManagerService } from './model-manager.service';
+import { ImagePreprocessingService } from './image-preprocessing.service';
 
 // Define valid dtype types
 type ValidDtype = 'fp32' | 'fp16' | 'q8' | 'int8' | 'uint8' | 'q4' | 'bnb4' | 'q4f16';
 
+// Closed-set detectors find a fixed list of classes, zero-shot detectors find free-text queries
+type DetectionTask = 'object-detection' | 'zero-shot-object-detection';
+const DETECTION_TASKS: DetectionTask[] = ['object-detection', 'zero-shot-object-detection'];
+
 /**
  * Service for performing object detection on images using transformers.js
  */
 export class ObjectDetectionService {
     private static instance: ObjectDetectionService;
-    private models: Map<string, any> = new Map();
-    private modelLoadPromises: Map<string, Promise<any>> = new Map();
-    private currentModelKey: string | null = null;
+    private currentModel: { modelName: string, dtype: string, task: DetectionTask } | null = null;
+    private modelManager: ModelManagerService = ModelManagerService.getInstance();
+    private resultCache: ResultCacheService = ResultCacheService.getInstance();
+    private colorAnalysis: ColorAnalysisService = ColorAnalysisService.getInstance();
+    private inferenceQueue: InferenceQueueService = InferenceQueueService.getInstance();
+    private imagePreprocessing: ImagePreprocessingService = ImagePreprocessingService.getInstance();
 
     // Default model - can be configured via env var or settings
     private DEFAULT_MODEL = 'Xenova/yolos-tiny';
     private DEFAULT_DTYPE: ValidDtype = 'fp16'; // Default quantization level
 
+    // Default model and threshold of zero-shot ("find my object") detection;
+    // zero-shot scores are much lower than closed-set ones
+    private DEFAULT_ZERO_SHOT_MODEL = 'Xenova/owlvit-base-patch32';
+    private DEFAULT_ZERO_SHOT_THRESHOLD = 0.1;
+
     // Valid quantization types
     private VALID_DTYPES: ValidDtype[] = ['fp32', 'fp16', 'q8', 'int8', 'uint8', 'q4', 'bnb4', 'q4f16'];
 
+    private constructor() {
+        // Models listed in PRELOAD_MODELS as "object-detection" or "zero-shot-object-detection", optionally with ":model"
+        for (const task of DETECTION_TASKS) {
+            this.modelManager.registerPreloader(task, modelName => this.loadModel(
+                modelName || (task === 'zero-shot-object-detection' ? this.DEFAULT_ZERO_SHOT_MODEL : this.DEFAULT_MODEL),
+                this.DEFAULT_DTYPE,
+                task
+            ));
+        }
+    }
+
     /**
      * Gets the singleton instance of the service
      */
@@ -41,75 +72,72 @@ export class ObjectDetectionService {
     }
 
     /**
-     * Get information about the currently loaded model
+     * Get a valid dtype, falling back to the default
+     */
+    private validateDtype(dtype: string): ValidDtype {
+        const validatedDtype = this.VALID_DTYPES.includes(dtype as ValidDtype)
+            ? (dtype as ValidDtype)
+            : this.DEFAULT_DTYPE;
+
+        if (validatedDtype !== dtype) {
+            console.warn(`Invalid dtype: ${dtype}, using default: ${this.DEFAULT_DTYPE}`);
+        }
+
+        return validatedDtype;
+    }
+
+    /**
+     * Get information about the most recently used model, if it is still loaded
      */
     public getCurrentModelInfo(): { modelName: string, dtype: string } | null {
-        if (!this.currentModelKey) {
+        if (!this.currentModel) {
             return null;
         }
 
-        // Split by our special delimiter
-        const parts = this.currentModelKey.split('|||');
-        if (parts.length !== 2) {
-            console.warn(`Invalid model key format: ${this.currentModelKey}`);
+        const { modelName, dtype, task } = this.currentModel;
+        if (!this.modelManager.isLoaded(task, this.getModelKey(modelName, dtype))) {
             return null;
         }
 
-        const [modelName, dtype] = parts;
         return { modelName, dtype };
     }
 
+    /**
+     * Get a model from the model manager, loading it if needed.
+     * The model can't be evicted until the lease is released.
+     */
+    private async acquireModel(modelName: string, dtype: string, task: DetectionTask): Promise<ModelLease<any>> {
+        const validatedDtype = this.validateDtype(dtype);
+        this.currentModel = { modelName, dtype: validatedDtype, task };
+
+        return this.modelManager.acquire(task, this.getModelKey(modelName, validatedDtype), async () => {
+            console.log(`Loading ${task} model: ${modelName} with dtype: ${validatedDtype}`);
+            try {
+                return await pipeline(task, modelName, {
+                    dtype: validatedDtype
+                });
+            } catch (error) {
+                console.error(`Error loading model ${modelName} (${validatedDtype}):`, error);
+                throw error;
+            }
+        }, { modelName, dtype: validatedDtype });
+    }
+
     /**
      * Load a model with the specified name and dtype
      * @param modelName The HuggingFace model name to load
      * @param dtype The quantization type (fp32, fp16, q8, q4, etc.)
+     * @param task The pipeline task the model is loaded for
      * @returns The loaded model
      */
-    public async loadModel(modelName: string = this.DEFAULT_MODEL, dtype: string = this.DEFAULT_DTYPE): Promise<any> {
-        // Validate dtype
-        const validatedDtype = this.VALID_DTYPES.includes(dtype as ValidDtype)
-            ? (dtype as ValidDtype)
-            : this.DEFAULT_DTYPE;
-
-        if (validatedDtype !== dtype) {
-            console.warn(`Invalid dtype: ${dtype}, using default: ${this.DEFAULT_DTYPE}`);
-        }
-
-        // Create a unique key for the model+dtype combination
-        const modelKey = this.getModelKey(modelName, validatedDtype);
-
-        // If model is already loaded, return it
-        if (this.models.has(modelKey)) {
-            this.currentModelKey = modelKey;
-            return this.models.get(modelKey);
-        }
-
-        // If model is currently loading, return the promise
-        if (this.modelLoadPromises.has(modelKey)) {
-            this.currentModelKey = modelKey;
-            return this.modelLoadPromises.get(modelKey);
-        }
-
-        console.log(`Loading object detection model: ${modelName} with dtype: ${validatedDtype}`);
-
-        // Create and store the loading promise
-        const loadPromise = pipeline('object-detection', modelName, {
-            dtype: validatedDtype
-        });
-        this.modelLoadPromises.set(modelKey, loadPromise);
-
-        try {
-            // Wait for the model to load
-            const model = await loadPromise;
-            this.models.set(modelKey, model);
-            this.currentModelKey = modelKey;
-            console.log(`Model ${modelName} (${validatedDtype}) loaded successfully`);
-            return model;
-        } catch (error) {
-            console.error(`Error loading model ${modelName} (${validatedDtype}):`, error);
-            this.modelLoadPromises.delete(modelKey);
-            throw error;
-        }
+    public async loadModel(
+        modelName: string = this.DEFAULT_MODEL,
+        dtype: string = this.DEFAULT_DTYPE,
+        task: DetectionTask = 'object-detection'
+    ): Promise<any> {
+        const lease = await this.acquireModel(modelName, dtype, task);
+        lease.release();
+        return lease.model;
     }
 
     /**
@@ -139,29 +167,18 @@ export class ObjectDetectionService {
 
         const modelKey = this.getModelKey(modelName, validatedDtype);
 
-        // Cancel any pending load
-        this.modelLoadPromises.delete(modelKey);
+        // The model may be loaded for either detection task
+        const wasLoaded = DETECTION_TASKS
+            .map(task => this.modelManager.unload(task, modelKey))
+            .some(unloaded => unloaded);
 
-        // Remove from loaded models
-        const wasLoaded = this.models.delete(modelKey);
-
-        // Reset current model key if it matches
-        if (this.currentModelKey === modelKey) {
-            this.currentModelKey = null;
+        // Reset current model if it matches
+        if (this.currentModel?.modelName === modelName && this.currentModel.dtype === validatedDtype) {
+            this.currentModel = null;
         }
 
         if (wasLoaded) {
             console.log(`Model ${modelName} (${validatedDtype}) unloaded`);
-
-            // Force garbage collection (Node.js only)
-            if (global.gc) {
-                try {
-                    global.gc();
-                    console.log('Garbage collection triggered');
-                } catch (e) {
-                    console.warn('Failed to trigger garbage collection:', e);
-                }
-            }
         }
 
         return wasLoaded;
@@ -171,31 +188,16 @@ export class ObjectDetectionService {
      * Unload all models to free memory
      */
     public async unloadAllModels(): Promise<void> {
-        // Get all loaded model keys
-        const modelKeys = Array.from(this.models.keys());
+        const count = this.modelManager.unloadAll(DETECTION_TASKS);
+        this.currentModel = null;
 
-        // Clear collections
-        this.models.clear();
-        this.modelLoadPromises.clear();
-        this.currentModelKey = null;
-
-        console.log(`Unloaded ${modelKeys.length} models`);
-
-        // Force garbage collection (Node.js only)
-        if (global.gc) {
-            try {
-                global.gc();
-                console.log('Garbage collection triggered');
-            } catch (e) {
-                console.warn('Failed to trigger garbage collection:', e);
-            }
-        }
+        console.log(`Unloaded ${count} models`);
     }
 
     /**
-     * Formats the detection results to a standardized format
+     * Formats the detection results to a standardized format, with labels in the requested language
      */
-    private formatDetections(rawDetections: any[]): DetectionResult[] {
+    private formatDetections(rawDetections: any[], language: Language = 'en'): DetectionResult[] {
         if (!Array.isArray(rawDetections)) {
             console.warn("Unexpected detection format:", rawDetections);
             return [];
@@ -246,61 +248,23 @@ export class ObjectDetectionService {
                 height: ymax - ymin
             };
 
+            // Keep the model's label when translating it, so it can be stored for analytics
+            const translated = translateLabel(label, language);
             return {
                 box,
                 score: score,
-                label: label,
+                label: translated,
+                ...(translated !== label ? { originalLabel: label } : {}),
                 class: detection.class || ''
             };
         });
     }
 
-    /**
-     * Save image to disk and return a file URL
-     */
-    private async bufferToImageFile(buffer: Buffer): Promise<string> {
-        // Create temporary directory if it doesn't exist
-        const tempDir = path.join(process.cwd(), 'temp');
-        if (!fs.existsSync(tempDir)) {
-            fs.mkdirSync(tempDir, { recursive: true });
-        }
-
-        // Create a temporary file path with jpg extension
-        const tempFilePath = path.join(tempDir, `temp-${Date.now()}.jpg`);
-
-        // Write buffer to temporary file
-        fs.writeFileSync(tempFilePath, buffer);
-
-        // Return the absolute file path
-        return tempFilePath;
-    }
-
-    /**
-     * Convert image buffer to base64 data URL
-     */
-    private async prepareImageInput(imageBuffer: Buffer): Promise<string> {
-        try {
-            // Try to save the file to disk first (most reliable approach)
-            const filePath = await this.bufferToImageFile(imageBuffer);
-            return filePath;
-        } catch (error) {
-            console.log("File saving failed, trying base64 encoding:", error);
-
-            // Fallback to base64 data URL
-            try {
-                const base64Image = imageBuffer.toString('base64');
-                return `data:image/jpeg;base64,${base64Image}`;
-            } catch (error) {
-                console.error("Base64 encoding failed:", error);
-                throw new Error("Failed to prepare image input");
-            }
-        }
-    }
-
     /**
      * Detect objects in an image
      * @param imageBuffer The image buffer to process
-     * @param options Detection options including model name and threshold
+     * @param options Detection options including model name and threshold;
+     * with `queries` a zero-shot model looks for those objects instead of a fixed set of classes
      */
     public async detectObjects(
         imageBuffer: Buffer,
@@ -308,74 +272,136 @@ export class ObjectDetectionService {
     ): Promise<DetectionResponse> {
         const startTime = Date.now();
 
+        const queries = options.queries?.length ? options.queries : undefined;
+        const task: DetectionTask = queries ? 'zero-shot-object-detection' : 'object-detection';
+
         // Use specified model or default
-        const modelName = options.modelName || this.DEFAULT_MODEL;
-        const threshold = options.threshold || 0.5;
+        const modelName = options.modelName || (queries ? this.DEFAULT_ZERO_SHOT_MODEL : this.DEFAULT_MODEL);
+        const threshold = options.threshold || this.getDefaultThreshold(Boolean(queries));
         const maxObjects = options.maxObjects || 0; // 0 means no limit
         const dtype = options.dtype || this.DEFAULT_DTYPE;
+        const language = options.language || 'en';
+        const postProcessing: PostProcessingOptions = {
+            threshold,
+            maxObjects,
+            includeLabels: options.includeLabels,
+            excludeLabels: options.excludeLabels,
+            classThresholds: options.classThresholds,
+            nmsThreshold: options.nmsThreshold,
+            rankBy: options.rankBy || 'score'
+        };
+        const modelThreshold = getModelThreshold(threshold, options.classThresholds);
+
+        // Return the earlier result if this image was already analyzed with the same settings
+        const cacheKey = this.resultCache.buildKey(task, imageBuffer, {
+            modelName, dtype, ...postProcessing, spatial: options.spatial || false, queries, language,
+            colors: options.colors ? options.colorLanguage || language : false
+        });
+        const useCache = options.useCache !== false;
+        const cached = useCache ? await this.resultCache.get<DetectionResponse>(cacheKey) : null;
+        if (cached) {
+            console.log(`Returning cached detections for model ${modelName}`);
+            return { ...cached, processingTime: Date.now() - startTime, cached: true };
+        }
 
-        // Load the model
-        const detector = await this.loadModel(modelName, dtype);
-
-        try {
-            // Prepare the image
-            const imageInput = await this.prepareImageInput(imageBuffer);
+        // Upright, downscaled and in a format transformers.js reads; fails before loading a model if it can't be decoded
+        const preprocessed = await this.imagePreprocessing.normalize(imageBuffer, task, modelName);
 
-            console.log(`Running detection with model ${modelName}, threshold: ${threshold}, dtype: ${dtype}`);
-            console.log(`Image input type: ${typeof imageInput}`);
+        // Load the model, keeping it loaded until detection is done
+        const lease = await this.acquireModel(modelName, dtype, task);
+        const detector = lease.model;
 
-            // Run detection
-            const result = await detector(imageInput, {
-                threshold: threshold
-            });
+        try {
+            // Decode the image in memory, before taking a queue slot so invalid images don't hold one
+            const image = await decodeImage(preprocessed.buffer);
+
+            // Wait for a free slot of the model before running detection
+            const result = await this.inferenceQueue.run(`object-detection:${modelName}`, async () => {
+                console.log(`Running detection with model ${modelName}, threshold: ${modelThreshold}, dtype: ${dtype}` +
+                    (queries ? `, queries: ${queries.join(', ')}` : ''));
+
+                // Run detection; zero-shot pipelines take the queries as candidate labels
+                return queries
+                    ? await detector(image, queries, { threshold: modelThreshold })
+                    : await detector(image, {
+                        threshold: modelThreshold
+                    });
+            }, options.priority);
 
             console.log("Raw detection results:", JSON.stringify(result).substring(0, 200) + "...");
 
-            // Process results
-            let detections = this.formatDetections(result);
+            // Process results, in the coordinates of the upright original image
+            let detections = this.formatDetections(result, language).map(detection => ({
+                ...detection,
+                box: this.imagePreprocessing.toOriginalCoordinates(detection.box, preprocessed.info)
+            }));
+
+            // Keep the wanted classes and drop duplicate boxes, then rank so a limit keeps the likeliest or largest
+            detections = postProcessDetections(detections, postProcessing);
+
+            // Describe where the objects are
+            let spatialInfo: Pick<DetectionResponse, 'imageSize' | 'spatialSummary'> = {};
+            if (options.spatial) {
+                const { width, height } = preprocessed.info.originalSize;
+                const spatial = describeSpatialLayout(detections, width, height, language);
+                detections = detections.map((detection, index) => ({ ...detection, spatial: spatial[index] }));
+                spatialInfo = {
+                    imageSize: { width, height },
+                    spatialSummary: summarizeSpatialLayout(spatial, language)
+                };
+            }
 
-            // Limit the number of objects if specified
-            if (maxObjects > 0 && detections.length > maxObjects) {
-                detections = detections.slice(0, maxObjects);
+            // Name the colors of the objects, and of the clothing of people
+            if (options.colors) {
+                const colors = await this.colorAnalysis.analyzeDetections(preprocessed, detections, options.colorLanguage || language);
+                detections = detections.map((detection, index) => ({ ...detection, colors: colors[index] }));
             }
 
             const processingTime = Date.now() - startTime;
+            const labelCounts = countLabels(detections);
 
-            // Clean up temp file if it was created
-            if (typeof imageInput === 'string' && imageInput.startsWith('/')) {
-                try {
-                    if (fs.existsSync(imageInput)) {
-                        fs.unlinkSync(imageInput);
-                    }
-                } catch (error) {
-                    console.warn("Failed to clean up temporary image file:", error);
-                }
-            }
-
-            return {
+            const response: DetectionResponse = {
                 detections,
                 processingTime,
                 model: modelName,
-                dtype: dtype
+                dtype: dtype,
+                ...(queries ? { queries } : {}),
+                ...spatialInfo,
+                labelCounts,
+                countSummary: formatLabelCounts(labelCounts, language),
+                preprocessing: preprocessed.info
             };
+            if (useCache) {
+                await this.resultCache.set(cacheKey, response);
+            }
+
+            return response;
         } catch (error: any) {
+            if (error instanceof QueueFullError) {
+                throw error;
+            }
             console.error(`Error during object detection:`, error);
 
             throw new Error(`Failed to process image: ${error.message || 'Unknown error'}`);
+        } finally {
+            lease.release();
         }
     }
 
     /**
-     * Get suggested models for object detection
+     * Get the model used when none is given
+     * @param zeroShot Whether the detection searches for free-text queries
+     */
+    public getDefaultModel(zeroShot: boolean = false): string {
+        return zeroShot ? this.DEFAULT_ZERO_SHOT_MODEL : this.DEFAULT_MODEL;
+    }
+
+    /**
+     * Get the detection threshold used when none is given
+     * @param zeroShot Whether the detection searches for free-text queries
      */
-    public getSuggestedModels(): string[] {
-        return [
-            'Xenova/yolos-tiny',
-            'Xenova/yolos-small',
-            'Xenova/detr-resnet-50',
-            'onnx-community/rtdetr_r50vd',
-            'onnx-community/dfine_n_coco-ONNX'
-        ];
+    public getDefaultThreshold(zeroShot: boolean = false): number {
+        return zeroShot ? this.DEFAULT_ZERO_SHOT_THRESHOLD : 0.5;
     }
 
     /**
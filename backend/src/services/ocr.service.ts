@@ -0,0 +1,269 @@
+import { AutoProcessor, Florence2ForConditionalGeneration, pipeline, RawImage } from '@huggingface/transformers';
+import { BoundingBox, OcrOptions, OcrResponse, OcrTextBlock } from '../interfaces/detection.interface';
+import { decodeImage } from '../utils/image-decode';
+import { groupLinesIntoBlocks, textLinesFromQuads } from '../utils/text-layout';
+import { InferenceQueueService, QueueFullError } from './inference-queue.service';
+import { ModelLease, ModelManagerService } from './model-manager.service';
+import { ImagePreprocessingService } from './image-preprocessing.service';
+
+// Define valid dtype types
+type ValidDtype = 'fp32' | 'fp16' | 'q8' | 'int8' | 'uint8' | 'q4' | 'bnb4' | 'q4f16';
+
+// Kinds of the recognizers and the text detectors in the model manager
+const MODEL_KIND = 'ocr';
+const DETECTION_KIND = 'ocr-detection';
+
+// Florence-2 task that outlines every line of text with a quadrilateral
+const DETECTION_TASK = '<OCR_WITH_REGION>';
+const DETECTION_MAX_TOKENS = 1024;
+
+/**
+ * A loaded Florence-2 text detector
+ */
+interface TextDetector {
+    processor: any;
+    model: any;
+}
+
+/**
+ * Service for reading text in images with local transformers.js models.
+ * Lines are found by a text detection model (Florence-2 outlining the text regions)
+ * and each line is read by an image-to-text (TrOCR) pipeline.
+ */
+export class OcrService {
+    private static instance: OcrService;
+    private currentModelKey: string | null = null;
+    private modelManager: ModelManagerService = ModelManagerService.getInstance();
+    private inferenceQueue: InferenceQueueService = InferenceQueueService.getInstance();
+    private imagePreprocessing: ImagePreprocessingService = ImagePreprocessingService.getInstance();
+
+    // Default line recognizer - can be configured via env var
+    private DEFAULT_MODEL = process.env.OCR_MODEL || 'Xenova/trocr-small-printed';
+    // Text detection model - can be configured via env var
+    private DETECTION_MODEL = process.env.OCR_DETECTION_MODEL || 'onnx-community/Florence-2-base-ft';
+    private DEFAULT_DTYPE: ValidDtype = 'fp32';
+    private DEFAULT_MAX_LINES = 50;
+
+    // Valid quantization types
+    private VALID_DTYPES: ValidDtype[] = ['fp32', 'fp16', 'q8', 'int8', 'uint8', 'q4', 'bnb4', 'q4f16'];
+
+    private constructor() {
+        // Models listed in PRELOAD_MODELS as "ocr" or "ocr:model"
+        this.modelManager.registerPreloader(MODEL_KIND, modelName => this.loadModel(modelName));
+        // The text detector as "ocr-detection"
+        this.modelManager.registerPreloader(DETECTION_KIND, async modelName => {
+            const lease = await this.acquireDetector(modelName || this.DETECTION_MODEL);
+            lease.release();
+        });
+    }
+
+    /**
+     * Gets the singleton instance of the service
+     */
+    public static getInstance(): OcrService {
+        if (!OcrService.instance) {
+            OcrService.instance = new OcrService();
+        }
+        return OcrService.instance;
+    }
+
+    /**
+     * Get the key for a model+dtype combination
+     */
+    private getModelKey(modelName: string, dtype: string): string {
+        return `${modelName}|||${dtype}`;
+    }
+
+    /**
+     * Get the line recognition model used when none is given
+     */
+    public getDefaultModel(): string {
+        return this.DEFAULT_MODEL;
+    }
+
+    /**
+     * Get information about the most recently used recognizer, if it is still loaded
+     */
+    public getCurrentModelInfo(): { modelName: string, dtype: string } | null {
+        if (!this.currentModelKey || !this.modelManager.isLoaded(MODEL_KIND, this.currentModelKey)) {
+            return null;
+        }
+
+        const [modelName, dtype] = this.currentModelKey.split('|||');
+        return { modelName, dtype };
+    }
+
+    /**
+     * Get a line recognition model from the model manager, loading it if needed.
+     * The model can't be evicted until the lease is released.
+     */
+    private async acquireModel(modelName: string, dtype: string): Promise<ModelLease<any>> {
+        const validatedDtype = this.VALID_DTYPES.includes(dtype as ValidDtype)
+            ? (dtype as ValidDtype)
+            : this.DEFAULT_DTYPE;
+
+        if (validatedDtype !== dtype) {
+            console.warn(`Invalid dtype: ${dtype}, using default: ${this.DEFAULT_DTYPE}`);
+        }
+
+        const modelKey = this.getModelKey(modelName, validatedDtype);
+        this.currentModelKey = modelKey;
+
+        return this.modelManager.acquire(MODEL_KIND, modelKey, async () => {
+            console.log(`Loading OCR model: ${modelName} with dtype: ${validatedDtype}`);
+            try {
+                return await pipeline('image-to-text', modelName, {
+                    dtype: validatedDtype
+                });
+            } catch (error) {
+                console.error(`Error loading OCR model ${modelName} (${validatedDtype}):`, error);
+                throw error;
+            }
+        }, { modelName, dtype: validatedDtype });
+    }
+
+    /**
+     * Get a text detection model from the model manager, loading it if needed
+     */
+    private async acquireDetector(modelName: string): Promise<ModelLease<TextDetector>> {
+        return this.modelManager.acquire(DETECTION_KIND, modelName, async () => {
+            console.log(`Loading text detection model: ${modelName}`);
+            try {
+                const [processor, model] = await Promise.all([
+                    AutoProcessor.from_pretrained(modelName, {}),
+                    Florence2ForConditionalGeneration.from_pretrained(modelName, { dtype: this.DEFAULT_DTYPE })
+                ]);
+                return { processor, model };
+            } catch (error) {
+                console.error(`Error loading text detection model ${modelName}:`, error);
+                throw error;
+            }
+        }, { modelName, dtype: this.DEFAULT_DTYPE });
+    }
+
+    /**
+     * Find the lines of text in an image with the text detection model
+     * @returns Line boxes, top to bottom
+     */
+    private async detectTextLines(detector: TextDetector, image: RawImage): Promise<BoundingBox[]> {
+        const { processor, model } = detector;
+
+        const inputs = await processor(image, processor.construct_prompts(DETECTION_TASK));
+        const generatedIds = await model.generate({ ...inputs, max_new_tokens: DETECTION_MAX_TOKENS });
+        const [generatedText] = processor.batch_decode(generatedIds, { skip_special_tokens: false });
+        const result = processor.post_process_generation(generatedText, DETECTION_TASK, [image.width, image.height]);
+
+        return textLinesFromQuads(result[DETECTION_TASK]?.quad_boxes || [], image.width, image.height);
+    }
+
+    /**
+     * Load a line recognition model with the specified name and dtype
+     * @param modelName The HuggingFace model name to load
+     * @param dtype The quantization type (fp32, fp16, q8, q4, etc.)
+     * @returns The loaded image-to-text pipeline
+     */
+    public async loadModel(modelName: string = this.DEFAULT_MODEL, dtype: string = this.DEFAULT_DTYPE): Promise<any> {
+        const lease = await this.acquireModel(modelName, dtype);
+        lease.release();
+        return lease.model;
+    }
+
+    /**
+     * Unload all OCR models to free memory
+     */
+    public async unloadAllModels(): Promise<void> {
+        const count = this.modelManager.unloadAll([MODEL_KIND, DETECTION_KIND]);
+        this.currentModelKey = null;
+
+        console.log(`Unloaded ${count} OCR models`);
+    }
+
+    /**
+     * Read the text in an image
+     * @param imageBuffer The image buffer to process
+     * @param options OCR options including the recognizer model and line limit
+     */
+    public async recognizeText(
+        imageBuffer: Buffer,
+        options: OcrOptions = {}
+    ): Promise<OcrResponse> {
+        const startTime = Date.now();
+
+        const modelName = options.modelName || this.DEFAULT_MODEL;
+        const dtype = options.dtype || this.DEFAULT_DTYPE;
+        const maxLines = options.maxLines || this.DEFAULT_MAX_LINES;
+
+        // Upright and converted first, so sideways phone photos read as horizontal lines
+        const preprocessed = await this.imagePreprocessing.normalize(imageBuffer, MODEL_KIND, modelName);
+
+        // Load the detector and the recognizer, keeping them loaded until all lines are read
+        const detectorLease = await this.acquireDetector(this.DETECTION_MODEL);
+        let lease: ModelLease<any>;
+        try {
+            lease = await this.acquireModel(modelName, dtype);
+        } catch (error) {
+            detectorLease.release();
+            throw error;
+        }
+        const recognizer = lease.model;
+
+        try {
+            const image = await decodeImage(preprocessed.buffer);
+
+            const { lines, lineTexts } = await this.inferenceQueue.run(`ocr:${modelName}`, async () => {
+                let lines = await this.detectTextLines(detectorLease.model, image);
+                if (lines.length > maxLines) {
+                    console.warn(`Found ${lines.length} text lines, reading the first ${maxLines}`);
+                    lines = lines.slice(0, maxLines);
+                }
+
+                console.log(`Running OCR with model ${modelName} on ${lines.length} lines, dtype: ${dtype}`);
+
+                // Lines are read one at a time to keep memory use flat
+                const lineTexts: string[] = [];
+                for (const line of lines) {
+                    const crop = await image.crop([line.xmin, line.ymin, line.xmax, line.ymax]);
+                    const [output] = await recognizer(crop);
+                    lineTexts.push((output?.generated_text || '').trim());
+                }
+                return { lines, lineTexts };
+            }, options.priority);
+
+            // Boxes in the coordinates of the upright original image
+            const toOriginal = (box: BoundingBox) => this.imagePreprocessing.toOriginalCoordinates(box, preprocessed.info);
+
+            const blocks: OcrTextBlock[] = groupLinesIntoBlocks(lines)
+                .map(block => {
+                    const blockLines = block.lineIndices
+                        .map(index => ({ text: lineTexts[index], box: toOriginal(lines[index]) }))
+                        .filter(line => line.text.length > 0);
+
+                    return {
+                        text: blockLines.map(line => line.text).join('\n'),
+                        box: toOriginal(block.box),
+                        lines: blockLines
+                    };
+                })
+                .filter(block => block.lines.length > 0);
+
+            return {
+                text: blocks.map(block => block.text).join('\n\n'),
+                blocks,
+                processingTime: Date.now() - startTime,
+                model: modelName,
+                dtype,
+                preprocessing: preprocessed.info
+            };
+        } catch (error: any) {
+            if (error instanceof QueueFullError) {
+                throw error;
+            }
+            console.error(`Error during text recognition:`, error);
+
+            throw new Error(`Failed to read text in image: ${error.message || 'Unknown error'}`);
+        } finally {
+            lease.release();
+            detectorLease.release();
+        }
+    }
+}
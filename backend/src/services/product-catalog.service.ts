@@ -0,0 +1,228 @@
+import PrismaService from '../database/prisma-service';
+import { Product } from '../generated/prisma';
+import { ProductInfo } from '../interfaces/detection.interface';
+import { parseCsv } from '../utils/csv';
+import { normalizeGtin } from '../utils/barcode-content';
+
+/**
+ * Outcome of a CSV import
+ */
+export interface ProductImportResult {
+    created: number;
+    updated: number;
+    skipped: number;
+    errors: { line: number; error: string }[]; // At most MAX_REPORTED_ERRORS
+}
+
+/**
+ * Thrown when a CSV file can't be imported at all, e.g. because a required column is missing
+ */
+export class ProductImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProductImportError';
+    }
+}
+
+type ProductField = keyof ProductInfo;
+
+// Header names accepted for each field, lower case
+const COLUMN_ALIASES: Record<ProductField, string[]> = {
+    barcode: ['barcode', 'ean', 'gtin', 'upc', 'code'],
+    name: ['name', 'product', 'product_name', 'product name', 'title'],
+    brand: ['brand', 'brands', 'manufacturer'],
+    quantity: ['quantity', 'size', 'net_content'],
+    category: ['category', 'categories'],
+    description: ['description', 'details']
+};
+
+const MAX_REPORTED_ERRORS = 100;
+const UPSERT_BATCH_SIZE = 500;
+
+/**
+ * Service for the local product catalog barcodes are looked up in.
+ * Administrators fill it by importing CSV files; rows are matched on their normalized GTIN,
+ * so importing a newer export of the same catalog updates the products in place.
+ */
+export class ProductCatalogService {
+    private static instance: ProductCatalogService;
+    private prismaService: PrismaService;
+
+    private constructor() {
+        this.prismaService = PrismaService.getInstance();
+    }
+
+    /**
+     * Get the singleton instance of ProductCatalogService
+     */
+    public static getInstance(): ProductCatalogService {
+        if (!ProductCatalogService.instance) {
+            ProductCatalogService.instance = new ProductCatalogService();
+        }
+        return ProductCatalogService.instance;
+    }
+
+    private toProductInfo(product: Product): ProductInfo {
+        const { barcode, name, brand, quantity, category, description } = product;
+        return { barcode, name, brand, quantity, category, description };
+    }
+
+    /**
+     * Find the products of GTINs, as normalized by normalizeGtin
+     * @returns Products by GTIN; unknown GTINs are left out
+     */
+    public async findByBarcodes(gtins: string[]): Promise<Map<string, ProductInfo>> {
+        if (gtins.length === 0) {
+            return new Map();
+        }
+
+        const products = await this.prismaService.prisma.product.findMany({
+            where: { barcode: { in: gtins } }
+        });
+        return new Map(products.map(product => [product.barcode, this.toProductInfo(product)]));
+    }
+
+    /**
+     * List products, optionally only those whose barcode, name or brand contain a search term
+     */
+    public async listProducts(options: { search?: string; limit?: number; offset?: number } = {}) {
+        const { search, limit = 50, offset = 0 } = options;
+        const where = search
+            ? {
+                OR: [
+                    { barcode: { contains: search } },
+                    { name: { contains: search, mode: 'insensitive' as const } },
+                    { brand: { contains: search, mode: 'insensitive' as const } }
+                ]
+            }
+            : {};
+
+        const [total, products] = await Promise.all([
+            this.prismaService.prisma.product.count({ where }),
+            this.prismaService.prisma.product.findMany({
+                where,
+                orderBy: { name: 'asc' },
+                skip: offset,
+                take: limit
+            })
+        ]);
+
+        return {
+            data: products,
+            pagination: {
+                total,
+                limit,
+                offset,
+                hasMore: offset + products.length < total
+            }
+        };
+    }
+
+    /**
+     * Delete a product
+     * @returns True if the product existed
+     */
+    public async deleteProduct(id: string): Promise<boolean> {
+        const { count } = await this.prismaService.prisma.product.deleteMany({ where: { id } });
+        return count > 0;
+    }
+
+    /**
+     * Import products from CSV text with a header row.
+     * Barcode and name columns are required; brand, quantity, category and description are optional.
+     * Rows with an invalid barcode or no name are skipped and reported; when a barcode appears
+     * more than once, the last row wins.
+     * @throws ProductImportError If the file is empty or lacks a required column
+     */
+    public async importCsv(csv: string): Promise<ProductImportResult> {
+        const [header, ...rows] = parseCsv(csv);
+        if (!header) {
+            throw new ProductImportError('The CSV file is empty');
+        }
+
+        const columns = this.mapColumns(header);
+        if (columns.barcode === undefined || columns.name === undefined) {
+            throw new ProductImportError(
+                `The CSV file needs a barcode and a name column, found: ${header.join(', ')}`
+            );
+        }
+
+        const result: ProductImportResult = { created: 0, updated: 0, skipped: 0, errors: [] };
+        const reportError = (line: number, error: string) => {
+            result.skipped++;
+            if (result.errors.length < MAX_REPORTED_ERRORS) {
+                result.errors.push({ line, error });
+            }
+        };
+
+        const products = new Map<string, Omit<ProductInfo, 'barcode'>>();
+        rows.forEach((row, index) => {
+            // Rows are numbered as in a spreadsheet, the header being row 1
+            const line = index + 2;
+            const value = (field: ProductField) => {
+                const column = columns[field];
+                const text = column === undefined ? '' : (row[column] || '').trim();
+                return text || null;
+            };
+
+            const rawBarcode = value('barcode');
+            const barcode = rawBarcode && normalizeGtin(rawBarcode);
+            const name = value('name');
+            if (!barcode) {
+                reportError(line, rawBarcode ? `Invalid barcode '${rawBarcode}'` : 'Missing barcode');
+                return;
+            }
+            if (!name) {
+                reportError(line, 'Missing name');
+                return;
+            }
+
+            products.set(barcode, {
+                name,
+                brand: value('brand'),
+                quantity: value('quantity'),
+                category: value('category'),
+                description: value('description')
+            });
+        });
+
+        const prisma = this.prismaService.prisma;
+        const entries = Array.from(products);
+        for (let start = 0; start < entries.length; start += UPSERT_BATCH_SIZE) {
+            const batch = entries.slice(start, start + UPSERT_BATCH_SIZE);
+            const existing = await prisma.product.findMany({
+                where: { barcode: { in: batch.map(([barcode]) => barcode) } },
+                select: { barcode: true }
+            });
+            const existingBarcodes = new Set(existing.map(product => product.barcode));
+
+            await prisma.$transaction(batch.map(([barcode, fields]) => prisma.product.upsert({
+                where: { barcode },
+                create: { barcode, ...fields },
+                update: fields
+            })));
+
+            result.updated += batch.filter(([barcode]) => existingBarcodes.has(barcode)).length;
+            result.created += batch.filter(([barcode]) => !existingBarcodes.has(barcode)).length;
+        }
+
+        console.log(`Imported products: ${result.created} created, ${result.updated} updated, ${result.skipped} skipped`);
+        return result;
+    }
+
+    /**
+     * Index of the column of each field in the header row, by the first matching alias
+     */
+    private mapColumns(header: string[]): Partial<Record<ProductField, number>> {
+        const names = header.map(name => name.trim().toLowerCase());
+        const columns: Partial<Record<ProductField, number>> = {};
+
+        for (const [field, aliases] of Object.entries(COLUMN_ALIASES) as [ProductField, string[]][]) {
+            const index = names.findIndex(name => aliases.includes(name));
+            if (index !== -1) {
+                columns[field] = index;
+            }
+        }
+        return columns;
+    }
+}
@@ -0,0 +1,173 @@
+import { ObjectDetectionService } from './object-detection.service';
+import { ImageDescriptionService } from './image-description.service';
+import { ImageStorageService } from './image-storage.service';
+import { VisionStorageService } from './vision-storage.service';
+import {
+    DescriptionDiff,
+    DiffObject,
+    ReanalysisOptions,
+    ReanalysisResponse
+} from '../interfaces/detection.interface';
+import { diffDetections } from '../utils/detection-diff';
+
+/**
+ * A stored vision analysis with its results, as returned by VisionStorageService.getVisionAnalysis
+ */
+export type StoredVisionAnalysis = NonNullable<Awaited<ReturnType<VisionStorageService['getVisionAnalysis']>>>;
+
+/**
+ * Thrown when the image of an analysis was never stored or has been removed from the image storage
+ */
+export class AnalysisImageUnavailableError extends Error {
+    constructor(public readonly analysisId: string) {
+        super(`The image of vision analysis ${analysisId} is not available`);
+        this.name = 'AnalysisImageUnavailableError';
+    }
+}
+
+/**
+ * Service for running detection or description again on the stored image of an analysis,
+ * e.g. to compare models on real user photos. Every re-analysis is stored as a revision of the
+ * original analysis and compared with the analysis it was run from.
+ */
+export class ReanalysisService {
+    private static instance: ReanalysisService;
+    private detectionService: ObjectDetectionService;
+    private descriptionService: ImageDescriptionService;
+    private imageStorage: ImageStorageService;
+    private visionStorageService: VisionStorageService;
+
+    private constructor() {
+        this.detectionService = ObjectDetectionService.getInstance();
+        this.descriptionService = ImageDescriptionService.getInstance();
+        this.imageStorage = ImageStorageService.getInstance();
+        this.visionStorageService = VisionStorageService.getInstance();
+    }
+
+    /**
+     * Get the singleton instance of ReanalysisService
+     */
+    public static getInstance(): ReanalysisService {
+        if (!ReanalysisService.instance) {
+            ReanalysisService.instance = new ReanalysisService();
+        }
+        return ReanalysisService.instance;
+    }
+
+    /**
+     * Objects of a stored detection in the form the diff compares
+     */
+    private toDiffObjects(analysis: StoredVisionAnalysis): DiffObject[] {
+        return (analysis.objectDetection?.detectedObjects || []).map(object => {
+            const box = object.boundingBox as { xMin: number; yMin: number; xMax: number; yMax: number };
+            return {
+                label: object.label,
+                score: object.confidence,
+                box: { xmin: box.xMin, ymin: box.yMin, xmax: box.xMax, ymax: box.yMax }
+            };
+        });
+    }
+
+    /**
+     * Re-analyze the stored image of an analysis and store the result as a revision
+     * @param userId Owner of the analysis
+     * @param analysis The analysis to re-analyze
+     * @param options Task and its options (model, threshold, prompt...)
+     * @throws AnalysisImageUnavailableError If the image of the analysis isn't stored
+     */
+    public async reanalyze(
+        userId: string,
+        analysis: StoredVisionAnalysis,
+        options: ReanalysisOptions
+    ): Promise<ReanalysisResponse> {
+        const image = analysis.imagePath ? await this.imageStorage.readImage(analysis.imagePath) : null;
+        if (!image) {
+            throw new AnalysisImageUnavailableError(analysis.id);
+        }
+
+        // Revisions of revisions are linked to the original, so all revisions of an image form one list
+        const parentAnalysisId = analysis.parentAnalysisId || analysis.id;
+        const response: ReanalysisResponse = {
+            task: options.task,
+            sourceAnalysisId: analysis.id,
+            parentAnalysisId,
+            analysisId: null,
+            diff: null
+        };
+
+        let savedAnalysisId: string | null | undefined;
+        if (options.task === 'detection') {
+            const detectionOptions = options.detection || {};
+            const detection = await this.detectionService.detectObjects(image.data, detectionOptions);
+            response.detection = detection;
+
+            if (analysis.objectDetection) {
+                response.diff = diffDetections(
+                    { model: analysis.objectDetection.modelName, objects: this.toDiffObjects(analysis) },
+                    { model: detection.model, objects: detection.detections.map(({ label, score, box }) => ({ label, score, box })) }
+                );
+            }
+
+            const saved = await this.visionStorageService.saveObjectDetection(
+                userId,
+                analysis.sessionId,
+                image.data,
+                analysis.fileName,
+                analysis.imageFormat,
+                detection.model,
+                {
+                    threshold: detectionOptions.threshold || this.detectionService.getDefaultThreshold(),
+                    maxObjects: detectionOptions.maxObjects,
+                    dtype: detection.dtype
+                },
+                detection.detections.map(item => ({
+                    label: item.label,
+                    confidence: item.score,
+                    boundingBox: {
+                        xMin: item.box.xmin,
+                        yMin: item.box.ymin,
+                        xMax: item.box.xmax,
+                        yMax: item.box.ymax
+                    }
+                })),
+                detection.processingTime,
+                detection.preprocessing
+            );
+            savedAnalysisId = saved?.visionAnalysisId;
+        } else {
+            const descriptionOptions = options.description || {};
+            const description = await this.descriptionService.describeImage(image.data, descriptionOptions);
+            response.description = description;
+
+            const earlier = analysis.imageDescription;
+            const diff: DescriptionDiff = {
+                before: earlier && { model: earlier.modelName, prompt: earlier.prompt, description: earlier.description },
+                after: { model: description.model, prompt: description.prompt, description: description.description }
+            };
+            response.diff = earlier ? diff : null;
+
+            const saved = await this.visionStorageService.saveImageDescription(
+                userId,
+                analysis.sessionId,
+                image.data,
+                analysis.fileName,
+                analysis.imageFormat,
+                description.model,
+                description.prompt,
+                descriptionOptions.maxNewTokens || 150,
+                descriptionOptions.doSample ? 0.7 : 0,
+                description.description,
+                description.processingTime,
+                description.preprocessing
+            );
+            savedAnalysisId = saved?.visionAnalysisId;
+        }
+
+        if (savedAnalysisId) {
+            await this.visionStorageService.markAsRevision(savedAnalysisId, parentAnalysisId);
+            response.analysisId = savedAnalysisId;
+        }
+
+        return response;
+    }
+}
@@ -0,0 +1,78 @@
+import { Config } from '../config/Config';
+import { createCacheProvider } from '../cache';
+import { ICacheProvider } from '../interfaces/ICacheProvider';
+import { hashImage } from '../utils/image-hash';
+
+/**
+ * Service for caching analysis results of identical images.
+ * Keys combine the image hash with everything that changes the result (model, dtype, threshold, prompt...),
+ * so resubmitting the same image with the same settings returns the earlier result.
+ * Cache failures are logged and treated as misses; they never fail an analysis.
+ */
+export class ResultCacheService {
+    private static instance: ResultCacheService;
+    private provider: ICacheProvider | null;
+
+    private constructor() {
+        const config = Config.getInstance().resultCache;
+        this.provider = createCacheProvider(config);
+        console.log(`Result cache: ${config.provider}`);
+    }
+
+    /**
+     * Get the singleton instance of ResultCacheService
+     */
+    public static getInstance(): ResultCacheService {
+        if (!ResultCacheService.instance) {
+            ResultCacheService.instance = new ResultCacheService();
+        }
+        return ResultCacheService.instance;
+    }
+
+    /**
+     * Build the cache key of an analysis
+     * @param kind Analysis type, e.g. 'object-detection'
+     * @param imageBuffer The analyzed image
+     * @param params Settings that affect the result; undefined values are left out
+     */
+    public buildKey(kind: string, imageBuffer: Buffer, params: Record<string, unknown>): string {
+        const settings = Object.keys(params)
+            .filter(name => params[name] !== undefined)
+            .sort()
+            .map(name => `${name}=${JSON.stringify(params[name])}`)
+            .join('&');
+
+        return `${kind}:${hashImage(imageBuffer)}:${settings}`;
+    }
+
+    /**
+     * Get a cached result, or null on a miss
+     */
+    public async get<T>(key: string): Promise<T | null> {
+        if (!this.provider) {
+            return null;
+        }
+
+        try {
+            return (await this.provider.get(key)) ?? null;
+        } catch (error) {
+            console.warn('Error reading from result cache:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Store a result
+     */
+    public async set<T>(key: string, value: T): Promise<void> {
+        if (!this.provider) {
+            return;
+        }
+
+        try {
+            await this.provider.set(key, value);
+        } catch (error) {
+            console.warn('Error writing to result cache:', error);
+        }
+    }
+}
@@ -0,0 +1,113 @@
+import { ObjectDetectionService } from './object-detection.service';
+import { ImageDescriptionService } from './image-description.service';
+import { QueueFullError } from './inference-queue.service';
+import { UnsupportedImageFormatError } from './image-preprocessing.service';
+import { DetectionResponse, SceneAnalysisOptions, SceneAnalysisResponse } from '../interfaces/detection.interface';
+import { buildGroundingPrompt, countLabels, fuseSceneSummary, LabelCount } from '../utils/scene-summary';
+
+/**
+ * Service for combined scene analysis: object detection and a VLM description
+ * of the same image, fused into one summary that can be read aloud.
+ */
+export class SceneAnalysisService {
+    private static instance: SceneAnalysisService;
+    private detectionService: ObjectDetectionService;
+    private descriptionService: ImageDescriptionService;
+
+    private DEFAULT_PROMPT = 'Describe this scene briefly for a blind person.';
+    private DEFAULT_GROUNDING_WAIT_MS = parseInt(process.env.SCENE_GROUNDING_WAIT_MS || '1500', 10);
+
+    private constructor() {
+        this.detectionService = ObjectDetectionService.getInstance();
+        this.descriptionService = ImageDescriptionService.getInstance();
+    }
+
+    /**
+     * Get the singleton instance of SceneAnalysisService
+     */
+    public static getInstance(): SceneAnalysisService {
+        if (!SceneAnalysisService.instance) {
+            SceneAnalysisService.instance = new SceneAnalysisService();
+        }
+        return SceneAnalysisService.instance;
+    }
+
+    /**
+     * Detect objects and describe an image.
+     * Detection starts first; the description waits up to `groundingWaitMs` for it so the
+     * detected labels can be added to the prompt, then both run to completion in parallel.
+     * @param imageBuffer The image buffer to analyze
+     * @param options Detection, description and grounding options
+     */
+    public async analyzeScene(
+        imageBuffer: Buffer,
+        options: SceneAnalysisOptions = {}
+    ): Promise<SceneAnalysisResponse> {
+        const startTime = Date.now();
+        const groundingWaitMs = options.groundingWaitMs ?? this.DEFAULT_GROUNDING_WAIT_MS;
+        const errors: SceneAnalysisResponse['errors'] = {};
+
+        const language = options.language || 'en';
+        const detectionPromise = this.detectionService.detectObjects(imageBuffer, { ...options.detection, language });
+
+        // Wait briefly for detections without failing the description if detection fails
+        let timer: NodeJS.Timeout | undefined;
+        const earlyDetection = await Promise.race([
+            detectionPromise.catch(() => null),
+            new Promise<null>(resolve => {
+                timer = setTimeout(() => resolve(null), groundingWaitMs);
+            })
+        ]);
+        clearTimeout(timer);
+
+        const groundingCounts: LabelCount[] = earlyDetection ? countLabels(earlyDetection.detections) : [];
+        if (!earlyDetection) {
+            console.log(`Detections not ready after ${groundingWaitMs}ms, describing without grounding`);
+        }
+
+        const descriptionOptions = options.description || {};
+        const prompt = buildGroundingPrompt(descriptionOptions.prompt || this.DEFAULT_PROMPT, groundingCounts);
+
+        const [detectionResult, descriptionResult] = await Promise.allSettled([
+            detectionPromise,
+            this.descriptionService.describeImage(imageBuffer, { ...descriptionOptions, prompt, language })
+        ]);
+
+        let detection: DetectionResponse | null = null;
+        if (detectionResult.status === 'fulfilled') {
+            detection = detectionResult.value;
+        } else {
+            console.error('Detection failed during scene analysis:', detectionResult.reason);
+            errors.detection = detectionResult.reason instanceof Error ? detectionResult.reason.message : String(detectionResult.reason);
+        }
+
+        const description = descriptionResult.status === 'fulfilled' ? descriptionResult.value : null;
+        if (descriptionResult.status === 'rejected') {
+            console.error('Description failed during scene analysis:', descriptionResult.reason);
+            errors.description = descriptionResult.reason instanceof Error ? descriptionResult.reason.message : String(descriptionResult.reason);
+        }
+
+        if (!detection && !description) {
+            // Let the caller reject an unreadable format, or ask the client to retry when a queue was full
+            const reasons = [detectionResult, descriptionResult]
+                .map(result => result.status === 'rejected' ? result.reason : null);
+            const clientError = reasons.find(reason => reason instanceof UnsupportedImageFormatError)
+                || reasons.find(reason => reason instanceof QueueFullError);
+            if (clientError) {
+                throw clientError;
+            }
+            throw new Error(`Scene analysis failed: ${errors.detection}; ${errors.description}`);
+        }
+
+        const counts = detection ? countLabels(detection.detections) : [];
+
+        return {
+            summary: fuseSceneSummary(description?.description || null, counts, language),
+            detection,
+            description,
+            groundingLabels: groundingCounts.map(({ label }) => label),
+            errors,
+            processingTime: Date.now() - startTime
+        };
+    }
+}
@@ -0,0 +1,219 @@
+import PrismaService from '../database/prisma-service';
+import { ImageDescriptionService } from './image-description.service';
+import { ImageStorageService } from './image-storage.service';
+import { ImagePreprocessingService } from './image-preprocessing.service';
+import { ImageDescriptionOptions } from '../interfaces/detection.interface';
+
+/**
+ * Service for multi-turn visual question answering.
+ * A conversation is tied to one uploaded image (kept by the image storage and referenced
+ * by VisionAnalysis.imagePath) and keeps every question/answer turn in the database.
+ */
+export class VisionConversationService {
+    private static instance: VisionConversationService;
+    private prismaService: PrismaService;
+    private descriptionService: ImageDescriptionService;
+    private imageStorage: ImageStorageService;
+    private imagePreprocessing: ImagePreprocessingService;
+
+    private constructor() {
+        this.prismaService = PrismaService.getInstance();
+        this.descriptionService = ImageDescriptionService.getInstance();
+        this.imageStorage = ImageStorageService.getInstance();
+        this.imagePreprocessing = ImagePreprocessingService.getInstance();
+    }
+
+    /**
+     * Get the singleton instance of VisionConversationService
+     */
+    public static getInstance(): VisionConversationService {
+        if (!VisionConversationService.instance) {
+            VisionConversationService.instance = new VisionConversationService();
+        }
+        return VisionConversationService.instance;
+    }
+
+    /**
+     * Create a conversation about an uploaded image, optionally answering its first question.
+     * The first question is answered before anything is saved, so a failed answer leaves no conversation behind.
+     */
+    public async createConversation(
+        userId: string,
+        sessionId: string | null,
+        imageBuffer: Buffer,
+        fileName: string | null,
+        imageFormat: string | null,
+        firstQuestion?: string,
+        options: ImageDescriptionOptions = {}
+    ) {
+        const prisma = this.prismaService.prisma;
+        // No question could be answered about an image the models can't read
+        this.imagePreprocessing.assertSupportedFormat(imageBuffer);
+
+        // Follow-up questions need the image, so a conversation isn't created without it
+        const { imageHash, imagePath } = await this.imageStorage.storeImage(imageBuffer);
+
+        const firstAnswer = firstQuestion
+            ? await this.descriptionService.answerQuestion(imageBuffer, firstQuestion, [], options)
+            : null;
+
+        try {
+            return await prisma.$transaction(async (tx) => {
+                const visionAnalysis = await tx.visionAnalysis.create({
+                    data: {
+                        userId,
+                        sessionId,
+                        analysisType: 'VISUAL_QA',
+                        imageHash,
+                        imageFormat,
+                        fileName,
+                        imagePath,
+                    },
+                });
+
+                return await tx.visionConversation.create({
+                    data: {
+                        visionAnalysisId: visionAnalysis.id,
+                        userId,
+                        sessionId,
+                        modelName: firstAnswer?.model || this.descriptionService.getDefaultModel(),
+                        turns: firstQuestion && firstAnswer ? {
+                            create: {
+                                question: firstQuestion,
+                                answer: firstAnswer.description,
+                                modelName: firstAnswer.model,
+                                processingTimeMs: firstAnswer.processingTime,
+                            },
+                        } : undefined,
+                    },
+                    include: {
+                        visionAnalysis: true,
+                        turns: true,
+                    },
+                });
+            });
+        } catch (error) {
+            console.error('Error creating vision conversation:', error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to create vision conversation: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Ask a question in an existing conversation.
+     * The stored image and all previous turns are sent to the model.
+     */
+    public async askQuestion(
+        conversationId: string,
+        question: string,
+        options: ImageDescriptionOptions = {}
+    ) {
+        const prisma = this.prismaService.prisma;
+
+        const conversation = await prisma.visionConversation.findUnique({
+            where: { id: conversationId },
+            include: {
+                visionAnalysis: true,
+                turns: { orderBy: { createdAt: 'asc' } },
+            },
+        });
+
+        if (!conversation) {
+            throw new Error(`Vision conversation not found: ${conversationId}`);
+        }
+
+        const imagePath = conversation.visionAnalysis.imagePath;
+        const image = imagePath ? await this.imageStorage.readImage(imagePath) : null;
+        if (!image) {
+            throw new Error('The image for this conversation is no longer available');
+        }
+
+        const imageBuffer = image.data;
+        const history = conversation.turns.map(turn => ({ question: turn.question, answer: turn.answer }));
+
+        const result = await this.descriptionService.answerQuestion(imageBuffer, question, history, options);
+
+        try {
+            const [turn] = await prisma.$transaction([
+                prisma.conversationTurn.create({
+                    data: {
+                        conversationId,
+                        question,
+                        answer: result.description,
+                        modelName: result.model,
+                        processingTimeMs: result.processingTime,
+                    },
+                }),
+                // Touch the conversation so recently used ones sort first
+                prisma.visionConversation.update({
+                    where: { id: conversationId },
+                    data: { modelName: result.model },
+                }),
+            ]);
+
+            return turn;
+        } catch (error) {
+            console.error('Error saving conversation turn:', error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to save conversation turn: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Get a conversation with all its turns
+     */
+    public async getConversation(id: string) {
+        const prisma = this.prismaService.prisma;
+
+        try {
+            return await prisma.visionConversation.findUnique({
+                where: { id },
+                include: {
+                    visionAnalysis: true,
+                    turns: { orderBy: { createdAt: 'asc' } },
+                },
+            });
+        } catch (error) {
+            console.error('Error fetching vision conversation:', error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to fetch vision conversation: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Get the conversations of a user, most recently active first
+     */
+    public async getUserConversations(userId: string, limit = 20, offset = 0) {
+        const prisma = this.prismaService.prisma;
+
+        try {
+            const totalCount = await prisma.visionConversation.count({
+                where: { userId },
+            });
+
+            const conversations = await prisma.visionConversation.findMany({
+                where: { userId },
+                orderBy: { updatedAt: 'desc' },
+                skip: offset,
+                take: limit,
+                include: {
+                    turns: { orderBy: { createdAt: 'asc' } },
+                },
+            });
+
+            return {
+                data: conversations,
+                pagination: {
+                    total: totalCount,
+                    limit,
+                    offset,
+                    hasMore: offset + conversations.length < totalCount,
+                },
+            };
+        } catch (error) {
+            console.error('Error fetching user vision conversations:', error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to fetch user vision conversations: ${errorMessage}`);
+        }
+    }
+}
@@ -1,17 +1,58 @@
 import PrismaService from '../database/prisma-service';
-import { createHash } from 'crypto';
 import { Prisma } from '../generated/prisma';
+import { ImagePreprocessingInfo, OcrTextBlock } from '../interfaces/detection.interface';
+import { hashImage } from '../utils/image-hash';
+import { ImageStorageService } from './image-storage.service';
 
 /**
- * Service for storing vision analysis results (object detection and image description)
+ * A detected object as stored in DetectedObject
+ */
+export interface StoredDetection {
+    label: string;
+    confidence: number;
+    boundingBox: {
+        xMin: number;
+        yMin: number;
+        xMax: number;
+        yMax: number;
+    };
+    attributes?: Record<string, any>;
+}
+
+/**
+ * Fields of an ObjectDetection record
+ */
+export interface ObjectDetectionRecord {
+    modelName: string;
+    modelSettings: Record<string, any>;
+    detections: StoredDetection[];
+    processingTimeMs: number;
+}
+
+/**
+ * Fields of an ImageDescription record
+ */
+export interface ImageDescriptionRecord {
+    modelName: string;
+    prompt: string;
+    maxNewTokens: number | null;
+    temperature: number | null;
+    description: string;
+    processingTimeMs: number;
+}
+
+/**
+ * Service for storing vision analysis results (object detection, image description and text recognition)
  * using the database models defined in the Prisma schema.
  */
 export class VisionStorageService {
     private static instance: VisionStorageService;
     private prismaService: PrismaService;
+    private imageStorage: ImageStorageService;
 
     private constructor() {
         this.prismaService = PrismaService.getInstance();
+        this.imageStorage = ImageStorageService.getInstance();
     }
 
     /**
@@ -28,7 +69,86 @@ export class VisionStorageService {
      * Generate a hash for an image buffer to help with deduplication
      */
     private generateImageHash(imageBuffer: Buffer): string {
-        return createHash('sha256').update(imageBuffer).digest('hex');
+        return hashImage(imageBuffer);
+    }
+
+    /**
+     * Keep the analyzed image so the analysis can be viewed again.
+     * Failures are logged and the analysis is saved without an image.
+     */
+    private async storeImage(imageBuffer: Buffer): Promise<{ imageHash: string; imagePath: string | null }> {
+        try {
+            const { imageHash, imagePath } = await this.imageStorage.storeImage(imageBuffer);
+            return { imageHash, imagePath };
+        } catch (error) {
+            console.warn('Error storing analysis image:', error);
+            return { imageHash: this.generateImageHash(imageBuffer), imagePath: null };
+        }
+    }
+
+    /**
+     * Preprocessing of the image as stored on VisionAnalysis, one entry per model it was normalized for
+     */
+    private toPreprocessingJson(preprocessing: (ImagePreprocessingInfo | undefined)[]): Prisma.InputJsonValue | undefined {
+        const steps = preprocessing.filter((info): info is ImagePreprocessingInfo => !!info);
+        return steps.length > 0 ? steps as unknown as Prisma.InputJsonValue : undefined;
+    }
+
+    /**
+     * Create an ObjectDetection and its DetectedObjects inside a transaction
+     */
+    private async createObjectDetection(
+        tx: Prisma.TransactionClient,
+        visionAnalysisId: string,
+        userId: string,
+        record: ObjectDetectionRecord
+    ) {
+        const objectDetection = await tx.objectDetection.create({
+            data: {
+                visionAnalysisId,
+                userId, // Duplicated for direct query capability
+                modelName: record.modelName,
+                modelSettings: record.modelSettings || {},
+                processingTimeMs: record.processingTimeMs,
+            },
+        });
+
+        if (record.detections && record.detections.length > 0) {
+            // Create each detection individually instead of using createMany to avoid type issues
+            const detectionPromises = record.detections.map((detection) =>
+                tx.detectedObject.create({
+                    data: {
+                        objectDetectionId: objectDetection.id,
+                        label: detection.label,
+                        confidence: detection.confidence,
+                        boundingBox: detection.boundingBox as unknown as Prisma.InputJsonValue,
+                        attributes: detection.attributes ? detection.attributes as unknown as Prisma.InputJsonValue : undefined,
+                    },
+                })
+            );
+
+            await Promise.all(detectionPromises);
+        }
+
+        return objectDetection;
+    }
+
+    /**
+     * Create an ImageDescription inside a transaction
+     */
+    private async createImageDescription(
+        tx: Prisma.TransactionClient,
+        visionAnalysisId: string,
+        userId: string,
+        record: ImageDescriptionRecord
+    ) {
+        return tx.imageDescription.create({
+            data: {
+                visionAnalysisId,
+                userId, // Duplicated for direct query capability
+                ...record,
+            },
+        });
     }
 
     /**
@@ -42,24 +162,15 @@ export class VisionStorageService {
         imageFormat: string | null,
         modelName: string,
         modelSettings: Record<string, any>,
-        detections: Array<{
-            label: string;
-            confidence: number;
-            boundingBox: {
-                xMin: number;
-                yMin: number;
-                xMax: number;
-                yMax: number;
-            };
-            attributes?: Record<string, any>;
-        }>,
-        processingTimeMs: number
+        detections: StoredDetection[],
+        processingTimeMs: number,
+        preprocessing?: ImagePreprocessingInfo
     ) {
         const prisma = this.prismaService.prisma;
 
         try {
-            // Generate hash for image deduplication
-            const imageHash = this.generateImageHash(imageBuffer);
+            // Store the image once per content hash
+            const { imageHash, imagePath } = await this.storeImage(imageBuffer);
 
             // Create a transaction to ensure all database operations succeed or fail together
             return await prisma.$transaction(async (tx) => {
@@ -72,40 +183,19 @@ export class VisionStorageService {
                         imageHash,
                         imageFormat,
                         fileName,
-                        // We're not storing the actual image, just metadata
-                        // If you want to save the image, implement image storage logic and store the path here
+                        imagePath,
+                        preprocessing: this.toPreprocessingJson([preprocessing]),
                     },
                 });
 
-                // 2. Create the ObjectDetection record
-                const objectDetection = await tx.objectDetection.create({
-                    data: {
-                        visionAnalysisId: visionAnalysis.id,
-                        userId, // Duplicated for direct query capability
-                        modelName,
-                        modelSettings: modelSettings || {},
-                        processingTimeMs,
-                    },
+                // 2. Create the ObjectDetection record with a DetectedObject for each detection
+                const objectDetection = await this.createObjectDetection(tx, visionAnalysis.id, userId, {
+                    modelName,
+                    modelSettings,
+                    detections,
+                    processingTimeMs,
                 });
 
-                // 3. Create DetectedObject records for each detection
-                if (detections && detections.length > 0) {
-                    // Create each detection individually instead of using createMany to avoid type issues
-                    const detectionPromises = detections.map((detection) =>
-                        tx.detectedObject.create({
-                            data: {
-                                objectDetectionId: objectDetection.id,
-                                label: detection.label,
-                                confidence: detection.confidence,
-                                boundingBox: detection.boundingBox as unknown as Prisma.InputJsonValue,
-                                attributes: detection.attributes ? detection.attributes as unknown as Prisma.InputJsonValue : undefined,
-                            },
-                        })
-                    );
-
-                    await Promise.all(detectionPromises);
-                }
-
                 // Return the created object detection with its related objects
                 return await tx.objectDetection.findUnique({
                     where: { id: objectDetection.id },
@@ -136,13 +226,14 @@ export class VisionStorageService {
         maxNewTokens: number | null,
         temperature: number | null,
         description: string,
-        processingTimeMs: number
+        processingTimeMs: number,
+        preprocessing?: ImagePreprocessingInfo
     ) {
         const prisma = this.prismaService.prisma;
 
         try {
-            // Generate hash for image deduplication
-            const imageHash = this.generateImageHash(imageBuffer);
+            // Store the image once per content hash
+            const { imageHash, imagePath } = await this.storeImage(imageBuffer);
 
             // Create a transaction to ensure all database operations succeed or fail together
             return await prisma.$transaction(async (tx) => {
@@ -155,37 +246,208 @@ export class VisionStorageService {
                         imageHash,
                         imageFormat,
                         fileName,
-                        // We're not storing the actual image, just metadata
-                        // If you want to save the image, implement image storage logic and store the path here
+                        imagePath,
+                        preprocessing: this.toPreprocessingJson([preprocessing]),
                     },
                 });
 
                 // 2. Create the ImageDescription record
-                const imageDescription = await tx.imageDescription.create({
+                const imageDescription = await this.createImageDescription(tx, visionAnalysis.id, userId, {
+                    modelName,
+                    prompt,
+                    maxNewTokens,
+                    temperature,
+                    description,
+                    processingTimeMs,
+                });
+
+                // Return the created image description
+                return await tx.imageDescription.findUnique({
+                    where: { id: imageDescription.id },
+                    include: {
+                        visionAnalysis: true,
+                    },
+                });
+            });
+        } catch (error) {
+            console.error('Error saving image description results:', error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to save image description results: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Save a combined scene analysis (detection and description of the same image)
+     * as one VisionAnalysis with both relations
+     */
+    public async saveSceneAnalysis(
+        userId: string,
+        sessionId: string | null,
+        imageBuffer: Buffer,
+        fileName: string | null,
+        imageFormat: string | null,
+        detection: ObjectDetectionRecord | null,
+        description: ImageDescriptionRecord | null,
+        preprocessing: (ImagePreprocessingInfo | undefined)[] = []
+    ) {
+        try {
+            return await this.saveCombinedAnalysis(
+                'SCENE_ANALYSIS', userId, sessionId, null, imageBuffer, fileName, imageFormat, detection, description, preprocessing
+            );
+        } catch (error) {
+            console.error('Error saving scene analysis results:', error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to save scene analysis results: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Save the results of one image of a batch request.
+     * The analysis type follows the results present: detection, description or both (scene analysis).
+     */
+    public async saveBatchAnalysis(
+        userId: string,
+        sessionId: string | null,
+        batchId: string,
+        imageBuffer: Buffer,
+        fileName: string | null,
+        imageFormat: string | null,
+        detection: ObjectDetectionRecord | null,
+        description: ImageDescriptionRecord | null,
+        preprocessing: (ImagePreprocessingInfo | undefined)[] = []
+    ) {
+        const analysisType = detection && description
+            ? 'SCENE_ANALYSIS'
+            : detection ? 'OBJECT_DETECTION' : 'IMAGE_DESCRIPTION';
+
+        try {
+            return await this.saveCombinedAnalysis(
+                analysisType, userId, sessionId, batchId, imageBuffer, fileName, imageFormat, detection, description, preprocessing
+            );
+        } catch (error) {
+            console.error('Error saving batch analysis results:', error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to save batch analysis results: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Create a VisionAnalysis with object detection and/or image description results
+     */
+    private async saveCombinedAnalysis(
+        analysisType: string,
+        userId: string,
+        sessionId: string | null,
+        batchId: string | null,
+        imageBuffer: Buffer,
+        fileName: string | null,
+        imageFormat: string | null,
+        detection: ObjectDetectionRecord | null,
+        description: ImageDescriptionRecord | null,
+        preprocessing: (ImagePreprocessingInfo | undefined)[] = []
+    ) {
+        const prisma = this.prismaService.prisma;
+        const { imageHash, imagePath } = await this.storeImage(imageBuffer);
+
+        return prisma.$transaction(async (tx) => {
+            const visionAnalysis = await tx.visionAnalysis.create({
+                data: {
+                    userId,
+                    sessionId,
+                    batchId,
+                    analysisType,
+                    imageHash,
+                    imageFormat,
+                    fileName,
+                    imagePath,
+                    preprocessing: this.toPreprocessingJson(preprocessing),
+                },
+            });
+
+            if (detection) {
+                await this.createObjectDetection(tx, visionAnalysis.id, userId, detection);
+            }
+            if (description) {
+                await this.createImageDescription(tx, visionAnalysis.id, userId, description);
+            }
+
+            return await tx.visionAnalysis.findUnique({
+                where: { id: visionAnalysis.id },
+                include: {
+                    objectDetection: {
+                        include: {
+                            detectedObjects: true,
+                        },
+                    },
+                    imageDescription: true,
+                },
+            });
+        });
+    }
+
+    /**
+     * Save text recognition (OCR) results to the database
+     */
+    public async saveTextRecognition(
+        userId: string,
+        sessionId: string | null,
+        imageBuffer: Buffer,
+        fileName: string | null,
+        imageFormat: string | null,
+        modelName: string,
+        modelSettings: Record<string, any>,
+        text: string,
+        blocks: OcrTextBlock[],
+        processingTimeMs: number,
+        preprocessing?: ImagePreprocessingInfo
+    ) {
+        const prisma = this.prismaService.prisma;
+
+        try {
+            // Store the image once per content hash
+            const { imageHash, imagePath } = await this.storeImage(imageBuffer);
+
+            // Create a transaction to ensure all database operations succeed or fail together
+            return await prisma.$transaction(async (tx) => {
+                // 1. Create the parent VisionAnalysis record
+                const visionAnalysis = await tx.visionAnalysis.create({
+                    data: {
+                        userId,
+                        sessionId,
+                        analysisType: 'TEXT_RECOGNITION',
+                        imageHash,
+                        imageFormat,
+                        fileName,
+                        imagePath,
+                        preprocessing: this.toPreprocessingJson([preprocessing]),
+                    },
+                });
+
+                // 2. Create the TextRecognition record
+                const textRecognition = await tx.textRecognition.create({
                     data: {
                         visionAnalysisId: visionAnalysis.id,
                         userId, // Duplicated for direct query capability
                         modelName,
-                        prompt,
-                        maxNewTokens,
-                        temperature,
-                        description,
+                        modelSettings: modelSettings || {},
+                        text,
+                        blocks: blocks as unknown as Prisma.InputJsonValue,
                         processingTimeMs,
                     },
                 });
 
-                // Return the created image description
-                return await tx.imageDescription.findUnique({
-                    where: { id: imageDescription.id },
+                // Return the created text recognition
+                return await tx.textRecognition.findUnique({
+                    where: { id: textRecognition.id },
                     include: {
                         visionAnalysis: true,
                     },
                 });
             });
         } catch (error) {
-            console.error('Error saving image description results:', error);
+            console.error('Error saving text recognition results:', error);
             const errorMessage = error instanceof Error ? error.message : String(error);
-            throw new Error(`Failed to save image description results: ${errorMessage}`);
+            throw new Error(`Failed to save text recognition results: ${errorMessage}`);
         }
     }
 
@@ -214,6 +476,12 @@ export class VisionStorageService {
                         },
                     },
                     imageDescription: true,
+                    conversation: {
+                        include: {
+                            turns: true,
+                        },
+                    },
+                    textRecognition: true,
                     session: {
                         select: {
                             id: true,
@@ -257,6 +525,12 @@ export class VisionStorageService {
                         },
                     },
                     imageDescription: true,
+                    conversation: {
+                        include: {
+                            turns: true,
+                        },
+                    },
+                    textRecognition: true,
                 },
             });
         } catch (error) {
@@ -266,6 +540,32 @@ export class VisionStorageService {
         }
     }
 
+    /**
+     * Get the vision analyses of a user's batch request, in upload order
+     */
+    public async getBatchVisionAnalyses(userId: string, batchId: string) {
+        const prisma = this.prismaService.prisma;
+
+        try {
+            return await prisma.visionAnalysis.findMany({
+                where: { userId, batchId },
+                orderBy: { createdAt: 'asc' },
+                include: {
+                    objectDetection: {
+                        include: {
+                            detectedObjects: true,
+                        },
+                    },
+                    imageDescription: true,
+                },
+            });
+        } catch (error) {
+            console.error('Error fetching batch vision analyses:', error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to fetch batch vision analyses: ${errorMessage}`);
+        }
+    }
+
     /**
      * Get a specific vision analysis by ID
      */
@@ -282,6 +582,20 @@ export class VisionStorageService {
                         },
                     },
                     imageDescription: true,
+                    conversation: {
+                        include: {
+                            turns: true,
+                        },
+                    },
+                    textRecognition: true,
+                    revisions: {
+                        orderBy: { createdAt: 'asc' },
+                        select: {
+                            id: true,
+                            analysisType: true,
+                            createdAt: true,
+                        },
+                    },
                     session: {
                         select: {
                             id: true,
@@ -303,4 +617,45 @@ export class VisionStorageService {
             throw new Error(`Failed to fetch vision analysis: ${errorMessage}`);
         }
     }
+
+    /**
+     * Get the owner and stored image of a vision analysis
+     */
+    public async getVisionAnalysisImage(id: string) {
+        const prisma = this.prismaService.prisma;
+
+        try {
+            return await prisma.visionAnalysis.findUnique({
+                where: { id },
+                select: {
+                    id: true,
+                    userId: true,
+                    imageHash: true,
+                    imagePath: true,
+                },
+            });
+        } catch (error) {
+            console.error('Error fetching vision analysis image:', error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to fetch vision analysis image: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Link a stored analysis to the original analysis it re-analyzes
+     */
+    public async markAsRevision(analysisId: string, parentAnalysisId: string) {
+        const prisma = this.prismaService.prisma;
+
+        try {
+            return await prisma.visionAnalysis.update({
+                where: { id: analysisId },
+                data: { parentAnalysisId },
+            });
+        } catch (error) {
+            console.error('Error linking vision analysis revision:', error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to link vision analysis revision: ${errorMessage}`);
+        }
+    }
 } 
\ No newline at end of file
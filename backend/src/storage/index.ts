@@ -0,0 +1,21 @@
+import { ImageStorageConfig } from '../config/Config';
+import { IImageStorageProvider } from '../interfaces/IImageStorageProvider';
+import { LocalImageStorageProvider } from './local-image-storage.provider';
+import { S3ImageStorageProvider } from './s3-image-storage.provider';
+
+export { LocalImageStorageProvider } from './local-image-storage.provider';
+export { S3ImageStorageProvider } from './s3-image-storage.provider';
+
+/**
+ * Create the image storage provider selected by configuration (IMAGE_STORAGE_PROVIDER)
+ */
+export function createImageStorageProvider(config: ImageStorageConfig): IImageStorageProvider {
+    switch (config.provider) {
+        case 'local':
+            return new LocalImageStorageProvider(config.directory);
+        case 's3':
+            return new S3ImageStorageProvider(config.s3);
+        default:
+            throw new Error(`Unknown image storage provider: ${config.provider}. Use 'local' or 's3'.`);
+    }
+}
@@ -0,0 +1,63 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { IImageStorageProvider } from '../interfaces/IImageStorageProvider';
+
+/**
+ * Image storage on the local filesystem: one file per key below a root directory
+ */
+export class LocalImageStorageProvider implements IImageStorageProvider {
+    /**
+     * @param directory Root directory the images are written to
+     */
+    constructor(private readonly directory: string) { }
+
+    private filePath(key: string): string {
+        const file = path.resolve(this.directory, key);
+        // Keys come from hashes, but never let one point outside the root directory
+        if (!file.startsWith(path.resolve(this.directory) + path.sep)) {
+            throw new Error(`Invalid image storage key: ${key}`);
+        }
+        return file;
+    }
+
+    public async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+        const file = this.filePath(key);
+        await fs.mkdir(path.dirname(file), { recursive: true });
+
+        // Write to a temporary file first so readers never see a partial image;
+        // every write gets its own, since the same image can be uploaded twice at once
+        const tempFile = `${file}.${uuidv4()}.tmp`;
+        await fs.writeFile(tempFile, data);
+        await fs.rename(tempFile, file);
+    }
+
+    public async get(key: string): Promise<Buffer | null> {
+        try {
+            return await fs.readFile(this.filePath(key));
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    public async exists(key: string): Promise<boolean> {
+        try {
+            await fs.access(this.filePath(key));
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    public async delete(key: string): Promise<boolean> {
+        try {
+            await fs.unlink(this.filePath(key));
+            return true;
+        } catch {
+            return false;
+        }
+    }
+}
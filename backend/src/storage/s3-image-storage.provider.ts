@@ -0,0 +1,82 @@
+import {
+    DeleteObjectCommand,
+    GetObjectCommand,
+    HeadObjectCommand,
+    PutObjectCommand,
+    S3Client
+} from '@aws-sdk/client-s3';
+import { ImageStorageConfig } from '../config/Config';
+import { IImageStorageProvider } from '../interfaces/IImageStorageProvider';
+
+/**
+ * Image storage in an S3 bucket or an S3-compatible server (MinIO, Ceph, R2)
+ */
+export class S3ImageStorageProvider implements IImageStorageProvider {
+    private client: S3Client;
+    private bucket: string;
+
+    constructor(config: ImageStorageConfig['s3']) {
+        this.bucket = config.bucket;
+        this.client = new S3Client({
+            endpoint: config.endpoint,
+            region: config.region,
+            forcePathStyle: config.forcePathStyle,
+            // Without keys the SDK falls back to its default chain (environment, instance role)
+            credentials: config.accessKeyId && config.secretAccessKey
+                ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+                : undefined
+        });
+    }
+
+    /**
+     * Whether an S3 error means the object doesn't exist
+     */
+    private isNotFound(error: any): boolean {
+        return error?.name === 'NoSuchKey' || error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404;
+    }
+
+    public async put(key: string, data: Buffer, contentType: string): Promise<void> {
+        await this.client.send(new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+            Body: data,
+            ContentType: contentType
+        }));
+    }
+
+    public async get(key: string): Promise<Buffer | null> {
+        try {
+            const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+            if (!response.Body) {
+                return null;
+            }
+            return Buffer.from(await response.Body.transformToByteArray());
+        } catch (error) {
+            if (this.isNotFound(error)) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    public async exists(key: string): Promise<boolean> {
+        try {
+            await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+            return true;
+        } catch (error) {
+            if (this.isNotFound(error)) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    public async delete(key: string): Promise<boolean> {
+        // S3 deletes succeed whether or not the object existed
+        if (!(await this.exists(key))) {
+            return false;
+        }
+        await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+        return true;
+    }
+}
@@ -0,0 +1,245 @@
+import { BarcodeResult, CodePayload, Language, ProductInfo } from '../interfaces/detection.interface';
+
+// Formats whose content is a GTIN that can be looked up in the product catalog
+export const PRODUCT_CODE_FORMATS = ['EAN13', 'EAN8', 'UPCA', 'UPCE'];
+
+// Spoken names of the 2D formats by language
+const MATRIX_CODE_NAMES: Record<Language, Record<string, string>> = {
+    en: { QRCode: 'QR code', MicroQRCode: 'QR code', DataMatrix: 'Data Matrix code' },
+    'pt-BR': { QRCode: 'Código QR', MicroQRCode: 'Código QR', DataMatrix: 'Código Data Matrix' },
+    es: { QRCode: 'Código QR', MicroQRCode: 'Código QR', DataMatrix: 'Código Data Matrix' }
+};
+
+// Phrases of a language; {name}, {gtin}, {host}, {ssid}, {text}, {brand} and {format} are filled in
+interface BarcodePhrases {
+    brand: string;
+    unknownProduct: string;
+    product: string;
+    url: string;
+    wifi: string;
+    text: string;
+    other: string;
+    empty: string;
+}
+
+const PHRASES: Record<Language, BarcodePhrases> = {
+    en: {
+        brand: ' by {brand}',
+        unknownProduct: 'Barcode {gtin}, product not in the catalog',
+        product: 'Barcode {gtin}',
+        url: '{name} with a link to {host}',
+        wifi: '{name} for the Wi-Fi network {ssid}',
+        text: '{name} with text: {text}',
+        other: '{format} barcode: {text}',
+        empty: 'No barcode found.'
+    },
+    'pt-BR': {
+        brand: ', marca {brand}',
+        unknownProduct: 'Código de barras {gtin}, produto fora do catálogo',
+        product: 'Código de barras {gtin}',
+        url: '{name} com um link para {host}',
+        wifi: '{name} da rede Wi-Fi {ssid}',
+        text: '{name} com o texto: {text}',
+        other: 'Código de barras {format}: {text}',
+        empty: 'Nenhum código de barras encontrado.'
+    },
+    es: {
+        brand: ' de {brand}',
+        unknownProduct: 'Código de barras {gtin}, producto que no está en el catálogo',
+        product: 'Código de barras {gtin}',
+        url: '{name} con un enlace a {host}',
+        wifi: '{name} de la red Wi-Fi {ssid}',
+        text: '{name} con el texto: {text}',
+        other: 'Código de barras {format}: {text}',
+        empty: 'No se encontró ningún código de barras.'
+    }
+};
+
+/**
+ * Fill the placeholders of a phrase
+ */
+function fill(phrase: string, values: Record<string, string>): string {
+    return phrase.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
+
+// Longest text read out from a code
+const MAX_SPOKEN_TEXT = 120;
+
+/**
+ * Whether the last digit of a GTIN is its check digit
+ */
+export function hasValidCheckDigit(digits: string): boolean {
+    let sum = 0;
+    for (let i = digits.length - 2, weight = 3; i >= 0; i--, weight = 4 - weight) {
+        sum += Number(digits[i]) * weight;
+    }
+    return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+/**
+ * The 12-digit UPC-A code a zero-suppressed 8-digit UPC-E code stands for
+ */
+export function expandUpcE(code: string): string {
+    const [system, d1, d2, d3, d4, d5, last, check] = code.split('');
+    let body: string;
+    if (last <= '2') {
+        body = `${d1}${d2}${last}0000${d3}${d4}${d5}`;
+    } else if (last === '3') {
+        body = `${d1}${d2}${d3}00000${d4}${d5}`;
+    } else if (last === '4') {
+        body = `${d1}${d2}${d3}${d4}00000${d5}`;
+    } else {
+        body = `${d1}${d2}${d3}${d4}${d5}0000${last}`;
+    }
+    return `${system}${body}${check}`;
+}
+
+/**
+ * Normalize a product code to the form it is stored in the catalog: GTIN-8, or GTIN-13 for
+ * UPC-A (zero padded), EAN-13 and GTIN-14 with a leading zero.
+ * @returns The normalized code, or null if it isn't a GTIN with a valid check digit
+ */
+export function normalizeGtin(code: string): string | null {
+    let digits = code.trim();
+    if (!/^\d+$/.test(digits)) {
+        return null;
+    }
+    if (digits.length === 12) {
+        digits = `0${digits}`;
+    } else if (digits.length === 14 && digits.startsWith('0')) {
+        digits = digits.slice(1);
+    }
+    if (![8, 13, 14].includes(digits.length) || !hasValidCheckDigit(digits)) {
+        return null;
+    }
+    return digits;
+}
+
+/**
+ * GTIN of a product code read from an image, or null if it can't be looked up
+ */
+export function toGtin(format: string, text: string): string | null {
+    if (!PRODUCT_CODE_FORMATS.includes(format)) {
+        return null;
+    }
+    return normalizeGtin(format === 'UPCE' && text.length === 8 ? expandUpcE(text) : text);
+}
+
+/**
+ * Fields of a Wi-Fi network payload (WIFI:T:WPA;S:name;P:password;;), with their escapes removed
+ */
+function parseWifiFields(body: string): Record<string, string> {
+    const fields: Record<string, string> = {};
+    let key = '';
+    let value = '';
+    let inValue = false;
+
+    for (let i = 0; i < body.length; i++) {
+        const char = body[i];
+        if (char === '\\' && i + 1 < body.length) {
+            value += body[++i];
+        } else if (!inValue && char === ':') {
+            inValue = true;
+        } else if (!inValue) {
+            key += char;
+        } else if (char === ';') {
+            fields[key.toUpperCase()] = value;
+            key = '';
+            value = '';
+            inValue = false;
+        } else {
+            value += char;
+        }
+    }
+    if (inValue) {
+        fields[key.toUpperCase()] = value;
+    }
+    return fields;
+}
+
+/**
+ * Classify the content of a QR or Data Matrix code as a link, a Wi-Fi network or plain text
+ */
+export function classifyCodePayload(text: string): CodePayload {
+    const trimmed = text.trim();
+
+    if (/^WIFI:/i.test(trimmed)) {
+        const fields = parseWifiFields(trimmed.slice(5));
+        if (fields.S) {
+            return {
+                type: 'wifi',
+                ssid: fields.S,
+                security: fields.T && fields.T.toLowerCase() !== 'nopass' ? fields.T : null,
+                password: fields.P || null,
+                hidden: fields.H?.toLowerCase() === 'true'
+            };
+        }
+    }
+
+    if (/^(https?:\/\/|www\.)\S+$/i.test(trimmed)) {
+        try {
+            const url = new URL(/^www\./i.test(trimmed) ? `https://${trimmed}` : trimmed);
+            return { type: 'url', url: url.toString(), host: url.hostname.replace(/^www\./, '') };
+        } catch {
+            // Not a valid URL after all, read it as text
+        }
+    }
+
+    return { type: 'text', text };
+}
+
+/**
+ * Spoken name of a catalog product: name, brand and quantity
+ */
+export function describeProduct(product: ProductInfo, language: Language = 'en'): string {
+    let phrase = product.name;
+    if (product.brand) {
+        phrase += fill(PHRASES[language].brand, { brand: product.brand });
+    }
+    if (product.quantity) {
+        phrase += `, ${product.quantity}`;
+    }
+    return phrase;
+}
+
+/**
+ * What to say about a barcode: the product it belongs to, or what kind of code it is
+ * @param language Language of the phrase; product names are said as the catalog has them
+ */
+export function describeBarcode(barcode: Omit<BarcodeResult, 'phrase'>, language: Language = 'en'): string {
+    const phrases = PHRASES[language];
+    if (barcode.product) {
+        return describeProduct(barcode.product, language);
+    }
+    if (barcode.gtin) {
+        return fill(barcode.product === null ? phrases.unknownProduct : phrases.product, { gtin: barcode.gtin });
+    }
+
+    const name = MATRIX_CODE_NAMES[language][barcode.format];
+    const payload = barcode.payload;
+    if (name && payload) {
+        switch (payload.type) {
+            case 'url':
+                return fill(phrases.url, { name, host: payload.host });
+            case 'wifi':
+                return fill(phrases.wifi, { name, ssid: payload.ssid });
+            case 'text':
+                return fill(phrases.text, {
+                    name,
+                    text: payload.text.length > MAX_SPOKEN_TEXT ? `${payload.text.slice(0, MAX_SPOKEN_TEXT)}...` : payload.text
+                });
+        }
+    }
+
+    return fill(phrases.other, { format: barcode.format, text: barcode.text });
+}
+
+/**
+ * What to say about all barcodes read from an image
+ * @param language Language of the sentence used when there are none
+ */
+export function summarizeBarcodes(barcodes: BarcodeResult[], language: Language = 'en'): string {
+    return barcodes.length > 0
+        ? `${barcodes.map(barcode => barcode.phrase).join('. ')}.`
+        : PHRASES[language].empty;
+}
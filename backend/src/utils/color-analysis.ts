@@ -0,0 +1,239 @@
+import { ColorAnalysis, ColorLanguage, ColorPattern, NamedColor } from '../interfaces/detection.interface';
+import { colorName, describeColors, Lab, labDistance, nearestColorName, rgbToLab } from './color-names';
+
+/**
+ * Raw pixels of a region, downscaled to a small grid
+ */
+export interface PixelGrid {
+    data: ArrayLike<number>;
+    width: number;
+    height: number;
+    channels: number; // 3 or 4; alpha is ignored
+}
+
+// Clusters found in a region before merging those with the same name
+const CLUSTER_COUNT = 5;
+const CLUSTER_ITERATIONS = 10;
+
+// Named colors covering less of the region than this are left out of the description
+const MIN_COLOR_SHARE = 0.08;
+
+// Share of the region the main color must cover for it to be solid
+const SOLID_SHARE = 0.75;
+
+// Share of neighboring pixels with different colors below which a region has no texture,
+// and above which it is too busy to be stripes or checks
+const MIN_TRANSITION_RATE = 0.03;
+const MAX_TRANSITION_RATE = 0.3;
+
+// Share of color edges continuing on the next line for stripes or checks
+const MIN_ALIGNMENT = 0.6;
+
+/**
+ * Group the pixels of a region into color clusters with k-means in CIELAB space.
+ * Starts from the pixels farthest apart, so results are deterministic.
+ * @returns The cluster centers and the cluster of each pixel
+ */
+export function clusterColors(pixels: Lab[], clusterCount: number = CLUSTER_COUNT): { centers: Lab[]; assignments: number[] } {
+    const centers: Lab[] = [pixels[0]];
+    const nearestDistance = pixels.map(pixel => labDistance(pixel, pixels[0]));
+    while (centers.length < Math.min(clusterCount, pixels.length)) {
+        let farthest = 0;
+        nearestDistance.forEach((distance, index) => {
+            if (distance > nearestDistance[farthest]) {
+                farthest = index;
+            }
+        });
+        if (nearestDistance[farthest] === 0) {
+            break; // Fewer distinct colors than clusters
+        }
+        centers.push(pixels[farthest]);
+        pixels.forEach((pixel, index) => {
+            nearestDistance[index] = Math.min(nearestDistance[index], labDistance(pixel, pixels[farthest]));
+        });
+    }
+
+    const assignments = new Array<number>(pixels.length).fill(0);
+    for (let iteration = 0; iteration < CLUSTER_ITERATIONS; iteration++) {
+        let changed = false;
+        pixels.forEach((pixel, index) => {
+            let best = 0;
+            let bestDistance = Infinity;
+            centers.forEach((center, cluster) => {
+                const distance = labDistance(pixel, center);
+                if (distance < bestDistance) {
+                    best = cluster;
+                    bestDistance = distance;
+                }
+            });
+            if (assignments[index] !== best) {
+                assignments[index] = best;
+                changed = true;
+            }
+        });
+        if (!changed && iteration > 0) {
+            break;
+        }
+
+        const sums = centers.map(() => [0, 0, 0, 0]);
+        pixels.forEach((pixel, index) => {
+            const sum = sums[assignments[index]];
+            sum[0] += pixel[0];
+            sum[1] += pixel[1];
+            sum[2] += pixel[2];
+            sum[3]++;
+        });
+        sums.forEach((sum, cluster) => {
+            if (sum[3] > 0) {
+                centers[cluster] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]];
+            }
+        });
+    }
+
+    return { centers, assignments };
+}
+
+/**
+ * Share of neighbors along a direction with different labels, and how many of those edges
+ * continue on the next line (within a pixel), as stripes and checks do and random prints don't
+ */
+function measureEdges(labels: number[], width: number, height: number, horizontal: boolean) {
+    const at = (x: number, y: number) => (horizontal ? labels[y * width + x] : labels[x * width + y]);
+    const [length, lines] = horizontal ? [width, height] : [height, width];
+    const isEdge = (position: number, line: number) => at(position, line) !== at(position + 1, line);
+
+    let edges = 0;
+    let aligned = 0;
+    for (let line = 0; line < lines; line++) {
+        for (let position = 0; position < length - 1; position++) {
+            if (!isEdge(position, line)) {
+                continue;
+            }
+            edges++;
+            if (line + 1 < lines && [-1, 0, 1].some(offset => {
+                const next = position + offset;
+                return next >= 0 && next < length - 1 && isEdge(next, line + 1);
+            })) {
+                aligned++;
+            }
+        }
+    }
+
+    return {
+        rate: edges / Math.max(1, (length - 1) * lines),
+        alignment: edges > 0 ? aligned / edges : 0
+    };
+}
+
+/**
+ * Pattern of a region from the color name of each pixel
+ */
+export function detectPattern(
+    labels: number[],
+    width: number,
+    height: number,
+    mainShare: number
+): { pattern: ColorPattern; stripeDirection?: 'horizontal' | 'vertical' } {
+    if (mainShare >= SOLID_SHARE) {
+        return { pattern: 'solid' };
+    }
+
+    // Edges between horizontal neighbors are the sides of vertical stripes, and the other way round
+    const across = measureEdges(labels, width, height, true);
+    const down = measureEdges(labels, width, height, false);
+    const isRegular = (edges: { rate: number; alignment: number }) =>
+        edges.rate >= MIN_TRANSITION_RATE && edges.rate <= MAX_TRANSITION_RATE && edges.alignment >= MIN_ALIGNMENT;
+
+    if (across.rate < MIN_TRANSITION_RATE && down.rate < MIN_TRANSITION_RATE) {
+        return { pattern: 'blocks' };
+    }
+    if (isRegular(across) && isRegular(down)) {
+        return { pattern: 'checked' };
+    }
+    if (isRegular(across) && down.rate < across.rate / 3) {
+        return { pattern: 'striped', stripeDirection: 'vertical' };
+    }
+    if (isRegular(down) && across.rate < down.rate / 3) {
+        return { pattern: 'striped', stripeDirection: 'horizontal' };
+    }
+    return { pattern: 'patterned' };
+}
+
+function toHex(lab: Lab): string {
+    // Back from CIELAB to sRGB
+    const fy = (lab[0] + 16) / 116;
+    const fx = fy + lab[1] / 500;
+    const fz = fy - lab[2] / 200;
+    const inverse = (t: number) => (t ** 3 > 0.008856 ? t ** 3 : (t - 16 / 116) / 7.787);
+    const [x, y, z] = [inverse(fx) * 0.95047, inverse(fy), inverse(fz) * 1.08883];
+
+    const linear = [
+        x * 3.2406 - y * 1.5372 - z * 0.4986,
+        -x * 0.9689 + y * 1.8758 + z * 0.0415,
+        x * 0.0557 - y * 0.2040 + z * 1.0570
+    ];
+    return '#' + linear.map(c => {
+        const srgb = c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+        return Math.round(Math.min(1, Math.max(0, srgb)) * 255).toString(16).padStart(2, '0');
+    }).join('');
+}
+
+/**
+ * Dominant colors and pattern of a region
+ * @param grid Pixels of the region, downscaled so clustering stays cheap (e.g. 64x64)
+ * @param options Mode of the phrase, language of the names and phrase, number of colors to name
+ */
+export function analyzePixels(
+    grid: PixelGrid,
+    options: { mode?: 'general' | 'clothing'; language?: ColorLanguage; maxColors?: number } = {}
+): ColorAnalysis {
+    const { mode = 'general', language = 'en', maxColors = 3 } = options;
+
+    const pixels: Lab[] = [];
+    for (let i = 0; i < grid.width * grid.height; i++) {
+        const offset = i * grid.channels;
+        pixels.push(rgbToLab([grid.data[offset], grid.data[offset + 1], grid.data[offset + 2]]));
+    }
+    if (pixels.length === 0) {
+        return { colors: [], pattern: 'solid', phrase: '', language };
+    }
+
+    // Clusters with the same name are one color, e.g. the lit and shaded sides of a shirt
+    const { centers, assignments } = clusterColors(pixels);
+    const clusterNames = centers.map(center => nearestColorName(center));
+    const labels = assignments.map(cluster => clusterNames[cluster]);
+
+    const byName = new Map<number, { sum: [number, number, number]; count: number }>();
+    pixels.forEach((pixel, index) => {
+        const entry = byName.get(labels[index]) || { sum: [0, 0, 0], count: 0 };
+        entry.sum[0] += pixel[0];
+        entry.sum[1] += pixel[1];
+        entry.sum[2] += pixel[2];
+        entry.count++;
+        byName.set(labels[index], entry);
+    });
+
+    const ranked = Array.from(byName, ([name, { sum, count }]) => ({
+        name,
+        lab: [sum[0] / count, sum[1] / count, sum[2] / count] as Lab,
+        share: count / pixels.length
+    })).sort((a, b) => b.share - a.share);
+
+    const { pattern, stripeDirection } = detectPattern(labels, grid.width, grid.height, ranked[0].share);
+
+    // A solid region is named by its main color only
+    const named = pattern === 'solid' ? ranked.slice(0, 1) : ranked.filter(color => color.share >= MIN_COLOR_SHARE);
+    const colors: NamedColor[] = named.slice(0, maxColors).map(color => ({
+        name: colorName(color.name, language),
+        hex: toHex(color.lab),
+        share: Math.round(color.share * 100) / 100
+    }));
+
+    return {
+        colors,
+        pattern,
+        ...(stripeDirection ? { stripeDirection } : {}),
+        phrase: describeColors(colors.map(color => color.name), pattern, mode, language),
+        language
+    };
+}
@@ -0,0 +1,153 @@
+import { ColorLanguage, ColorPattern } from '../interfaces/detection.interface';
+import { joinList } from './language';
+
+export type Rgb = [number, number, number];
+export type Lab = [number, number, number];
+
+/**
+ * A basic color name, with a typical sRGB value it is matched on
+ */
+interface ColorName {
+    rgb: Rgb;
+    names: Record<ColorLanguage, string>;
+}
+
+// Everyday color names; a pixel gets the name of the nearest entry in CIELAB space
+const COLOR_VOCABULARY: ColorName[] = [
+    { rgb: [20, 20, 20], names: { en: 'black', 'pt-BR': 'preto', es: 'negro' } },
+    { rgb: [80, 80, 80], names: { en: 'dark gray', 'pt-BR': 'cinza-escuro', es: 'gris oscuro' } },
+    { rgb: [128, 128, 128], names: { en: 'gray', 'pt-BR': 'cinza', es: 'gris' } },
+    { rgb: [192, 192, 192], names: { en: 'light gray', 'pt-BR': 'cinza-claro', es: 'gris claro' } },
+    { rgb: [245, 245, 245], names: { en: 'white', 'pt-BR': 'branco', es: 'blanco' } },
+    { rgb: [200, 30, 30], names: { en: 'red', 'pt-BR': 'vermelho', es: 'rojo' } },
+    { rgb: [110, 20, 35], names: { en: 'burgundy', 'pt-BR': 'vinho', es: 'burdeos' } },
+    { rgb: [240, 140, 170], names: { en: 'pink', 'pt-BR': 'rosa', es: 'rosa' } },
+    { rgb: [240, 130, 30], names: { en: 'orange', 'pt-BR': 'laranja', es: 'naranja' } },
+    { rgb: [120, 70, 30], names: { en: 'brown', 'pt-BR': 'marrom', es: 'marrón' } },
+    { rgb: [220, 200, 160], names: { en: 'beige', 'pt-BR': 'bege', es: 'beige' } },
+    { rgb: [240, 220, 40], names: { en: 'yellow', 'pt-BR': 'amarelo', es: 'amarillo' } },
+    { rgb: [128, 128, 40], names: { en: 'olive green', 'pt-BR': 'verde-oliva', es: 'verde oliva' } },
+    { rgb: [150, 210, 120], names: { en: 'light green', 'pt-BR': 'verde-claro', es: 'verde claro' } },
+    { rgb: [40, 160, 60], names: { en: 'green', 'pt-BR': 'verde', es: 'verde' } },
+    { rgb: [20, 80, 40], names: { en: 'dark green', 'pt-BR': 'verde-escuro', es: 'verde oscuro' } },
+    { rgb: [0, 128, 128], names: { en: 'teal', 'pt-BR': 'verde-azulado', es: 'verde azulado' } },
+    { rgb: [60, 200, 200], names: { en: 'turquoise', 'pt-BR': 'turquesa', es: 'turquesa' } },
+    { rgb: [140, 190, 230], names: { en: 'light blue', 'pt-BR': 'azul-claro', es: 'azul claro' } },
+    { rgb: [40, 80, 200], names: { en: 'blue', 'pt-BR': 'azul', es: 'azul' } },
+    { rgb: [25, 35, 80], names: { en: 'navy blue', 'pt-BR': 'azul-marinho', es: 'azul marino' } },
+    { rgb: [110, 40, 140], names: { en: 'purple', 'pt-BR': 'roxo', es: 'morado' } },
+    { rgb: [190, 160, 220], names: { en: 'lilac', 'pt-BR': 'lilás', es: 'lila' } }
+];
+
+/**
+ * Convert an sRGB color to CIELAB (D65), where distances roughly match perceived differences
+ */
+export function rgbToLab([r, g, b]: Rgb): Lab {
+    const linear = (channel: number) => {
+        const c = channel / 255;
+        return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    };
+    const [lr, lg, lb] = [linear(r), linear(g), linear(b)];
+
+    const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+    const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+    const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+
+    const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+    const [fx, fy, fz] = [f(x), f(y), f(z)];
+    return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+export function labDistance(a: Lab, b: Lab): number {
+    return Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+}
+
+const VOCABULARY_LAB = COLOR_VOCABULARY.map(color => rgbToLab(color.rgb));
+
+/**
+ * Index in the vocabulary of the name of a color
+ */
+export function nearestColorName(lab: Lab): number {
+    let best = 0;
+    let bestDistance = Infinity;
+    VOCABULARY_LAB.forEach((entry, index) => {
+        const distance = labDistance(lab, entry);
+        if (distance < bestDistance) {
+            best = index;
+            bestDistance = distance;
+        }
+    });
+    return best;
+}
+
+export function colorName(index: number, language: ColorLanguage): string {
+    return COLOR_VOCABULARY[index].names[language];
+}
+
+// Phrases by language, pattern and mode; {colors} is replaced by the color list
+const PATTERN_PHRASES: Record<ColorLanguage, Record<'general' | 'clothing', Record<ColorPattern, string>>> = {
+    en: {
+        general: {
+            solid: 'solid {colors}',
+            striped: '{colors} stripes',
+            checked: '{colors} checks',
+            blocks: 'blocks of {colors}',
+            patterned: 'patterned in {colors}'
+        },
+        clothing: {
+            solid: 'solid {colors} clothing',
+            striped: 'clothing with {colors} stripes',
+            checked: 'clothing with {colors} checks',
+            blocks: 'clothing in blocks of {colors}',
+            patterned: 'patterned clothing in {colors}'
+        }
+    },
+    'pt-BR': {
+        general: {
+            solid: 'liso em {colors}',
+            striped: 'listras em {colors}',
+            checked: 'xadrez em {colors}',
+            blocks: 'blocos de cor em {colors}',
+            patterned: 'estampado em {colors}'
+        },
+        clothing: {
+            solid: 'roupa lisa em {colors}',
+            striped: 'roupa listrada em {colors}',
+            checked: 'roupa xadrez em {colors}',
+            blocks: 'roupa em blocos de {colors}',
+            patterned: 'roupa estampada em {colors}'
+        }
+    },
+    es: {
+        general: {
+            solid: 'liso en {colors}',
+            striped: 'rayas en {colors}',
+            checked: 'cuadros en {colors}',
+            blocks: 'bloques de color en {colors}',
+            patterned: 'estampado en {colors}'
+        },
+        clothing: {
+            solid: 'ropa lisa en {colors}',
+            striped: 'ropa de rayas en {colors}',
+            checked: 'ropa de cuadros en {colors}',
+            blocks: 'ropa en bloques de {colors}',
+            patterned: 'ropa estampada en {colors}'
+        }
+    }
+};
+
+/**
+ * Phrase for the colors and pattern of a region, e.g. "red and white stripes" or "roupa lisa em azul-marinho".
+ * Colors are given as nouns in Portuguese and Spanish, so the phrase needs no gender agreement.
+ */
+export function describeColors(
+    names: string[],
+    pattern: ColorPattern,
+    mode: 'general' | 'clothing',
+    language: ColorLanguage
+): string {
+    if (names.length === 0) {
+        return '';
+    }
+    return PATTERN_PHRASES[language][mode][pattern].replace('{colors}', joinList(names, language));
+}
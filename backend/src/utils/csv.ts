@@ -0,0 +1,56 @@
+/**
+ * Parse CSV text into rows of fields.
+ * Handles quoted fields with escaped quotes and line breaks, CRLF line endings and a UTF-8 BOM.
+ * The delimiter is a comma, or a semicolon when the first line has more of those (spreadsheet exports
+ * in many locales). Empty lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+    const content = text.replace(/^\uFEFF/, '');
+    const firstLine = content.slice(0, content.search(/\r?\n|$/));
+    const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    const endRow = () => {
+        row.push(field);
+        if (row.length > 1 || row[0] !== '') {
+            rows.push(row);
+        }
+        row = [];
+        field = '';
+    };
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (quoted) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') {
+                i++;
+            }
+            endRow();
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        endRow();
+    }
+
+    return rows;
+}
@@ -0,0 +1,164 @@
+import { BoundingBox, DetectionResult, Language, ObjectDistance } from '../interfaces/detection.interface';
+import { directionPhrase, horizontalPosition } from './spatial-language';
+
+/**
+ * A single-channel depth map where larger values are nearer (as returned by depth-estimation pipelines)
+ */
+export interface DepthMap {
+    data: ArrayLike<number>;
+    width: number;
+    height: number;
+}
+
+// Closeness at or above which an object falls in a range, nearest first, with the steps it is about away.
+// Relative depth has no scale, so these are calibrated on typical indoor phone photos only.
+const DISTANCE_RANGES: { range: ObjectDistance['range']; minCloseness: number; steps: number | null }[] = [
+    { range: 'within reach', minCloseness: 0.8, steps: 1 },
+    { range: 'near', minCloseness: 0.6, steps: 2 },
+    { range: 'medium', minCloseness: 0.35, steps: 4 },
+    { range: 'far', minCloseness: 0, steps: null }
+];
+
+// Share of the box (around its center) that is measured, to leave out the background at its edges
+const BOX_CORE = 0.5;
+
+// Phrases of the distance of an object by language; {label}, {steps} and {direction} are filled in
+const DISTANCE_PHRASES: Record<Language, { reach: string; steps: string; far: string; empty: string }> = {
+    en: {
+        reach: '{label}, within reach {direction}',
+        steps: '{label}, about {steps} steps {direction}',
+        far: '{label}, far {direction}',
+        empty: 'No objects detected.'
+    },
+    'pt-BR': {
+        reach: '{label}, ao alcance da mão {direction}',
+        steps: '{label}, a uns {steps} passos {direction}',
+        far: '{label}, longe {direction}',
+        empty: 'Nenhum objeto detectado.'
+    },
+    es: {
+        reach: '{label}, al alcance de la mano {direction}',
+        steps: '{label}, a unos {steps} pasos {direction}',
+        far: '{label}, lejos {direction}',
+        empty: 'No se detectaron objetos.'
+    }
+};
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Range of values of a depth map, used to scale it to closeness between 0 and 1
+ */
+function valueRange(depth: DepthMap): { min: number; span: number } {
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < depth.data.length; i++) {
+        const value = depth.data[i];
+        if (value < min) min = value;
+        if (value > max) max = value;
+    }
+    return { min, span: max > min ? max - min : 1 };
+}
+
+/**
+ * Average closeness of each cell of a coarse grid over the depth map, top row first
+ */
+export function buildDepthGrid(depth: DepthMap, rows: number, cols: number): number[][] {
+    const { min, span } = valueRange(depth);
+    const grid: number[][] = [];
+
+    for (let row = 0; row < rows; row++) {
+        const y0 = Math.floor((row * depth.height) / rows);
+        const y1 = Math.max(y0 + 1, Math.floor(((row + 1) * depth.height) / rows));
+        const cells: number[] = [];
+
+        for (let col = 0; col < cols; col++) {
+            const x0 = Math.floor((col * depth.width) / cols);
+            const x1 = Math.max(x0 + 1, Math.floor(((col + 1) * depth.width) / cols));
+
+            let sum = 0;
+            let count = 0;
+            for (let y = y0; y < y1 && y < depth.height; y++) {
+                for (let x = x0; x < x1 && x < depth.width; x++) {
+                    sum += depth.data[y * depth.width + x];
+                    count++;
+                }
+            }
+            cells.push(count > 0 ? round((sum / count - min) / span) : 0);
+        }
+        grid.push(cells);
+    }
+
+    return grid;
+}
+
+/**
+ * Median closeness of the core of a box
+ * @param depth The depth map
+ * @param box Box in the coordinates of an image of `imageSize`, which the depth map may be a scaled version of
+ * @param imageSize Size of the image the box is in
+ */
+export function measureBoxCloseness(depth: DepthMap, box: BoundingBox, imageSize: { width: number; height: number }): number {
+    const { min, span } = valueRange(depth);
+    const scaleX = depth.width / imageSize.width;
+    const scaleY = depth.height / imageSize.height;
+
+    const inset = (1 - BOX_CORE) / 2;
+    const boxWidth = box.xmax - box.xmin;
+    const boxHeight = box.ymax - box.ymin;
+    const x0 = Math.max(0, Math.floor((box.xmin + boxWidth * inset) * scaleX));
+    const x1 = Math.min(depth.width, Math.max(x0 + 1, Math.ceil((box.xmax - boxWidth * inset) * scaleX)));
+    const y0 = Math.max(0, Math.floor((box.ymin + boxHeight * inset) * scaleY));
+    const y1 = Math.min(depth.height, Math.max(y0 + 1, Math.ceil((box.ymax - boxHeight * inset) * scaleY)));
+
+    const values: number[] = [];
+    for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+            values.push(depth.data[y * depth.width + x]);
+        }
+    }
+    if (values.length === 0) {
+        return 0;
+    }
+
+    values.sort((a, b) => a - b);
+    return round((values[Math.floor(values.length / 2)] - min) / span);
+}
+
+/**
+ * Relative distance of a detected object from its closeness
+ * @param language Language of the phrase; the label is expected in it already
+ */
+export function describeDistance(
+    detection: DetectionResult,
+    closeness: number,
+    imageWidth: number,
+    language: Language = 'en'
+): ObjectDistance {
+    const { range, steps } = DISTANCE_RANGES.find(candidate => closeness >= candidate.minCloseness)!;
+    const phrases = DISTANCE_PHRASES[language];
+    const direction = directionPhrase(horizontalPosition((detection.box.xmin + detection.box.xmax) / 2, imageWidth), language);
+
+    const template = range === 'within reach' ? phrases.reach : steps !== null ? phrases.steps : phrases.far;
+    const phrase = template
+        .replace('{label}', detection.label)
+        .replace('{steps}', String(steps))
+        .replace('{direction}', direction);
+
+    return { closeness, range, steps, phrase };
+}
+
+/**
+ * Distances of the detected objects, nearest first, ready to be read aloud
+ * @param language Language of the sentence used when there are none
+ */
+export function summarizeDistances(detections: DetectionResult[], language: Language = 'en'): string {
+    const phrases = detections
+        .filter(detection => detection.distance)
+        .sort((a, b) => b.distance!.closeness - a.distance!.closeness)
+        .map(detection => detection.distance!.phrase);
+
+    return phrases.length > 0 ? `${phrases.join('. ')}.` : DISTANCE_PHRASES[language].empty;
+}
@@ -0,0 +1,98 @@
+import { DetectionDiff, DiffObject } from '../interfaces/detection.interface';
+import { intersectionOverUnion } from './object-tracker';
+
+/**
+ * A detection with the model that produced it
+ */
+export interface DiffInput {
+    model: string;
+    objects: DiffObject[];
+}
+
+function countByLabel(objects: DiffObject[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const object of objects) {
+        counts.set(object.label, (counts.get(object.label) || 0) + 1);
+    }
+    return counts;
+}
+
+function describeLabels(objects: DiffObject[]): string {
+    const counts = Array.from(countByLabel(objects).entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+    return counts.map(([label, count]) => (count > 1 ? `${count} ${label}` : label)).join(', ');
+}
+
+/**
+ * Compare two detections of the same image, e.g. by different models.
+ * Objects of the same label are matched greedily by the overlap (IoU) of their boxes, best overlap first;
+ * unmatched objects of the earlier detection disappeared and those of the new one appeared.
+ * @param before The earlier detection
+ * @param after The new detection
+ * @param iouThreshold Minimum overlap for two objects to be the same object
+ */
+export function diffDetections(before: DiffInput, after: DiffInput, iouThreshold: number = 0.5): DetectionDiff {
+    const pairs: { beforeIndex: number; afterIndex: number; iou: number }[] = [];
+    before.objects.forEach((earlier, beforeIndex) => {
+        after.objects.forEach((later, afterIndex) => {
+            if (earlier.label !== later.label) {
+                return;
+            }
+            const iou = intersectionOverUnion(earlier.box, later.box);
+            if (iou >= iouThreshold) {
+                pairs.push({ beforeIndex, afterIndex, iou });
+            }
+        });
+    });
+    pairs.sort((a, b) => b.iou - a.iou);
+
+    const matchedBefore = new Set<number>();
+    const matchedAfter = new Set<number>();
+    const matched: DetectionDiff['matched'] = [];
+    for (const pair of pairs) {
+        if (matchedBefore.has(pair.beforeIndex) || matchedAfter.has(pair.afterIndex)) {
+            continue;
+        }
+        matchedBefore.add(pair.beforeIndex);
+        matchedAfter.add(pair.afterIndex);
+
+        const earlier = before.objects[pair.beforeIndex];
+        const later = after.objects[pair.afterIndex];
+        matched.push({
+            label: earlier.label,
+            before: { score: earlier.score, box: earlier.box },
+            after: { score: later.score, box: later.box },
+            iou: Math.round(pair.iou * 100) / 100
+        });
+    }
+
+    const appeared = after.objects.filter((_, index) => !matchedAfter.has(index));
+    const disappeared = before.objects.filter((_, index) => !matchedBefore.has(index));
+
+    const beforeCounts = countByLabel(before.objects);
+    const afterCounts = countByLabel(after.objects);
+    const labelChanges = Array.from(new Set([...beforeCounts.keys(), ...afterCounts.keys()]))
+        .map(label => ({ label, before: beforeCounts.get(label) || 0, after: afterCounts.get(label) || 0 }))
+        .filter(change => change.before !== change.after)
+        .sort((a, b) => a.label.localeCompare(b.label));
+
+    const parts = [`${after.model} found ${after.objects.length} objects, ${before.model} found ${before.objects.length}`];
+    if (appeared.length > 0) {
+        parts.push(`appeared: ${describeLabels(appeared)}`);
+    }
+    if (disappeared.length > 0) {
+        parts.push(`disappeared: ${describeLabels(disappeared)}`);
+    }
+    if (appeared.length === 0 && disappeared.length === 0) {
+        parts.push('the same objects were found');
+    }
+
+    return {
+        before: { model: before.model, objects: before.objects.length },
+        after: { model: after.model, objects: after.objects.length },
+        appeared,
+        disappeared,
+        matched,
+        labelChanges,
+        summary: parts.join('; ')
+    };
+}
@@ -0,0 +1,77 @@
+import { DetectionPostProcessing, DetectionResult } from '../interfaces/detection.interface';
+import { intersectionOverUnion } from './object-tracker';
+
+/**
+ * Options of post-processing, with the threshold and limit of the request
+ */
+export interface PostProcessingOptions extends DetectionPostProcessing {
+    threshold: number;
+    maxObjects?: number; // 0 or unset for no limit
+}
+
+function normalizeLabel(label: string): string {
+    return label.trim().toLowerCase();
+}
+
+/**
+ * Threshold to run the model with: per-class thresholds may be lower than the general one,
+ * and detections below them would otherwise never reach post-processing
+ */
+export function getModelThreshold(threshold: number, classThresholds?: Record<string, number>): number {
+    return Math.min(threshold, ...Object.values(classThresholds || {}));
+}
+
+/**
+ * Keep the allowed labels whose score reaches their class threshold, or the general one
+ */
+export function filterDetections(detections: DetectionResult[], options: PostProcessingOptions): DetectionResult[] {
+    const include = options.includeLabels?.length ? new Set(options.includeLabels.map(normalizeLabel)) : null;
+    const exclude = new Set((options.excludeLabels || []).map(normalizeLabel));
+    const thresholds = new Map(Object.entries(options.classThresholds || {})
+        .map(([label, threshold]) => [normalizeLabel(label), threshold]));
+
+    // Translated detections match by their label or by the model's
+    return detections.filter(detection => {
+        const labels = [detection.label, detection.originalLabel].filter((label): label is string => Boolean(label)).map(normalizeLabel);
+        if ((include && !labels.some(label => include.has(label))) || labels.some(label => exclude.has(label))) {
+            return false;
+        }
+        const classThreshold = labels.map(label => thresholds.get(label)).find(threshold => threshold !== undefined);
+        return detection.score >= (classThreshold ?? options.threshold);
+    });
+}
+
+/**
+ * Non-maximum suppression across classes: of boxes overlapping by more than the IoU threshold,
+ * only the likeliest is kept, so one object isn't announced as both "cup" and "vase"
+ * @returns The kept detections, likeliest first
+ */
+export function suppressOverlaps(detections: DetectionResult[], iouThreshold: number): DetectionResult[] {
+    const kept: DetectionResult[] = [];
+    for (const detection of [...detections].sort((a, b) => b.score - a.score)) {
+        if (kept.every(other => intersectionOverUnion(other.box, detection.box) <= iouThreshold)) {
+            kept.push(detection);
+        }
+    }
+    return kept;
+}
+
+function boxArea(detection: DetectionResult): number {
+    return Math.max(0, detection.box.xmax - detection.box.xmin) * Math.max(0, detection.box.ymax - detection.box.ymin);
+}
+
+/**
+ * Filter, suppress overlaps, rank and limit detections
+ */
+export function postProcessDetections(detections: DetectionResult[], options: PostProcessingOptions): DetectionResult[] {
+    let result = filterDetections(detections, options);
+    if (options.nmsThreshold !== undefined && options.nmsThreshold > 0) {
+        result = suppressOverlaps(result, options.nmsThreshold);
+    }
+
+    result = [...result].sort(options.rankBy === 'area'
+        ? (a, b) => boxArea(b) - boxArea(a)
+        : (a, b) => b.score - a.score);
+
+    return options.maxObjects && options.maxObjects > 0 ? result.slice(0, options.maxObjects) : result;
+}
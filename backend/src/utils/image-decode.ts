@@ -0,0 +1,44 @@
+import { RawImage } from '@huggingface/transformers';
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'gif';
+
+export const IMAGE_FORMAT_MIME_TYPES: Record<ImageFormat, string> = {
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    webp: 'image/webp',
+    gif: 'image/gif'
+};
+
+/**
+ * Detect the format of an image from its leading bytes, or null if it isn't a supported format.
+ * Upload MIME types and file names can't be trusted (e.g. PNG screenshots sent as .jpg).
+ */
+export function detectImageFormat(buffer: Buffer): ImageFormat | null {
+    if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+        return 'jpeg';
+    }
+    if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0x89504e47 && buffer.readUInt32BE(4) === 0x0d0a1a0a) {
+        return 'png';
+    }
+    if (buffer.length >= 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+        return 'webp';
+    }
+    if (buffer.length >= 6 && ['GIF87a', 'GIF89a'].includes(buffer.toString('ascii', 0, 6))) {
+        return 'gif';
+    }
+    return null;
+}
+
+/**
+ * Decode an image buffer into a transformers.js RawImage without touching the disk.
+ * Animated GIFs are decoded to their first frame.
+ * @throws If the buffer is not a JPEG, PNG, WebP or GIF image
+ */
+export async function decodeImage(buffer: Buffer): Promise<RawImage> {
+    const format = detectImageFormat(buffer);
+    if (!format) {
+        throw new Error('Unsupported image format, expected JPEG, PNG, WebP or GIF');
+    }
+
+    return RawImage.fromBlob(new Blob([buffer], { type: IMAGE_FORMAT_MIME_TYPES[format] }));
+}
@@ -0,0 +1,8 @@
+import { createHash } from 'crypto';
+
+/**
+ * SHA-256 hash of an image buffer, used for deduplication and result caching
+ */
+export function hashImage(imageBuffer: Buffer): string {
+    return createHash('sha256').update(imageBuffer).digest('hex');
+}
@@ -0,0 +1,209 @@
+import { ImageQualityIssue, ImageQualityMetrics, Language } from '../interfaces/detection.interface';
+import { PixelGrid } from './color-analysis';
+
+// Mean luma below which an image is too dark to analyze, and below which more light would help
+const MIN_BRIGHTNESS = 25;
+const DIM_BRIGHTNESS = 55;
+
+// Luma of clipped white and of nearly black pixels
+const OVEREXPOSED_LUMA = 250;
+const UNDEREXPOSED_LUMA = 20;
+
+// Share of clipped white pixels above which an image is washed out, and above which part of it is
+const MAX_OVEREXPOSED = 0.5;
+const PARTLY_OVEREXPOSED = 0.2;
+
+// Above this contrast an image has legible content however dark or bright it is, e.g. a scanned page or a dark screenshot
+const LEGIBLE_CONTRAST = 40;
+
+// Below this contrast, or this entropy unless legible, an image is nearly a single shade,
+// e.g. a wall, the sky or a table filling the frame
+const MIN_CONTRAST = 6;
+const MIN_ENTROPY = 2;
+
+// A finger over the lens lets through dim, featureless, reddish light
+const COVERED_MAX_CONTRAST = 20;
+const COVERED_MAX_BRIGHTNESS = 160;
+const COVERED_RED_RATIO = 1.25;
+
+// Images below the blur threshold divided by this are too blurry to analyze
+const UNUSABLE_BLUR_FACTOR = 5;
+
+/**
+ * Thresholds of the quality check that depend on the cameras in use
+ */
+export interface QualityThresholds {
+    minSharpness: number; // Variance of the Laplacian below which an image is blurry
+}
+
+export const DEFAULT_QUALITY_THRESHOLDS: QualityThresholds = {
+    minSharpness: 100
+};
+
+interface Guidance {
+    'lens-covered': string;
+    'too-dark': Record<'unusable' | 'warning', string>;
+    overexposed: Record<'unusable' | 'warning', string>;
+    'low-information': string;
+    blurry: Record<'unusable' | 'warning', string>;
+}
+
+const GUIDANCE: Record<Language, Guidance> = {
+    en: {
+        'lens-covered': 'Something is covering the lens, move your finger away',
+        'too-dark': { unusable: 'Too dark, turn on a light', warning: 'The image is a bit dark, more light would help' },
+        overexposed: { unusable: 'Too bright, point the camera away from the light', warning: 'Part of the image is washed out by light' },
+        'low-information': 'Nothing recognizable in view, point the camera at the scene',
+        blurry: { unusable: 'Image is blurry, hold still', warning: 'The image is slightly blurry, hold the camera steady' }
+    },
+    'pt-BR': {
+        'lens-covered': 'Algo está cobrindo a lente, afaste o dedo',
+        'too-dark': { unusable: 'Muito escuro, acenda uma luz', warning: 'A imagem está um pouco escura, mais luz ajudaria' },
+        overexposed: { unusable: 'Muito claro, afaste a câmera da luz', warning: 'Parte da imagem está estourada pela luz' },
+        'low-information': 'Nada reconhecível à vista, aponte a câmera para a cena',
+        blurry: { unusable: 'A imagem está tremida, não se mexa', warning: 'A imagem está um pouco tremida, segure a câmera firme' }
+    },
+    es: {
+        'lens-covered': 'Algo está tapando la lente, aparta el dedo',
+        'too-dark': { unusable: 'Demasiado oscuro, enciende una luz', warning: 'La imagen está algo oscura, más luz ayudaría' },
+        overexposed: { unusable: 'Demasiado claro, aparta la cámara de la luz', warning: 'Parte de la imagen está quemada por la luz' },
+        'low-information': 'No se ve nada reconocible, apunta la cámara a la escena',
+        blurry: { unusable: 'La imagen está borrosa, no te muevas', warning: 'La imagen está algo borrosa, sujeta la cámara con firmeza' }
+    }
+};
+
+/**
+ * Brightness, contrast, sharpness and exposure of an image, plus its mean color
+ * @param grid Pixels of the image, downscaled to a fixed size so sharpness is comparable between images
+ */
+export function measureQuality(grid: PixelGrid): ImageQualityMetrics & { meanColor: [number, number, number] } {
+    const { width, height, channels, data } = grid;
+    const count = width * height;
+    const luma = new Float32Array(count);
+    const histogram = new Array<number>(256).fill(0);
+    const colorSum = [0, 0, 0];
+    let sum = 0;
+    let overexposed = 0;
+    let underexposed = 0;
+
+    for (let i = 0; i < count; i++) {
+        const offset = i * channels;
+        const [r, g, b] = [data[offset], data[offset + 1], data[offset + 2]];
+        const value = 0.299 * r + 0.587 * g + 0.114 * b;
+        luma[i] = value;
+        sum += value;
+        histogram[Math.min(255, Math.round(value))]++;
+        colorSum[0] += r;
+        colorSum[1] += g;
+        colorSum[2] += b;
+        if (value >= OVEREXPOSED_LUMA) {
+            overexposed++;
+        } else if (value <= UNDEREXPOSED_LUMA) {
+            underexposed++;
+        }
+    }
+
+    const total = Math.max(1, count);
+    const brightness = sum / total;
+    let variance = 0;
+    for (let i = 0; i < count; i++) {
+        variance += (luma[i] - brightness) ** 2;
+    }
+
+    const entropy = histogram.reduce((bits, bin) => {
+        const p = bin / total;
+        return p > 0 ? bits - p * Math.log2(p) : bits;
+    }, 0);
+
+    // Variance of the 4-neighbor Laplacian over the interior; edges are what blur removes
+    let laplacianSum = 0;
+    let laplacianSquares = 0;
+    let laplacianCount = 0;
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const i = y * width + x;
+            const value = luma[i - 1] + luma[i + 1] + luma[i - width] + luma[i + width] - 4 * luma[i];
+            laplacianSum += value;
+            laplacianSquares += value * value;
+            laplacianCount++;
+        }
+    }
+    const laplacianMean = laplacianSum / Math.max(1, laplacianCount);
+    const sharpness = laplacianSquares / Math.max(1, laplacianCount) - laplacianMean ** 2;
+
+    const round = (value: number, digits: number = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+    return {
+        brightness: round(brightness, 1),
+        contrast: round(Math.sqrt(variance / total), 1),
+        sharpness: round(sharpness, 1),
+        overexposed: round(overexposed / total),
+        underexposed: round(underexposed / total),
+        entropy: round(entropy),
+        meanColor: [colorSum[0] / total, colorSum[1] / total, colorSum[2] / total]
+    };
+}
+
+/**
+ * Judge whether an image is worth analyzing and what the user could do to take a better one
+ * @param grid Pixels of the image, downscaled to a fixed size (e.g. 512 pixels on the longest side)
+ * @param language Language of the guidance
+ * @returns The measurements and the issues found, unusable ones first
+ */
+export function assessQuality(
+    grid: PixelGrid,
+    thresholds: QualityThresholds = DEFAULT_QUALITY_THRESHOLDS,
+    language: Language = 'en'
+): { metrics: ImageQualityMetrics; issues: ImageQualityIssue[] } {
+    const { meanColor, ...metrics } = measureQuality(grid);
+    const issues: ImageQualityIssue[] = [];
+    const guidance = GUIDANCE[language];
+
+    const [red, green, blue] = meanColor;
+    const legible = metrics.contrast >= LEGIBLE_CONTRAST;
+    const lowInformation = metrics.contrast < MIN_CONTRAST || (metrics.entropy < MIN_ENTROPY && !legible);
+    const lensCovered = metrics.contrast < COVERED_MAX_CONTRAST &&
+        metrics.sharpness < thresholds.minSharpness &&
+        metrics.brightness < COVERED_MAX_BRIGHTNESS &&
+        red > green * COVERED_RED_RATIO &&
+        red > blue * COVERED_RED_RATIO;
+    const tooDark = metrics.brightness < MIN_BRIGHTNESS && !legible;
+    const washedOut = metrics.overexposed > MAX_OVEREXPOSED && !legible;
+
+    if (lensCovered) {
+        issues.push({ code: 'lens-covered', severity: 'unusable', guidance: guidance['lens-covered'] });
+    } else if (tooDark) {
+        issues.push({ code: 'too-dark', severity: 'unusable', guidance: guidance['too-dark'].unusable });
+    } else if (metrics.brightness < DIM_BRIGHTNESS) {
+        issues.push({ code: 'too-dark', severity: 'warning', guidance: guidance['too-dark'].warning });
+    }
+
+    if (washedOut) {
+        issues.push({ code: 'overexposed', severity: 'unusable', guidance: guidance.overexposed.unusable });
+    } else if (metrics.overexposed > PARTLY_OVEREXPOSED) {
+        issues.push({ code: 'overexposed', severity: 'warning', guidance: guidance.overexposed.warning });
+    }
+
+    // A black, white or covered frame has no information either, which says nothing new
+    if (lowInformation && !lensCovered && !tooDark && !washedOut) {
+        issues.push({ code: 'low-information', severity: 'unusable', guidance: guidance['low-information'] });
+    }
+
+    // Uniform and dark images have no edges to be sharp, so blur is only judged on the others
+    if (!lowInformation && !lensCovered && !tooDark) {
+        if (metrics.sharpness < thresholds.minSharpness / UNUSABLE_BLUR_FACTOR) {
+            issues.push({ code: 'blurry', severity: 'unusable', guidance: guidance.blurry.unusable });
+        } else if (metrics.sharpness < thresholds.minSharpness) {
+            issues.push({ code: 'blurry', severity: 'warning', guidance: guidance.blurry.warning });
+        }
+    }
+
+    issues.sort((a, b) => Number(b.severity === 'unusable') - Number(a.severity === 'unusable'));
+    return { metrics, issues };
+}
+
+/**
+ * Guidance of all issues as one sentence, e.g. "Too dark, turn on a light. Image is blurry, hold still."
+ */
+export function summarizeQualityIssues(issues: ImageQualityIssue[]): string {
+    return issues.length > 0 ? `${issues.map(issue => issue.guidance).join('. ')}.` : '';
+}
@@ -0,0 +1,196 @@
+import { Language } from '../interfaces/detection.interface';
+
+type Gender = 'm' | 'f';
+
+/**
+ * Singular and gender of a translated label, and its plural where the regular rule doesn't give it
+ */
+type LabelTranslation = [singular: string, gender: Gender, plural?: string];
+
+/**
+ * Forms of a label in a language, for counting and articles
+ */
+export interface LabelForms {
+    singular: string;
+    plural: string;
+    gender: Gender;
+}
+
+// Irregular plurals of COCO labels
+const IRREGULAR_PLURALS: Record<string, string> = {
+    person: 'people',
+    mouse: 'mice',
+    knife: 'knives',
+    sheep: 'sheep',
+    skis: 'skis',
+    scissors: 'scissors',
+};
+
+// Translations of the COCO labels of the detection models, by English label
+const LABEL_CATALOG: Record<string, Record<Exclude<Language, 'en'>, LabelTranslation>> = {
+    person: { 'pt-BR': ['pessoa', 'f'], es: ['persona', 'f'] },
+    bicycle: { 'pt-BR': ['bicicleta', 'f'], es: ['bicicleta', 'f'] },
+    car: { 'pt-BR': ['carro', 'm'], es: ['coche', 'm'] },
+    motorcycle: { 'pt-BR': ['moto', 'f'], es: ['moto', 'f'] },
+    airplane: { 'pt-BR': ['avião', 'm', 'aviões'], es: ['avión', 'm', 'aviones'] },
+    bus: { 'pt-BR': ['ônibus', 'm', 'ônibus'], es: ['autobús', 'm', 'autobuses'] },
+    train: { 'pt-BR': ['trem', 'm', 'trens'], es: ['tren', 'm'] },
+    truck: { 'pt-BR': ['caminhão', 'm', 'caminhões'], es: ['camión', 'm', 'camiones'] },
+    boat: { 'pt-BR': ['barco', 'm'], es: ['barco', 'm'] },
+    'traffic light': { 'pt-BR': ['semáforo', 'm'], es: ['semáforo', 'm'] },
+    'fire hydrant': { 'pt-BR': ['hidrante', 'm'], es: ['hidrante', 'm'] },
+    'street sign': { 'pt-BR': ['placa de rua', 'f'], es: ['señal de tráfico', 'f'] },
+    'stop sign': { 'pt-BR': ['placa de pare', 'f'], es: ['señal de stop', 'f'] },
+    'parking meter': { 'pt-BR': ['parquímetro', 'm'], es: ['parquímetro', 'm'] },
+    bench: { 'pt-BR': ['banco', 'm'], es: ['banco', 'm'] },
+    bird: { 'pt-BR': ['pássaro', 'm'], es: ['pájaro', 'm'] },
+    cat: { 'pt-BR': ['gato', 'm'], es: ['gato', 'm'] },
+    dog: { 'pt-BR': ['cachorro', 'm'], es: ['perro', 'm'] },
+    horse: { 'pt-BR': ['cavalo', 'm'], es: ['caballo', 'm'] },
+    sheep: { 'pt-BR': ['ovelha', 'f'], es: ['oveja', 'f'] },
+    cow: { 'pt-BR': ['vaca', 'f'], es: ['vaca', 'f'] },
+    elephant: { 'pt-BR': ['elefante', 'm'], es: ['elefante', 'm'] },
+    bear: { 'pt-BR': ['urso', 'm'], es: ['oso', 'm'] },
+    zebra: { 'pt-BR': ['zebra', 'f'], es: ['cebra', 'f'] },
+    giraffe: { 'pt-BR': ['girafa', 'f'], es: ['jirafa', 'f'] },
+    hat: { 'pt-BR': ['chapéu', 'm'], es: ['sombrero', 'm'] },
+    backpack: { 'pt-BR': ['mochila', 'f'], es: ['mochila', 'f'] },
+    umbrella: { 'pt-BR': ['guarda-chuva', 'm'], es: ['paraguas', 'm', 'paraguas'] },
+    shoe: { 'pt-BR': ['sapato', 'm'], es: ['zapato', 'm'] },
+    'eye glasses': { 'pt-BR': ['par de óculos', 'm'], es: ['par de gafas', 'm'] },
+    handbag: { 'pt-BR': ['bolsa', 'f'], es: ['bolso', 'm'] },
+    tie: { 'pt-BR': ['gravata', 'f'], es: ['corbata', 'f'] },
+    suitcase: { 'pt-BR': ['mala', 'f'], es: ['maleta', 'f'] },
+    frisbee: { 'pt-BR': ['frisbee', 'm'], es: ['frisbi', 'm'] },
+    skis: { 'pt-BR': ['esqui', 'm'], es: ['esquí', 'm'] },
+    snowboard: { 'pt-BR': ['prancha de snowboard', 'f'], es: ['tabla de snowboard', 'f'] },
+    'sports ball': { 'pt-BR': ['bola', 'f'], es: ['pelota', 'f'] },
+    kite: { 'pt-BR': ['pipa', 'f'], es: ['cometa', 'f'] },
+    'baseball bat': { 'pt-BR': ['taco de beisebol', 'm'], es: ['bate de béisbol', 'm'] },
+    'baseball glove': { 'pt-BR': ['luva de beisebol', 'f'], es: ['guante de béisbol', 'm'] },
+    skateboard: { 'pt-BR': ['skate', 'm'], es: ['monopatín', 'm', 'monopatines'] },
+    surfboard: { 'pt-BR': ['prancha de surfe', 'f'], es: ['tabla de surf', 'f'] },
+    'tennis racket': { 'pt-BR': ['raquete de tênis', 'f'], es: ['raqueta de tenis', 'f'] },
+    bottle: { 'pt-BR': ['garrafa', 'f'], es: ['botella', 'f'] },
+    plate: { 'pt-BR': ['prato', 'm'], es: ['plato', 'm'] },
+    'wine glass': { 'pt-BR': ['taça de vinho', 'f'], es: ['copa de vino', 'f'] },
+    cup: { 'pt-BR': ['xícara', 'f'], es: ['taza', 'f'] },
+    fork: { 'pt-BR': ['garfo', 'm'], es: ['tenedor', 'm'] },
+    knife: { 'pt-BR': ['faca', 'f'], es: ['cuchillo', 'm'] },
+    spoon: { 'pt-BR': ['colher', 'f'], es: ['cuchara', 'f'] },
+    bowl: { 'pt-BR': ['tigela', 'f'], es: ['cuenco', 'm'] },
+    banana: { 'pt-BR': ['banana', 'f'], es: ['plátano', 'm'] },
+    apple: { 'pt-BR': ['maçã', 'f'], es: ['manzana', 'f'] },
+    sandwich: { 'pt-BR': ['sanduíche', 'm'], es: ['sándwich', 'm'] },
+    orange: { 'pt-BR': ['laranja', 'f'], es: ['naranja', 'f'] },
+    broccoli: { 'pt-BR': ['brócolis', 'm', 'brócolis'], es: ['brócoli', 'm'] },
+    carrot: { 'pt-BR': ['cenoura', 'f'], es: ['zanahoria', 'f'] },
+    'hot dog': { 'pt-BR': ['cachorro-quente', 'm', 'cachorros-quentes'], es: ['perrito caliente', 'm', 'perritos calientes'] },
+    pizza: { 'pt-BR': ['pizza', 'f'], es: ['pizza', 'f'] },
+    donut: { 'pt-BR': ['rosquinha', 'f'], es: ['rosquilla', 'f'] },
+    cake: { 'pt-BR': ['bolo', 'm'], es: ['pastel', 'm'] },
+    chair: { 'pt-BR': ['cadeira', 'f'], es: ['silla', 'f'] },
+    couch: { 'pt-BR': ['sofá', 'm'], es: ['sofá', 'm'] },
+    'potted plant': { 'pt-BR': ['vaso de planta', 'm'], es: ['planta en maceta', 'f'] },
+    bed: { 'pt-BR': ['cama', 'f'], es: ['cama', 'f'] },
+    mirror: { 'pt-BR': ['espelho', 'm'], es: ['espejo', 'm'] },
+    'dining table': { 'pt-BR': ['mesa de jantar', 'f'], es: ['mesa de comedor', 'f'] },
+    window: { 'pt-BR': ['janela', 'f'], es: ['ventana', 'f'] },
+    desk: { 'pt-BR': ['escrivaninha', 'f'], es: ['escritorio', 'm'] },
+    toilet: { 'pt-BR': ['vaso sanitário', 'm', 'vasos sanitários'], es: ['inodoro', 'm'] },
+    door: { 'pt-BR': ['porta', 'f'], es: ['puerta', 'f'] },
+    tv: { 'pt-BR': ['televisão', 'f', 'televisões'], es: ['televisor', 'm'] },
+    laptop: { 'pt-BR': ['notebook', 'm', 'notebooks'], es: ['portátil', 'm'] },
+    mouse: { 'pt-BR': ['mouse', 'm'], es: ['ratón', 'm', 'ratones'] },
+    remote: { 'pt-BR': ['controle remoto', 'm', 'controles remotos'], es: ['mando a distancia', 'm'] },
+    keyboard: { 'pt-BR': ['teclado', 'm'], es: ['teclado', 'm'] },
+    'cell phone': { 'pt-BR': ['celular', 'm'], es: ['teléfono móvil', 'm', 'teléfonos móviles'] },
+    microwave: { 'pt-BR': ['micro-ondas', 'm', 'micro-ondas'], es: ['microondas', 'm', 'microondas'] },
+    oven: { 'pt-BR': ['forno', 'm'], es: ['horno', 'm'] },
+    toaster: { 'pt-BR': ['torradeira', 'f'], es: ['tostadora', 'f'] },
+    sink: { 'pt-BR': ['pia', 'f'], es: ['fregadero', 'm'] },
+    refrigerator: { 'pt-BR': ['geladeira', 'f'], es: ['nevera', 'f'] },
+    blender: { 'pt-BR': ['liquidificador', 'm'], es: ['licuadora', 'f'] },
+    book: { 'pt-BR': ['livro', 'm'], es: ['libro', 'm'] },
+    clock: { 'pt-BR': ['relógio', 'm'], es: ['reloj', 'm'] },
+    vase: { 'pt-BR': ['vaso', 'm'], es: ['jarrón', 'm', 'jarrones'] },
+    scissors: { 'pt-BR': ['tesoura', 'f'], es: ['tijera', 'f'] },
+    'teddy bear': { 'pt-BR': ['ursinho de pelúcia', 'm'], es: ['oso de peluche', 'm'] },
+    'hair drier': { 'pt-BR': ['secador de cabelo', 'm'], es: ['secador de pelo', 'm'] },
+    'hair brush': { 'pt-BR': ['escova de cabelo', 'f'], es: ['cepillo de pelo', 'm'] },
+    toothbrush: { 'pt-BR': ['escova de dentes', 'f'], es: ['cepillo de dientes', 'm'] }
+};
+
+// Catalog entries by translated singular, to inflect labels that were already translated
+const TRANSLATED_LABELS = new Map<string, LabelTranslation>(
+    Object.values(LABEL_CATALOG).flatMap(entry => Object.entries(entry).map(
+        ([language, translation]) => [`${language}:${translation[0]}`, translation] as [string, LabelTranslation]
+    ))
+);
+
+/**
+ * English plural of a detection label
+ */
+export function pluralize(label: string): string {
+    if (IRREGULAR_PLURALS[label]) return IRREGULAR_PLURALS[label];
+    if (/(s|x|z|ch|sh)$/.test(label)) return `${label}es`;
+    if (/[^aeiou]y$/.test(label)) return `${label.slice(0, -1)}ies`;
+    return `${label}s`;
+}
+
+/**
+ * Regular Portuguese and Spanish plural of a noun phrase: the first word takes -s after a vowel, -es otherwise
+ */
+function regularPlural(label: string): string {
+    const [head, ...rest] = label.split(' ');
+    const plural = /[aeiouáéíóúâêôãõ]$/i.test(head) ? `${head}s` : `${head}es`;
+    return [plural, ...rest].join(' ');
+}
+
+/**
+ * Label in a language; labels missing from the catalog, such as free-text queries, are kept as they are
+ */
+export function translateLabel(label: string, language: Language = 'en'): string {
+    if (language === 'en') {
+        return label;
+    }
+    return LABEL_CATALOG[label.toLowerCase()]?.[language][0] ?? label;
+}
+
+/**
+ * Singular, plural and gender of a label in a language, given in English or already translated
+ */
+export function labelForms(label: string, language: Language = 'en'): LabelForms {
+    if (language === 'en') {
+        return { singular: label, plural: pluralize(label), gender: 'm' };
+    }
+
+    const translation = LABEL_CATALOG[label.toLowerCase()]?.[language] ?? TRANSLATED_LABELS.get(`${language}:${label.toLowerCase()}`);
+    if (!translation) {
+        return { singular: label, plural: regularPlural(label), gender: 'm' };
+    }
+    const [singular, gender, plural] = translation;
+    return { singular, plural: plural ?? regularPlural(singular), gender };
+}
+
+/**
+ * A label with an indefinite article, e.g. "an apple", "uma maçã" or "una manzana"
+ */
+export function withIndefiniteArticle(label: string, language: Language = 'en'): string {
+    const { singular, gender } = labelForms(label, language);
+    switch (language) {
+        case 'en':
+            return `${/^[aeiou]/i.test(singular) ? 'an' : 'a'} ${singular}`;
+        case 'pt-BR':
+            return `${gender === 'f' ? 'uma' : 'um'} ${singular}`;
+        case 'es':
+            return `${gender === 'f' ? 'una' : 'un'} ${singular}`;
+    }
+}
+
+/**
+ * How many objects of a label there are, e.g. "a chair", "3 people" or "3 pessoas"
+ */
+export function countLabel(label: string, count: number, language: Language = 'en'): string {
+    return count > 1 ? `${count} ${labelForms(label, language).plural}` : withIndefiniteArticle(label, language);
+}
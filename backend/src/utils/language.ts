@@ -0,0 +1,51 @@
+import { Language } from '../interfaces/detection.interface';
+
+export const LANGUAGES: Language[] = ['en', 'pt-BR', 'es'];
+
+// Names of the languages in instructions to vision-language models
+const LANGUAGE_NAMES: Record<Language, string> = {
+    en: 'English',
+    'pt-BR': 'Brazilian Portuguese',
+    es: 'Spanish'
+};
+
+// Connective of a list, e.g. "red, white and blue"
+const LIST_CONJUNCTIONS: Record<Language, string> = {
+    en: 'and',
+    'pt-BR': 'e',
+    es: 'y'
+};
+
+/**
+ * Supported language of a language tag, e.g. "pt", "pt-br" or "es-MX"
+ * @returns The language, or null if none of its kind is supported
+ */
+export function normalizeLanguage(tag: string | null | undefined): Language | null {
+    const [primary] = (tag || '').trim().toLowerCase().split(/[-_]/);
+    switch (primary) {
+        case 'en':
+            return 'en';
+        case 'pt':
+            return 'pt-BR';
+        case 'es':
+            return 'es';
+        default:
+            return null;
+    }
+}
+
+/**
+ * Join items into a list read as a sentence, e.g. "a cup, a fork and a plate"
+ */
+export function joinList(items: string[], language: Language = 'en'): string {
+    return items.length > 1
+        ? `${items.slice(0, -1).join(', ')} ${LIST_CONJUNCTIONS[language]} ${items[items.length - 1]}`
+        : items.join('');
+}
+
+/**
+ * Instruction appended to prompts so the model answers in the language, empty for English
+ */
+export function languageInstruction(language: Language = 'en'): string {
+    return language === 'en' ? '' : `Answer in ${LANGUAGE_NAMES[language]}.`;
+}
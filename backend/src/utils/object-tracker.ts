@@ -0,0 +1,223 @@
+import { BoundingBox, DetectionResult, Language, TrackedObject, TrackEvent } from '../interfaces/detection.interface';
+import { clockPosition, directionPhrase, horizontalPosition } from './spatial-language';
+
+export interface ObjectTrackerOptions {
+    // Minimum overlap for a detection to continue a track
+    iouThreshold?: number;
+    // Without overlap, maximum centroid distance as a share of the image diagonal
+    maxCentroidDistance?: number;
+    // Frames an object must be seen in before it is announced, to ignore one-frame false positives
+    minHits?: number;
+    // Frames an object may be missed before it is announced as gone
+    maxMissed?: number;
+    // Language of the event messages; labels are announced as detected
+    language?: Language;
+}
+
+interface Track {
+    id: number;
+    label: string;
+    box: BoundingBox;
+    score: number;
+    hits: number;
+    missed: number;
+    confirmed: boolean;
+}
+
+interface Candidate {
+    track: Track;
+    detection: number;
+    similarity: number;
+}
+
+function area(box: BoundingBox): number {
+    return Math.max(0, box.xmax - box.xmin) * Math.max(0, box.ymax - box.ymin);
+}
+
+/**
+ * Intersection over union of two boxes
+ */
+export function intersectionOverUnion(a: BoundingBox, b: BoundingBox): number {
+    const intersection = area({
+        xmin: Math.max(a.xmin, b.xmin),
+        ymin: Math.max(a.ymin, b.ymin),
+        xmax: Math.min(a.xmax, b.xmax),
+        ymax: Math.min(a.ymax, b.ymax)
+    });
+    const union = area(a) + area(b) - intersection;
+    return union > 0 ? intersection / union : 0;
+}
+
+function centroidDistance(a: BoundingBox, b: BoundingBox): number {
+    return Math.hypot((a.xmin + a.xmax - b.xmin - b.xmax) / 2, (a.ymin + a.ymax - b.ymin - b.ymax) / 2);
+}
+
+function centerX(box: BoundingBox): number {
+    return (box.xmin + box.xmax) / 2;
+}
+
+// Event messages by language; {label} and {direction} are filled in
+const EVENT_MESSAGES: Record<Language, Record<TrackEvent['type'], string>> = {
+    en: { entered: '{label} entered {direction}', left: '{label} no longer visible' },
+    'pt-BR': { entered: '{label} entrou {direction}', left: '{label} não está mais visível' },
+    es: { entered: '{label} entró {direction}', left: '{label} ya no está visible' }
+};
+
+/**
+ * Keeps track IDs of detected objects across frames of a video.
+ * Detections continue the track of the same label they overlap most (IoU), or whose centroid is closest
+ * when a fast move leaves no overlap. Only changes are reported: an object entering once it was seen in
+ * `minHits` frames, and leaving once it was missed in more than `maxMissed` frames.
+ */
+export class ObjectTracker {
+    private tracks: Track[] = [];
+    private nextId = 1;
+    private iouThreshold: number;
+    private maxCentroidDistance: number;
+    private minHits: number;
+    private maxMissed: number;
+    private language: Language;
+
+    constructor(options: ObjectTrackerOptions = {}) {
+        this.iouThreshold = options.iouThreshold ?? 0.3;
+        this.maxCentroidDistance = options.maxCentroidDistance ?? 0.15;
+        this.minHits = Math.max(1, options.minHits ?? 2);
+        this.maxMissed = options.maxMissed ?? 3;
+        this.language = options.language ?? 'en';
+    }
+
+    /**
+     * Similarity of a track and a detection; IoU matches always rank above centroid matches
+     */
+    private similarity(track: Track, box: BoundingBox, diagonal: number): number {
+        const iou = intersectionOverUnion(track.box, box);
+        if (iou >= this.iouThreshold) {
+            return 1 + iou;
+        }
+
+        const distance = centroidDistance(track.box, box) / diagonal;
+        return distance <= this.maxCentroidDistance ? 1 - distance / this.maxCentroidDistance : -1;
+    }
+
+    private toEvent(type: TrackEvent['type'], track: Track, imageWidth: number): TrackEvent {
+        const horizontal = horizontalPosition(centerX(track.box), imageWidth);
+        return {
+            type,
+            trackId: track.id,
+            label: track.label,
+            horizontal,
+            clockPosition: clockPosition(centerX(track.box), imageWidth),
+            message: EVENT_MESSAGES[this.language][type]
+                .replace('{label}', track.label)
+                .replace('{direction}', directionPhrase(horizontal, this.language))
+        };
+    }
+
+    /**
+     * Match the detections of a new frame to the tracks
+     * @param detections Detections of the frame in pixel coordinates
+     * @param imageWidth Width of the frame in pixels
+     * @param imageHeight Height of the frame in pixels
+     * @returns Objects that entered or left with this frame
+     */
+    public update(detections: DetectionResult[], imageWidth: number, imageHeight: number): TrackEvent[] {
+        const diagonal = Math.hypot(imageWidth, imageHeight) || 1;
+
+        // Greedy matching, most similar pairs first
+        const candidates: Candidate[] = [];
+        for (const track of this.tracks) {
+            detections.forEach((detection, index) => {
+                if (detection.label !== track.label) {
+                    return;
+                }
+                const similarity = this.similarity(track, detection.box, diagonal);
+                if (similarity >= 0) {
+                    candidates.push({ track, detection: index, similarity });
+                }
+            });
+        }
+        candidates.sort((a, b) => b.similarity - a.similarity);
+
+        const matchedTracks = new Set<Track>();
+        const matchedDetections = new Set<number>();
+        const events: TrackEvent[] = [];
+
+        for (const { track, detection } of candidates) {
+            if (matchedTracks.has(track) || matchedDetections.has(detection)) {
+                continue;
+            }
+            matchedTracks.add(track);
+            matchedDetections.add(detection);
+
+            track.box = detections[detection].box;
+            track.score = detections[detection].score;
+            track.hits++;
+            track.missed = 0;
+            if (!track.confirmed && track.hits >= this.minHits) {
+                track.confirmed = true;
+                events.push(this.toEvent('entered', track, imageWidth));
+            }
+        }
+
+        // Age unmatched tracks, dropping the ones missed for too long
+        this.tracks = this.tracks.filter(track => {
+            if (matchedTracks.has(track)) {
+                return true;
+            }
+            track.missed++;
+            if (track.missed <= this.maxMissed) {
+                return true;
+            }
+            if (track.confirmed) {
+                events.push(this.toEvent('left', track, imageWidth));
+            }
+            return false;
+        });
+
+        // Start tracks for new detections
+        detections.forEach((detection, index) => {
+            if (matchedDetections.has(index)) {
+                return;
+            }
+            const track: Track = {
+                id: this.nextId++,
+                label: detection.label,
+                box: detection.box,
+                score: detection.score,
+                hits: 1,
+                missed: 0,
+                confirmed: this.minHits <= 1
+            };
+            this.tracks.push(track);
+            if (track.confirmed) {
+                events.push(this.toEvent('entered', track, imageWidth));
+            }
+        });
+
+        return events;
+    }
+
+    /**
+     * Confirmed objects, including ones missed in the last few frames
+     * @param imageWidth Width of the frame in pixels
+     */
+    public getTrackedObjects(imageWidth: number): TrackedObject[] {
+        return this.tracks
+            .filter(track => track.confirmed)
+            .map(track => ({
+                trackId: track.id,
+                label: track.label,
+                box: track.box,
+                score: track.score,
+                horizontal: horizontalPosition(centerX(track.box), imageWidth),
+                clockPosition: clockPosition(centerX(track.box), imageWidth)
+            }));
+    }
+
+    /**
+     * Forget all tracks, e.g. when the camera is pointed somewhere else
+     */
+    public reset(): void {
+        this.tracks = [];
+    }
+}
@@ -0,0 +1,21 @@
+import { Response } from 'express';
+import { QueueFullError } from '../services/inference-queue.service';
+
+/**
+ * Answer 429 with Retry-After if the error is a full inference queue
+ * @returns True if a response was sent
+ */
+export function sendQueueFullResponse(res: Response, error: unknown): boolean {
+    if (!(error instanceof QueueFullError)) {
+        return false;
+    }
+
+    res.set('Retry-After', String(error.retryAfter));
+    res.status(429).json({
+        success: false,
+        error: 'Server busy, try again later',
+        details: error.message,
+        retryAfter: error.retryAfter
+    });
+    return true;
+}
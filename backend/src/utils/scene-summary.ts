@@ -0,0 +1,97 @@
+import { DetectionResult, Language } from '../interfaces/detection.interface';
+import { countLabel, labelForms, pluralize } from './label-translations';
+import { joinList } from './language';
+
+export { pluralize };
+
+/**
+ * A detected label and how many times it was found
+ */
+export interface LabelCount {
+    label: string;
+    count: number;
+}
+
+/**
+ * Count detections per label, most frequent first (ties keep detection order)
+ */
+export function countLabels(detections: DetectionResult[]): LabelCount[] {
+    const counts = new Map<string, number>();
+    for (const detection of detections) {
+        counts.set(detection.label, (counts.get(detection.label) || 0) + 1);
+    }
+
+    return Array.from(counts, ([label, count]) => ({ label, count }))
+        .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Speakable list of counted labels, e.g. "2 people, a chair and a cup" or "2 pessoas, uma cadeira e uma xícara"
+ */
+export function formatLabelCounts(counts: LabelCount[], language: Language = 'en'): string {
+    return joinList(counts.map(({ label, count }) => countLabel(label, count, language)), language);
+}
+
+/**
+ * Grounding hint appended to the description prompt
+ */
+export function buildGroundingPrompt(prompt: string, counts: LabelCount[]): string {
+    if (counts.length === 0) {
+        return prompt;
+    }
+
+    const labels = counts.map(({ label, count }) => (count > 1 ? `${label} (${count})` : label)).join(', ');
+    return `${prompt}\nAn object detector found: ${labels}. ` +
+        'Use this as a hint, but only mention what you can actually see.';
+}
+
+// Sentences of the fused summary by language; {list} is replaced by the counted labels
+const SUMMARY_SENTENCES: Record<Language, { also: string; only: string; nothing: string }> = {
+    en: {
+        also: 'I also detected {list}.',
+        only: 'I detected {list}.',
+        nothing: 'I could not identify anything in this image.'
+    },
+    'pt-BR': {
+        also: 'Também detectei {list}.',
+        only: 'Detectei {list}.',
+        nothing: 'Não consegui identificar nada nesta imagem.'
+    },
+    es: {
+        also: 'También detecté {list}.',
+        only: 'Detecté {list}.',
+        nothing: 'No pude identificar nada en esta imagen.'
+    }
+};
+
+/**
+ * Fuse a description with detection counts into one text suitable for speech.
+ * Detected objects the description already mentions are not repeated.
+ * @param language Language of the labels and the description
+ */
+export function fuseSceneSummary(description: string | null, counts: LabelCount[], language: Language = 'en'): string {
+    const text = (description || '').trim();
+    const lowerText = text.toLowerCase();
+    const sentences = SUMMARY_SENTENCES[language];
+
+    const unmentioned = counts.filter(({ label }) => {
+        const { singular, plural } = labelForms(label, language);
+        const names = [singular, plural].map(name => name.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+        // Word boundaries that also hold next to accented letters
+        return !names.some(name => new RegExp(`(^|[^\\p{L}])${name}($|[^\\p{L}])`, 'u').test(lowerText));
+    });
+
+    const result: string[] = [];
+    if (text) {
+        result.push(/[.!?]$/.test(text) ? text : `${text}.`);
+    }
+
+    if (unmentioned.length > 0) {
+        const list = formatLabelCounts(unmentioned, language);
+        result.push((text ? sentences.also : sentences.only).replace('{list}', list));
+    } else if (!text) {
+        result.push(sentences.nothing);
+    }
+
+    return result.join(' ');
+}
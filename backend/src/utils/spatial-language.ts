@@ -0,0 +1,266 @@
+import { BoundingBox, DetectionResult, Language, SpatialDescription, SpatialRelation } from '../interfaces/detection.interface';
+import { labelForms, withIndefiniteArticle } from './label-translations';
+
+// Horizontal field of view mapped onto the clock face: the image edges fall at 10 and 2 o'clock
+const FIELD_OF_VIEW_DEGREES = 120;
+
+// Share of the image a box must cover to count as near, and below which it counts as far
+const NEAR_AREA_RATIO = 0.25;
+const FAR_AREA_RATIO = 0.04;
+
+// Relations kept per object, closest first
+const MAX_RELATIONS = 2;
+
+interface Box {
+    xmin: number;
+    ymin: number;
+    xmax: number;
+    ymax: number;
+    cx: number;
+    cy: number;
+    width: number;
+    height: number;
+    area: number;
+}
+
+function toBox(box: BoundingBox): Box {
+    const width = Math.max(0, box.xmax - box.xmin);
+    const height = Math.max(0, box.ymax - box.ymin);
+    return {
+        ...box,
+        cx: box.xmin + width / 2,
+        cy: box.ymin + height / 2,
+        width,
+        height,
+        area: width * height
+    };
+}
+
+/**
+ * Clock-face direction of a point, 12 o'clock being straight ahead of the camera
+ */
+export function clockPosition(cx: number, imageWidth: number): number {
+    const angle = (cx / imageWidth - 0.5) * FIELD_OF_VIEW_DEGREES;
+    const hour = Math.round(angle / 30);
+    return hour <= 0 ? 12 + hour : hour;
+}
+
+/**
+ * Third of the image a point is in
+ */
+export function horizontalPosition(cx: number, imageWidth: number): SpatialDescription['horizontal'] {
+    if (cx < imageWidth / 3) return 'left';
+    if (cx > (imageWidth * 2) / 3) return 'right';
+    return 'center';
+}
+
+// Direction of an object, said of where it is or where it appeared
+const DIRECTION_PHRASES: Record<Language, Record<SpatialDescription['horizontal'], string>> = {
+    en: { left: 'on the left', center: 'ahead', right: 'on the right' },
+    'pt-BR': { left: 'à esquerda', center: 'à frente', right: 'à direita' },
+    es: { left: 'a la izquierda', center: 'delante', right: 'a la derecha' }
+};
+
+/**
+ * Direction of a third of the image, e.g. "on the left" or "ahead"
+ */
+export function directionPhrase(horizontal: SpatialDescription['horizontal'], language: Language = 'en'): string {
+    return DIRECTION_PHRASES[language][horizontal];
+}
+
+/**
+ * Rough distance from the share of the image the box covers.
+ * Only a hint: a large object far away can cover as much as a small one nearby.
+ */
+function estimateDistance(areaRatio: number): SpatialDescription['distance'] {
+    if (areaRatio >= NEAR_AREA_RATIO) return 'near';
+    if (areaRatio < FAR_AREA_RATIO) return 'far';
+    return 'medium';
+}
+
+function overlap(aMin: number, aMax: number, bMin: number, bMax: number): number {
+    return Math.max(0, Math.min(aMax, bMax) - Math.max(aMin, bMin));
+}
+
+/**
+ * Relation of `a` to `b`, or null if they are not close enough to relate
+ */
+function relate(a: Box, b: Box): SpatialRelation['relation'] | null {
+    const xOverlap = overlap(a.xmin, a.xmax, b.xmin, b.xmax);
+    const yOverlap = overlap(a.ymin, a.ymax, b.ymin, b.ymax);
+
+    // Smaller object whose bottom rests in the upper part of a larger one
+    if (
+        a.area < b.area &&
+        a.cx >= b.xmin && a.cx <= b.xmax &&
+        a.ymax >= b.ymin && a.ymax <= b.ymin + b.height * 0.6 &&
+        a.ymin < b.ymin + b.height * 0.25
+    ) {
+        return 'on';
+    }
+
+    // Stacked vertically with a small gap
+    if (xOverlap > Math.min(a.width, b.width) * 0.5 && yOverlap === 0) {
+        const gap = a.cy < b.cy ? b.ymin - a.ymax : a.ymin - b.ymax;
+        if (gap <= Math.max(a.height, b.height) * 0.5) {
+            return a.cy < b.cy ? 'above' : 'below';
+        }
+        return null;
+    }
+
+    // Side by side at a similar height
+    if (yOverlap > Math.min(a.height, b.height) * 0.3) {
+        const gap = a.cx < b.cx ? b.xmin - a.xmax : a.xmin - b.xmax;
+        if (gap <= Math.max(a.width, b.width)) {
+            return a.cx < b.cx ? 'left of' : 'right of';
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Phrases of a language; relation phrases use {the} or {of the}, which take the gender of the label in Portuguese and Spanish
+ */
+interface SpatialPhrases {
+    clock: (hour: number) => string;
+    horizontal: Record<'left' | 'right', string>;
+    distance: Record<SpatialDescription['distance'], string>;
+    relations: Record<SpatialRelation['relation'], string>;
+    articles: Record<'m' | 'f', Record<'the' | 'of the', string>>;
+    empty: string;
+}
+
+const PHRASES: Record<Language, SpatialPhrases> = {
+    en: {
+        clock: hour => `at ${hour} o'clock`,
+        horizontal: { left: 'on the left', right: 'on the right' },
+        distance: { near: 'close by', medium: 'at medium distance', far: 'far away' },
+        relations: {
+            on: 'on {the} {label}',
+            above: 'above {the} {label}',
+            below: 'below {the} {label}',
+            'left of': 'to the left {of the} {label}',
+            'right of': 'to the right {of the} {label}'
+        },
+        articles: { m: { the: 'the', 'of the': 'of the' }, f: { the: 'the', 'of the': 'of the' } },
+        empty: 'No objects detected in the image.'
+    },
+    'pt-BR': {
+        clock: hour => (hour === 1 ? 'à 1 hora' : `às ${hour} horas`),
+        horizontal: { left: 'à esquerda', right: 'à direita' },
+        distance: { near: 'perto', medium: 'a média distância', far: 'longe' },
+        relations: {
+            on: 'sobre {the} {label}',
+            above: 'acima {of the} {label}',
+            below: 'abaixo {of the} {label}',
+            'left of': 'à esquerda {of the} {label}',
+            'right of': 'à direita {of the} {label}'
+        },
+        articles: { m: { the: 'o', 'of the': 'do' }, f: { the: 'a', 'of the': 'da' } },
+        empty: 'Nenhum objeto detectado na imagem.'
+    },
+    es: {
+        clock: hour => (hour === 1 ? 'a la 1' : `a las ${hour}`),
+        horizontal: { left: 'a la izquierda', right: 'a la derecha' },
+        distance: { near: 'cerca', medium: 'a media distancia', far: 'lejos' },
+        relations: {
+            on: 'sobre {the} {label}',
+            above: 'encima {of the} {label}',
+            below: 'debajo {of the} {label}',
+            'left of': 'a la izquierda {of the} {label}',
+            'right of': 'a la derecha {of the} {label}'
+        },
+        articles: { m: { the: 'el', 'of the': 'del' }, f: { the: 'la', 'of the': 'de la' } },
+        empty: 'No se detectaron objetos en la imagen.'
+    }
+};
+
+function relationPhrase(relation: SpatialRelation, language: Language): string {
+    const phrases = PHRASES[language];
+    const { singular, gender } = labelForms(relation.label, language);
+    return phrases.relations[relation.relation]
+        .replace(/\{(the|of the)\}/, (_match, article: 'the' | 'of the') => phrases.articles[gender][article])
+        .replace('{label}', singular);
+}
+
+/**
+ * Describe where each detection is: clock-face direction, left/center/right,
+ * near/far and its relations to the other detections.
+ * @param detections Detections in image pixel coordinates
+ * @param imageWidth Width of the image in pixels
+ * @param imageHeight Height of the image in pixels
+ * @param language Language of the labels and the phrases
+ */
+export function describeSpatialLayout(
+    detections: DetectionResult[],
+    imageWidth: number,
+    imageHeight: number,
+    language: Language = 'en'
+): SpatialDescription[] {
+    const phrases = PHRASES[language];
+    const boxes = detections.map(detection => toBox(detection.box));
+    const imageArea = imageWidth * imageHeight;
+
+    return boxes.map((box, index) => {
+        const areaRatio = imageArea > 0 ? box.area / imageArea : 0;
+
+        const relations: (SpatialRelation & { gap: number })[] = [];
+        boxes.forEach((other, otherIndex) => {
+            if (otherIndex === index) return;
+            const relation = relate(box, other);
+            if (relation) {
+                relations.push({
+                    relation,
+                    label: detections[otherIndex].label,
+                    index: otherIndex,
+                    gap: Math.hypot(box.cx - other.cx, box.cy - other.cy)
+                });
+            }
+        });
+
+        const nearestRelations = relations
+            // Prefer "on" relations, then the closest objects
+            .sort((a, b) => Number(b.relation === 'on') - Number(a.relation === 'on') || a.gap - b.gap)
+            .slice(0, MAX_RELATIONS)
+            .map(({ gap, ...relation }) => relation);
+
+        const clock = clockPosition(box.cx, imageWidth);
+        const horizontal = horizontalPosition(box.cx, imageWidth);
+        const distance = estimateDistance(areaRatio);
+
+        const parts = [`${withIndefiniteArticle(detections[index].label, language)} ${phrases.clock(clock)}`];
+        if (horizontal !== 'center') {
+            parts.push(phrases.horizontal[horizontal]);
+        }
+        parts.push(phrases.distance[distance]);
+        if (nearestRelations.length > 0) {
+            parts.push(relationPhrase(nearestRelations[0], language));
+        }
+
+        return {
+            clockPosition: clock,
+            horizontal,
+            distance,
+            areaRatio: Math.round(areaRatio * 1000) / 1000,
+            relations: nearestRelations,
+            phrase: parts.join(', ')
+        };
+    });
+}
+
+/**
+ * Join spatial phrases into sentences, closest objects first
+ * @param language Language of the phrases, for the sentence used when there are none
+ */
+export function summarizeSpatialLayout(descriptions: SpatialDescription[], language: Language = 'en'): string {
+    if (descriptions.length === 0) {
+        return PHRASES[language].empty;
+    }
+
+    const phrases = [...descriptions]
+        .sort((a, b) => b.areaRatio - a.areaRatio)
+        .map(description => description.phrase);
+
+    return `${phrases.map(phrase => phrase.charAt(0).toUpperCase() + phrase.slice(1)).join('. ')}.`;
+}
@@ -0,0 +1,112 @@
+import { Response } from 'express';
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * Prepare an Express response for Server-Sent Events
+ */
+export function initSSE(res: Response): void {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    // Disable proxy buffering (nginx) so tokens reach the client immediately
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+}
+
+/**
+ * Write a single named SSE event with a JSON payload
+ */
+export function sendSSEEvent(res: Response, event: string, data: unknown): void {
+    if (res.writableEnded) {
+        return;
+    }
+    res.write(`event: ${event}\n`);
+    res.write(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Parse the `data:` payloads out of an upstream SSE byte stream.
+ * Yields the raw payload string of each event (e.g. a JSON chunk or "[DONE]").
+ */
+export async function* readSSEData(stream: AsyncIterable<Buffer | string>): AsyncGenerator<string> {
+    // Multibyte characters may be split across chunks, so decode incrementally
+    const decoder = new StringDecoder('utf8');
+    let buffer = '';
+
+    for await (const chunk of stream) {
+        buffer += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+
+        // Events are separated by a blank line
+        let separatorIndex = buffer.search(/\r?\n\r?\n/);
+        while (separatorIndex !== -1) {
+            const rawEvent = buffer.slice(0, separatorIndex);
+            buffer = buffer.slice(separatorIndex).replace(/^\r?\n\r?\n/, '');
+
+            const data = extractData(rawEvent);
+            if (data !== null) {
+                yield data;
+            }
+
+            separatorIndex = buffer.search(/\r?\n\r?\n/);
+        }
+    }
+
+    buffer += decoder.end();
+
+    // Flush a trailing event that was not terminated by a blank line
+    const data = extractData(buffer);
+    if (data !== null) {
+        yield data;
+    }
+}
+
+/**
+ * Join the `data:` lines of a raw SSE event
+ */
+function extractData(rawEvent: string): string | null {
+    const dataLines = rawEvent
+        .split(/\r?\n/)
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).replace(/^ /, ''));
+
+    return dataLines.length > 0 ? dataLines.join('\n') : null;
+}
+
+/**
+ * Accumulates streamed tokens and emits complete sentences,
+ * so text-to-speech clients can start speaking before generation ends.
+ */
+export class SentenceBuffer {
+    private pending = '';
+
+    /**
+     * Add a token and return any sentences completed by it
+     */
+    public push(token: string): string[] {
+        this.pending += token;
+        const sentences: string[] = [];
+
+        // A sentence ends with . ! ? (or …) followed by whitespace
+        let match = this.pending.match(/^([\s\S]*?[.!?…]+["')\]]*)\s+/);
+        while (match) {
+            const sentence = match[1].trim();
+            if (sentence) {
+                sentences.push(sentence);
+            }
+            this.pending = this.pending.slice(match[0].length);
+            match = this.pending.match(/^([\s\S]*?[.!?…]+["')\]]*)\s+/);
+        }
+
+        return sentences;
+    }
+
+    /**
+     * Return whatever text is left once the stream has finished
+     */
+    public flush(): string | null {
+        const rest = this.pending.trim();
+        this.pending = '';
+        return rest || null;
+    }
+}
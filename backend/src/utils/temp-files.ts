@@ -0,0 +1,41 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Directory where detection used to write each upload before decoding it
+export const LEGACY_TEMP_DIR = path.join(process.cwd(), 'temp');
+
+const LEGACY_TEMP_FILE = /^temp-\d+\.jpg$/;
+
+/**
+ * Remove image files left in the temp directory by failed or interrupted requests of earlier versions
+ * @param dir Directory to sweep
+ * @returns Number of files removed
+ */
+export async function sweepTempFiles(dir: string = LEGACY_TEMP_DIR): Promise<number> {
+    let names: string[];
+    try {
+        names = await fs.promises.readdir(dir);
+    } catch (error: any) {
+        if (error.code === 'ENOENT') {
+            return 0;
+        }
+        throw error;
+    }
+
+    let removed = 0;
+    for (const name of names.filter(name => LEGACY_TEMP_FILE.test(name))) {
+        try {
+            await fs.promises.unlink(path.join(dir, name));
+            removed++;
+        } catch (error) {
+            console.warn(`Failed to remove temporary file ${name}:`, error);
+        }
+    }
+
+    // Remove the directory once nothing else is in it
+    if (removed === names.length) {
+        await fs.promises.rmdir(dir).catch(() => undefined);
+    }
+
+    return removed;
+}
@@ -0,0 +1,118 @@
+import { BoundingBox } from '../interfaces/detection.interface';
+
+/**
+ * A group of lines, with the indices of its lines (top to bottom)
+ */
+export interface TextLayoutBlock {
+    box: BoundingBox;
+    lineIndices: number[];
+}
+
+function makeBox(xmin: number, ymin: number, xmax: number, ymax: number): BoundingBox {
+    return { xmin, ymin, xmax, ymax, width: xmax - xmin, height: ymax - ymin };
+}
+
+/**
+ * Line boxes from the quadrilaterals a text detection model outlines lines with.
+ * Each quadrilateral (x1, y1, ... x4, y4) becomes the box around it, clipped to the image;
+ * empty boxes are dropped.
+ * @returns Line boxes, top to bottom
+ */
+export function textLinesFromQuads(quads: number[][], width: number, height: number): BoundingBox[] {
+    return quads
+        .map(quad => {
+            const xs = quad.filter((_, index) => index % 2 === 0);
+            const ys = quad.filter((_, index) => index % 2 === 1);
+            return makeBox(
+                Math.max(0, Math.floor(Math.min(...xs))),
+                Math.max(0, Math.floor(Math.min(...ys))),
+                Math.min(width - 1, Math.ceil(Math.max(...xs))),
+                Math.min(height - 1, Math.ceil(Math.max(...ys)))
+            );
+        })
+        .filter(line => line.xmax > line.xmin && line.ymax > line.ymin)
+        .sort((a, b) => a.ymin - b.ymin || a.xmin - b.xmin);
+}
+
+function horizontalOverlap(a: BoundingBox, b: BoundingBox): number {
+    return Math.max(0, Math.min(a.xmax, b.xmax) - Math.max(a.xmin, b.xmin));
+}
+
+function mergeBoxes(a: BoundingBox, b: BoundingBox): BoundingBox {
+    return makeBox(
+        Math.min(a.xmin, b.xmin),
+        Math.min(a.ymin, b.ymin),
+        Math.max(a.xmax, b.xmax),
+        Math.max(a.ymax, b.ymax)
+    );
+}
+
+/**
+ * Recursive XY-cut: split on an empty horizontal strip first (top to bottom),
+ * otherwise on an empty vertical strip (left to right)
+ */
+function xyCut(blocks: TextLayoutBlock[]): TextLayoutBlock[] {
+    if (blocks.length <= 1) {
+        return blocks;
+    }
+
+    const cut = (
+        start: (block: TextLayoutBlock) => number,
+        end: (block: TextLayoutBlock) => number
+    ): TextLayoutBlock[][] | null => {
+        const sorted = [...blocks].sort((a, b) => start(a) - start(b));
+        const groups: TextLayoutBlock[][] = [[sorted[0]]];
+        let reach = end(sorted[0]);
+
+        for (const block of sorted.slice(1)) {
+            if (start(block) > reach) {
+                groups.push([block]);
+            } else {
+                groups[groups.length - 1].push(block);
+            }
+            reach = Math.max(reach, end(block));
+        }
+
+        return groups.length > 1 ? groups : null;
+    };
+
+    const groups = cut(block => block.box.ymin, block => block.box.ymax)
+        || cut(block => block.box.xmin, block => block.box.xmax);
+
+    if (!groups) {
+        // Overlapping blocks: fall back to top-to-bottom
+        return [...blocks].sort((a, b) => a.box.ymin - b.box.ymin || a.box.xmin - b.box.xmin);
+    }
+
+    return groups.flatMap(xyCut);
+}
+
+/**
+ * Group lines into blocks and put the blocks in reading order.
+ * A line joins the block above it when they overlap horizontally by at least half
+ * of the narrower one and the vertical gap is at most one line height.
+ * @param lines Line boxes, top to bottom
+ */
+export function groupLinesIntoBlocks(lines: BoundingBox[]): TextLayoutBlock[] {
+    const blocks: TextLayoutBlock[] = [];
+
+    lines.forEach((line, index) => {
+        const lineHeight = line.ymax - line.ymin;
+
+        const block = blocks.find(candidate => {
+            const last = lines[candidate.lineIndices[candidate.lineIndices.length - 1]];
+            const narrower = Math.min(last.xmax - last.xmin, line.xmax - line.xmin);
+            const gap = line.ymin - last.ymax;
+            return horizontalOverlap(last, line) >= narrower / 2 && gap <= lineHeight;
+        });
+
+        if (block) {
+            block.lineIndices.push(index);
+            block.box = mergeBoxes(block.box, line);
+        } else {
+            blocks.push({ box: { ...line }, lineIndices: [index] });
+        }
+    });
+
+    return xyCut(blocks);
+}
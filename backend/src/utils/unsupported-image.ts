@@ -0,0 +1,20 @@
+import { Response } from 'express';
+import { UnsupportedImageFormatError } from '../services/image-preprocessing.service';
+
+/**
+ * Answer 415 if the error is an image in a format that can't be decoded
+ * @returns True if a response was sent
+ */
+export function sendUnsupportedImageResponse(res: Response, error: unknown): boolean {
+    if (!(error instanceof UnsupportedImageFormatError)) {
+        return false;
+    }
+
+    res.status(415).json({
+        success: false,
+        error: 'Unsupported image format',
+        details: error.message,
+        format: error.format
+    });
+    return true;
+}
@@ -0,0 +1,110 @@
+import { inflateRawSync } from 'zlib';
+
+/**
+ * A file extracted from a ZIP archive
+ */
+export interface ZipEntry {
+    name: string;
+    data: Buffer;
+}
+
+export interface ZipExtractOptions {
+    // Only extract entries whose name passes this filter
+    filter?: (name: string) => boolean;
+    maxEntries?: number;
+    // Upper bound on the total uncompressed size, protects against zip bombs
+    maxTotalSize?: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+/**
+ * Find the end of central directory record, which sits after an optional comment of up to 64 KB
+ */
+function findEndOfCentralDirectory(archive: Buffer): number {
+    const minOffset = Math.max(0, archive.length - 22 - 0xffff);
+    for (let offset = archive.length - 22; offset >= minOffset; offset--) {
+        if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+            return offset;
+        }
+    }
+    throw new Error('Not a ZIP archive');
+}
+
+/**
+ * Extract the files of a ZIP archive held in memory.
+ * Supports stored and deflated entries; directories and ZIP64 archives are not supported.
+ * @param archive The ZIP file content
+ * @param options Entry filter and size limits
+ */
+export function extractZipEntries(archive: Buffer, options: ZipExtractOptions = {}): ZipEntry[] {
+    const { filter, maxEntries = Infinity, maxTotalSize = Infinity } = options;
+
+    const endOffset = findEndOfCentralDirectory(archive);
+    const entryCount = archive.readUInt16LE(endOffset + 10);
+    let offset = archive.readUInt32LE(endOffset + 16);
+
+    const entries: ZipEntry[] = [];
+    let totalSize = 0;
+
+    for (let index = 0; index < entryCount; index++) {
+        if (archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+            throw new Error('Corrupt ZIP central directory');
+        }
+
+        const flags = archive.readUInt16LE(offset + 8);
+        const method = archive.readUInt16LE(offset + 10);
+        const compressedSize = archive.readUInt32LE(offset + 20);
+        const size = archive.readUInt32LE(offset + 24);
+        const nameLength = archive.readUInt16LE(offset + 28);
+        const extraLength = archive.readUInt16LE(offset + 30);
+        const commentLength = archive.readUInt16LE(offset + 32);
+        const localHeaderOffset = archive.readUInt32LE(offset + 42);
+        // Bit 11 marks UTF-8 names; older archives use CP437, which matches ASCII for common names
+        const name = archive.toString(flags & 0x800 ? 'utf8' : 'latin1', offset + 46, offset + 46 + nameLength);
+
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/') || (filter && !filter(name))) {
+            continue;
+        }
+        if (entries.length >= maxEntries) {
+            throw new Error(`ZIP archive has more than ${maxEntries} files`);
+        }
+        if (flags & 0x1) {
+            throw new Error(`Encrypted ZIP entries are not supported: ${name}`);
+        }
+
+        totalSize += size;
+        if (totalSize > maxTotalSize) {
+            throw new Error(`ZIP archive content exceeds ${maxTotalSize} bytes`);
+        }
+
+        if (archive.readUInt32LE(localHeaderOffset) !== LOCAL_FILE_HEADER) {
+            throw new Error(`Corrupt ZIP entry: ${name}`);
+        }
+        // The local header has its own name and extra field lengths
+        const dataOffset = localHeaderOffset + 30 +
+            archive.readUInt16LE(localHeaderOffset + 26) +
+            archive.readUInt16LE(localHeaderOffset + 28);
+        const compressed = archive.subarray(dataOffset, dataOffset + compressedSize);
+
+        let data: Buffer;
+        if (method === METHOD_STORED) {
+            data = Buffer.from(compressed);
+        } else if (method === METHOD_DEFLATED) {
+            data = inflateRawSync(compressed, { maxOutputLength: Math.max(size, 1) });
+        } else {
+            throw new Error(`Unsupported ZIP compression method ${method}: ${name}`);
+        }
+
+        entries.push({ name, data });
+    }
+
+    return entries;
+}
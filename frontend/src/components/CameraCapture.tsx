@@ -1,9 +1,22 @@
 import React, { useRef, useEffect, useState, useCallback } from "react";
-import { Camera, CameraOff, Loader2, Volume2, VolumeX } from "lucide-react";
+import {
+  Camera,
+  CameraOff,
+  Eye,
+  EyeOff,
+  Loader2,
+  Volume2,
+  VolumeX,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { speechService } from "@/services/speechService";
+import { LiveCameraClient } from "@/services/liveCamera";
+import { visionModelsService } from "@/services/visionModels";
+
+// How often a frame is sent in live mode
+const LIVE_FRAME_INTERVAL_MS = 500;
 
 interface CameraCaptureProps {
   onCapture: (imageFile: File) => void;
@@ -21,6 +34,81 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({
   const [isStreamActive, setIsStreamActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isListening, setIsListening] = useState(false);
+  const [isLive, setIsLive] = useState(false);
+  const liveClientRef = useRef<LiveCameraClient | null>(null);
+  const liveIntervalRef = useRef<number | null>(null);
+
+  const stopLive = useCallback(() => {
+    if (liveIntervalRef.current !== null) {
+      window.clearInterval(liveIntervalRef.current);
+      liveIntervalRef.current = null;
+    }
+    liveClientRef.current?.close();
+    liveClientRef.current = null;
+    setIsLive(false);
+  }, []);
+
+  const startLive = useCallback(async () => {
+    try {
+      const settings = await visionModelsService.getSettings();
+      const client = new LiveCameraClient();
+      liveClientRef.current = client;
+
+      client.connect(
+        {
+          // Only changes arrive, so every event is worth speaking
+          onEvents: (events) =>
+            speechService.speakNavigationInfo(
+              events.map((event) => event.message).join(". "),
+            ),
+          // Frames that are merely a bit blurry from moving are still analyzed
+          onQuality: (quality) => {
+            if (!quality.usable) {
+              speechService.speakInstruction(quality.guidance);
+            }
+          },
+          onError: (message) => console.warn("Live camera:", message),
+          onClose: () => {
+            if (liveClientRef.current === client) {
+              stopLive();
+              speechService.speakInstruction("Live mode stopped.");
+            }
+          },
+        },
+        {
+          model: settings.detectionModel ?? undefined,
+          threshold: settings.detectionThreshold ?? undefined,
+          dtype: settings.detectionDtype ?? undefined,
+        },
+      );
+
+      liveIntervalRef.current = window.setInterval(() => {
+        if (videoRef.current) {
+          client.sendFrame(videoRef.current);
+        }
+      }, LIVE_FRAME_INTERVAL_MS);
+
+      setIsLive(true);
+      speechService.speakInstruction(
+        "Live mode started. I will tell you when objects appear or disappear.",
+      );
+    } catch (err) {
+      // Leave nothing half-started
+      stopLive();
+      const errorMessage = "Unable to start live mode. Please try again.";
+      setError(errorMessage);
+      speechService.speakError(errorMessage);
+    }
+  }, [stopLive]);
+
+  const toggleLive = useCallback(() => {
+    if (isLive) {
+      stopLive();
+      speechService.speakInstruction("Live mode stopped.");
+    } else if (isStreamActive) {
+      startLive();
+    }
+  }, [isLive, isStreamActive, startLive, stopLive]);
 
   const startCamera = useCallback(async () => {
     try {
@@ -140,6 +228,9 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({
     };
   }, [startCamera, stopCamera]);
 
+  // Stop streaming frames when the component goes away
+  useEffect(() => stopLive, [stopLive]);
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyPress = (event: KeyboardEvent) => {
@@ -151,11 +242,15 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({
         event.preventDefault();
         toggleVoiceListening();
       }
+      if (event.code === "KeyL") {
+        event.preventDefault();
+        toggleLive();
+      }
     };
 
     window.addEventListener("keydown", handleKeyPress);
     return () => window.removeEventListener("keydown", handleKeyPress);
-  }, [capturePhoto, toggleVoiceListening, isProcessing]);
+  }, [capturePhoto, toggleVoiceListening, toggleLive, isProcessing]);
 
   return (
     <Card className={`${className} overflow-hidden`}>
@@ -210,6 +305,15 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({
                 Live
               </Badge>
             )}
+            {isLive && (
+              <Badge
+                variant="secondary"
+                className="bg-purple-500 text-white animate-pulse"
+              >
+                <Eye className="h-3 w-3 mr-1" />
+                Watching
+              </Badge>
+            )}
             {isListening && (
               <Badge
                 variant="secondary"
@@ -253,6 +357,25 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({
                     <Volume2 className="h-6 w-6" />
                   )}
                 </Button>
+
+                <Button
+                  onClick={toggleLive}
+                  size="lg"
+                  variant={isLive ? "default" : "outline"}
+                  className="h-16 w-16 rounded-full"
+                  aria-label={
+                    isLive
+                      ? "Stop live mode (L key)"
+                      : "Start live mode (L key)"
+                  }
+                  aria-pressed={isLive}
+                >
+                  {isLive ? (
+                    <EyeOff className="h-6 w-6" />
+                  ) : (
+                    <Eye className="h-6 w-6" />
+                  )}
+                </Button>
               </div>
             </div>
           )}
@@ -265,7 +388,9 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({
             <kbd className="px-2 py-1 text-xs bg-gray-200 rounded">Space</kbd>{" "}
             to capture photo or{" "}
             <kbd className="px-2 py-1 text-xs bg-gray-200 rounded">V</kbd> for
-            voice commands
+            voice commands, or{" "}
+            <kbd className="px-2 py-1 text-xs bg-gray-200 rounded">L</kbd> for
+            live mode
           </p>
           <p className="text-xs text-gray-500">
             Voice commands: "take photo", "describe", "read text", "find
@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react'
 import axios from 'axios'
+import { visionModelsService } from '@/services/visionModels'
 
 interface User {
   id: string
@@ -61,6 +62,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       
       localStorage.setItem('token', token)
       axios.defaults.headers.common['Authorization'] = `Bearer ${token}`
+      visionModelsService.clearSettings()
       setUser(userData)
     } catch (error) {
       throw new Error('Invalid credentials')
@@ -74,6 +76,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       
       localStorage.setItem('token', token)
       axios.defaults.headers.common['Authorization'] = `Bearer ${token}`
+      visionModelsService.clearSettings()
       setUser(userData)
     } catch (error) {
       throw new Error('Registration failed')
@@ -83,6 +86,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const logout = () => {
     localStorage.removeItem('token')
     delete axios.defaults.headers.common['Authorization']
+    visionModelsService.clearSettings()
     setUser(null)
   }
 
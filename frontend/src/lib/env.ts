@@ -9,32 +9,27 @@ export const env = {
     import.meta.env.VITE_FACIAL_RECOGNITION_API_URL ||
     "http://localhost:8000/api",
 
-  // Hugging Face API Token
-  HUGGING_FACE_TOKEN: import.meta.env.VITE_HUGGING_FACE_TOKEN,
+  // SmallBlind backend (empty means same origin)
+  API_URL: import.meta.env.VITE_API_URL || "",
 
   // Check if required environment variables are available
   isConfigured: {
     facialRecognition: !!import.meta.env.VITE_FACIAL_RECOGNITION_API_URL,
-    huggingFace: !!import.meta.env.VITE_HUGGING_FACE_TOKEN,
   },
 
   // Get environment configuration status
   getStatus: () => ({
     facialRecognitionConfigured: !!import.meta.env
       .VITE_FACIAL_RECOGNITION_API_URL,
-    huggingFaceConfigured: !!import.meta.env.VITE_HUGGING_FACE_TOKEN,
     isDevelopment: import.meta.env.DEV,
     isProduction: import.meta.env.PROD,
   }),
 
   // Get missing environment variables
   getMissingVars: () => {
+    // Every variable has a working default; vision runs through the SmallBlind backend
     const missing: string[] = [];
 
-    if (!import.meta.env.VITE_HUGGING_FACE_TOKEN) {
-      missing.push("VITE_HUGGING_FACE_TOKEN");
-    }
-
     return missing;
   },
 };
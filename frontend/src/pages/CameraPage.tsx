@@ -127,10 +127,17 @@ const CameraPage = () => {
 
       setAnalysisResults(results);
 
-      // Announce completion
+      // Every request checked the same image, so one quality report is enough
+      const quality = results.find((r) => r.quality)?.quality;
+      if (quality && !quality.usable) {
+        speechService.speakInstruction(quality.guidance);
+        return;
+      }
+
+      // Announce completion, with advice for a better photo if there is any
       const analysisCount = results.filter((r) => r.confidence > 0.3).length;
       speechService.speakInstruction(
-        `Analysis complete. Found ${analysisCount} result${analysisCount !== 1 ? "s" : ""}.`,
+        `Analysis complete. Found ${analysisCount} result${analysisCount !== 1 ? "s" : ""}.${quality?.guidance ? ` ${quality.guidance}` : ""}`,
       );
     } catch (error) {
       console.error("Analysis failed:", error);
@@ -52,7 +52,6 @@ const SettingsPage = () => {
   const [apiSettings, setApiSettings] = useState({
     apiKey: "",
     organizationId: "",
-    huggingFaceToken: "",
   });
 
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
@@ -63,7 +62,6 @@ const SettingsPage = () => {
     const savedCamera = localStorage.getItem("smallblind_camera");
     const savedApi = localStorage.getItem("smallblind_api_key");
     const savedOrg = localStorage.getItem("smallblind_organization_id");
-    const savedHfToken = localStorage.getItem("smallblind_hf_token");
 
     if (savedAccessibility) {
       try {
@@ -84,7 +82,6 @@ const SettingsPage = () => {
     setApiSettings({
       apiKey: savedApi || "",
       organizationId: savedOrg || "",
-      huggingFaceToken: savedHfToken || "",
     });
 
     speechService.speakInstruction(
@@ -123,7 +120,6 @@ const SettingsPage = () => {
       "smallblind_organization_id",
       apiSettings.organizationId,
     );
-    localStorage.setItem("smallblind_hf_token", apiSettings.huggingFaceToken);
 
     // Update API credentials
     if (apiSettings.apiKey && apiSettings.organizationId) {
@@ -483,30 +479,6 @@ const SettingsPage = () => {
                   </div>
                 </CardContent>
               </Card>
-
-              <Card>
-                <CardHeader>
-                  <CardTitle>Hugging Face API</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="hf-token">Access Token</Label>
-                    <Input
-                      id="hf-token"
-                      type="password"
-                      value={apiSettings.huggingFaceToken}
-                      onChange={(e) =>
-                        updateApiSettings({ huggingFaceToken: e.target.value })
-                      }
-                      placeholder="Enter your Hugging Face access token"
-                    />
-                    <p className="text-xs text-gray-500">
-                      Required for vision models (object detection, OCR, scene
-                      description)
-                    </p>
-                  </div>
-                </CardContent>
-              </Card>
             </div>
           </TabsContent>
         </Tabs>
@@ -0,0 +1,135 @@
+import { env } from "@/lib/env";
+import { ImageQuality } from "@/types";
+
+export interface LiveCameraEvent {
+  type: "entered" | "left";
+  trackId: number;
+  label: string;
+  horizontal: "left" | "center" | "right";
+  clockPosition: number;
+  message: string;
+}
+
+interface LiveCameraOptions {
+  model?: string;
+  threshold?: number;
+  dtype?: string;
+}
+
+interface LiveCameraHandlers {
+  onEvents: (events: LiveCameraEvent[]) => void;
+  // Called when the quality of the frames changes, e.g. the room got too dark
+  onQuality?: (quality: ImageQuality) => void;
+  onError?: (message: string) => void;
+  onClose?: () => void;
+}
+
+// Frames are downscaled to this width before sending; detection models work at low resolution anyway
+const FRAME_WIDTH = 480;
+const FRAME_QUALITY = 0.7;
+
+/**
+ * Live camera connection to the SmallBlind backend.
+ * Sends camera frames over a WebSocket and receives only changes
+ * ("person entered on the left", "chair no longer visible"), and guidance
+ * when the frames get too poor to analyze ("too dark, turn on a light").
+ */
+export class LiveCameraClient {
+  private socket: WebSocket | null = null;
+  private canvas = document.createElement("canvas");
+
+  /**
+   * WebSocket URL of the live camera route; the token goes in the query
+   * because browsers can't set headers on WebSocket requests
+   */
+  private getUrl(): string {
+    const base = new URL(env.API_URL || window.location.origin);
+    base.protocol = base.protocol === "https:" ? "wss:" : "ws:";
+    base.pathname = "/api/vision/live";
+
+    const token = localStorage.getItem("token");
+    if (token) {
+      base.searchParams.set("token", token);
+    }
+    return base.toString();
+  }
+
+  /**
+   * Open the connection
+   * @param handlers Callbacks for changes, errors and the connection closing
+   * @param options Detection model and threshold, sent once connected
+   */
+  connect(handlers: LiveCameraHandlers, options: LiveCameraOptions = {}): void {
+    this.close();
+
+    const socket = new WebSocket(this.getUrl());
+    socket.binaryType = "arraybuffer";
+
+    socket.onopen = () => {
+      socket.send(JSON.stringify({ type: "config", ...options }));
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data as string);
+        if (message.type === "events") {
+          handlers.onEvents(message.events);
+        } else if (message.type === "quality") {
+          handlers.onQuality?.(message);
+        } else if (message.type === "error") {
+          handlers.onError?.(message.error);
+        }
+      } catch (error) {
+        console.warn("Invalid live camera message:", error);
+      }
+    };
+    socket.onerror = () => handlers.onError?.("Live camera connection failed");
+    socket.onclose = () => {
+      if (this.socket === socket) {
+        this.socket = null;
+      }
+      handlers.onClose?.();
+    };
+
+    this.socket = socket;
+  }
+
+  /**
+   * Send a downscaled frame of the video, unless the previous one is still being sent
+   */
+  sendFrame(video: HTMLVideoElement): void {
+    const socket = this.socket;
+    if (
+      !socket ||
+      socket.readyState !== WebSocket.OPEN ||
+      socket.bufferedAmount > 0
+    ) {
+      return;
+    }
+    if (!video.videoWidth || !video.videoHeight) {
+      return;
+    }
+
+    const scale = Math.min(1, FRAME_WIDTH / video.videoWidth);
+    this.canvas.width = Math.round(video.videoWidth * scale);
+    this.canvas.height = Math.round(video.videoHeight * scale);
+    this.canvas
+      .getContext("2d")
+      ?.drawImage(video, 0, 0, this.canvas.width, this.canvas.height);
+
+    this.canvas.toBlob(
+      (blob) => {
+        if (blob && socket.readyState === WebSocket.OPEN) {
+          socket.send(blob);
+        }
+      },
+      "image/jpeg",
+      FRAME_QUALITY,
+    );
+  }
+
+  close(): void {
+    this.socket?.close();
+    this.socket = null;
+  }
+}
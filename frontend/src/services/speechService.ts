@@ -4,6 +4,8 @@ class SpeechService {
   private synthesis: SpeechSynthesis;
   private recognition: SpeechRecognition | null = null;
   private settings: AccessibilitySettings;
+  // Language the backend gives analysis results in, e.g. "pt-BR"
+  private resultLanguage = "en";
 
   constructor() {
     this.synthesis = window.speechSynthesis;
@@ -30,9 +32,17 @@ class SpeechService {
     this.settings = { ...this.settings, ...newSettings };
   }
 
+  setResultLanguage(language: string | null) {
+    this.resultLanguage = language || "en";
+  }
+
   speak(
     text: string,
-    options: { priority?: "high" | "normal"; interrupt?: boolean } = {},
+    options: {
+      priority?: "high" | "normal";
+      interrupt?: boolean;
+      lang?: string;
+    } = {},
   ): Promise<void> {
     return new Promise((resolve, reject) => {
       if (!this.settings.textToSpeech) {
@@ -53,11 +63,16 @@ class SpeechService {
       utterance.onerror = (event) =>
         reject(new Error(`Speech synthesis error: ${event.error}`));
 
-      // Select a suitable voice
+      // Select a voice of the language, English by default
+      const lang = options.lang ?? "en";
+      const primary = lang.split("-")[0].toLowerCase();
+      utterance.lang = lang;
       const voices = this.synthesis.getVoices();
-      const englishVoice = voices.find((voice) => voice.lang.startsWith("en"));
-      if (englishVoice) {
-        utterance.voice = englishVoice;
+      const voice = voices.find((voice) =>
+        voice.lang.toLowerCase().startsWith(primary),
+      );
+      if (voice) {
+        utterance.voice = voice;
       }
 
       this.synthesis.speak(utterance);
@@ -65,7 +80,11 @@ class SpeechService {
   }
 
   speakAnalysisResult(result: string) {
-    this.speak(result, { priority: "high", interrupt: false });
+    this.speak(result, {
+      priority: "high",
+      interrupt: false,
+      lang: this.resultLanguage,
+    });
   }
 
   speakNavigationInfo(text: string) {
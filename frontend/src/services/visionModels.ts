@@ -1,60 +1,177 @@
-import { VisionAnalysisResult, DetectedObject } from "@/types";
+import axios from "axios";
+import {
+  VisionAnalysisResult,
+  DetectedObject,
+  AppSettings,
+  ImageQuality,
+} from "@/types";
 import { env } from "@/lib/env";
+import { speechService } from "@/services/speechService";
 
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+}
+
+interface BoundingBox {
+  xmin: number;
+  ymin: number;
+  xmax: number;
+  ymax: number;
+  width?: number;
+  height?: number;
+}
+
+interface DetectionResponse {
+  detections: {
+    box: BoundingBox;
+    score: number;
+    label: string;
+    originalLabel?: string;
+  }[];
+  spatialSummary?: string;
+  countSummary?: string;
+  processingTime: number;
+  model: string;
+  dtype: string;
+  analysisId: string | null;
+  quality?: ImageQuality;
+}
+
+interface DescriptionResponse {
+  description: string;
+  processingTime: number;
+  model: string;
+  prompt: string;
+  analysisId: string | null;
+  quality?: ImageQuality;
+}
+
+interface OcrResponse {
+  text: string;
+  blocks: { text: string; box: BoundingBox }[];
+  processingTime: number;
+  model: string;
+  analysisId: string | null;
+  quality?: ImageQuality;
+}
+
+interface SceneAnalysisResponse {
+  summary: string;
+  detection: Omit<DetectionResponse, "analysisId"> | null;
+  description: Omit<DescriptionResponse, "analysisId"> | null;
+  errors: { detection?: string; description?: string };
+  analysisId: string | null;
+  quality?: ImageQuality;
+}
+
+const DEFAULT_SETTINGS: AppSettings = {
+  detectionThreshold: 0.5,
+  detectionModel: "Xenova/yolos-tiny",
+  detectionDtype: "fp16",
+  language: "en",
+  theme: "system",
+  notificationsEnabled: true,
+};
+
+/**
+ * Quality report of a request the backend rejected because the image was
+ * unusable (too dark, blurry, finger over the lens...)
+ */
+function qualityRejection(error: unknown): ImageQuality | undefined {
+  if (axios.isAxiosError(error) && error.response?.status === 422) {
+    return error.response.data?.quality;
+  }
+  return undefined;
+}
+
+function toDetectedObject(detection: {
+  box: BoundingBox;
+  score: number;
+  label: string;
+}): DetectedObject {
+  return {
+    label: detection.label,
+    confidence: detection.score,
+    boundingBox: {
+      x: detection.box.xmin,
+      y: detection.box.ymin,
+      width: detection.box.xmax - detection.box.xmin,
+      height: detection.box.ymax - detection.box.ymin,
+    },
+  };
+}
+
+/**
+ * Client for the SmallBlind backend vision routes.
+ * Requests carry the session token set on axios by AuthContext, so results
+ * of logged-in users are saved to their history.
+ */
 class VisionModelsService {
-  private readonly HUGGING_FACE_API_URL =
-    "https://api-inference.huggingface.co/models";
-  private readonly HUGGING_FACE_TOKEN = env.HUGGING_FACE_TOKEN;
-
-  private async callHuggingFaceAPI(
-    modelId: string,
-    imageBlob: Blob,
-  ): Promise<any> {
-    if (!this.HUGGING_FACE_TOKEN) {
-      throw new Error(
-        "Hugging Face API token not configured. Please set VITE_HUGGING_FACE_TOKEN in your environment variables.",
-      );
+  private readonly API_URL = `${env.API_URL}/api/vision`;
+  private settings: AppSettings | null = null;
+
+  private imageForm(imageFile: File): FormData {
+    const formData = new FormData();
+    formData.append("image", imageFile);
+    return formData;
+  }
+
+  /**
+   * The user's AppSettings, fetched once and reused.
+   * Falls back to the backend defaults when logged out.
+   */
+  async getSettings(): Promise<AppSettings> {
+    if (this.settings) {
+      return this.settings;
     }
 
-    const response = await fetch(`${this.HUGGING_FACE_API_URL}/${modelId}`, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${this.HUGGING_FACE_TOKEN}`,
-        "Content-Type": "application/octet-stream",
-      },
-      body: imageBlob,
-    });
-
-    if (!response.ok) {
-      throw new Error(`Hugging Face API error: ${response.statusText}`);
+    try {
+      const response = await axios.get<{ settings: AppSettings }>(
+        `${env.API_URL}/api/users/settings`,
+      );
+      this.settings = { ...DEFAULT_SETTINGS, ...response.data.settings };
+      // Results come in the language of the settings, so read them with a matching voice
+      speechService.setResultLanguage(this.settings.language);
+    } catch (error) {
+      console.warn("Using default vision settings:", error);
+      return DEFAULT_SETTINGS;
     }
 
-    return response.json();
+    return this.settings;
+  }
+
+  /**
+   * Forget the cached settings (after the user changes them or logs out)
+   */
+  clearSettings(): void {
+    this.settings = null;
   }
 
   async detectObjects(imageFile: File): Promise<VisionAnalysisResult> {
     try {
-      // Using DETR (Detection Transformer) for object detection
-      const result = await this.callHuggingFaceAPI(
-        "facebook/detr-resnet-50",
-        imageFile,
+      const settings = await this.getSettings();
+      const response = await axios.post<ApiResponse<DetectionResponse>>(
+        `${this.API_URL}/object-detection`,
+        this.imageForm(imageFile),
+        {
+          params: {
+            model: settings.detectionModel ?? undefined,
+            threshold: settings.detectionThreshold ?? undefined,
+            dtype: settings.detectionDtype ?? undefined,
+            spatial: true,
+          },
+        },
       );
+      const result = response.data.data;
 
-      const objects: DetectedObject[] = result.map((detection: any) => ({
-        label: detection.label,
-        confidence: detection.score,
-        boundingBox: {
-          x: detection.box.xmin,
-          y: detection.box.ymin,
-          width: detection.box.xmax - detection.box.xmin,
-          height: detection.box.ymax - detection.box.ymin,
-        },
-      }));
+      const objects = result.detections.map(toDetectedObject);
 
       const description =
-        objects.length > 0
-          ? `I can see ${objects.map((obj) => obj.label).join(", ")} in the image.`
-          : "No objects detected in the image.";
+        result.spatialSummary ??
+        (objects.length > 0
+          ? `I can see ${result.countSummary ?? objects.map((obj) => obj.label).join(", ")} in the image.`
+          : "No objects detected in the image.");
 
       return {
         type: "object-detection",
@@ -65,28 +182,33 @@ class VisionModelsService {
         description,
         objects,
         timestamp: new Date(),
+        analysisId: result.analysisId,
+        quality: result.quality,
       };
     } catch (error) {
       console.error("Object detection error:", error);
+      const quality = qualityRejection(error);
       return {
         type: "object-detection",
         confidence: 0,
-        description: "Unable to detect objects in the image.",
+        description:
+          quality?.guidance ?? "Unable to detect objects in the image.",
         objects: [],
         timestamp: new Date(),
+        quality,
       };
     }
   }
 
   async performOCR(imageFile: File): Promise<VisionAnalysisResult> {
     try {
-      // Using TrOCR for optical character recognition
-      const result = await this.callHuggingFaceAPI(
-        "microsoft/trocr-base-printed",
-        imageFile,
+      const response = await axios.post<ApiResponse<OcrResponse>>(
+        `${this.API_URL}/ocr`,
+        this.imageForm(imageFile),
       );
+      const result = response.data.data;
 
-      const text = result.generated_text || "";
+      const text = result.text || "";
 
       return {
         type: "ocr",
@@ -97,54 +219,158 @@ class VisionModelsService {
             : "No text detected in the image.",
         text,
         timestamp: new Date(),
+        analysisId: result.analysisId,
+        quality: result.quality,
       };
     } catch (error) {
       console.error("OCR error:", error);
+      const quality = qualityRejection(error);
       return {
         type: "ocr",
         confidence: 0,
-        description: "Unable to read text from the image.",
+        description: quality?.guidance ?? "Unable to read text from the image.",
         text: "",
         timestamp: new Date(),
+        quality,
       };
     }
   }
 
   async describeScene(imageFile: File): Promise<VisionAnalysisResult> {
     try {
-      // Using BLIP for image captioning
-      const result = await this.callHuggingFaceAPI(
-        "Salesforce/blip-image-captioning-large",
-        imageFile,
+      const response = await axios.post<ApiResponse<DescriptionResponse>>(
+        `${this.API_URL}/describe-image`,
+        this.imageForm(imageFile),
       );
+      const result = response.data.data;
 
       const description =
-        result.generated_text || "Unable to describe the scene.";
+        result.description || "Unable to describe the scene.";
 
       return {
         type: "scene-description",
-        confidence: 0.8,
+        confidence: result.description ? 0.8 : 0,
         description: `Scene description: ${description}`,
         timestamp: new Date(),
+        analysisId: result.analysisId,
+        quality: result.quality,
       };
     } catch (error) {
       console.error("Scene description error:", error);
+      const quality = qualityRejection(error);
       return {
         type: "scene-description",
         confidence: 0,
-        description: "Unable to describe the scene.",
+        description: quality?.guidance ?? "Unable to describe the scene.",
         timestamp: new Date(),
+        quality,
       };
     }
   }
 
+  /**
+   * Detect objects and describe the scene in one request.
+   * Returns the detection result and the fused spoken summary.
+   */
+  async analyzeScene(imageFile: File): Promise<VisionAnalysisResult[]> {
+    try {
+      const settings = await this.getSettings();
+      const response = await axios.post<ApiResponse<SceneAnalysisResponse>>(
+        `${this.API_URL}/analyze`,
+        this.imageForm(imageFile),
+        {
+          params: {
+            detectionModel: settings.detectionModel ?? undefined,
+            threshold: settings.detectionThreshold ?? undefined,
+            dtype: settings.detectionDtype ?? undefined,
+          },
+        },
+      );
+      const result = response.data.data;
+
+      const objects = (result.detection?.detections ?? []).map(
+        toDetectedObject,
+      );
+
+      return [
+        {
+          type: "object-detection",
+          confidence:
+            objects.length > 0
+              ? Math.max(...objects.map((obj) => obj.confidence))
+              : 0,
+          description: result.detection
+            ? `Found ${objects.length} object${objects.length === 1 ? "" : "s"}.`
+            : "Unable to detect objects in the image.",
+          objects,
+          timestamp: new Date(),
+          analysisId: result.analysisId,
+          quality: result.quality,
+        },
+        {
+          type: "scene-description",
+          confidence: result.description ? 0.8 : 0,
+          description: result.summary,
+          timestamp: new Date(),
+          analysisId: result.analysisId,
+          quality: result.quality,
+        },
+      ];
+    } catch (error) {
+      console.error("Scene analysis error:", error);
+      const quality = qualityRejection(error);
+      if (quality) {
+        // One answer is enough: neither analysis ran
+        return [
+          {
+            type: "scene-description",
+            confidence: 0,
+            description: quality.guidance,
+            timestamp: new Date(),
+            quality,
+          },
+        ];
+      }
+      return [
+        {
+          type: "object-detection",
+          confidence: 0,
+          description: "Unable to detect objects in the image.",
+          objects: [],
+          timestamp: new Date(),
+        },
+        {
+          type: "scene-description",
+          confidence: 0,
+          description: "Unable to describe the scene.",
+          timestamp: new Date(),
+        },
+      ];
+    }
+  }
+
   async analyzeImage(
     imageFile: File,
     analysisTypes: string[] = ["object-detection", "scene-description"],
   ): Promise<VisionAnalysisResult[]> {
     const results: VisionAnalysisResult[] = [];
 
+    // Detection and description together go through the combined endpoint
+    if (
+      analysisTypes.includes("object-detection") &&
+      analysisTypes.includes("scene-description")
+    ) {
+      results.push(...(await this.analyzeScene(imageFile)));
+      analysisTypes = analysisTypes.filter(
+        (type) => type !== "object-detection" && type !== "scene-description",
+      );
+    }
+
     for (const type of analysisTypes) {
+      // The other analyses would reject the same unusable image
+      if (results.some((result) => result.quality?.usable === false)) {
+        break;
+      }
       switch (type) {
         case "object-detection":
           results.push(await this.detectObjects(imageFile));
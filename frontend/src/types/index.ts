@@ -26,6 +26,26 @@ export interface VisionAnalysisResult {
   text?: string;
   faces?: RecognizedFace[];
   timestamp: Date;
+  // Id of the VisionAnalysis saved by the backend, when the user is logged in
+  analysisId?: string | null;
+  // Quality check of the image, with guidance when it was too poor to analyze
+  quality?: ImageQuality;
+}
+
+export interface ImageQuality {
+  usable: boolean;
+  issues: {
+    code:
+      | "too-dark"
+      | "overexposed"
+      | "blurry"
+      | "low-information"
+      | "lens-covered";
+    severity: "warning" | "unusable";
+    guidance: string;
+  }[];
+  // Guidance of all issues as one sentence, empty for good images
+  guidance: string;
 }
 
 export interface DetectedObject {
@@ -51,6 +71,28 @@ export interface RecognizedFace {
   };
 }
 
+export interface AppSettings {
+  detectionThreshold: number | null;
+  detectionModel: string | null;
+  detectionDtype: string | null;
+  language: string | null;
+  theme: string | null;
+  notificationsEnabled: boolean;
+  detectionProfiles?: Record<string, DetectionProfile> | null;
+  activeDetectionProfile?: string | null;
+}
+
+/** Detection settings saved under a name, applied by the backend */
+export interface DetectionProfile {
+  threshold?: number;
+  maxObjects?: number;
+  includeLabels?: string[];
+  excludeLabels?: string[];
+  classThresholds?: Record<string, number>;
+  nmsThreshold?: number;
+  rankBy?: "score" | "area";
+}
+
 export interface CameraSettings {
   resolution: "low" | "medium" | "high";
   autoCapture: boolean;
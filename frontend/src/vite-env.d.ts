@@ -2,7 +2,7 @@
 
 interface ImportMetaEnv {
   readonly VITE_FACIAL_RECOGNITION_API_URL: string;
-  readonly VITE_HUGGING_FACE_TOKEN: string;
+  readonly VITE_API_URL?: string;
 }
 
 interface ImportMeta {